@@ -25,6 +25,7 @@ import Animated, {
 import { AuthProvider, useAuth } from './src/contexts/AuthContext';
 import { AppDataProvider } from './src/contexts/AppDataContext';
 import { ConfirmationModalProvider, ActionSheetProvider } from './src/utils/notificationService';
+import { initEnvironment } from './src/config/environment';
 
 // Prevent auto-hide of splash screen
 SplashScreen.preventAutoHideAsync();
@@ -50,12 +51,15 @@ import RechargeScreen from './screens/RechargeScreen';
 
 // Feature Screens - Horoscope & Kundli
 import DailyHoroscopeScreen from './screens/DailyHoroscopeScreen';
+import PanchangScreen from './screens/PanchangScreen';
 import KundliDashboardScreen from './screens/KundliDashboardScreen';
 import KundliGenerationScreen from './screens/KundliGenerationScreen';
 import KundliReportScreen from './screens/KundliReportScreen';
 import KundliMatchingDashboardScreen from './screens/KundliMatchingDashboardScreen';
+import CandidateComparisonScreen from './screens/CandidateComparisonScreen';
 import KundliMatchingInputScreen from './screens/KundliMatchingInputScreen';
 import KundliMatchingReportScreen from './screens/KundliMatchingReportScreen';
+import DeveloperToolsScreen from './screens/DeveloperToolsScreen';
 
 // Create Navigators
 const Stack = createNativeStackNavigator();
@@ -152,7 +156,7 @@ const MainTabs = () => {
  * Uses Tab Navigator for main screens + Stack for detail screens
  */
 const Navigation = () => {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading, signOutReason } = useAuth();
 
   // Show loading screen while checking auth
   if (isLoading) {
@@ -166,6 +170,8 @@ const Navigation = () => {
   return (
     <NavigationContainer>
       <Stack.Navigator
+        // Involuntary sign-outs skip Welcome and land on SignIn with a reason banner
+        initialRouteName={signOutReason ? 'SignIn' : undefined}
         screenOptions={{
           headerShown: false,
           animation: 'ios_from_right', // Native iOS push with parallax effect
@@ -232,6 +238,10 @@ const Navigation = () => {
               name="DailyHoroscope"
               component={DailyHoroscopeScreen}
             />
+            <Stack.Screen
+              name="Panchang"
+              component={PanchangScreen}
+            />
             <Stack.Screen
               name="KundliDashboard"
               component={KundliDashboardScreen}
@@ -256,6 +266,17 @@ const Navigation = () => {
               name="KundliMatchingReport"
               component={KundliMatchingReportScreen}
             />
+            <Stack.Screen
+              name="CandidateComparison"
+              component={CandidateComparisonScreen}
+            />
+            {/* Debug builds only - opened from Sidebar "Settings" */}
+            {__DEV__ && (
+              <Stack.Screen
+                name="DeveloperTools"
+                component={DeveloperToolsScreen}
+              />
+            )}
           </>
         )}
       </Stack.Navigator>
@@ -283,7 +304,9 @@ export default function App() {
 
   useEffect(() => {
     // Hide the native splash screen once our custom one is ready
+    // The environment must be resolved before any API call goes out
     const hideSplash = async () => {
+      await initEnvironment();
       await SplashScreen.hideAsync();
       setAppIsReady(true);
     };
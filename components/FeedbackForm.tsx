@@ -28,9 +28,10 @@ import {
   Send,
   AlertCircle,
 } from 'lucide-react-native';
-import { feedbackService } from '../src/services';
+import { feedbackService, OutboxQueuedError } from '../src/services';
 import NotificationService from '../src/utils/notificationService';
 import { handleApiError } from '../src/utils/errorHandler';
+import OutboxStatusBanner from './OutboxStatusBanner';
 
 interface FeedbackFormProps {
   scale?: number;
@@ -287,6 +288,13 @@ export const FeedbackForm: React.FC<FeedbackFormProps> = ({ scale = 1 }) => {
     return !newErrors.name && !newErrors.email && !newErrors.feedback;
   };
 
+  const resetForm = () => {
+    setName('');
+    setEmail('');
+    setFeedback('');
+    setErrors({ name: '', email: '', feedback: '' });
+  };
+
   const handleSubmit = async () => {
     if (!validateForm()) {
       if (Platform.OS !== 'web') {
@@ -308,12 +316,14 @@ export const FeedbackForm: React.FC<FeedbackFormProps> = ({ scale = 1 }) => {
       NotificationService.success('Thank you for your feedback!');
 
       // Clear form
-      setName('');
-      setEmail('');
-      setFeedback('');
-      setErrors({ name: '', email: '', feedback: '' });
+      resetForm();
     } catch (error: any) {
       handleApiError(error);
+
+      // Queued feedback will be sent later - the form has done its job
+      if (error instanceof OutboxQueuedError) {
+        resetForm();
+      }
     } finally {
       setIsSubmitting(false);
     }
@@ -329,6 +339,8 @@ export const FeedbackForm: React.FC<FeedbackFormProps> = ({ scale = 1 }) => {
         <Text style={styles.subtitle}>We value your opinion to improve our services.</Text>
       </View>
 
+      <OutboxStatusBanner types={['submit_feedback']} scale={scale} />
+
       <View style={styles.form}>
         <OutlinedTextField
           label="Full Name"
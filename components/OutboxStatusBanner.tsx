@@ -0,0 +1,152 @@
+/**
+ * OutboxStatusBanner
+ * Shows changes waiting to sync and lets the user retry or discard failed ones
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import Animated, { FadeIn, FadeOut } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+import { CloudOff, CircleAlert } from 'lucide-react-native';
+import { useOutbox } from '../src/hooks/useOutbox';
+import { OutboxEntry, OutboxMutationType } from '../src/types/outbox.types';
+import NotificationService from '../src/utils/notificationService';
+
+interface OutboxStatusBannerProps {
+  types?: OutboxMutationType[]; // Only show these mutation types (default: all)
+  onReplayed?: (entry: OutboxEntry) => void;
+  scale?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+const MUTATION_LABELS: Record<OutboxMutationType, string> = {
+  update_profile: 'Profile update',
+  submit_review: 'Review',
+  submit_feedback: 'Feedback',
+};
+
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const OutboxStatusBanner: React.FC<OutboxStatusBannerProps> = ({
+  types,
+  onReplayed,
+  scale = 1,
+  style,
+}) => {
+  const { entries, pendingCount, failedCount, retryAllFailed, discard } = useOutbox({
+    types,
+    onReplayed,
+  });
+
+  if (pendingCount === 0 && failedCount === 0) {
+    return null;
+  }
+
+  const failedEntries = entries.filter((entry) => entry.status === 'failed');
+
+  const handleRetry = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    retryAllFailed();
+  };
+
+  const handleDiscard = () => {
+    NotificationService.confirm({
+      title: 'Discard Changes',
+      message: `${pluralize(failedCount, 'change')} will not be sent. This cannot be undone.`,
+      confirmText: 'Discard',
+      destructive: true,
+      onConfirm: () => {
+        failedEntries.forEach((entry) => discard(entry.id));
+      },
+    });
+  };
+
+  return (
+    <Animated.View entering={FadeIn.duration(300)} exiting={FadeOut.duration(200)} style={style}>
+      {pendingCount > 0 && (
+        <View
+          style={[
+            styles.banner,
+            styles.pendingBanner,
+            { padding: 12 * scale, borderRadius: 12 * scale, marginBottom: 8 * scale },
+          ]}
+        >
+          <CloudOff size={18 * scale} color="#2930A6" />
+          <View style={[styles.textContainer, { marginLeft: 10 * scale }]}>
+            <Text style={[styles.title, { fontSize: 13 * scale }]}>
+              {pluralize(pendingCount, 'change')} waiting to sync
+            </Text>
+            <Text style={[styles.message, { fontSize: 11 * scale }]}>
+              We'll send them when you're back online.
+            </Text>
+          </View>
+        </View>
+      )}
+
+      {failedCount > 0 && (
+        <View
+          style={[
+            styles.banner,
+            styles.failedBanner,
+            { padding: 12 * scale, borderRadius: 12 * scale, marginBottom: 8 * scale },
+          ]}
+        >
+          <CircleAlert size={18 * scale} color="#EF4444" />
+          <View style={[styles.textContainer, { marginLeft: 10 * scale }]}>
+            <Text style={[styles.title, { fontSize: 13 * scale }]}>
+              {failedCount === 1
+                ? `${MUTATION_LABELS[failedEntries[0].type]} couldn't be sent`
+                : `${pluralize(failedCount, 'change')} couldn't be sent`}
+            </Text>
+            {failedCount === 1 && failedEntries[0].lastError ? (
+              <Text style={[styles.message, { fontSize: 11 * scale }]} numberOfLines={2}>
+                {failedEntries[0].lastError}
+              </Text>
+            ) : null}
+          </View>
+          <TouchableOpacity onPress={handleDiscard} style={{ marginLeft: 8 * scale }}>
+            <Text style={[styles.discardText, { fontSize: 12 * scale }]}>Discard</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleRetry} style={{ marginLeft: 12 * scale }}>
+            <Text style={[styles.retryText, { fontSize: 12 * scale }]}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  pendingBanner: {
+    backgroundColor: '#EEF0FF',
+  },
+  failedBanner: {
+    backgroundColor: '#FEF2F2',
+  },
+  textContainer: {
+    flex: 1,
+  },
+  title: {
+    fontFamily: 'Lexend_600SemiBold',
+    color: '#333333',
+  },
+  message: {
+    fontFamily: 'Lexend_400Regular',
+    color: '#666666',
+    marginTop: 2,
+  },
+  retryText: {
+    fontFamily: 'Lexend_600SemiBold',
+    color: '#2930A6',
+  },
+  discardText: {
+    fontFamily: 'Lexend_400Regular',
+    color: '#EF4444',
+  },
+});
+
+export default OutboxStatusBanner;
@@ -15,6 +15,7 @@ import { useFonts } from 'expo-font';
 import { Lexend_500Medium, Lexend_600SemiBold } from '@expo-google-fonts/lexend';
 import { Poppins_500Medium } from '@expo-google-fonts/poppins';
 import { useAuth } from '../src/contexts/AuthContext';
+import { showEnvironmentMenu } from '../src/utils/developerMenu';
 import {
   Home,
   MessageSquare,
@@ -44,6 +45,7 @@ interface MenuItem {
   label: string;
   icon: any;
   onPress: () => void;
+  onLongPress?: () => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ visible, onClose, navigation }) => {
@@ -166,9 +168,21 @@ const Sidebar: React.FC<SidebarProps> = ({ visible, onClose, navigation }) => {
       label: 'Settings',
       icon: Settings,
       onPress: () => {
-        console.log('Navigate to Settings');
         onClose();
+        // Hidden developer tools (debug builds only)
+        if (__DEV__) {
+          navigation?.navigate('DeveloperTools');
+        } else {
+          console.log('Navigate to Settings');
+        }
       },
+      // Hidden developer menu (debug builds only)
+      onLongPress: __DEV__
+        ? () => {
+            onClose();
+            showEnvironmentMenu();
+          }
+        : undefined,
     },
     {
       id: 'profile',
@@ -343,6 +357,7 @@ const MenuItem: React.FC<MenuItemProps> = ({ item, index, visible }) => {
       <TouchableOpacity
         style={styles.menuItem}
         onPress={item.onPress}
+        onLongPress={item.onLongPress}
         onPressIn={handlePressIn}
         onPressOut={handlePressOut}
         activeOpacity={1}
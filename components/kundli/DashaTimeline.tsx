@@ -0,0 +1,222 @@
+/**
+ * DashaTimeline Component
+ * Collapsible dasha periods, from mahadasha down to prana
+ *
+ * Sub-periods are calculated only when a period is expanded. The running
+ * period at each level is highlighted, and the running mahadasha and
+ * antardasha start expanded.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { ChevronDown, ChevronRight } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+
+import { DashaPeriod, ReportLanguage } from '../../src/types/kundli';
+import { DashaSystem } from '../../src/types/astrology';
+import {
+  DASHA_LEVELS,
+  DASHA_LEVEL_LABELS,
+  getDashaLordLabel,
+  getSubPeriods,
+  isPeriodRunning,
+} from '../../src/astrology';
+
+interface DashaTimelineProps {
+  periods: DashaPeriod[];
+  system: DashaSystem;
+  level?: number; // 0 = mahadasha
+  language?: ReportLanguage;
+  scale?: number;
+}
+
+const MS_PER_DAY = 86400000;
+
+const TIMELINE_TEXT: Record<ReportLanguage, {
+  now: string;
+  years: string;
+  months: string;
+  days: string;
+  hours: string;
+}> = {
+  en: { now: 'Now', years: 'years', months: 'months', days: 'days', hours: 'hours' },
+  ta: { now: 'நடப்பு', years: 'ஆண்டுகள்', months: 'மாதங்கள்', days: 'நாட்கள்', hours: 'மணி நேரம்' },
+};
+
+// Periods below antardasha can be days or hours long, so they show the time too
+const formatPeriodDate = (iso: string, withTime: boolean): string => {
+  const date = new Date(iso);
+  const day = date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+  if (!withTime) return day;
+  return `${day}, ${date.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+const formatDuration = (period: DashaPeriod, language: ReportLanguage): string => {
+  const text = TIMELINE_TEXT[language];
+  const days = (Date.parse(period.endDate) - Date.parse(period.startDate)) / MS_PER_DAY;
+  if (days >= 365.25) return `${Math.round((days / 365.25) * 10) / 10} ${text.years}`;
+  if (days >= 30.44) return `${Math.round(days / 30.44)} ${text.months}`;
+  if (days >= 1) return `${Math.round(days)} ${text.days}`;
+  return `${Math.round(days * 24)} ${text.hours}`;
+};
+
+const DashaTimelineItem = ({
+  period,
+  system,
+  level,
+  language,
+  scale,
+}: {
+  period: DashaPeriod;
+  system: DashaSystem;
+  level: number;
+  language: ReportLanguage;
+  scale: number;
+}) => {
+  const isRunning = isPeriodRunning(period);
+  const canExpand = level < DASHA_LEVELS.length - 1;
+  const [expanded, setExpanded] = useState(isRunning && level < 2);
+
+  const subPeriods = useMemo(
+    () => (expanded && canExpand ? getSubPeriods(period, system) : []),
+    [expanded, canExpand, period, system]
+  );
+
+  const handlePress = () => {
+    Haptics.selectionAsync();
+    setExpanded((current) => !current);
+  };
+
+  const Chevron = expanded ? ChevronDown : ChevronRight;
+
+  return (
+    <View>
+      <TouchableOpacity
+        activeOpacity={canExpand ? 0.7 : 1}
+        disabled={!canExpand}
+        onPress={handlePress}
+        style={[
+          styles.item,
+          { paddingVertical: (level === 0 ? 12 : 8) * scale },
+          isRunning && styles.itemRunning,
+        ]}
+      >
+        <View style={[
+          styles.dot,
+          { width: 10 * scale, height: 10 * scale, borderRadius: 5 * scale },
+          isRunning && styles.dotRunning,
+        ]} />
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={[styles.planet, { fontSize: (level === 0 ? 15 : 13) * scale }]}>
+              {getDashaLordLabel(system, period.planet, language)} {DASHA_LEVEL_LABELS[language][level]}
+            </Text>
+            {canExpand && <Chevron size={16 * scale} color="#888888" />}
+          </View>
+          <Text style={[styles.dates, { fontSize: 12 * scale }]}>
+            {formatPeriodDate(period.startDate, level >= 2)} - {formatPeriodDate(period.endDate, level >= 2)}
+            {'  ·  '}
+            {formatDuration(period, language)}
+          </Text>
+          {isRunning && (
+            <View style={[styles.badge, { marginTop: 4 * scale }]}>
+              <Text style={[styles.badgeText, { fontSize: 10 * scale }]}>{TIMELINE_TEXT[language].now}</Text>
+            </View>
+          )}
+        </View>
+      </TouchableOpacity>
+
+      {subPeriods.length > 0 && (
+        <View style={[styles.children, { paddingLeft: 12 * scale }]}>
+          <DashaTimeline
+            periods={subPeriods}
+            system={system}
+            level={level + 1}
+            language={language}
+            scale={scale}
+          />
+        </View>
+      )}
+    </View>
+  );
+};
+
+export const DashaTimeline: React.FC<DashaTimelineProps> = ({
+  periods,
+  system,
+  level = 0,
+  language = 'en',
+  scale = 1,
+}) => (
+  <View>
+    {periods.map((period) => (
+      <DashaTimelineItem
+        key={`${period.planet}-${period.startDate}`}
+        period={period}
+        system={system}
+        level={level}
+        language={language}
+        scale={scale}
+      />
+    ))}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  item: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  itemRunning: {
+    backgroundColor: 'rgba(41, 48, 166, 0.05)',
+    borderRadius: 8,
+    marginHorizontal: -8,
+    paddingHorizontal: 8,
+  },
+  dot: {
+    backgroundColor: '#2930A6',
+    marginRight: 12,
+    marginTop: 5,
+  },
+  dotRunning: {
+    backgroundColor: '#22C55E',
+  },
+  content: {
+    flex: 1,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+    paddingBottom: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  planet: {
+    fontFamily: 'Lexend_500Medium',
+    color: '#1a1a1a',
+  },
+  dates: {
+    fontFamily: 'Lexend_400Regular',
+    color: '#888888',
+    marginTop: 2,
+  },
+  badge: {
+    backgroundColor: '#22C55E',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    alignSelf: 'flex-start',
+  },
+  badgeText: {
+    fontFamily: 'Lexend_500Medium',
+    color: '#FFFFFF',
+  },
+  children: {
+    borderLeftWidth: 1,
+    borderLeftColor: '#E0E0E0',
+    marginLeft: 4,
+  },
+});
+
+export default DashaTimeline;
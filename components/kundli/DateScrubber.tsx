@@ -0,0 +1,124 @@
+/**
+ * DateScrubber Component
+ * Slider that scrubs through days between two dates
+ *
+ * Dragging or tapping the track picks a day. Optional marks (e.g. upcoming
+ * ingresses) are drawn as ticks on the track.
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import * as Haptics from 'expo-haptics';
+
+interface DateScrubberProps {
+  value: Date;
+  minimumDate: Date;
+  maximumDate: Date;
+  onChange: (date: Date) => void;
+  marks?: Date[];
+  scale?: number;
+}
+
+const MS_PER_DAY = 86400000;
+
+export const DateScrubber: React.FC<DateScrubberProps> = ({
+  value,
+  minimumDate,
+  maximumDate,
+  onChange,
+  marks = [],
+  scale = 1,
+}) => {
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  const totalDays = Math.max(1, Math.round((maximumDate.getTime() - minimumDate.getTime()) / MS_PER_DAY));
+  const toFraction = (date: Date) =>
+    Math.min(1, Math.max(0, (date.getTime() - minimumDate.getTime()) / (totalDays * MS_PER_DAY)));
+  const dayIndex = Math.round(toFraction(value) * totalDays);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setTrackWidth(event.nativeEvent.layout.width);
+  };
+
+  const selectAt = (x: number) => {
+    if (trackWidth <= 0) return;
+    const index = Math.round(Math.min(1, Math.max(0, x / trackWidth)) * totalDays);
+    if (index !== dayIndex) {
+      onChange(new Date(minimumDate.getTime() + index * MS_PER_DAY));
+    }
+  };
+
+  // Horizontal drags only, so the report can still scroll vertically over the slider
+  const pan = Gesture.Pan()
+    .runOnJS(true)
+    .activeOffsetX([-8, 8])
+    .failOffsetY([-12, 12])
+    .onUpdate((event) => selectAt(event.x))
+    .onEnd(() => Haptics.selectionAsync());
+
+  const tap = Gesture.Tap()
+    .runOnJS(true)
+    .onEnd((event) => {
+      Haptics.selectionAsync();
+      selectAt(event.x);
+    });
+
+  const thumbSize = 22 * scale;
+  const position = toFraction(value) * trackWidth;
+
+  return (
+    <GestureDetector gesture={Gesture.Race(pan, tap)}>
+      <View style={[styles.container, { height: thumbSize + 12 * scale }]} onLayout={handleLayout}>
+        <View style={[styles.track, { height: 4 * scale, borderRadius: 2 * scale }]} />
+        <View style={[styles.fill, { width: position, height: 4 * scale, borderRadius: 2 * scale }]} />
+        {trackWidth > 0 && marks.map((mark) => (
+          <View
+            key={mark.getTime()}
+            style={[
+              styles.mark,
+              { left: toFraction(mark) * trackWidth - 1, width: 2, height: 12 * scale },
+            ]}
+          />
+        ))}
+        <View
+          style={[
+            styles.thumb,
+            {
+              left: position - thumbSize / 2,
+              width: thumbSize,
+              height: thumbSize,
+              borderRadius: thumbSize / 2,
+            },
+          ]}
+        />
+      </View>
+    </GestureDetector>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    justifyContent: 'center',
+  },
+  track: {
+    backgroundColor: '#E0E0E0',
+  },
+  fill: {
+    position: 'absolute',
+    left: 0,
+    backgroundColor: '#2930A6',
+  },
+  mark: {
+    position: 'absolute',
+    backgroundColor: '#D97706',
+  },
+  thumb: {
+    position: 'absolute',
+    backgroundColor: '#FFFFFF',
+    borderWidth: 3,
+    borderColor: '#2930A6',
+  },
+});
+
+export default DateScrubber;
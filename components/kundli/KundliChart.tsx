@@ -0,0 +1,211 @@
+/**
+ * KundliChart Component
+ * Draws a chart from its houses in South, North or East Indian style
+ *
+ * South and East Indian charts keep the signs fixed and mark the lagna;
+ * North Indian charts keep the houses fixed and number the signs. Tapping a
+ * house shows its sign and grahas below the chart. Transit positions can be
+ * overlaid on the same houses in a separate colour.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Svg, { G, Polygon, Text as SvgText } from 'react-native-svg';
+import * as Haptics from 'expo-haptics';
+
+import {
+  ChartData,
+  ChartStyle,
+  EnhancedPlanetDisplayInfo,
+  ReportLanguage,
+} from '../../src/types/kundli';
+import { GrahaId } from '../../src/types/astrology';
+import {
+  CHART_MARKERS,
+  CHART_TEXT,
+  GRAHA_LABELS,
+  SIGNS,
+  SIGN_LABELS,
+  getSignIndex,
+} from '../../src/astrology';
+import {
+  CHART_SIZE,
+  TRANSIT_COLOR,
+  ChartRegion,
+  ChartBody,
+  formatGlyph,
+  getBodyColor,
+  getChartBodies,
+  getChartCells,
+  getSignLabel,
+  layoutLabels,
+  toSvgPoints,
+} from '../../src/utils/chartLayout';
+
+interface KundliChartProps {
+  houses: ChartData['houses'];
+  chartStyle: ChartStyle;
+  planets?: EnhancedPlanetDisplayInfo[]; // Source of retrograde flags
+  transitHouses?: ChartData['houses']; // Transit positions over the same houses
+  transitPlanets?: Pick<EnhancedPlanetDisplayInfo, 'name' | 'isRetrograde'>[];
+  language?: ReportLanguage;
+  scale?: number;
+}
+
+export const KundliChart: React.FC<KundliChartProps> = ({
+  houses,
+  chartStyle,
+  planets = [],
+  transitHouses,
+  transitPlanets = [],
+  language = 'en',
+  scale = 1,
+}) => {
+  const [selectedHouse, setSelectedHouse] = useState<number | null>(null);
+
+  const markers = CHART_MARKERS[language];
+  const text = CHART_TEXT[language];
+
+  const bodiesByHouse = useMemo(() => {
+    const natal = getChartBodies(houses, planets);
+    if (!transitHouses) return natal;
+    const transits = getChartBodies(transitHouses, transitPlanets, { transit: true });
+    transits.forEach((bodies, houseNumber) => {
+      natal.set(houseNumber, [...(natal.get(houseNumber) || []), ...bodies]);
+    });
+    return natal;
+  }, [houses, planets, transitHouses, transitPlanets]);
+  const cells = useMemo(() => getChartCells(houses, chartStyle), [houses, chartStyle]);
+
+  const handleHousePress = (houseNumber: number) => {
+    Haptics.selectionAsync();
+    setSelectedHouse((current) => (current === houseNumber ? null : houseNumber));
+  };
+
+  const renderLabels = (region: ChartRegion, bodies: ChartBody[]) =>
+    layoutLabels(region, bodies).map(({ body, x, y }) => (
+      <SvgText
+        key={`${body.isTransit ? 'transit-' : ''}${body.id}`}
+        x={x}
+        y={y}
+        fontSize={9}
+        fontFamily="Lexend_500Medium"
+        fill={getBodyColor(body)}
+        textAnchor="middle"
+      >
+        {formatGlyph(body, language)}
+      </SvgText>
+    ));
+
+  const selected = selectedHouse !== null
+    ? houses.find((house) => house.number === selectedHouse)
+    : undefined;
+  const selectedSignIndex = selected ? getSignIndex(selected.sign) : -1;
+  const selectedBodies = selected
+    ? (bodiesByHouse.get(selected.number) || []).filter((body) => body.id !== 'lagna')
+    : [];
+
+  return (
+    <View>
+      <Svg width="100%" height={undefined} viewBox={`0 0 ${CHART_SIZE} ${CHART_SIZE}`} style={{ aspectRatio: 1 }}>
+        {cells.map(({ region, house, signIndex }, index) => {
+          const isSelected = house !== undefined && house.number === selectedHouse;
+          const isLagna = house?.number === 1;
+
+          return (
+            <G key={index} onPress={house ? () => handleHousePress(house.number) : undefined}>
+              <Polygon
+                points={toSvgPoints(region.points)}
+                fill={isSelected ? '#E8E9FA' : isLagna ? '#FFF8E1' : '#FFFFFF'}
+                stroke="#2930A6"
+                strokeWidth={1}
+              />
+              {signIndex >= 0 && (
+                <SvgText
+                  x={region.signAt[0]}
+                  y={region.signAt[1]}
+                  fontSize={7.5}
+                  fontFamily="Lexend_400Regular"
+                  fill="#8C8C8C"
+                  textAnchor={region.signAnchor}
+                >
+                  {getSignLabel(chartStyle, signIndex, language)}
+                </SvgText>
+              )}
+              {house && renderLabels(region, bodiesByHouse.get(house.number) || [])}
+            </G>
+          );
+        })}
+      </Svg>
+
+      {/* Legend */}
+      <Text style={[styles.legend, { fontSize: 11 * scale, marginTop: 8 * scale }]}>
+        {markers.retrograde} {text.retrograde}   {markers.exalted} {text.exalted}   {markers.debilitated} {text.debilitated}
+        {transitHouses && <Text style={{ color: TRANSIT_COLOR }}>   ● {text.transit}</Text>}
+      </Text>
+
+      {/* Selected house details */}
+      {selected ? (
+        <View style={[styles.details, { padding: 12 * scale, marginTop: 8 * scale, borderRadius: 10 * scale }]}>
+          <Text style={[styles.detailsTitle, { fontSize: 14 * scale }]}>
+            {text.house} {selected.number}
+            {selectedSignIndex >= 0 &&
+              ` · ${SIGN_LABELS[language][selectedSignIndex]} (${
+                GRAHA_LABELS[language][SIGNS[selectedSignIndex].lord.toLowerCase() as GrahaId]
+              })`}
+          </Text>
+          {selectedBodies.length === 0 ? (
+            <Text style={[styles.detailsText, { fontSize: 12 * scale, marginTop: 6 * scale }]}>
+              {text.emptyHouse}
+            </Text>
+          ) : (
+            selectedBodies.map((body) => {
+              const tags = [
+                body.isTransit ? text.transit : null,
+                body.isRetrograde ? text.retrograde : null,
+                body.dignity ? text[body.dignity] : null,
+              ].filter(Boolean);
+              return (
+                <Text
+                  key={`${body.isTransit ? 'transit-' : ''}${body.id}`}
+                  style={[styles.detailsText, { fontSize: 12 * scale, marginTop: 6 * scale }]}
+                >
+                  <Text style={{ color: getBodyColor(body) }}>{GRAHA_LABELS[language][body.id]}</Text>
+                  {tags.length > 0 && ` · ${tags.join(', ')}`}
+                </Text>
+              );
+            })
+          )}
+        </View>
+      ) : (
+        <Text style={[styles.hint, { fontSize: 11 * scale, marginTop: 4 * scale }]}>{text.tapHint}</Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  legend: {
+    fontFamily: 'Lexend_400Regular',
+    color: '#595959',
+    textAlign: 'center',
+  },
+  hint: {
+    fontFamily: 'Lexend_400Regular',
+    color: '#8C8C8C',
+    textAlign: 'center',
+  },
+  details: {
+    backgroundColor: 'rgba(41, 48, 166, 0.08)',
+  },
+  detailsTitle: {
+    fontFamily: 'Lexend_600SemiBold',
+    color: '#2930A6',
+  },
+  detailsText: {
+    fontFamily: 'Lexend_400Regular',
+    color: '#1a1a1a',
+  },
+});
+
+export default KundliChart;
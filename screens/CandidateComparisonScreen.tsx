@@ -0,0 +1,733 @@
+/**
+ * CandidateComparisonScreen
+ * Ranks marriage proposals for one profile, computed on-device
+ *
+ * Features:
+ * - Pick the profile and any number of candidates from saved kundlis
+ * - Ranked table with total score, every guna, Nadi/Bhakoot dosha and verdict
+ * - Sort by any column (tap again to reverse)
+ * - Export the table as a PDF
+ */
+
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Platform,
+  StatusBar as RNStatusBar,
+  ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { ChevronLeft, Check, Share2, ArrowDown, ArrowUp } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import * as Sharing from 'expo-sharing';
+
+import { BottomNavBar } from '../components/BottomNavBar';
+import { useResponsiveLayout } from '../src/utils/responsive';
+import { useSavedKundlis } from '../src/hooks/useKundliStorage';
+import { candidateMatchingService } from '../src/services/candidateMatching.service';
+import { ASHTAKOOT_MAX_SCORE } from '../src/astrology';
+import { CandidateMatch, CandidateSortKey, MatchingVerdict, SavedKundli } from '../src/types/kundli';
+import NotificationService from '../src/utils/notificationService';
+
+// Guna columns of the table, in Ashtakoot order
+const GUNA_COLUMNS: { key: CandidateSortKey; label: string; maxPoints: number }[] = [
+  { key: 'varna', label: 'Varna', maxPoints: 1 },
+  { key: 'vashya', label: 'Vashya', maxPoints: 2 },
+  { key: 'tara', label: 'Tara', maxPoints: 3 },
+  { key: 'yoni', label: 'Yoni', maxPoints: 4 },
+  { key: 'graha_maitri', label: 'Maitri', maxPoints: 5 },
+  { key: 'gana', label: 'Gana', maxPoints: 6 },
+  { key: 'bhakoot', label: 'Bhakoot', maxPoints: 7 },
+  { key: 'nadi', label: 'Nadi', maxPoints: 8 },
+];
+
+const SORT_OPTIONS: { key: CandidateSortKey; label: string }[] = [
+  { key: 'total', label: 'Total' },
+  { key: 'name', label: 'Name' },
+  ...GUNA_COLUMNS,
+];
+
+const VERDICTS: Record<MatchingVerdict['rating'], { text: string; color: string }> = {
+  excellent: { text: 'Excellent', color: '#22C55E' },
+  good: { text: 'Good', color: '#F59E0B' },
+  average: { text: 'Average', color: '#3B82F6' },
+  below_average: { text: 'Below Average', color: '#EF4444' },
+};
+
+const DOSHA_COLOR = '#EF4444';
+
+// Column widths, before scaling
+const COLUMN_WIDTHS = {
+  rank: 32,
+  name: 120,
+  total: 60,
+  guna: 58,
+  dosha: 64,
+  verdict: 104,
+};
+
+// Candidates for a profile: anyone else, of the other gender when the profile has one
+const isCandidateFor = (anchor: SavedKundli, kundli: SavedKundli): boolean =>
+  kundli.id !== anchor.id && (anchor.gender === 'other' || kundli.gender !== anchor.gender);
+
+const getGunaPoints = (match: CandidateMatch, key: CandidateSortKey): number =>
+  match.report.ashtakootGunas.find((guna) => guna.id === key)?.obtainedPoints ?? 0;
+
+const CandidateComparisonScreen = ({ navigation }: any) => {
+  const { scale } = useResponsiveLayout();
+  const insets = useSafeAreaInsets();
+  const { kundlis, loading } = useSavedKundlis();
+
+  // Status bar height for proper spacing
+  const statusBarHeight = Platform.OS === 'ios' ? insets.top : RNStatusBar.currentHeight || 24;
+
+  // Yellow header height (covers status bar + header + subtitle)
+  const yellowHeaderHeight = 150 * scale + statusBarHeight;
+
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+  const [candidateIds, setCandidateIds] = useState<string[]>([]);
+  const [matches, setMatches] = useState<CandidateMatch[] | null>(null);
+  const [sortKey, setSortKey] = useState<CandidateSortKey>('total');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+  const [exporting, setExporting] = useState(false);
+
+  const anchor = useMemo(() => kundlis.find((kundli) => kundli.id === anchorId) ?? null, [kundlis, anchorId]);
+  const candidates = useMemo(
+    () => (anchor ? kundlis.filter((kundli) => isCandidateFor(anchor, kundli)) : []),
+    [kundlis, anchor]
+  );
+
+  const sortedMatches = useMemo(
+    () => (matches ? candidateMatchingService.sort(matches, sortKey, sortDirection) : []),
+    [matches, sortKey, sortDirection]
+  );
+
+  const handleBack = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    // From the results, back goes to the selection
+    if (matches) {
+      setMatches(null);
+      return;
+    }
+    navigation.goBack();
+  }, [navigation, matches]);
+
+  const handleSelectAnchor = useCallback((kundli: SavedKundli) => {
+    Haptics.selectionAsync();
+    setAnchorId(kundli.id);
+    // Keep only picks that are still candidates for the new profile
+    setCandidateIds((ids) => ids.filter((id) => {
+      const candidate = kundlis.find((k) => k.id === id);
+      return !!candidate && isCandidateFor(kundli, candidate);
+    }));
+  }, [kundlis]);
+
+  const handleToggleCandidate = useCallback((kundli: SavedKundli) => {
+    Haptics.selectionAsync();
+    setCandidateIds((ids) =>
+      ids.includes(kundli.id) ? ids.filter((id) => id !== kundli.id) : [...ids, kundli.id]
+    );
+  }, []);
+
+  const handleSelectAll = useCallback(() => {
+    Haptics.selectionAsync();
+    setCandidateIds((ids) => (ids.length === candidates.length ? [] : candidates.map((kundli) => kundli.id)));
+  }, [candidates]);
+
+  const handleCompare = useCallback(() => {
+    if (!anchor || candidateIds.length === 0) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    const selected = candidates.filter((kundli) => candidateIds.includes(kundli.id));
+    setMatches(candidateMatchingService.compare(anchor, selected));
+    setSortKey('total');
+    setSortDirection('desc');
+  }, [anchor, candidates, candidateIds]);
+
+  const handleSort = useCallback((key: CandidateSortKey) => {
+    Haptics.selectionAsync();
+    if (key === sortKey) {
+      setSortDirection((direction) => (direction === 'desc' ? 'asc' : 'desc'));
+      return;
+    }
+    setSortKey(key);
+    setSortDirection(key === 'name' ? 'asc' : 'desc');
+  }, [sortKey]);
+
+  const handleExport = useCallback(async () => {
+    if (!anchor || sortedMatches.length === 0 || exporting) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setExporting(true);
+
+    try {
+      const uri = await candidateMatchingService.createPdf(anchor, sortedMatches);
+
+      const isAvailable = await Sharing.isAvailableAsync();
+      if (isAvailable) {
+        await Sharing.shareAsync(uri, {
+          mimeType: 'application/pdf',
+          UTI: 'com.adobe.pdf',
+          dialogTitle: `Share matches for ${anchor.name}`,
+        });
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      } else {
+        NotificationService.warning('Sharing is not available on this device.', 'Sharing Unavailable');
+      }
+    } catch (error) {
+      console.error('Failed to export candidate comparison:', error);
+      NotificationService.error('Unable to generate the PDF. Please try again.', 'Export Failed');
+    } finally {
+      setExporting(false);
+    }
+  }, [anchor, sortedMatches, exporting]);
+
+  const renderKundliRow = (kundli: SavedKundli, selected: boolean, onPress: () => void, isLast: boolean) => (
+    <TouchableOpacity
+      key={kundli.id}
+      style={[styles.kundliRow, { padding: 14 * scale }, !isLast && styles.rowDivider]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <View style={{ flex: 1 }}>
+        <Text style={[styles.kundliName, { fontSize: 15 * scale }]} numberOfLines={1}>{kundli.name}</Text>
+        <Text style={[styles.kundliMeta, { fontSize: 12 * scale, marginTop: 2 * scale }]} numberOfLines={1}>
+          {kundli.dateOfBirth} · {kundli.birthPlace.name}
+        </Text>
+      </View>
+      <View style={[
+        styles.checkbox,
+        { width: 22 * scale, height: 22 * scale, borderRadius: 11 * scale },
+        selected && styles.checkboxSelected,
+      ]}>
+        {selected && <Check size={14 * scale} color="#FFFFFF" />}
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderSelection = () => {
+    if (kundlis.length < 2) {
+      return (
+        <View style={[styles.emptyState, { padding: 32 * scale }]}>
+          <Text style={[styles.emptyText, { fontSize: 14 * scale, lineHeight: 21 * scale }]}>
+            Save a kundli for the profile and for each candidate to compare them here.
+          </Text>
+          <TouchableOpacity
+            style={[styles.primaryButton, { height: 48 * scale, borderRadius: 24 * scale, paddingHorizontal: 24 * scale, marginTop: 20 * scale }]}
+            onPress={() => navigation.navigate('KundliGeneration')}
+          >
+            <Text style={[styles.primaryButtonText, { fontSize: 15 * scale }]}>Create Kundli</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={{ paddingHorizontal: 20 * scale, paddingTop: 16 * scale, paddingBottom: 200 * scale }}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Profile */}
+          <Text style={[styles.sectionTitle, { fontSize: 14 * scale, marginBottom: 10 * scale }]}>
+            Profile
+          </Text>
+          <View style={[styles.card, { borderRadius: 16 * scale }]}>
+            {kundlis.map((kundli, index) =>
+              renderKundliRow(kundli, kundli.id === anchorId, () => handleSelectAnchor(kundli), index === kundlis.length - 1)
+            )}
+          </View>
+
+          {/* Candidates */}
+          {anchor && (
+            <Animated.View entering={FadeInDown.duration(250)}>
+              <View style={[styles.sectionRow, { marginTop: 20 * scale, marginBottom: 10 * scale }]}>
+                <Text style={[styles.sectionTitle, { fontSize: 14 * scale }]}>
+                  Candidates for {anchor.name}
+                </Text>
+                {candidates.length > 1 && (
+                  <TouchableOpacity onPress={handleSelectAll} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                    <Text style={[styles.linkText, { fontSize: 13 * scale }]}>
+                      {candidateIds.length === candidates.length ? 'Clear' : 'Select All'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+              {candidates.length === 0 ? (
+                <Text style={[styles.emptyText, { fontSize: 13 * scale }]}>
+                  No saved kundlis to match with {anchor.name}.
+                </Text>
+              ) : (
+                <View style={[styles.card, { borderRadius: 16 * scale }]}>
+                  {candidates.map((kundli, index) =>
+                    renderKundliRow(kundli, candidateIds.includes(kundli.id), () => handleToggleCandidate(kundli), index === candidates.length - 1)
+                  )}
+                </View>
+              )}
+            </Animated.View>
+          )}
+        </ScrollView>
+
+        {/* Compare Button */}
+        <View style={[styles.buttonContainer, { paddingHorizontal: 20 * scale, bottom: 90 * scale }]}>
+          <TouchableOpacity
+            style={[
+              styles.primaryButton,
+              { height: 56 * scale, borderRadius: 28 * scale },
+              (!anchor || candidateIds.length === 0) && styles.primaryButtonDisabled,
+            ]}
+            onPress={handleCompare}
+            disabled={!anchor || candidateIds.length === 0}
+            activeOpacity={0.8}
+          >
+            <Text style={[styles.primaryButtonText, { fontSize: 16 * scale }]}>
+              {candidateIds.length > 0
+                ? `Compare ${candidateIds.length} ${candidateIds.length === 1 ? 'Candidate' : 'Candidates'}`
+                : 'Select Candidates'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
+
+  const renderHeaderCell = (key: CandidateSortKey, label: string, width: number, sublabel?: string) => {
+    const active = key === sortKey;
+    const Arrow = sortDirection === 'desc' ? ArrowDown : ArrowUp;
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[styles.headerCell, { width: width * scale, paddingVertical: 8 * scale }]}
+        onPress={() => handleSort(key)}
+      >
+        <View style={styles.headerCellLabel}>
+          <Text style={[styles.headerCellText, { fontSize: 11 * scale }, active && styles.headerCellTextActive]}>
+            {label}
+          </Text>
+          {active && <Arrow size={11 * scale} color="#FFCF0D" style={{ marginLeft: 2 * scale }} />}
+        </View>
+        {sublabel && (
+          <Text style={[styles.headerCellSublabel, { fontSize: 10 * scale }]}>{sublabel}</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderResults = () => (
+    <ScrollView
+      style={styles.content}
+      contentContainerStyle={{ paddingTop: 16 * scale, paddingBottom: 120 * scale }}
+      showsVerticalScrollIndicator={false}
+    >
+      {/* Sort */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={{ paddingHorizontal: 20 * scale, gap: 8 * scale }}
+      >
+        {SORT_OPTIONS.map((option) => {
+          const active = option.key === sortKey;
+          return (
+            <TouchableOpacity
+              key={option.key}
+              style={[
+                styles.sortChip,
+                { paddingHorizontal: 14 * scale, paddingVertical: 6 * scale, borderRadius: 16 * scale },
+                active && styles.sortChipActive,
+              ]}
+              onPress={() => handleSort(option.key)}
+            >
+              <Text style={[styles.sortChipText, { fontSize: 12 * scale }, active && styles.sortChipTextActive]}>
+                {option.label}
+                {active ? (sortDirection === 'desc' ? ' ↓' : ' ↑') : ''}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      {/* Ranked Table */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={{ marginTop: 16 * scale }}
+        contentContainerStyle={{ paddingHorizontal: 20 * scale }}
+      >
+        <View style={[styles.table, { borderRadius: 12 * scale }]}>
+          <View style={styles.tableHeader}>
+            <View style={[styles.headerCell, { width: COLUMN_WIDTHS.rank * scale }]}>
+              <Text style={[styles.headerCellText, { fontSize: 11 * scale }]}>#</Text>
+            </View>
+            {renderHeaderCell('name', 'Candidate', COLUMN_WIDTHS.name)}
+            {renderHeaderCell('total', 'Total', COLUMN_WIDTHS.total, `/${ASHTAKOOT_MAX_SCORE}`)}
+            {GUNA_COLUMNS.map((column) =>
+              renderHeaderCell(column.key, column.label, COLUMN_WIDTHS.guna, `/${column.maxPoints}`)
+            )}
+            <View style={[styles.headerCell, { width: COLUMN_WIDTHS.dosha * scale }]}>
+              <Text style={[styles.headerCellText, { fontSize: 11 * scale }]}>Nadi{'\n'}Dosha</Text>
+            </View>
+            <View style={[styles.headerCell, { width: COLUMN_WIDTHS.dosha * scale }]}>
+              <Text style={[styles.headerCellText, { fontSize: 11 * scale }]}>Bhakoot{'\n'}Dosha</Text>
+            </View>
+            <View style={[styles.headerCell, { width: COLUMN_WIDTHS.verdict * scale }]}>
+              <Text style={[styles.headerCellText, { fontSize: 11 * scale }]}>Verdict</Text>
+            </View>
+          </View>
+
+          {sortedMatches.map((match, index) => {
+            const verdict = VERDICTS[match.report.verdict.rating];
+            return (
+              <View
+                key={match.candidate.id}
+                style={[styles.tableRow, index < sortedMatches.length - 1 && styles.rowDivider]}
+              >
+                <View style={[styles.cell, { width: COLUMN_WIDTHS.rank * scale, paddingVertical: 12 * scale }]}>
+                  <Text style={[styles.rankText, { fontSize: 13 * scale }]}>{index + 1}</Text>
+                </View>
+                <View style={[styles.cell, styles.nameCell, { width: COLUMN_WIDTHS.name * scale }]}>
+                  <Text style={[styles.kundliName, { fontSize: 13 * scale }]} numberOfLines={2}>
+                    {match.candidate.name}
+                  </Text>
+                </View>
+                <View style={[styles.cell, { width: COLUMN_WIDTHS.total * scale }]}>
+                  <Text style={[styles.totalText, { fontSize: 14 * scale }]}>{match.report.totalScore}</Text>
+                </View>
+                {GUNA_COLUMNS.map((column) => (
+                  <View key={column.key} style={[styles.cell, { width: COLUMN_WIDTHS.guna * scale }]}>
+                    <Text style={[styles.cellText, { fontSize: 13 * scale }]}>{getGunaPoints(match, column.key)}</Text>
+                  </View>
+                ))}
+                {[match.nadiDosha, match.bhakootDosha].map((present, doshaIndex) => (
+                  <View key={doshaIndex} style={[styles.cell, { width: COLUMN_WIDTHS.dosha * scale }]}>
+                    <Text style={[styles.cellText, { fontSize: 13 * scale }, present && styles.doshaText]}>
+                      {present ? 'Yes' : 'No'}
+                    </Text>
+                  </View>
+                ))}
+                <View style={[styles.cell, { width: COLUMN_WIDTHS.verdict * scale }]}>
+                  <Text style={[styles.verdictText, { fontSize: 12 * scale, color: verdict.color }]}>
+                    {verdict.text}
+                  </Text>
+                </View>
+              </View>
+            );
+          })}
+        </View>
+      </ScrollView>
+
+      <Text style={[styles.footnote, { fontSize: 12 * scale, marginHorizontal: 20 * scale, marginTop: 12 * scale }]}>
+        Ashtakoot Guna Milan, calculated on this device. Tap a column to sort; tap it again to reverse.
+      </Text>
+    </ScrollView>
+  );
+
+  return (
+    <View style={styles.container}>
+      <StatusBar style="dark" />
+
+      {/* Yellow Background - Extends behind status bar */}
+      <View style={[
+        styles.headerBackground,
+        {
+          height: yellowHeaderHeight,
+          borderBottomLeftRadius: 28 * scale,
+          borderBottomRightRadius: 28 * scale,
+        }
+      ]} />
+
+      {/* Content with safe area padding */}
+      <View style={[styles.mainContent, { paddingTop: statusBarHeight }]}>
+
+        {/* Header Row - On Yellow */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={handleBack}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <ChevronLeft size={24 * scale} color="#333333" />
+          </TouchableOpacity>
+
+          <Text style={[styles.headerTitle, { fontSize: 18 * scale }]}>
+            Compare Candidates
+          </Text>
+
+          {matches ? (
+            <TouchableOpacity
+              style={styles.headerRight}
+              onPress={handleExport}
+              disabled={exporting}
+              accessibilityLabel="Export as PDF"
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              {exporting
+                ? <ActivityIndicator size="small" color="#333333" />
+                : <Share2 size={22 * scale} color="#333333" />}
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.headerRight} />
+          )}
+        </View>
+
+        {/* Subtitle - On Yellow */}
+        <Text style={[styles.subtitle, { fontSize: 13 * scale }]} numberOfLines={1}>
+          {matches && anchor
+            ? `${matches.length} ${matches.length === 1 ? 'match' : 'matches'} for ${anchor.name}`
+            : 'Rank proposals for one profile'}
+        </Text>
+
+        {/* White content area */}
+        <View style={[styles.whiteContentArea, { marginTop: 16 * scale }]}>
+          {loading ? (
+            <ActivityIndicator style={{ marginTop: 40 * scale }} color="#2930A6" />
+          ) : matches ? renderResults() : renderSelection()}
+        </View>
+
+        {/* Bottom Navigation */}
+        <BottomNavBar navigation={navigation} />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  mainContent: {
+    flex: 1,
+  },
+  headerBackground: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: '#FFCF0D',
+    zIndex: 0,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    zIndex: 10,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontFamily: 'Lexend_600SemiBold',
+    fontSize: 18,
+    color: '#333333',
+    textAlign: 'center',
+  },
+  headerRight: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  subtitle: {
+    fontFamily: 'Lexend_400Regular',
+    fontSize: 13,
+    color: '#555555',
+    textAlign: 'center',
+    paddingHorizontal: 40,
+    marginTop: 2,
+  },
+  whiteContentArea: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    // Border instead of shadow for performance
+    borderWidth: 1,
+    borderColor: '#F0F0F0',
+    borderBottomWidth: 0,
+  },
+  content: {
+    flex: 1,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    // Border instead of shadow for performance
+    borderWidth: 1,
+    borderColor: '#E8E8E8',
+  },
+  sectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sectionTitle: {
+    fontFamily: 'Lexend_600SemiBold',
+    fontSize: 14,
+    color: '#1a1a1a',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    flexShrink: 1,
+  },
+  linkText: {
+    fontFamily: 'Lexend_600SemiBold',
+    fontSize: 13,
+    color: '#2930A6',
+  },
+  rowDivider: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  kundliRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  kundliName: {
+    fontFamily: 'Lexend_600SemiBold',
+    fontSize: 15,
+    color: '#1a1a1a',
+  },
+  kundliMeta: {
+    fontFamily: 'Lexend_400Regular',
+    fontSize: 12,
+    color: '#888888',
+  },
+  checkbox: {
+    borderWidth: 1.5,
+    borderColor: '#CCCCCC',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 12,
+  },
+  checkboxSelected: {
+    backgroundColor: '#2930A6',
+    borderColor: '#2930A6',
+  },
+  emptyState: {
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontFamily: 'Lexend_400Regular',
+    fontSize: 14,
+    color: '#888888',
+    textAlign: 'center',
+  },
+  buttonContainer: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+  },
+  primaryButton: {
+    backgroundColor: '#2930A6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryButtonDisabled: {
+    backgroundColor: '#CCCCCC',
+  },
+  primaryButtonText: {
+    fontFamily: 'Lexend_600SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  sortChip: {
+    backgroundColor: '#F5F5F5',
+    borderWidth: 1,
+    borderColor: '#E8E8E8',
+  },
+  sortChipActive: {
+    backgroundColor: '#2930A6',
+    borderColor: '#2930A6',
+  },
+  sortChipText: {
+    fontFamily: 'Lexend_500Medium',
+    fontSize: 12,
+    color: '#1a1a1a',
+  },
+  sortChipTextActive: {
+    color: '#FFFFFF',
+  },
+  table: {
+    borderWidth: 1,
+    borderColor: '#E8E8E8',
+    overflow: 'hidden',
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    backgroundColor: '#2930A6',
+  },
+  headerCell: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 4,
+  },
+  headerCellLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerCellText: {
+    fontFamily: 'Lexend_500Medium',
+    fontSize: 11,
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+  headerCellTextActive: {
+    color: '#FFCF0D',
+  },
+  headerCellSublabel: {
+    fontFamily: 'Lexend_400Regular',
+    fontSize: 10,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  tableRow: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+  },
+  cell: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 4,
+  },
+  nameCell: {
+    alignItems: 'flex-start',
+  },
+  rankText: {
+    fontFamily: 'Lexend_600SemiBold',
+    fontSize: 13,
+    color: '#888888',
+  },
+  totalText: {
+    fontFamily: 'Lexend_600SemiBold',
+    fontSize: 14,
+    color: '#2930A6',
+  },
+  cellText: {
+    fontFamily: 'Lexend_400Regular',
+    fontSize: 13,
+    color: '#1a1a1a',
+  },
+  doshaText: {
+    fontFamily: 'Lexend_600SemiBold',
+    color: DOSHA_COLOR,
+  },
+  verdictText: {
+    fontFamily: 'Lexend_600SemiBold',
+    fontSize: 12,
+    textAlign: 'center',
+  },
+  footnote: {
+    fontFamily: 'Lexend_400Regular',
+    fontSize: 12,
+    color: '#888888',
+  },
+});
+
+export default CandidateComparisonScreen;
@@ -34,9 +34,10 @@ import Animated, {
 } from 'react-native-reanimated';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
-import { ChevronLeft, Grid3X3 } from 'lucide-react-native';
+import { ChevronLeft, Grid3X3, CalendarDays } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useQueryClient } from '@tanstack/react-query';
 
 import {
   ZodiacCarousel,
@@ -61,6 +62,7 @@ import {
   SelectionChangeReason,
 } from '../components/horoscope/constants/carouselConfig';
 import { horoscopeService } from '../src/services/horoscope.service';
+import { QUERY_KEYS } from '../src/constants/cacheKeys';
 import { DailyHoroscope, ZodiacSignId } from '../src/types/horoscope';
 
 // Storage key for user's zodiac preference
@@ -83,6 +85,7 @@ const getFallbackHoroscope = (sign: string) => {
 const DailyHoroscopeScreen = ({ navigation }: any) => {
   const { scale } = useResponsiveLayout();
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const insets = useSafeAreaInsets();
 
   // Status bar height for proper spacing
@@ -168,35 +171,47 @@ const DailyHoroscopeScreen = ({ navigation }: any) => {
     loadZodiacPreference();
   }, [user?.dateOfBirth]);
 
-  // Fetch horoscope data from API
+  // Fetch horoscope data from API (persisted copy is shown while it loads)
   const fetchHoroscope = useCallback(async () => {
-    setLoading(true);
-    try {
-      // Call the real API
-      const signId = selectedSign.id as ZodiacSignId;
-      const response = await horoscopeService.getDailyHoroscope(signId);
+    const signId = selectedSign.id as ZodiacSignId;
+    const queryKey = QUERY_KEYS.DAILY_HOROSCOPE(signId);
+
+    // Get fallback data in case any field is missing
+    const fallback = getFallbackHoroscope(selectedSign.name);
+
+    // Map API response to UI format - API provides all categories
+    const toHoroscopeData = (response: DailyHoroscope): Record<string, string> => ({
+      general: response.horoscope?.general || fallback.general,
+      love: response.horoscope?.love || fallback.love,
+      career: response.horoscope?.career || fallback.career,
+      health: response.horoscope?.health || fallback.health,
+    });
 
-      // Get fallback data in case any field is missing
-      const fallback = getFallbackHoroscope(selectedSign.name);
+    const cached = queryClient.getQueryData<DailyHoroscope>(queryKey);
+    if (cached) {
+      setHoroscopeData(toHoroscopeData(cached));
+    } else {
+      setLoading(true);
+    }
 
-      // Map API response to UI format - API provides all categories
-      const data: Record<string, string> = {
-        general: response.horoscope?.general || fallback.general,
-        love: response.horoscope?.love || fallback.love,
-        career: response.horoscope?.career || fallback.career,
-        health: response.horoscope?.health || fallback.health,
-      };
+    try {
+      // Call the real API
+      const response = await queryClient.fetchQuery({
+        queryKey,
+        queryFn: () => horoscopeService.getDailyHoroscope(signId),
+      });
 
-      setHoroscopeData(data);
+      setHoroscopeData(toHoroscopeData(response));
     } catch (error) {
       console.error('Error fetching horoscope from API:', error);
-      // Use fallback data if API fails
-      const fallbackData = getFallbackHoroscope(selectedSign.name);
-      setHoroscopeData(fallbackData);
+      // Use fallback data if API fails and nothing was cached
+      if (!cached) {
+        setHoroscopeData(fallback);
+      }
     } finally {
       setLoading(false);
     }
-  }, [selectedSign.id, selectedSign.name, activeDay]);
+  }, [selectedSign.id, selectedSign.name, activeDay, queryClient]);
 
   // Fetch on mount and when sign/day changes
   useEffect(() => {
@@ -310,6 +325,12 @@ const DailyHoroscopeScreen = ({ navigation }: any) => {
     navigation.goBack();
   }, [navigation]);
 
+  // Open today's Panchang
+  const handlePanchangPress = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    navigation.navigate('Panchang');
+  }, [navigation]);
+
   // Handle view all press
   const handleViewAllPress = useCallback(() => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -414,7 +435,14 @@ const DailyHoroscopeScreen = ({ navigation }: any) => {
               Daily Horoscope
             </Text>
 
-            <View style={styles.headerRight} />
+            <TouchableOpacity
+              style={styles.headerRight}
+              onPress={handlePanchangPress}
+              accessibilityLabel="Panchang"
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <CalendarDays size={22 * scale} color="#333333" />
+            </TouchableOpacity>
           </View>
 
           {/* Subtitle - On Yellow */}
@@ -555,6 +583,9 @@ const styles = StyleSheet.create({
   },
   headerRight: {
     width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
   },
   subtitle: {
     fontFamily: 'Lexend_400Regular',
@@ -0,0 +1,436 @@
+/**
+ * Developer Tools Screen
+ * Hidden debug-build screen for inspecting caches, prefetch and network traffic
+ *
+ * Reached from the Sidebar "Settings" entry in debug builds. Features:
+ * - Every CacheService entry with its age, TTL and schema version (evictable)
+ * - Persisted React Query entries (evictable)
+ * - Last PrefetchResult from DataPrefetchService
+ * - Recent ApiClient requests with timings and status codes
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import * as Haptics from 'expo-haptics';
+import { ChevronLeft, RefreshCw } from 'lucide-react-native';
+
+import { useResponsiveLayout } from '../src/utils/responsive';
+import { useAppData } from '../src/contexts/AppDataContext';
+import { cacheService, CacheEntryInfo } from '../src/services/cache.service';
+import { queryPersister, PersistedQuery } from '../src/services/queryPersister.service';
+import { CACHE_TTL, STORAGE_KEYS } from '../src/constants/cacheKeys';
+import { networkLog, NetworkLogEntry } from '../src/utils/networkLog';
+import NotificationService from '../src/utils/notificationService';
+
+type DevToolsTab = 'cache' | 'prefetch' | 'network';
+
+const TABS: { key: DevToolsTab; label: string }[] = [
+  { key: 'cache', label: 'Cache' },
+  { key: 'prefetch', label: 'Prefetch' },
+  { key: 'network', label: 'Network' },
+];
+
+/**
+ * Compact human-readable duration (e.g. 45s, 12m, 3h, 7d)
+ */
+const formatDuration = (ms: number): string => {
+  if (ms >= CACHE_TTL.PERSISTENT) return 'never';
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.round(seconds / 3600)}h`;
+  return `${Math.round(seconds / 86400)}d`;
+};
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString('en-IN', { hour12: false });
+
+const getStatusColor = (status?: number): string => {
+  if (status === undefined) return '#EF4444';
+  if (status >= 500) return '#EF4444';
+  if (status >= 400) return '#F59E0B';
+  return '#16A34A';
+};
+
+const DeveloperToolsScreen = ({ navigation }: any) => {
+  const { scale } = useResponsiveLayout();
+  const { prefetchResult, isPrefetching, refreshAllData } = useAppData();
+
+  const [activeTab, setActiveTab] = useState<DevToolsTab>('cache');
+  const [cacheEntries, setCacheEntries] = useState<CacheEntryInfo[]>([]);
+  const [persistedQueries, setPersistedQueries] = useState<PersistedQuery[]>([]);
+  const [requests, setRequests] = useState<NetworkLogEntry[]>(networkLog.getEntries());
+  const [refreshing, setRefreshing] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const loadCache = useCallback(async () => {
+    const entries = await cacheService.inspect();
+    entries.sort((a, b) => a.key.localeCompare(b.key));
+    setCacheEntries(entries);
+    setPersistedQueries(queryPersister.getEntries());
+    setNow(Date.now());
+  }, []);
+
+  useEffect(() => {
+    loadCache();
+  }, [loadCache]);
+
+  useEffect(() => networkLog.subscribe(setRequests), []);
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadCache();
+    setRefreshing(false);
+  }, [loadCache]);
+
+  const handleEvictEntry = (key: string) => {
+    NotificationService.confirm({
+      title: 'Evict Cache Entry',
+      message: key === STORAGE_KEYS.QUERY_CACHE
+        ? 'Every persisted query will be removed from storage.'
+        : `${key} will be removed from storage.`,
+      confirmText: 'Evict',
+      destructive: true,
+      onConfirm: async () => {
+        if (key === STORAGE_KEYS.QUERY_CACHE) {
+          await queryPersister.clear();
+        } else {
+          await cacheService.remove(key);
+        }
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        loadCache();
+      },
+    });
+  };
+
+  const handleEvictQuery = async (query: PersistedQuery) => {
+    await queryPersister.evict(query.queryKey);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    loadCache();
+  };
+
+  const renderCacheTab = () => (
+    <>
+      <Text style={[styles.caption, { fontSize: 12 * scale }]}>
+        Namespace: {cacheService.getUserId() ? `user ${cacheService.getUserId()}` : 'none (signed out)'}
+      </Text>
+
+      <Text style={[styles.sectionTitle, { fontSize: 14 * scale }]}>
+        Storage ({cacheEntries.length})
+      </Text>
+      {cacheEntries.length === 0 ? (
+        <Text style={[styles.emptyText, { fontSize: 13 * scale }]}>No cached entries</Text>
+      ) : (
+        cacheEntries.map((entry) => {
+          const age = now - entry.timestamp;
+          const isStale = age > entry.ttl;
+          return (
+            <View key={entry.key} style={[styles.row, { padding: 12 * scale }]}>
+              <View style={styles.rowContent}>
+                <Text style={[styles.rowTitle, { fontSize: 13 * scale }]} numberOfLines={1}>
+                  {entry.key}
+                </Text>
+                <Text style={[styles.rowMeta, { fontSize: 11 * scale }]}>
+                  age {formatDuration(age)} · ttl {formatDuration(entry.ttl)} · v{entry.version} ·{' '}
+                  {(entry.size / 1024).toFixed(1)} KB
+                </Text>
+              </View>
+              {isStale && (
+                <Text style={[styles.staleBadge, { fontSize: 10 * scale }]}>STALE</Text>
+              )}
+              <TouchableOpacity onPress={() => handleEvictEntry(entry.key)}>
+                <Text style={[styles.actionText, { fontSize: 12 * scale }]}>Evict</Text>
+              </TouchableOpacity>
+            </View>
+          );
+        })
+      )}
+
+      <Text style={[styles.sectionTitle, { fontSize: 14 * scale }]}>
+        Persisted queries ({persistedQueries.length})
+      </Text>
+      {persistedQueries.map((query) => (
+        <View key={query.queryKey.join('.')} style={[styles.row, { padding: 12 * scale }]}>
+          <View style={styles.rowContent}>
+            <Text style={[styles.rowTitle, { fontSize: 13 * scale }]} numberOfLines={1}>
+              {query.queryKey.join('.')}
+            </Text>
+            <Text style={[styles.rowMeta, { fontSize: 11 * scale }]}>
+              age {formatDuration(now - query.dataUpdatedAt)} · ttl {formatDuration(query.ttl)}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={() => handleEvictQuery(query)}>
+            <Text style={[styles.actionText, { fontSize: 12 * scale }]}>Evict</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </>
+  );
+
+  const renderTaskList = (label: string, tasks: string[]) => (
+    <View style={[styles.row, styles.column, { padding: 12 * scale }]}>
+      <Text style={[styles.rowTitle, { fontSize: 13 * scale }]}>
+        {label} ({tasks.length})
+      </Text>
+      <Text style={[styles.rowMeta, { fontSize: 11 * scale }]}>
+        {tasks.length > 0 ? tasks.join(', ') : '—'}
+      </Text>
+    </View>
+  );
+
+  const renderPrefetchTab = () => (
+    <>
+      {prefetchResult ? (
+        <>
+          <View style={[styles.row, { padding: 12 * scale }]}>
+            <View style={styles.rowContent}>
+              <Text style={[styles.rowTitle, { fontSize: 13 * scale }]}>
+                {prefetchResult.success ? 'Succeeded' : 'Completed with failures'}
+              </Text>
+              <Text style={[styles.rowMeta, { fontSize: 11 * scale }]}>
+                {prefetchResult.duration} ms
+              </Text>
+            </View>
+          </View>
+          {renderTaskList('Fetched fresh', prefetchResult.fetchedFresh)}
+          {renderTaskList('Served from cache', prefetchResult.loadedFromCache)}
+          {renderTaskList('Failed', prefetchResult.failed)}
+        </>
+      ) : (
+        <Text style={[styles.emptyText, { fontSize: 13 * scale }]}>
+          {isPrefetching ? 'Prefetch in progress…' : 'No prefetch has run yet'}
+        </Text>
+      )}
+
+      <TouchableOpacity
+        style={[styles.button, { padding: 12 * scale, borderRadius: 12 * scale }]}
+        onPress={refreshAllData}
+        disabled={isPrefetching}
+      >
+        <Text style={[styles.buttonText, { fontSize: 14 * scale }]}>
+          {isPrefetching ? 'Prefetching…' : 'Run prefetch again'}
+        </Text>
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderNetworkTab = () => (
+    <>
+      <View style={styles.sectionHeader}>
+        <Text style={[styles.sectionTitle, { fontSize: 14 * scale }]}>
+          Recent requests ({requests.length})
+        </Text>
+        <TouchableOpacity onPress={() => networkLog.clear()}>
+          <Text style={[styles.actionText, { fontSize: 12 * scale }]}>Clear</Text>
+        </TouchableOpacity>
+      </View>
+      {requests.length === 0 ? (
+        <Text style={[styles.emptyText, { fontSize: 13 * scale }]}>No requests recorded</Text>
+      ) : (
+        requests.map((request) => (
+          <View key={request.id} style={[styles.row, { padding: 12 * scale }]}>
+            <Text
+              style={[
+                styles.status,
+                { fontSize: 12 * scale, width: 40 * scale, color: getStatusColor(request.status) },
+              ]}
+            >
+              {request.status ?? 'ERR'}
+            </Text>
+            <View style={styles.rowContent}>
+              <Text style={[styles.rowTitle, { fontSize: 13 * scale }]} numberOfLines={1}>
+                {request.method} {request.url}
+              </Text>
+              <Text style={[styles.rowMeta, { fontSize: 11 * scale }]} numberOfLines={2}>
+                {formatTime(request.startedAt)} · {request.duration} ms
+                {request.attempt > 0 ? ` · retry ${request.attempt}` : ''}
+                {request.error ? ` · ${request.error}` : ''}
+              </Text>
+            </View>
+          </View>
+        ))
+      )}
+    </>
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['top']}>
+      <StatusBar style="dark" />
+
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <ChevronLeft size={26 * scale} color="#333333" strokeWidth={2} />
+        </TouchableOpacity>
+
+        <Text style={[styles.headerTitle, { fontSize: 20 * scale }]}>Developer Tools</Text>
+
+        <TouchableOpacity onPress={handleRefresh} style={styles.backButton}>
+          <RefreshCw size={20 * scale} color="#333333" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={[styles.tabs, { marginHorizontal: 16 * scale, borderRadius: 12 * scale }]}>
+        {TABS.map((tab) => (
+          <TouchableOpacity
+            key={tab.key}
+            style={[
+              styles.tab,
+              { paddingVertical: 8 * scale, borderRadius: 10 * scale },
+              activeTab === tab.key && styles.tabActive,
+            ]}
+            onPress={() => {
+              Haptics.selectionAsync();
+              setActiveTab(tab.key);
+            }}
+          >
+            <Text
+              style={[
+                styles.tabText,
+                { fontSize: 13 * scale },
+                activeTab === tab.key && styles.tabTextActive,
+              ]}
+            >
+              {tab.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <ScrollView
+        contentContainerStyle={{ padding: 16 * scale, paddingBottom: 40 * scale }}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        {activeTab === 'cache' && renderCacheTab()}
+        {activeTab === 'prefetch' && renderPrefetchTab()}
+        {activeTab === 'network' && renderNetworkTab()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#F8F8F8',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    paddingBottom: 12,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontFamily: 'Lexend_600SemiBold',
+    color: '#333333',
+    textAlign: 'center',
+  },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: '#EEEEEE',
+    padding: 4,
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  tabActive: {
+    backgroundColor: '#FFFFFF',
+  },
+  tabText: {
+    fontFamily: 'Lexend_500Medium',
+    color: '#666666',
+  },
+  tabTextActive: {
+    color: '#2930A6',
+  },
+  caption: {
+    fontFamily: 'Lexend_400Regular',
+    color: '#666666',
+    marginBottom: 8,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sectionTitle: {
+    fontFamily: 'Lexend_600SemiBold',
+    color: '#333333',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  column: {
+    flexDirection: 'column',
+    alignItems: 'flex-start',
+  },
+  rowContent: {
+    flex: 1,
+    marginRight: 8,
+  },
+  rowTitle: {
+    fontFamily: 'Lexend_500Medium',
+    color: '#333333',
+  },
+  rowMeta: {
+    fontFamily: 'Lexend_400Regular',
+    color: '#666666',
+    marginTop: 2,
+  },
+  status: {
+    fontFamily: 'Lexend_600SemiBold',
+  },
+  staleBadge: {
+    fontFamily: 'Lexend_600SemiBold',
+    color: '#F59E0B',
+    marginRight: 12,
+  },
+  actionText: {
+    fontFamily: 'Lexend_600SemiBold',
+    color: '#EF4444',
+  },
+  emptyText: {
+    fontFamily: 'Lexend_400Regular',
+    color: '#999999',
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+  button: {
+    backgroundColor: '#2930A6',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  buttonText: {
+    fontFamily: 'Lexend_600SemiBold',
+    color: '#FFFFFF',
+  },
+});
+
+export default DeveloperToolsScreen;
@@ -5,7 +5,9 @@
  * Features:
  * - Long-press on card for Share/Delete options
  * - Share generates styled image card
- * - Delete with confirmation
+ * - Share PDF exports the full report as an English or Tamil booklet
+ * - Delete with confirmation (queued until online for server kundlis)
+ * - Two-way sync of device and server kundlis with a per-card sync badge
  */
 
 import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
@@ -31,6 +33,7 @@ import Animated, {
   Layout,
 } from 'react-native-reanimated';
 import { useFocusEffect } from '@react-navigation/native';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { ChevronLeft, Search, ChevronRight, Star } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import { captureRef } from 'react-native-view-shot';
@@ -41,8 +44,11 @@ import { BottomNavBar } from '../components/BottomNavBar';
 import { ShimmerEffect } from '../components/skeleton/ShimmerEffect';
 import { useResponsiveLayout } from '../src/utils/responsive';
 import { useSavedKundlis } from '../src/hooks/useKundliStorage';
-import { SavedKundli, KundliReport } from '../src/types/kundli';
+import { useKundliSync } from '../src/hooks/useKundliSync';
+import { SavedKundli, KundliReport, KundliSyncStatus, ReportLanguage } from '../src/types/kundli';
 import { kundliService } from '../src/services/kundli.service';
+import { kundliExportService } from '../src/services/kundliExport.service';
+import { QUERY_KEYS } from '../src/constants/cacheKeys';
 import NotificationService from '../src/utils/notificationService';
 
 // Format date for display
@@ -80,20 +86,31 @@ const getInitials = (name: string): string => {
   return name.slice(0, 2).toUpperCase();
 };
 
+// Sync badges - synced kundlis show none
+const SYNC_BADGES: Partial<Record<KundliSyncStatus, { label: string; color: string }>> = {
+  local_only: { label: 'Not synced', color: '#8C8C8C' },
+  conflict: { label: 'Conflict', color: '#D97706' },
+  error: { label: 'Sync failed', color: '#DC2626' },
+};
+
 // Kundli Card Component
 const KundliCard = React.memo(({
   kundli,
   index,
   scale,
+  syncStatus,
   onPress,
   onLongPress,
 }: {
   kundli: SavedKundli;
   index: number;
   scale: number;
+  syncStatus: KundliSyncStatus;
   onPress: () => void;
   onLongPress: () => void;
 }) => {
+  const syncBadge = SYNC_BADGES[syncStatus];
+
   return (
     <Animated.View
       entering={FadeInRight.delay(index * 100).duration(400)}
@@ -124,9 +141,23 @@ const KundliCard = React.memo(({
 
           {/* Details */}
           <View style={styles.cardDetails}>
-            <Text style={[styles.cardName, { fontSize: 16 * scale }]} numberOfLines={1}>
-              {kundli.name}
-            </Text>
+            <View style={styles.cardNameRow}>
+              <Text style={[styles.cardName, { fontSize: 16 * scale }]} numberOfLines={1}>
+                {kundli.name}
+              </Text>
+              {syncBadge && (
+                <View style={[styles.syncBadge, {
+                  borderColor: syncBadge.color,
+                  paddingHorizontal: 6 * scale,
+                  borderRadius: 8 * scale,
+                  marginLeft: 6 * scale,
+                }]}>
+                  <Text style={[styles.syncBadgeText, { fontSize: 10 * scale, color: syncBadge.color }]}>
+                    {syncBadge.label}
+                  </Text>
+                </View>
+              )}
+            </View>
             <Text style={[styles.cardDate, { fontSize: 12 * scale }]} numberOfLines={1}>
               {formatDate(kundli.dateOfBirth, kundli.timeOfBirth)}
             </Text>
@@ -298,6 +329,9 @@ const EmptyState = ({ scale, onCreatePress }: { scale: number; onCreatePress: ()
   </Animated.View>
 );
 
+// Stable fallback so memoized merges don't recompute every render
+const NO_KUNDLI_LIST: SavedKundli[] = [];
+
 const KundliDashboardScreen = ({ navigation }: any) => {
   const { scale } = useResponsiveLayout();
   const { kundlis: localKundlis, loading: localLoading, searchKundlis, refetch: refetchLocal } = useSavedKundlis();
@@ -311,8 +345,6 @@ const KundliDashboardScreen = ({ navigation }: any) => {
 
   const [searchQuery, setSearchQuery] = useState('');
   const [refreshing, setRefreshing] = useState(false);
-  const [apiKundlis, setApiKundlis] = useState<SavedKundli[]>([]);
-  const [apiLoading, setApiLoading] = useState(true);
 
   // State for share/delete functionality
   const [selectedKundli, setSelectedKundli] = useState<SavedKundli | null>(null);
@@ -323,26 +355,35 @@ const KundliDashboardScreen = ({ navigation }: any) => {
   // Ref for shareable card
   const shareCardRef = useRef<View>(null);
 
-  // Combined loading state
-  const loading = localLoading || apiLoading;
+  // Fetch kundlis from API - persisted, so the list shows instantly (and offline) on cold start
+  const queryClient = useQueryClient();
+  const { data: apiKundlis = NO_KUNDLI_LIST, isLoading: apiLoading, refetch } = useQuery({
+    queryKey: QUERY_KEYS.KUNDLI_LIST,
+    queryFn: async () => (await kundliService.list({ limit: 50 })).data,
+    retry: false, // ApiClient already retries transient failures; local data covers the rest
+  });
 
-  // Fetch kundlis from API
   const fetchFromApi = useCallback(async () => {
-    try {
-      const { data } = await kundliService.list({ limit: 50 });
-      setApiKundlis(data);
-    } catch (error) {
-      console.warn('Failed to fetch kundlis from API:', error);
-      // Keep using local data if API fails
-    } finally {
-      setApiLoading(false);
-    }
-  }, []);
+    await refetch();
+  }, [refetch]);
+
+  // A sync pass rewrites the local store and may change the server list
+  const { records: syncRecords, sync, remove: removeKundli } = useKundliSync({
+    onSynced: () => {
+      refetchLocal();
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.KUNDLI_LIST });
+    },
+  });
+
+  // Sync whenever the dashboard comes into view
+  useFocusEffect(
+    useCallback(() => {
+      sync();
+    }, [sync])
+  );
 
-  // Fetch on mount
-  useEffect(() => {
-    fetchFromApi();
-  }, [fetchFromApi]);
+  // Combined loading state
+  const loading = localLoading || apiLoading;
 
   // Merge API and local kundlis, removing duplicates by id
   const allKundlis = useMemo(() => {
@@ -354,13 +395,28 @@ const KundliDashboardScreen = ({ navigation }: any) => {
     // API kundlis take priority (update existing or add new)
     apiKundlis.forEach(k => kundliMap.set(k.id, k));
 
+    // Hide deletes still pending on the server and local copies already uploaded
+    kundliMap.forEach((_, id) => {
+      if (syncRecords[id]?.deletedAt || syncRecords[id]?.serverId) {
+        kundliMap.delete(id);
+      }
+    });
+
     // Convert to array and sort by creation date (newest first)
     return Array.from(kundliMap.values()).sort((a, b) => {
       const dateA = new Date(a.createdAt || 0).getTime();
       const dateB = new Date(b.createdAt || 0).getTime();
       return dateB - dateA;
     });
-  }, [localKundlis, apiKundlis]);
+  }, [localKundlis, apiKundlis, syncRecords]);
+
+  // Kundlis without a record were saved here before the first sync
+  const localIds = useMemo(() => new Set(localKundlis.map(k => k.id)), [localKundlis]);
+  const getSyncStatus = useCallback((kundli: SavedKundli): KundliSyncStatus => {
+    const record = syncRecords[kundli.id];
+    if (record) return record.status;
+    return localIds.has(kundli.id) && !apiKundlis.some(k => k.id === kundli.id) ? 'local_only' : 'synced';
+  }, [syncRecords, localIds, apiKundlis]);
 
   // Filtered kundlis based on search
   const filteredKundlis = useMemo(() => {
@@ -376,13 +432,14 @@ const KundliDashboardScreen = ({ navigation }: any) => {
   const handleRefresh = useCallback(async () => {
     setRefreshing(true);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    // Refresh both API and local data
+    // Sync first, then refresh both API and local data
+    await sync();
     await Promise.all([
       fetchFromApi(),
       refetchLocal(),
     ]);
     setRefreshing(false);
-  }, [fetchFromApi, refetchLocal]);
+  }, [sync, fetchFromApi, refetchLocal]);
 
   // Handle back navigation
   const handleBack = useCallback(() => {
@@ -410,9 +467,9 @@ const KundliDashboardScreen = ({ navigation }: any) => {
     setSelectedKundli(kundli);
 
     if (Platform.OS === 'ios') {
-      const options = ['Share', 'Delete', 'Cancel'];
-      const destructiveButtonIndex = 1;
-      const cancelButtonIndex = 2;
+      const options = ['Match This Kundli', 'Edit Birth Details', 'Share', 'Share PDF (English)', 'Share PDF (தமிழ்)', 'Delete', 'Cancel'];
+      const destructiveButtonIndex = 5;
+      const cancelButtonIndex = 6;
 
       ActionSheetIOS.showActionSheetWithOptions(
         {
@@ -420,12 +477,20 @@ const KundliDashboardScreen = ({ navigation }: any) => {
           destructiveButtonIndex,
           cancelButtonIndex,
           title: kundli.name,
-          message: 'Choose an action',
+          message: syncRecords[kundli.id]?.message || 'Choose an action',
         },
         (buttonIndex) => {
           if (buttonIndex === 0) {
-            handleShare(kundli);
+            handleMatch(kundli);
           } else if (buttonIndex === 1) {
+            handleEdit(kundli);
+          } else if (buttonIndex === 2) {
+            handleShare(kundli);
+          } else if (buttonIndex === 3) {
+            handleSharePdf(kundli, 'en');
+          } else if (buttonIndex === 4) {
+            handleSharePdf(kundli, 'ta');
+          } else if (buttonIndex === 5) {
             handleDeleteConfirmation(kundli);
           }
         }
@@ -434,15 +499,32 @@ const KundliDashboardScreen = ({ navigation }: any) => {
       // Android: Use custom action sheet
       NotificationService.actionSheet({
         title: kundli.name,
-        message: 'Choose an action',
+        message: syncRecords[kundli.id]?.message || 'Choose an action',
         options: [
+          { text: 'Match This Kundli', onPress: () => handleMatch(kundli) },
+          { text: 'Edit Birth Details', onPress: () => handleEdit(kundli) },
           { text: 'Share', onPress: () => handleShare(kundli) },
+          { text: 'Share PDF (English)', onPress: () => handleSharePdf(kundli, 'en') },
+          { text: 'Share PDF (தமிழ்)', onPress: () => handleSharePdf(kundli, 'ta') },
           { text: 'Delete', onPress: () => handleDeleteConfirmation(kundli), destructive: true },
         ],
         cancelText: 'Cancel',
       });
     }
-  }, [isProcessing, refreshing]);
+  }, [isProcessing, refreshing, syncRecords]);
+
+  // Start a matching with this kundli on its side of the form
+  const handleMatch = useCallback((kundli: SavedKundli) => {
+    setSelectedKundli(null);
+    navigation.navigate('KundliMatchingInput', { kundli });
+  }, [navigation]);
+
+  // Handle edit - the wizard regenerates the report, so drop any share card built from the old one
+  const handleEdit = useCallback((kundli: SavedKundli) => {
+    setSelectedKundli(null);
+    setShareReportData(null);
+    navigation.navigate('KundliGeneration', { kundli });
+  }, [navigation]);
 
   // Handle delete confirmation
   const handleDeleteConfirmation = useCallback((kundli: SavedKundli) => {
@@ -452,40 +534,40 @@ const KundliDashboardScreen = ({ navigation }: any) => {
       confirmText: 'Delete',
       cancelText: 'Cancel',
       destructive: true,
-      onConfirm: () => handleDelete(kundli.id),
+      onConfirm: () => handleDelete(kundli),
     });
   }, []);
 
   // Handle delete
-  const handleDelete = useCallback(async (kundliId: string) => {
+  const handleDelete = useCallback(async (kundli: SavedKundli) => {
     setIsProcessing(true);
 
     try {
-      await kundliService.delete(kundliId);
+      // Removed from this device right away; the server delete is retried until it succeeds
+      const serverPending = await removeKundli(kundli);
 
       // Remove from local state
-      setApiKundlis(prev => prev.filter(k => k.id !== kundliId));
+      queryClient.setQueryData<SavedKundli[]>(QUERY_KEYS.KUNDLI_LIST, prev =>
+        prev?.filter(k => k.id !== kundli.id)
+      );
 
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      NotificationService.success('Kundli deleted successfully');
+      if (serverPending) {
+        NotificationService.info('Deleted on this device. It will be removed from your account once you are back online.');
+      } else {
+        NotificationService.success('Kundli deleted successfully');
+      }
 
       // Also refresh local storage
       refetchLocal();
     } catch (error: any) {
       console.error('Failed to delete kundli:', error);
-
-      if (error.message?.includes('not found') || error.message?.includes('404')) {
-        NotificationService.warning('This Kundli was already deleted.', 'Not Found');
-        // Refresh the list
-        handleRefresh();
-      } else {
-        NotificationService.error('Unable to delete. Please check your connection and try again.', 'Error');
-      }
+      NotificationService.error('Unable to delete. Please try again.', 'Error');
     } finally {
       setIsProcessing(false);
       setSelectedKundli(null);
     }
-  }, [refetchLocal, handleRefresh]);
+  }, [removeKundli, refetchLocal]);
 
   // Handle share
   const handleShare = useCallback(async (kundli: SavedKundli) => {
@@ -541,6 +623,34 @@ const KundliDashboardScreen = ({ navigation }: any) => {
     }
   }, []);
 
+  // Handle PDF export - full report booklet rendered on-device
+  const handleSharePdf = useCallback(async (kundli: SavedKundli, language: ReportLanguage) => {
+    setIsProcessing(true);
+    setSelectedKundli(kundli);
+
+    try {
+      const uri = await kundliExportService.createReportPdf(kundli, { language });
+
+      const isAvailable = await Sharing.isAvailableAsync();
+      if (isAvailable) {
+        await Sharing.shareAsync(uri, {
+          mimeType: 'application/pdf',
+          UTI: 'com.adobe.pdf',
+          dialogTitle: `Share ${kundli.name}'s Kundli`,
+        });
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      } else {
+        NotificationService.warning('Sharing is not available on this device.', 'Sharing Unavailable');
+      }
+    } catch (error: any) {
+      console.error('Failed to export kundli PDF:', error);
+      NotificationService.error('Unable to generate the PDF. Please check your connection and try again.', 'Export Failed');
+    } finally {
+      setIsProcessing(false);
+      setSelectedKundli(null);
+    }
+  }, []);
+
   // Handle long press on card
   const handleLongPress = useCallback((kundli: SavedKundli) => {
     showActionSheet(kundli);
@@ -552,10 +662,11 @@ const KundliDashboardScreen = ({ navigation }: any) => {
       kundli={item}
       index={index}
       scale={scale}
+      syncStatus={getSyncStatus(item)}
       onPress={() => handleCardPress(item)}
       onLongPress={() => handleLongPress(item)}
     />
-  ), [scale, handleCardPress, handleLongPress]);
+  ), [scale, getSyncStatus, handleCardPress, handleLongPress]);
 
   // Key extractor
   const keyExtractor = useCallback((item: SavedKundli) => item.id, []);
@@ -815,11 +926,23 @@ const styles = StyleSheet.create({
     flex: 1,
     marginLeft: 12,
   },
+  cardNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   cardName: {
+    flexShrink: 1,
     fontFamily: 'Lexend_600SemiBold',
     fontSize: 16,
     color: '#1a1a1a',
   },
+  syncBadge: {
+    borderWidth: 1,
+    paddingVertical: 1,
+  },
+  syncBadgeText: {
+    fontFamily: 'Lexend_500Medium',
+  },
   cardDate: {
     fontFamily: 'Lexend_400Regular',
     fontSize: 12,
@@ -2,6 +2,10 @@
  * KundliGenerationScreen
  * 5-step wizard for collecting birth details to generate Kundli
  * Steps: Name → Gender → DOB → Time → Location
+ *
+ * Opened with a saved kundli (route.params.kundli) the same steps edit its
+ * birth details instead: the changed fields are confirmed, saved and the
+ * report is regenerated.
  */
 
 import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
@@ -31,15 +35,26 @@ import Animated, {
 } from 'react-native-reanimated';
 import { ChevronLeft, ChevronDown, Check } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
+import { useQueryClient } from '@tanstack/react-query';
 import DateTimePicker from '@react-native-community/datetimepicker';
 
 import { WizardProgressBar } from '../components/kundli/WizardProgressBar';
 import { DateWheelPicker, TimeWheelPicker } from '../components/kundli/WheelPicker';
 import { useResponsiveLayout } from '../src/utils/responsive';
 import { useSavedKundlis } from '../src/hooks/useKundliStorage';
-import { KundliWizardData, KundliWizardStep, BirthPlace } from '../src/types/kundli';
+import {
+  KundliWizardData,
+  KundliWizardStep,
+  KundliInput,
+  BirthPlace,
+  SavedKundli,
+} from '../src/types/kundli';
 import { placesService } from '../src/services/places.service';
 import { kundliService } from '../src/services/kundli.service';
+import { kundliSyncService } from '../src/services/kundliSync.service';
+import { QUERY_KEYS } from '../src/constants/cacheKeys';
+import { handleApiError, isNetworkError } from '../src/utils/errorHandler';
+import NotificationService from '../src/utils/notificationService';
 
 // Wizard steps configuration
 const STEPS: KundliWizardStep[] = ['name', 'gender', 'dob', 'time', 'location'];
@@ -63,9 +78,70 @@ const FALLBACK_CITIES: BirthPlace[] = [
   { name: 'Madurai, Tamil Nadu', latitude: 9.9252, longitude: 78.1198, timezone: 'Asia/Kolkata' },
 ];
 
-const KundliGenerationScreen = ({ navigation }: any) => {
+// A changed birth detail, shown for confirmation before saving an edit
+interface BirthDetailChange {
+  field: keyof KundliInput;
+  label: string;
+  from: string;
+  to: string;
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Dates are read from local parts - toISOString() would shift the day east of UTC
+const formatDateInput = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const formatTimeInput = (date: Date | null) =>
+  date ? `${pad(date.getHours())}:${pad(date.getMinutes())}` : '12:00';
+
+const getGenderLabel = (gender: string) =>
+  GENDER_OPTIONS.find(option => option.value === gender)?.label || gender;
+
+// Pre-fill the wizard from a saved kundli
+const toWizardData = (kundli: SavedKundli): KundliWizardData => {
+  const [year, month, day] = kundli.dateOfBirth.slice(0, 10).split('-').map(Number);
+  const [hours, minutes] = kundli.timeOfBirth.split(':').map(Number);
+  return {
+    name: kundli.name,
+    gender: kundli.gender,
+    dateOfBirth: new Date(year, month - 1, day),
+    timeOfBirth: new Date(year, month - 1, day, hours, minutes),
+    birthPlace: kundli.birthPlace,
+  };
+};
+
+// Fields of the input that differ from the saved kundli
+const getBirthDetailChanges = (kundli: SavedKundli, input: KundliInput): BirthDetailChange[] => {
+  const placeChanged = input.birthPlace.name !== kundli.birthPlace.name ||
+    input.birthPlace.latitude !== kundli.birthPlace.latitude ||
+    input.birthPlace.longitude !== kundli.birthPlace.longitude;
+
+  const changes: (BirthDetailChange | false)[] = [
+    input.name !== kundli.name && {
+      field: 'name', label: 'Name', from: kundli.name, to: input.name,
+    },
+    input.gender !== kundli.gender && {
+      field: 'gender', label: 'Gender', from: getGenderLabel(kundli.gender), to: getGenderLabel(input.gender),
+    },
+    input.dateOfBirth !== kundli.dateOfBirth.slice(0, 10) && {
+      field: 'dateOfBirth', label: 'Date of birth', from: kundli.dateOfBirth.slice(0, 10), to: input.dateOfBirth,
+    },
+    input.timeOfBirth !== kundli.timeOfBirth.slice(0, 5) && {
+      field: 'timeOfBirth', label: 'Time of birth', from: kundli.timeOfBirth.slice(0, 5), to: input.timeOfBirth,
+    },
+    placeChanged && {
+      field: 'birthPlace', label: 'Birth place', from: kundli.birthPlace.name, to: input.birthPlace.name,
+    },
+  ];
+  return changes.filter((change): change is BirthDetailChange => change !== false);
+};
+
+const KundliGenerationScreen = ({ navigation, route }: any) => {
+  const editingKundli: SavedKundli | undefined = route?.params?.kundli;
   const { scale } = useResponsiveLayout();
-  const { saveKundli } = useSavedKundlis();
+  const { kundlis: localKundlis, saveKundli, updateKundli } = useSavedKundlis();
+  const queryClient = useQueryClient();
   const insets = useSafeAreaInsets();
 
   // Status bar height for proper spacing
@@ -78,19 +154,21 @@ const KundliGenerationScreen = ({ navigation }: any) => {
   const [currentStep, setCurrentStep] = useState(0);
 
   // Form data
-  const [formData, setFormData] = useState<KundliWizardData>({
-    name: '',
-    gender: null,
-    dateOfBirth: null,
-    timeOfBirth: null,
-    birthPlace: null,
-  });
+  const [formData, setFormData] = useState<KundliWizardData>(() => (
+    editingKundli ? toWizardData(editingKundli) : {
+      name: '',
+      gender: null,
+      dateOfBirth: null,
+      timeOfBirth: null,
+      birthPlace: null,
+    }
+  ));
 
   // UI states
   const [showGenderDropdown, setShowGenderDropdown] = useState(false);
   const [showDatePicker, setShowDatePicker] = useState(Platform.OS === 'android' ? false : true);
   const [showTimePicker, setShowTimePicker] = useState(Platform.OS === 'android' ? false : true);
-  const [locationSearch, setLocationSearch] = useState('');
+  const [locationSearch, setLocationSearch] = useState(editingKundli?.birthPlace.name || '');
   const [saving, setSaving] = useState(false);
   const [searchingCities, setSearchingCities] = useState(false);
   const [citiesFromApi, setCitiesFromApi] = useState<BirthPlace[]>([]);
@@ -197,6 +275,77 @@ const KundliGenerationScreen = ({ navigation }: any) => {
     }
   }, [currentStep, navigation]);
 
+  // Save edited birth details - the server copy if it has one, else the copy on this device
+  const saveEdits = useCallback(async (kundli: SavedKundli, changes: BirthDetailChange[], input: KundliInput) => {
+    setSaving(true);
+    const updates: Partial<KundliInput> = Object.fromEntries(
+      changes.map(({ field }) => [field, input[field]])
+    );
+
+    try {
+      const isLocalOnly = localKundlis.some(k => k.id === kundli.id) &&
+        !kundliSyncService.getRecord(kundli.id)?.syncedAt;
+
+      let updatedKundli: SavedKundli | null = null;
+      let savedOffline = false;
+      if (!isLocalOnly) {
+        try {
+          updatedKundli = await kundliService.update(kundli.id, updates);
+        } catch (apiError) {
+          if (!isNetworkError(apiError)) {
+            throw apiError;
+          }
+          // Offline - the next sync pushes the edit made to the copy on this device
+          console.warn('[KundliEdit] Server unreachable, editing the local copy:', apiError);
+          savedOffline = true;
+        }
+      }
+      if (!updatedKundli) {
+        updatedKundli = await updateKundli(kundli.id, updates);
+      }
+      if (!updatedKundli) {
+        // Opened from the server list - keep an edited copy on this device for the sync to push
+        updatedKundli = await kundliSyncService.saveOfflineEdit(kundli, updates);
+      }
+      if (savedOffline) {
+        NotificationService.info(
+          'You are offline. The changes are saved on this device and will sync when you are back online.',
+          'Saved on This Device'
+        );
+      }
+
+      // Lists and share cards pick up the new details; the report is regenerated on open
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.KUNDLI_LIST });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      navigation.replace('KundliReport', {
+        kundliId: updatedKundli.id,
+        kundliData: updatedKundli,
+        refresh: true,
+      });
+    } catch (error) {
+      console.error('Error updating kundli:', error);
+      handleApiError(error);
+      setSaving(false);
+    }
+  }, [localKundlis, updateKundli, queryClient, navigation]);
+
+  // Confirm the changed fields before saving an edit
+  const confirmEdits = useCallback((kundli: SavedKundli, input: KundliInput) => {
+    const changes = getBirthDetailChanges(kundli, input);
+    if (changes.length === 0) {
+      NotificationService.info('No birth details were changed.', 'Nothing to Update');
+      return;
+    }
+
+    NotificationService.confirm({
+      title: 'Update Birth Details',
+      message: `${changes.map(({ label, from, to }) => `${label}: ${from} → ${to}`).join('\n')}\n\nThe report will be regenerated.`,
+      confirmText: 'Update',
+      cancelText: 'Cancel',
+      onConfirm: () => saveEdits(kundli, changes, input),
+    });
+  }, [saveEdits]);
+
   // Handle next
   const handleNext = useCallback(async () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -204,49 +353,45 @@ const KundliGenerationScreen = ({ navigation }: any) => {
 
     if (currentStep < STEPS.length - 1) {
       setCurrentStep(currentStep + 1);
-    } else {
-      // Final step - generate kundli via API and navigate to report
-      setSaving(true);
-      try {
-        const timeString = formData.timeOfBirth
-          ? `${formData.timeOfBirth.getHours().toString().padStart(2, '0')}:${formData.timeOfBirth.getMinutes().toString().padStart(2, '0')}`
-          : '12:00';
-
-        // Prepare input for API
-        const kundliInput = {
-          name: formData.name,
-          gender: formData.gender!,
-          dateOfBirth: formData.dateOfBirth!.toISOString().split('T')[0], // YYYY-MM-DD format
-          timeOfBirth: timeString,
-          birthPlace: formData.birthPlace!,
-        };
-
-        // Try API first, fallback to local storage if API fails
-        let savedKundli;
-        try {
-          savedKundli = await kundliService.generate(kundliInput);
-        } catch (apiError) {
-          console.warn('API generation failed, saving locally:', apiError);
-          // Fallback to local storage
-          savedKundli = await saveKundli({
-            name: formData.name,
-            gender: formData.gender!,
-            dateOfBirth: formData.dateOfBirth!.toISOString(),
-            timeOfBirth: timeString,
-            birthPlace: formData.birthPlace!,
-          });
-        }
+      return;
+    }
 
-        navigation.replace('KundliReport', {
-          kundliId: savedKundli.id,
-          kundliData: savedKundli,
-        });
-      } catch (error) {
-        console.error('Error saving kundli:', error);
-        setSaving(false);
+    // Prepare input for API
+    const kundliInput: KundliInput = {
+      name: formData.name.trim(),
+      gender: formData.gender!,
+      dateOfBirth: formatDateInput(formData.dateOfBirth!), // YYYY-MM-DD format
+      timeOfBirth: formatTimeInput(formData.timeOfBirth),
+      birthPlace: formData.birthPlace!,
+    };
+
+    if (editingKundli) {
+      confirmEdits(editingKundli, kundliInput);
+      return;
+    }
+
+    // Final step - generate kundli via API and navigate to report
+    setSaving(true);
+    try {
+      // Try API first, fallback to local storage if API fails
+      let savedKundli;
+      try {
+        savedKundli = await kundliService.generate(kundliInput);
+      } catch (apiError) {
+        console.warn('API generation failed, saving locally:', apiError);
+        // Fallback to local storage - kundliSyncService uploads it once back online
+        savedKundli = await saveKundli(kundliInput);
       }
+
+      navigation.replace('KundliReport', {
+        kundliId: savedKundli.id,
+        kundliData: savedKundli,
+      });
+    } catch (error) {
+      console.error('Error saving kundli:', error);
+      setSaving(false);
     }
-  }, [currentStep, formData, saveKundli, navigation]);
+  }, [currentStep, formData, editingKundli, confirmEdits, saveKundli, navigation]);
 
   // Render step content
   const renderStepContent = () => {
@@ -547,7 +692,7 @@ const KundliGenerationScreen = ({ navigation }: any) => {
             </TouchableOpacity>
 
             <Text style={[styles.headerTitle, { fontSize: 18 * scale }]}>
-              Free Kundli Report
+              {editingKundli ? 'Edit Birth Details' : 'Free Kundli Report'}
             </Text>
 
             <View style={styles.headerRight} />
@@ -555,7 +700,7 @@ const KundliGenerationScreen = ({ navigation }: any) => {
 
           {/* Subtitle - On Yellow */}
           <Text style={[styles.subtitle, { fontSize: 13 * scale }]}>
-            Enter your birth details
+            {editingKundli ? `Update ${editingKundli.name}'s birth details` : 'Enter your birth details'}
           </Text>
 
           {/* White Content Area */}
@@ -594,7 +739,7 @@ const KundliGenerationScreen = ({ navigation }: any) => {
                 <ActivityIndicator color="#FFFFFF" />
               ) : (
                 <Text style={[styles.nextButtonText, { fontSize: 16 * scale }]}>
-                  {currentStep === STEPS.length - 1 ? 'Generate Kundli' : 'Next'}
+                  {currentStep < STEPS.length - 1 ? 'Next' : editingKundli ? 'Review Changes' : 'Generate Kundli'}
                 </Text>
               )}
             </TouchableOpacity>
@@ -23,8 +23,9 @@ import Animated, {
   FadeInRight,
   Layout,
 } from 'react-native-reanimated';
-import { ChevronLeft, Search, ChevronRight, Heart } from 'lucide-react-native';
+import { ChevronLeft, Search, ChevronRight, Heart, Users } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
+import { useQuery } from '@tanstack/react-query';
 
 import { BottomNavBar } from '../components/BottomNavBar';
 import { ShimmerEffect } from '../components/skeleton/ShimmerEffect';
@@ -32,6 +33,7 @@ import { useResponsiveLayout } from '../src/utils/responsive';
 import { useSavedMatchings } from '../src/hooks/useKundliStorage';
 import { SavedMatching } from '../src/types/kundli';
 import { matchingService } from '../src/services/matching.service';
+import { QUERY_KEYS } from '../src/constants/cacheKeys';
 
 // Get initials from name
 const getInitials = (name: string): string => {
@@ -184,6 +186,9 @@ const EmptyState = ({ scale, onCreatePress }: { scale: number; onCreatePress: ()
   </Animated.View>
 );
 
+// Stable fallback so memoized merges don't recompute every render
+const NO_MATCHING_LIST: SavedMatching[] = [];
+
 const KundliMatchingDashboardScreen = ({ navigation }: any) => {
   const { scale } = useResponsiveLayout();
   const { matchings: localMatchings, loading: localLoading, searchMatchings, refetch: refetchLocal } = useSavedMatchings();
@@ -197,29 +202,20 @@ const KundliMatchingDashboardScreen = ({ navigation }: any) => {
 
   const [searchQuery, setSearchQuery] = useState('');
   const [refreshing, setRefreshing] = useState(false);
-  const [apiMatchings, setApiMatchings] = useState<SavedMatching[]>([]);
-  const [apiLoading, setApiLoading] = useState(true);
 
-  // Combined loading state
-  const loading = localLoading || apiLoading;
+  // Fetch matchings from API - persisted, so the list shows instantly (and offline) on cold start
+  const { data: apiMatchings = NO_MATCHING_LIST, isLoading: apiLoading, refetch } = useQuery({
+    queryKey: QUERY_KEYS.MATCHING_LIST,
+    queryFn: async () => (await matchingService.list({ limit: 50 })).data,
+    retry: false, // ApiClient already retries transient failures; local data covers the rest
+  });
 
-  // Fetch matchings from API
   const fetchFromApi = useCallback(async () => {
-    try {
-      const { data } = await matchingService.list({ limit: 50 });
-      setApiMatchings(data);
-    } catch (error) {
-      console.warn('Failed to fetch matchings from API:', error);
-      // Keep using local data if API fails
-    } finally {
-      setApiLoading(false);
-    }
-  }, []);
-
-  // Fetch on mount
-  useEffect(() => {
-    fetchFromApi();
-  }, [fetchFromApi]);
+    await refetch();
+  }, [refetch]);
+
+  // Combined loading state
+  const loading = localLoading || apiLoading;
 
   // Merge API and local matchings, removing duplicates by id
   const allMatchings = useMemo(() => {
@@ -270,6 +266,11 @@ const KundliMatchingDashboardScreen = ({ navigation }: any) => {
     navigation.navigate('KundliMatchingInput');
   }, [navigation]);
 
+  const handleCompare = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    navigation.navigate('CandidateComparison');
+  }, [navigation]);
+
   const handleCardPress = useCallback((matching: SavedMatching) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     navigation.navigate('KundliMatchingReport', { matchingId: matching.id, matchingData: matching });
@@ -319,7 +320,14 @@ const KundliMatchingDashboardScreen = ({ navigation }: any) => {
               Kundli Matching
             </Text>
 
-            <View style={styles.headerRight} />
+            <TouchableOpacity
+              style={styles.headerRight}
+              onPress={handleCompare}
+              accessibilityLabel="Compare candidates"
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <Users size={22 * scale} color="#333333" />
+            </TouchableOpacity>
           </View>
 
           {/* Subtitle - On Yellow */}
@@ -454,6 +462,9 @@ const styles = StyleSheet.create({
   },
   headerRight: {
     width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
   },
   subtitle: {
     fontFamily: 'Lexend_400Regular',
@@ -30,14 +30,15 @@ import Animated, {
   FadeIn,
 } from 'react-native-reanimated';
 import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
-import { ChevronLeft, User, Calendar, Clock, MapPin, X } from 'lucide-react-native';
+import { ChevronLeft, User, Users, Calendar, Clock, MapPin, X } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 
 import { useResponsiveLayout } from '../src/utils/responsive';
-import { useSavedMatchings } from '../src/hooks/useKundliStorage';
-import { BirthPlace, SavedKundli } from '../src/types/kundli';
+import { useSavedKundlis, useSavedMatchings } from '../src/hooks/useKundliStorage';
+import { BirthPlace, SavedKundli, MatchingSystem } from '../src/types/kundli';
 import { placesService } from '../src/services/places.service';
 import { matchingService } from '../src/services/matching.service';
+import { calculateMatchingReport, calculatePoruthams, ASHTAKOOT_MAX_SCORE } from '../src/astrology';
 
 // Fallback cities when API is unavailable
 const FALLBACK_CITIES: BirthPlace[] = [
@@ -51,13 +52,31 @@ const FALLBACK_CITIES: BirthPlace[] = [
   { name: 'Madurai, Tamil Nadu', latitude: 9.9252, longitude: 78.1198, timezone: 'Asia/Kolkata' },
 ];
 
+const MATCHING_SYSTEMS: { value: MatchingSystem; label: string; hint: string }[] = [
+  { value: 'ashtakoot', label: 'Ashtakoot', hint: 'North Indian · 36 gunas' },
+  { value: 'porutham', label: 'Porutham', hint: 'South Indian · 10 poruthams' },
+];
+
 interface PersonDetails {
   name: string;
   dateOfBirth: Date | null;
   timeOfBirth: Date | null;
   birthPlace: BirthPlace | null;
+  kundliId: string | null; // Saved kundli the details were picked from, until edited
 }
 
+const EMPTY_PERSON_DETAILS: PersonDetails = {
+  name: '',
+  dateOfBirth: null,
+  timeOfBirth: null,
+  birthPlace: null,
+  kundliId: null,
+};
+
+// Dates are read from local parts - toISOString() would shift the day east of UTC
+const formatDateForApi = (date: Date) =>
+  `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+
 // Picker mode type
 type PickerMode = 'date' | 'time';
 
@@ -120,6 +139,19 @@ const formatTime = (date: Date | null): string => {
   return date.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit', hour12: true });
 };
 
+// Pre-fill from a saved kundli (date at noon so the YYYY-MM-DD round trip can't cross midnight)
+const toPersonDetails = (kundli: SavedKundli): PersonDetails => {
+  const [year, month, day] = kundli.dateOfBirth.split('-').map(Number);
+  const [hours, minutes] = kundli.timeOfBirth.split(':').map(Number);
+  return {
+    name: kundli.name,
+    dateOfBirth: new Date(year, month - 1, day, 12),
+    timeOfBirth: new Date(2000, 0, 1, hours, minutes),
+    birthPlace: kundli.birthPlace,
+    kundliId: kundli.id,
+  };
+};
+
 // Person Details Card Component - Memoized for performance
 const PersonDetailsCard = memo(({
   title,
@@ -128,6 +160,7 @@ const PersonDetailsCard = memo(({
   onDatePress,
   onTimePress,
   onPlacePress,
+  onPickPress,
   scale,
 }: {
   title: string;
@@ -136,6 +169,7 @@ const PersonDetailsCard = memo(({
   onDatePress: () => void;
   onTimePress: () => void;
   onPlacePress: () => void;
+  onPickPress?: () => void;
   scale: number;
 }) => {
   return (
@@ -143,10 +177,23 @@ const PersonDetailsCard = memo(({
       entering={FadeInDown.duration(400)}
       style={[styles.card, { padding: 16 * scale, borderRadius: 16 * scale, marginBottom: 16 * scale }]}
     >
-      <Text style={[styles.cardTitle, { fontSize: 16 * scale, marginBottom: 16 * scale }]}>
+      <Text style={[styles.cardTitle, { fontSize: 16 * scale, marginBottom: onPickPress ? 8 * scale : 16 * scale }]}>
         {title}
       </Text>
 
+      {onPickPress && (
+        <TouchableOpacity
+          style={[styles.pickKundliButton, { marginBottom: 16 * scale }]}
+          onPress={onPickPress}
+          hitSlop={{ top: 6, bottom: 6, left: 10, right: 10 }}
+        >
+          <Users size={14 * scale} color="#2930A6" />
+          <Text style={[styles.pickKundliText, { fontSize: 13 * scale, marginLeft: 6 * scale }]}>
+            {details.kundliId ? 'From My Kundlis · Change' : 'Pick from My Kundlis'}
+          </Text>
+        </TouchableOpacity>
+      )}
+
       <Text style={[styles.fieldLabel, { fontSize: 12 * scale }]}>Name</Text>
       <InputField
         icon={User}
@@ -276,6 +323,69 @@ const NameInputModal = memo(({
 
 NameInputModal.displayName = 'NameInputModal';
 
+// Saved Kundli Picker Modal
+const KundliPickerModal = memo(({
+  visible,
+  kundlis,
+  title,
+  onClose,
+  onSelect,
+  scale,
+}: {
+  visible: boolean;
+  kundlis: SavedKundli[];
+  title: string;
+  onClose: () => void;
+  onSelect: (kundli: SavedKundli) => void;
+  scale: number;
+}) => {
+  const handleSelect = useCallback((kundli: SavedKundli) => {
+    Haptics.selectionAsync();
+    onSelect(kundli);
+    onClose();
+  }, [onSelect, onClose]);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.locationModalOverlay}>
+        <Animated.View
+          entering={FadeIn.duration(200)}
+          style={[styles.locationModalContent, { borderTopLeftRadius: 24 * scale, borderTopRightRadius: 24 * scale }]}
+        >
+          <View style={[styles.modalHeader, { padding: 20 * scale }]}>
+            <Text style={[styles.modalTitle, { fontSize: 18 * scale }]}>{title}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <X size={24 * scale} color="#595959" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={{ maxHeight: 360 * scale }}>
+            {kundlis.map((kundli) => (
+              <TouchableOpacity
+                key={kundli.id}
+                style={[styles.locationItem, { paddingVertical: 14 * scale, paddingHorizontal: 20 * scale }]}
+                onPress={() => handleSelect(kundli)}
+              >
+                <User size={18 * scale} color="#2930A6" />
+                <View style={{ flex: 1, marginLeft: 12 * scale }}>
+                  <Text style={[styles.locationText, { fontSize: 14 * scale }]} numberOfLines={1}>
+                    {kundli.name}
+                  </Text>
+                  <Text style={[styles.kundliPickerMeta, { fontSize: 12 * scale, marginTop: 2 * scale }]} numberOfLines={1}>
+                    {formatDate(toPersonDetails(kundli).dateOfBirth)} · {kundli.birthPlace.name}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+});
+
+KundliPickerModal.displayName = 'KundliPickerModal';
+
 // Location Search Modal - Optimized with proper cleanup
 const LocationModal = memo(({
   visible,
@@ -467,9 +577,12 @@ const LocationModal = memo(({
 
 LocationModal.displayName = 'LocationModal';
 
-const KundliMatchingInputScreen = ({ navigation }: any) => {
+const KundliMatchingInputScreen = ({ navigation, route }: any) => {
   const { scale } = useResponsiveLayout();
   const { saveMatching } = useSavedMatchings();
+  const { kundlis } = useSavedKundlis();
+  // "Match this kundli" from the dashboard pre-fills the side matching its gender
+  const sourceKundli: SavedKundli | undefined = route?.params?.kundli;
   const insets = useSafeAreaInsets();
 
   // Status bar height for proper spacing
@@ -483,24 +596,19 @@ const KundliMatchingInputScreen = ({ navigation }: any) => {
   const abortControllerRef = useRef<AbortController | null>(null);
 
   // Boy's details
-  const [boyDetails, setBoyDetails] = useState<PersonDetails>({
-    name: '',
-    dateOfBirth: null,
-    timeOfBirth: null,
-    birthPlace: null,
-  });
+  const [boyDetails, setBoyDetails] = useState<PersonDetails>(() =>
+    sourceKundli && sourceKundli.gender !== 'female' ? toPersonDetails(sourceKundli) : EMPTY_PERSON_DETAILS
+  );
 
   // Girl's details
-  const [girlDetails, setGirlDetails] = useState<PersonDetails>({
-    name: '',
-    dateOfBirth: null,
-    timeOfBirth: null,
-    birthPlace: null,
-  });
+  const [girlDetails, setGirlDetails] = useState<PersonDetails>(() =>
+    sourceKundli?.gender === 'female' ? toPersonDetails(sourceKundli) : EMPTY_PERSON_DETAILS
+  );
 
   // Modal states
   const [nameModal, setNameModal] = useState<{ visible: boolean; target: 'boy' | 'girl' }>({ visible: false, target: 'boy' });
   const [locationModal, setLocationModal] = useState<{ visible: boolean; target: 'boy' | 'girl' }>({ visible: false, target: 'boy' });
+  const [kundliPicker, setKundliPicker] = useState<{ visible: boolean; target: 'boy' | 'girl' }>({ visible: false, target: 'boy' });
 
   // Platform-specific picker state (unified for date and time)
   const [pickerConfig, setPickerConfig] = useState<DateTimePickerConfig>({
@@ -514,6 +622,7 @@ const KundliMatchingInputScreen = ({ navigation }: any) => {
   const [tempPickerValue, setTempPickerValue] = useState<Date>(new Date(2000, 0, 1));
 
   const [saving, setSaving] = useState(false);
+  const [system, setSystem] = useState<MatchingSystem>('ashtakoot');
 
   // Cleanup on unmount
   useEffect(() => {
@@ -545,13 +654,32 @@ const KundliMatchingInputScreen = ({ navigation }: any) => {
     navigation.goBack();
   }, [navigation]);
 
-  // Memoized updateDetails function
+  // Memoized updateDetails function - changed birth data no longer matches the saved kundli
   const updateDetails = useCallback((target: 'boy' | 'girl', field: keyof PersonDetails, value: any) => {
+    const update = (prev: PersonDetails): PersonDetails => ({
+      ...prev,
+      [field]: value,
+      kundliId: field === 'name' ? prev.kundliId : null,
+    });
     if (target === 'boy') {
-      setBoyDetails(prev => ({ ...prev, [field]: value }));
+      setBoyDetails(update);
+    } else {
+      setGirlDetails(update);
+    }
+  }, []);
+
+  // Fill a side from a saved kundli
+  const handleKundliSelect = useCallback((kundli: SavedKundli) => {
+    const details = toPersonDetails(kundli);
+    if (kundliPicker.target === 'boy') {
+      setBoyDetails(details);
     } else {
-      setGirlDetails(prev => ({ ...prev, [field]: value }));
+      setGirlDetails(details);
     }
+  }, [kundliPicker.target]);
+
+  const closeKundliPicker = useCallback(() => {
+    setKundliPicker(prev => ({ ...prev, visible: false }));
   }, []);
 
   // Format time helper (defined outside to prevent recreation)
@@ -574,17 +702,20 @@ const KundliMatchingInputScreen = ({ navigation }: any) => {
         boy: {
           name: boyDetails.name,
           gender: 'male' as const,
-          dateOfBirth: boyDetails.dateOfBirth!.toISOString().split('T')[0], // YYYY-MM-DD
+          dateOfBirth: formatDateForApi(boyDetails.dateOfBirth!),
           timeOfBirth: formatTimeForApi(boyDetails.timeOfBirth!),
           birthPlace: boyDetails.birthPlace!,
         },
         girl: {
           name: girlDetails.name,
           gender: 'female' as const,
-          dateOfBirth: girlDetails.dateOfBirth!.toISOString().split('T')[0], // YYYY-MM-DD
+          dateOfBirth: formatDateForApi(girlDetails.dateOfBirth!),
           timeOfBirth: formatTimeForApi(girlDetails.timeOfBirth!),
           birthPlace: girlDetails.birthPlace!,
         },
+        system,
+        boyKundliId: boyDetails.kundliId ?? undefined,
+        girlKundliId: girlDetails.kundliId ?? undefined,
       };
 
       // Try API first, fallback to local storage if API fails
@@ -593,11 +724,15 @@ const KundliMatchingInputScreen = ({ navigation }: any) => {
         saved = await matchingService.generate(matchingInput);
       } catch (apiError) {
         console.warn('API matching generation failed, saving locally:', apiError);
-        // Fallback to local storage with mock score
+        // Fallback to local storage, scored on-device in the selected system
+        const porutham = system === 'porutham' ? calculatePoruthams(matchingInput) : null;
+        const score = porutham ? porutham.matchedCount : calculateMatchingReport('', matchingInput).totalScore;
+        const maxScore = porutham ? porutham.total : ASHTAKOOT_MAX_SCORE;
+
         const boyData: Omit<SavedKundli, 'id'> = {
           name: boyDetails.name,
           gender: 'male',
-          dateOfBirth: boyDetails.dateOfBirth!.toISOString(),
+          dateOfBirth: formatDateForApi(boyDetails.dateOfBirth!),
           timeOfBirth: formatTimeForApi(boyDetails.timeOfBirth!),
           birthPlace: boyDetails.birthPlace!,
           createdAt: new Date().toISOString(),
@@ -607,7 +742,7 @@ const KundliMatchingInputScreen = ({ navigation }: any) => {
         const girlData: Omit<SavedKundli, 'id'> = {
           name: girlDetails.name,
           gender: 'female',
-          dateOfBirth: girlDetails.dateOfBirth!.toISOString(),
+          dateOfBirth: formatDateForApi(girlDetails.dateOfBirth!),
           timeOfBirth: formatTimeForApi(girlDetails.timeOfBirth!),
           birthPlace: girlDetails.birthPlace!,
           createdAt: new Date().toISOString(),
@@ -617,15 +752,24 @@ const KundliMatchingInputScreen = ({ navigation }: any) => {
         saved = await saveMatching({
           boy: boyData,
           girl: girlData,
-          score: Math.floor(Math.random() * 18) + 18, // Mock score 18-36
-          maxScore: 36,
+          score,
+          maxScore,
+          system,
+          boyKundliId: matchingInput.boyKundliId,
+          girlKundliId: matchingInput.girlKundliId,
         });
       }
 
       if (isMountedRef.current) {
         navigation.replace('KundliMatchingReport', {
           matchingId: saved.id,
-          matchingData: saved,
+          // The server may not echo the system and source kundlis back
+          matchingData: {
+            ...saved,
+            system,
+            boyKundliId: saved.boyKundliId ?? matchingInput.boyKundliId,
+            girlKundliId: saved.girlKundliId ?? matchingInput.girlKundliId,
+          },
         });
       }
     } catch (error) {
@@ -634,7 +778,7 @@ const KundliMatchingInputScreen = ({ navigation }: any) => {
         setSaving(false);
       }
     }
-  }, [isFormValid, boyDetails, girlDetails, saveMatching, navigation, formatTimeForApi]);
+  }, [isFormValid, boyDetails, girlDetails, system, saveMatching, navigation, formatTimeForApi]);
 
   // Open date picker - platform specific
   const openDatePicker = useCallback((target: 'boy' | 'girl') => {
@@ -701,6 +845,7 @@ const KundliMatchingInputScreen = ({ navigation }: any) => {
     onDatePress: () => openDatePicker('boy'),
     onTimePress: () => openTimePicker('boy'),
     onPlacePress: () => setLocationModal({ visible: true, target: 'boy' }),
+    onPickPress: () => setKundliPicker({ visible: true, target: 'boy' }),
   }), [openDatePicker, openTimePicker]);
 
   const girlCallbacks = useMemo(() => ({
@@ -708,6 +853,7 @@ const KundliMatchingInputScreen = ({ navigation }: any) => {
     onDatePress: () => openDatePicker('girl'),
     onTimePress: () => openTimePicker('girl'),
     onPlacePress: () => setLocationModal({ visible: true, target: 'girl' }),
+    onPickPress: () => setKundliPicker({ visible: true, target: 'girl' }),
   }), [openDatePicker, openTimePicker]);
 
   // Close name modal callback
@@ -780,6 +926,36 @@ const KundliMatchingInputScreen = ({ navigation }: any) => {
               contentContainerStyle={{ paddingHorizontal: 20 * scale, paddingTop: 16 * scale, paddingBottom: 120 * scale }}
               showsVerticalScrollIndicator={false}
             >
+            {/* Matching System */}
+            <Text style={[styles.fieldLabel, { fontSize: 12 * scale }]}>Matching System</Text>
+            <View style={[styles.systemSelector, { borderRadius: 24 * scale, padding: 4 * scale, marginBottom: 16 * scale }]}>
+              {MATCHING_SYSTEMS.map((option) => {
+                const selected = system === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.systemOption,
+                      { borderRadius: 20 * scale, paddingVertical: 8 * scale },
+                      selected && styles.systemOptionSelected,
+                    ]}
+                    onPress={() => {
+                      Haptics.selectionAsync();
+                      setSystem(option.value);
+                    }}
+                    activeOpacity={0.8}
+                  >
+                    <Text style={[styles.systemOptionLabel, { fontSize: 14 * scale }, selected && styles.systemOptionTextSelected]}>
+                      {option.label}
+                    </Text>
+                    <Text style={[styles.systemOptionHint, { fontSize: 11 * scale }, selected && styles.systemOptionTextSelected]}>
+                      {option.hint}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
             {/* Boy's Details */}
             <PersonDetailsCard
               title="Boy's Details"
@@ -788,6 +964,7 @@ const KundliMatchingInputScreen = ({ navigation }: any) => {
               onDatePress={boyCallbacks.onDatePress}
               onTimePress={boyCallbacks.onTimePress}
               onPlacePress={boyCallbacks.onPlacePress}
+              onPickPress={kundlis.length > 0 ? boyCallbacks.onPickPress : undefined}
               scale={scale}
             />
 
@@ -799,6 +976,7 @@ const KundliMatchingInputScreen = ({ navigation }: any) => {
               onDatePress={girlCallbacks.onDatePress}
               onTimePress={girlCallbacks.onTimePress}
               onPlacePress={girlCallbacks.onPlacePress}
+              onPickPress={kundlis.length > 0 ? girlCallbacks.onPickPress : undefined}
               scale={scale}
             />
 
@@ -881,6 +1059,16 @@ const KundliMatchingInputScreen = ({ navigation }: any) => {
           )
         )}
 
+        {/* Saved Kundli Picker */}
+        <KundliPickerModal
+          visible={kundliPicker.visible}
+          kundlis={kundlis}
+          title={kundliPicker.target === 'boy' ? "Boy's Kundli" : "Girl's Kundli"}
+          onClose={closeKundliPicker}
+          onSelect={handleKundliSelect}
+          scale={scale}
+        />
+
         {/* Location Modal */}
         <LocationModal
           visible={locationModal.visible}
@@ -985,9 +1173,51 @@ const styles = StyleSheet.create({
   inputPlaceholder: {
     color: '#595959',
   },
+  pickKundliButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  pickKundliText: {
+    fontFamily: 'Lexend_500Medium',
+    fontSize: 13,
+    color: '#2930A6',
+  },
+  kundliPickerMeta: {
+    fontFamily: 'Lexend_400Regular',
+    fontSize: 12,
+    color: '#888888',
+  },
   buttonContainer: {
     paddingTop: 16,
   },
+  systemSelector: {
+    flexDirection: 'row',
+    backgroundColor: '#F5F5F5',
+    borderWidth: 1,
+    borderColor: '#E8E8E8',
+  },
+  systemOption: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  systemOptionSelected: {
+    backgroundColor: '#2930A6',
+  },
+  systemOptionLabel: {
+    fontFamily: 'Lexend_600SemiBold',
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  systemOptionHint: {
+    fontFamily: 'Lexend_400Regular',
+    fontSize: 11,
+    color: '#595959',
+    marginTop: 2,
+  },
+  systemOptionTextSelected: {
+    color: '#FFFFFF',
+  },
   matchButton: {
     backgroundColor: '#2930A6',
     alignItems: 'center',
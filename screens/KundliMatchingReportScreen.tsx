@@ -36,6 +36,7 @@ import {
   Check,
   X,
   AlertCircle,
+  Info,
 } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import { BlurView } from 'expo-blur';
@@ -43,8 +44,21 @@ import { BlurView } from 'expo-blur';
 import { BottomNavBar } from '../components/BottomNavBar';
 import { ShimmerEffect } from '../components/skeleton/ShimmerEffect';
 import { useResponsiveLayout } from '../src/utils/responsive';
-import { SavedMatching, MatchingReport } from '../src/types/kundli';
+import {
+  SavedMatching,
+  MatchingReport,
+  MatchingVerdict,
+  PoruthamResult,
+  ManglikReference,
+} from '../src/types/kundli';
 import { matchingService } from '../src/services/matching.service';
+import {
+  calculateMatchingReport,
+  calculatePoruthams,
+  calculateMangalDosha,
+  getMatchingRating,
+  ASHTAKOOT_MAX_SCORE,
+} from '../src/astrology';
 
 // Ashtakoot Guna data structure
 interface GunaItem {
@@ -58,107 +72,40 @@ interface GunaItem {
   verdict: 'excellent' | 'good' | 'average' | 'poor';
 }
 
-// Fallback Ashtakoot data when API is unavailable
-const generateFallbackAshtakootData = (totalScore: number): GunaItem[] => {
-  // Distribute score across 8 gunas
-  const gunas: GunaItem[] = [
-    {
-      id: 'varna',
-      name: 'Varna',
-      maxPoints: 1,
-      obtainedPoints: totalScore >= 20 ? 1 : 0,
-      description: 'Varna represents the spiritual compatibility and ego levels. It indicates the mental compatibility of the couple.',
-      boyAttribute: 'Brahmin',
-      girlAttribute: 'Kshatriya',
-      verdict: totalScore >= 20 ? 'excellent' : 'average',
-    },
-    {
-      id: 'vashya',
-      name: 'Vashya',
-      maxPoints: 2,
-      obtainedPoints: totalScore >= 18 ? 2 : totalScore >= 12 ? 1 : 0,
-      description: 'Vashya indicates the power equation and mutual attraction between partners. It shows who will have more influence in the relationship.',
-      boyAttribute: 'Manav',
-      girlAttribute: 'Manav',
-      verdict: totalScore >= 18 ? 'excellent' : totalScore >= 12 ? 'good' : 'poor',
-    },
-    {
-      id: 'tara',
-      name: 'Tara',
-      maxPoints: 3,
-      obtainedPoints: totalScore >= 25 ? 3 : totalScore >= 18 ? 2 : 1,
-      description: 'Tara or Dina represents the birth star compatibility. It indicates the health and well-being of both partners after marriage.',
-      boyAttribute: 'Ashwini',
-      girlAttribute: 'Rohini',
-      verdict: totalScore >= 25 ? 'excellent' : totalScore >= 18 ? 'good' : 'average',
-    },
-    {
-      id: 'yoni',
-      name: 'Yoni',
-      maxPoints: 4,
-      obtainedPoints: totalScore >= 28 ? 4 : totalScore >= 20 ? 3 : totalScore >= 15 ? 2 : 1,
-      description: 'Yoni represents physical and sexual compatibility between partners. It indicates the intimacy and physical attraction.',
-      boyAttribute: 'Horse',
-      girlAttribute: 'Elephant',
-      verdict: totalScore >= 28 ? 'excellent' : totalScore >= 20 ? 'good' : 'average',
-    },
-    {
-      id: 'graha_maitri',
-      name: 'Graha Maitri',
-      maxPoints: 5,
-      obtainedPoints: totalScore >= 26 ? 5 : totalScore >= 20 ? 4 : totalScore >= 15 ? 3 : 2,
-      description: 'Graha Maitri or Rasyadhipati indicates the mental compatibility and friendship between the couple based on Moon sign lords.',
-      boyAttribute: 'Mars',
-      girlAttribute: 'Venus',
-      verdict: totalScore >= 26 ? 'excellent' : totalScore >= 20 ? 'good' : 'average',
-    },
-    {
-      id: 'gana',
-      name: 'Gana',
-      maxPoints: 6,
-      obtainedPoints: totalScore >= 30 ? 6 : totalScore >= 24 ? 5 : totalScore >= 18 ? 4 : 2,
-      description: 'Gana represents the temperament and behavior compatibility. It indicates how well the couple will get along in daily life.',
-      boyAttribute: 'Deva',
-      girlAttribute: 'Manushya',
-      verdict: totalScore >= 30 ? 'excellent' : totalScore >= 24 ? 'good' : 'average',
-    },
-    {
-      id: 'bhakoot',
-      name: 'Bhakoot',
-      maxPoints: 7,
-      obtainedPoints: totalScore >= 32 ? 7 : totalScore >= 25 ? 5 : totalScore >= 18 ? 3 : 0,
-      description: 'Bhakoot or Rashikoot indicates the emotional compatibility and love between partners. It affects the financial prosperity and family happiness.',
-      boyAttribute: 'Aries',
-      girlAttribute: 'Leo',
-      verdict: totalScore >= 32 ? 'excellent' : totalScore >= 25 ? 'good' : totalScore >= 18 ? 'average' : 'poor',
-    },
-    {
-      id: 'nadi',
-      name: 'Nadi',
-      maxPoints: 8,
-      obtainedPoints: totalScore >= 28 ? 8 : totalScore >= 20 ? 4 : 0,
-      description: 'Nadi is the most important factor in Kundli matching. It indicates the genetic compatibility and health of future children.',
-      boyAttribute: 'Madhya',
-      girlAttribute: 'Antya',
-      verdict: totalScore >= 28 ? 'excellent' : totalScore >= 20 ? 'average' : 'poor',
-    },
-  ];
-
-  return gunas;
+interface Verdict {
+  text: string;
+  color: string;
+  bgColor: string;
+}
+
+const VERDICTS: Record<MatchingVerdict['rating'], Verdict> = {
+  excellent: { text: 'Excellent Match', color: '#22C55E', bgColor: 'rgba(34, 197, 94, 0.15)' },
+  good: { text: 'Good Match', color: '#F59E0B', bgColor: 'rgba(245, 158, 11, 0.15)' },
+  average: { text: 'Average Match', color: '#3B82F6', bgColor: 'rgba(59, 130, 246, 0.15)' },
+  below_average: { text: 'Below Average', color: '#EF4444', bgColor: 'rgba(239, 68, 68, 0.15)' },
 };
 
-// Get verdict based on score
-const getVerdict = (score: number): { text: string; color: string; bgColor: string } => {
-  if (score >= 25) {
-    return { text: 'Excellent Match', color: '#22C55E', bgColor: 'rgba(34, 197, 94, 0.15)' };
-  }
-  if (score >= 18) {
-    return { text: 'Good Match', color: '#F59E0B', bgColor: 'rgba(245, 158, 11, 0.15)' };
-  }
-  if (score >= 12) {
-    return { text: 'Average Match', color: '#3B82F6', bgColor: 'rgba(59, 130, 246, 0.15)' };
-  }
-  return { text: 'Below Average', color: '#EF4444', bgColor: 'rgba(239, 68, 68, 0.15)' };
+// Get verdict based on Ashtakoot score
+const getVerdict = (score: number): Verdict => VERDICTS[getMatchingRating(score)];
+
+// Mangal Dosha status badge
+const MANGAL_DOSHA_STATUSES: Record<string, { text: string; color: string }> = {
+  none: { text: 'No Dosha', color: '#22C55E' },
+  cancelled: { text: 'Cancelled', color: '#3B82F6' },
+  present: { text: 'Present', color: '#EF4444' },
+};
+
+const MANGLIK_REFERENCE_LABELS: Record<ManglikReference, string> = {
+  lagna: 'Lagna',
+  moon: 'Moon',
+  venus: 'Venus',
+};
+
+const ordinal = (house: number): string => {
+  if (house === 1) return '1st';
+  if (house === 2) return '2nd';
+  if (house === 3) return '3rd';
+  return `${house}th`;
 };
 
 // Get initials from name
@@ -302,10 +249,146 @@ const GunaCard = React.memo(({
   );
 });
 
+// Porutham Card Component - pass/fail, no points
+const PoruthamCard = React.memo(({
+  porutham,
+  index,
+  scale,
+  expanded,
+  onToggle,
+}: {
+  porutham: PoruthamResult;
+  index: number;
+  scale: number;
+  expanded: boolean;
+  onToggle: () => void;
+}) => {
+  const rotation = useSharedValue(expanded ? 180 : 0);
+
+  React.useEffect(() => {
+    rotation.value = withTiming(expanded ? 180 : 0, { duration: 300 });
+  }, [expanded]);
+
+  const arrowStyle = useAnimatedStyle(() => ({
+    transform: [{ rotate: `${rotation.value}deg` }],
+  }));
+
+  const statusColor = porutham.passed ? '#22C55E' : '#EF4444';
+
+  return (
+    <Animated.View
+      entering={FadeInDown.delay(index * 80).duration(400)}
+    >
+      <TouchableOpacity
+        style={[styles.gunaCard, {
+          padding: 16 * scale,
+          borderRadius: 16 * scale,
+          marginBottom: 12 * scale,
+        }]}
+        onPress={onToggle}
+        activeOpacity={0.7}
+      >
+        {/* Header Row */}
+        <View style={styles.gunaHeader}>
+          <View style={styles.gunaHeaderLeft}>
+            <View style={[styles.gunaNumberBadge, {
+              width: 28 * scale,
+              height: 28 * scale,
+              borderRadius: 14 * scale,
+            }]}>
+              <Text style={[styles.gunaNumber, { fontSize: 12 * scale }]}>
+                {index + 1}
+              </Text>
+            </View>
+            <View style={{ marginLeft: 12 * scale, flexShrink: 1 }}>
+              <Text style={[styles.gunaName, { fontSize: 16 * scale }]}>
+                {porutham.name}
+              </Text>
+              {porutham.isDealBreaker && (
+                <Text style={[styles.dealBreakerTag, { fontSize: 11 * scale }]}>
+                  Deal-breaker
+                </Text>
+              )}
+            </View>
+          </View>
+
+          <View style={styles.gunaHeaderRight}>
+            {/* Pass / Fail */}
+            <View style={[styles.gunaScoreBadge, {
+              backgroundColor: statusColor + '15',
+              paddingHorizontal: 10 * scale,
+              paddingVertical: 4 * scale,
+              borderRadius: 12 * scale,
+              marginRight: 8 * scale,
+            }]}>
+              {porutham.passed
+                ? <Check size={14 * scale} color={statusColor} />
+                : <X size={14 * scale} color={statusColor} />}
+              <Text style={[styles.gunaScoreText, {
+                fontSize: 12 * scale,
+                color: statusColor,
+                marginLeft: 4 * scale,
+              }]}>
+                {porutham.passed ? 'Match' : 'No Match'}
+              </Text>
+            </View>
+
+            {/* Arrow */}
+            <Animated.View style={arrowStyle}>
+              <ChevronDown size={20 * scale} color="#888888" />
+            </Animated.View>
+          </View>
+        </View>
+
+        {/* Expanded Content */}
+        {expanded && (
+          <Animated.View
+            entering={FadeIn.duration(300)}
+            style={[styles.gunaExpanded, { marginTop: 16 * scale }]}
+          >
+            {/* Attributes Row */}
+            <View style={[styles.attributesRow, {
+              padding: 12 * scale,
+              borderRadius: 12 * scale,
+              marginBottom: 12 * scale,
+            }]}>
+              <View style={styles.attributeItem}>
+                <Text style={[styles.attributeLabel, { fontSize: 11 * scale }]}>Boy</Text>
+                <Text style={[styles.attributeValue, { fontSize: 13 * scale }]}>{porutham.boyAttribute}</Text>
+              </View>
+              <View style={[styles.attributeDivider, { height: 30 * scale }]} />
+              <View style={styles.attributeItem}>
+                <Text style={[styles.attributeLabel, { fontSize: 11 * scale }]}>Girl</Text>
+                <Text style={[styles.attributeValue, { fontSize: 13 * scale }]}>{porutham.girlAttribute}</Text>
+              </View>
+            </View>
+
+            {/* Description */}
+            <Text style={[styles.gunaDescription, { fontSize: 13 * scale, lineHeight: 20 * scale }]}>
+              {porutham.description}
+            </Text>
+          </Animated.View>
+        )}
+      </TouchableOpacity>
+    </Animated.View>
+  );
+});
+
+// Dosha Status Badge Component
+const DoshaStatusBadge = ({ text, color, scale }: { text: string; color: string; scale: number }) => (
+  <View style={[styles.gunaScoreBadge, {
+    backgroundColor: color + '15',
+    paddingHorizontal: 10 * scale,
+    paddingVertical: 4 * scale,
+    borderRadius: 12 * scale,
+  }]}>
+    <Text style={[styles.gunaScoreText, { fontSize: 12 * scale, color }]}>{text}</Text>
+  </View>
+);
+
 // Score Circle Component
-const ScoreCircle = ({ score, maxScore, scale }: { score: number; maxScore: number; scale: number }) => {
+const ScoreCircle = ({ score, maxScore, verdict, scale }: { score: number; maxScore: number; verdict: Verdict; scale: number }) => {
   const percentage = (score / maxScore) * 100;
-  const verdict = getVerdict(score);
 
   return (
     <Animated.View
@@ -403,12 +486,32 @@ const KundliMatchingReportScreen = ({ navigation, route }: any) => {
 
   const [loading, setLoading] = useState(true);
   const [expandedGunas, setExpandedGunas] = useState<string[]>([]);
+  const [expandedPoruthams, setExpandedPoruthams] = useState<string[]>([]);
   const [reportData, setReportData] = useState<MatchingReport | null>(null);
 
   // Get matching data
   const matching: SavedMatching | null = matchingData || null;
   const score = reportData?.totalScore || matching?.score || 0;
-  const verdict = getVerdict(score);
+  const system = matching?.system ?? 'ashtakoot';
+
+  // Dasa Porutham - from the server when it sends one, otherwise from the birth details
+  const porutham = useMemo(() => {
+    if (system !== 'porutham' || !matching) return null;
+    return reportData?.porutham ?? calculatePoruthams(matching);
+  }, [system, matching, reportData]);
+
+  // The hero shows whichever system the matching was made in
+  const heroScore = porutham ? porutham.matchedCount : score;
+  const heroMaxScore = porutham ? porutham.total : ASHTAKOOT_MAX_SCORE;
+  const verdict = porutham ? VERDICTS[porutham.rating] : getVerdict(score);
+
+  // Mangal Dosha with the cancellation rules that fired, calculated when the server leaves them out
+  const mangalDosha = useMemo(() => {
+    if (!reportData || !matching) return null;
+    const fromReport = reportData.doshaAnalysis?.mangalDosha;
+    return fromReport?.rules ? fromReport : calculateMangalDosha(matching);
+  }, [reportData, matching]);
+  const nadiDosha = reportData?.doshaAnalysis?.nadiDosha;
 
   // Fetch report from API
   const fetchReport = useCallback(async () => {
@@ -421,19 +524,22 @@ const KundliMatchingReportScreen = ({ navigation, route }: any) => {
       const report = await matchingService.getReport(matchingId);
       setReportData(report);
     } catch (error) {
-      console.warn('Failed to fetch matching report from API:', error);
-      // Keep using matchingData if API fails
+      console.warn('Failed to fetch matching report from API, calculating on-device:', error);
+      // Local matchings and offline: the same Ashtakoot analysis from the birth details
+      if (matching) {
+        setReportData(calculateMatchingReport(matching.id, matching));
+      }
     } finally {
       setLoading(false);
     }
-  }, [matchingId]);
+  }, [matchingId, matching]);
 
   // Fetch on mount
   useEffect(() => {
     fetchReport();
   }, [fetchReport]);
 
-  // Map API report data to GunaItem format or use fallback
+  // Map report data to GunaItem format
   const gunas = useMemo((): GunaItem[] => {
     if (reportData?.ashtakootGunas && reportData.ashtakootGunas.length > 0) {
       // Map API response to GunaItem format
@@ -470,9 +576,8 @@ const KundliMatchingReportScreen = ({ navigation, route }: any) => {
         };
       });
     }
-    // Use fallback data
-    return generateFallbackAshtakootData(score);
-  }, [reportData, score]);
+    return [];
+  }, [reportData]);
 
   const handleBack = useCallback(() => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -484,14 +589,17 @@ const KundliMatchingReportScreen = ({ navigation, route }: any) => {
     if (!matching) return;
 
     try {
+      const scoreLine = porutham
+        ? `Poruthams Matched: ${porutham.matchedCount}/${porutham.total}`
+        : `Compatibility Score: ${score}/${ASHTAKOOT_MAX_SCORE}`;
       await Share.share({
-        message: `Kundli Matching Report\n\n${matching.boy.name} & ${matching.girl.name}\nCompatibility Score: ${score}/36\nVerdict: ${verdict.text}\n\nGenerated by NakshatraTalks`,
+        message: `Kundli Matching Report\n\n${matching.boy.name} & ${matching.girl.name}\n${scoreLine}\nVerdict: ${verdict.text}\n\nGenerated by NakshatraTalks`,
         title: 'Kundli Matching Report',
       });
     } catch (error) {
       console.error('Share error:', error);
     }
-  }, [matching, score, verdict]);
+  }, [matching, porutham, score, verdict]);
 
   const toggleGuna = useCallback((gunaId: string) => {
     Haptics.selectionAsync();
@@ -502,6 +610,15 @@ const KundliMatchingReportScreen = ({ navigation, route }: any) => {
     );
   }, []);
 
+  const togglePorutham = useCallback((poruthamId: string) => {
+    Haptics.selectionAsync();
+    setExpandedPoruthams(prev =>
+      prev.includes(poruthamId)
+        ? prev.filter(id => id !== poruthamId)
+        : [...prev, poruthamId]
+    );
+  }, []);
+
   if (!matching) {
     return (
       <View style={styles.container}>
@@ -563,7 +680,7 @@ const KundliMatchingReportScreen = ({ navigation, route }: any) => {
 
         {/* Subtitle - On Yellow */}
         <Text style={[styles.subtitle, { fontSize: 13 * scale }]}>
-          Ashtakoot Guna Milan
+          {porutham ? 'Dasa Porutham' : 'Ashtakoot Guna Milan'}
         </Text>
 
         {loading ? (
@@ -577,7 +694,7 @@ const KundliMatchingReportScreen = ({ navigation, route }: any) => {
             {/* Hero Section */}
             <View style={[styles.heroSection, { paddingHorizontal: 20 * scale }]}>
               {/* Score Circle */}
-              <ScoreCircle score={score} maxScore={36} scale={scale} />
+              <ScoreCircle score={heroScore} maxScore={heroMaxScore} verdict={verdict} scale={scale} />
 
               {/* Verdict Badge */}
               <Animated.View
@@ -666,7 +783,7 @@ const KundliMatchingReportScreen = ({ navigation, route }: any) => {
                   Overall Compatibility
                 </Text>
                 <Text style={[styles.progressPercent, { fontSize: 14 * scale }]}>
-                  {Math.round((score / 36) * 100)}%
+                  {Math.round((heroScore / heroMaxScore) * 100)}%
                 </Text>
               </View>
               <View style={[styles.progressBarBg, {
@@ -678,13 +795,59 @@ const KundliMatchingReportScreen = ({ navigation, route }: any) => {
                   style={[styles.progressBarFill, {
                     height: 10 * scale,
                     borderRadius: 5 * scale,
-                    width: `${(score / 36) * 100}%`,
+                    width: `${(heroScore / heroMaxScore) * 100}%`,
                     backgroundColor: verdict.color,
                   }]}
                 />
               </View>
             </Animated.View>
 
+            {/* Porutham Analysis Section */}
+            {porutham && (
+              <View style={[styles.ashtakootSection, {
+                marginTop: 24 * scale,
+                paddingHorizontal: 20 * scale,
+              }]}>
+                <Animated.View
+                  entering={FadeInUp.delay(700).duration(400)}
+                  style={styles.sectionHeader}
+                >
+                  <Text style={[styles.sectionTitle, { fontSize: 18 * scale }]}>
+                    Porutham Analysis
+                  </Text>
+                  <Text style={[styles.sectionSubtitle, { fontSize: 13 * scale }]}>
+                    {porutham.matchedCount} of {porutham.total} Poruthams Matched
+                  </Text>
+                </Animated.View>
+
+                {/* Deal-breaker Warning */}
+                {porutham.dealBreakerFailed && (
+                  <View style={[styles.dealBreakerBanner, {
+                    padding: 12 * scale,
+                    borderRadius: 12 * scale,
+                    marginBottom: 12 * scale,
+                  }]}>
+                    <AlertCircle size={16 * scale} color="#EF4444" />
+                    <Text style={[styles.dealBreakerText, { fontSize: 13 * scale, lineHeight: 19 * scale, marginLeft: 10 * scale }]}>
+                      A deal-breaker porutham does not match. Traditionally this rules the match out, however many others agree.
+                    </Text>
+                  </View>
+                )}
+
+                {/* Porutham Cards */}
+                {porutham.poruthams.map((item, index) => (
+                  <PoruthamCard
+                    key={item.id}
+                    porutham={item}
+                    index={index}
+                    scale={scale}
+                    expanded={expandedPoruthams.includes(item.id)}
+                    onToggle={() => togglePorutham(item.id)}
+                  />
+                ))}
+              </View>
+            )}
+
             {/* Ashtakoot Analysis Section */}
             <View style={[styles.ashtakootSection, {
               marginTop: 24 * scale,
@@ -715,6 +878,121 @@ const KundliMatchingReportScreen = ({ navigation, route }: any) => {
               ))}
             </View>
 
+            {/* Dosha Analysis Section */}
+            {mangalDosha && (
+              <View style={[styles.ashtakootSection, {
+                marginTop: 24 * scale,
+                paddingHorizontal: 20 * scale,
+              }]}>
+                <Animated.View
+                  entering={FadeInUp.delay(800).duration(400)}
+                  style={styles.sectionHeader}
+                >
+                  <Text style={[styles.sectionTitle, { fontSize: 18 * scale }]}>
+                    Dosha Analysis
+                  </Text>
+                  <Text style={[styles.sectionSubtitle, { fontSize: 13 * scale }]}>
+                    Mangal and Nadi Dosha
+                  </Text>
+                </Animated.View>
+
+                {/* Mangal Dosha */}
+                <View style={[styles.gunaCard, {
+                  padding: 16 * scale,
+                  borderRadius: 16 * scale,
+                  marginBottom: 12 * scale,
+                }]}>
+                  <View style={styles.gunaHeader}>
+                    <Text style={[styles.gunaName, { fontSize: 16 * scale }]}>Mangal Dosha</Text>
+                    <DoshaStatusBadge
+                      {...(MANGAL_DOSHA_STATUSES[mangalDosha.status] ?? MANGAL_DOSHA_STATUSES.none)}
+                      scale={scale}
+                    />
+                  </View>
+
+                  {/* Mars from lagna, Moon and Venus for each partner */}
+                  {[
+                    { key: 'boy', name: matching.boy.name, hasDosha: mangalDosha.boyHasDosha, placements: mangalDosha.boyPlacements },
+                    { key: 'girl', name: matching.girl.name, hasDosha: mangalDosha.girlHasDosha, placements: mangalDosha.girlPlacements },
+                  ].map((partner) => (
+                    <View key={partner.key} style={{ marginTop: 12 * scale }}>
+                      <Text style={[styles.doshaPartner, { fontSize: 13 * scale }]}>
+                        {partner.name} · {partner.hasDosha ? 'Manglik' : 'Not Manglik'}
+                      </Text>
+                      {partner.placements && (
+                        <View style={[styles.placementRow, { marginTop: 6 * scale }]}>
+                          {partner.placements.map((placement) => (
+                            <View
+                              key={placement.reference}
+                              style={[
+                                styles.placementChip,
+                                { paddingHorizontal: 10 * scale, paddingVertical: 4 * scale, borderRadius: 10 * scale, marginRight: 6 * scale },
+                                placement.afflicted && styles.placementChipAfflicted,
+                              ]}
+                            >
+                              <Text style={[
+                                styles.placementText,
+                                { fontSize: 11 * scale },
+                                placement.afflicted && styles.placementTextAfflicted,
+                              ]}>
+                                Mars {ordinal(placement.house)} from {MANGLIK_REFERENCE_LABELS[placement.reference]}
+                              </Text>
+                            </View>
+                          ))}
+                        </View>
+                      )}
+                    </View>
+                  ))}
+
+                  {/* Cancellation rules that fired */}
+                  {mangalDosha.rules && mangalDosha.rules.length > 0 && (
+                    <View style={[styles.gunaExpanded, { marginTop: 16 * scale }]}>
+                      <Text style={[styles.attributeLabel, { fontSize: 11 * scale }]}>Cancellation rules applied</Text>
+                      {mangalDosha.rules.map((rule, index) => (
+                        <View key={`${rule.id}_${rule.appliesTo}`} style={[styles.ruleRow, { marginTop: index === 0 ? 4 * scale : 10 * scale }]}>
+                          {rule.mitigating
+                            ? <Info size={14 * scale} color="#F59E0B" style={{ marginTop: 2 * scale }} />
+                            : <Check size={14 * scale} color="#22C55E" style={{ marginTop: 2 * scale }} />}
+                          <View style={{ flex: 1, marginLeft: 8 * scale }}>
+                            <Text style={[styles.ruleName, { fontSize: 13 * scale }]}>
+                              {rule.name} · {rule.appliesTo === 'both'
+                                ? 'Both'
+                                : rule.appliesTo === 'boy' ? matching.boy.name : matching.girl.name}
+                            </Text>
+                            <Text style={[styles.gunaDescription, { fontSize: 12 * scale, lineHeight: 18 * scale }]}>
+                              {rule.description}
+                            </Text>
+                          </View>
+                        </View>
+                      ))}
+                    </View>
+                  )}
+                </View>
+
+                {/* Nadi Dosha */}
+                {nadiDosha && (
+                  <View style={[styles.gunaCard, {
+                    padding: 16 * scale,
+                    borderRadius: 16 * scale,
+                    marginBottom: 12 * scale,
+                  }]}>
+                    <View style={styles.gunaHeader}>
+                      <Text style={[styles.gunaName, { fontSize: 16 * scale }]}>Nadi Dosha</Text>
+                      <DoshaStatusBadge
+                        {...(nadiDosha.present ? MANGAL_DOSHA_STATUSES.present : MANGAL_DOSHA_STATUSES.none)}
+                        scale={scale}
+                      />
+                    </View>
+                    {!!nadiDosha.description && (
+                      <Text style={[styles.gunaDescription, { fontSize: 13 * scale, lineHeight: 20 * scale, marginTop: 8 * scale }]}>
+                        {nadiDosha.description}
+                      </Text>
+                    )}
+                  </View>
+                )}
+              </View>
+            )}
+
             {/* Summary Section */}
             <Animated.View
               entering={FadeInUp.delay(900).duration(400)}
@@ -729,7 +1007,9 @@ const KundliMatchingReportScreen = ({ navigation, route }: any) => {
                 Compatibility Summary
               </Text>
               <Text style={[styles.summaryText, { fontSize: 14 * scale, lineHeight: 22 * scale }]}>
-                {score >= 25
+                {porutham
+                  ? porutham.summary
+                  : score >= 25
                   ? `The Kundli matching between ${matching.boy.name} and ${matching.girl.name} shows excellent compatibility with a score of ${score}/36. This indicates a highly favorable match with strong prospects for a harmonious and prosperous married life.`
                   : score >= 18
                   ? `The Kundli matching between ${matching.boy.name} and ${matching.girl.name} shows good compatibility with a score of ${score}/36. This indicates a favorable match with good prospects for a happy married life. Minor remedies may help enhance compatibility.`
@@ -1002,6 +1282,25 @@ const styles = StyleSheet.create({
     fontSize: 12,
   },
   gunaExpanded: {},
+  dealBreakerTag: {
+    fontFamily: 'Lexend_500Medium',
+    fontSize: 11,
+    color: '#EF4444',
+    marginTop: 2,
+  },
+  dealBreakerBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: 'rgba(239, 68, 68, 0.08)',
+    borderWidth: 1,
+    borderColor: 'rgba(239, 68, 68, 0.2)',
+  },
+  dealBreakerText: {
+    flex: 1,
+    fontFamily: 'Lexend_400Regular',
+    fontSize: 13,
+    color: '#B91C1C',
+  },
   attributesRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1032,6 +1331,41 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: '#595959',
   },
+  // Dosha Section
+  doshaPartner: {
+    fontFamily: 'Lexend_500Medium',
+    fontSize: 13,
+    color: '#1a1a1a',
+  },
+  placementRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  placementChip: {
+    backgroundColor: '#F8F8F8',
+    marginBottom: 6,
+  },
+  placementChipAfflicted: {
+    backgroundColor: 'rgba(239, 68, 68, 0.1)',
+  },
+  placementText: {
+    fontFamily: 'Lexend_400Regular',
+    fontSize: 11,
+    color: '#595959',
+  },
+  placementTextAfflicted: {
+    color: '#EF4444',
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  ruleName: {
+    fontFamily: 'Lexend_600SemiBold',
+    fontSize: 13,
+    color: '#1a1a1a',
+    marginBottom: 2,
+  },
   // Summary Section
   summarySection: {
     backgroundColor: 'rgba(41, 48, 166, 0.05)',
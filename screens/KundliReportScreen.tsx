@@ -1,18 +1,21 @@
 /**
  * KundliReportScreen
- * Displays generated Kundli report with 5 tabs
- * Tabs: General | Remedies | Dosha | Charts | Dasha
+ * Displays generated Kundli report with 6 tabs
+ * Tabs: General | Remedies | Dosha | Charts | Dasha | Transits
  *
  * Enhanced with:
  * - Yogas display
  * - Multiple predictions (career, love, health)
- * - SVG chart support with style toggle
- * - Pratyantardasha in Dasha
+ * - Native South/North/East Indian charts with tap-to-inspect houses
+ * - All sixteen Shodasavarga charts, filled in on-device when the API omits them
+ * - Five-level Vimshottari, Yogini and Ashtottari dashas calculated on-device
+ * - Gochar overlay on the rasi chart for any date, with upcoming slow-graha ingresses
  * - Charities and enhanced remedies
  * - Dosha remedies display
+ * - English/Tamil toggle that refetches the report in the chosen language
  */
 
-import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import {
   View,
   Text,
@@ -32,30 +35,242 @@ import Animated, {
 } from 'react-native-reanimated';
 import { ChevronLeft } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
-import { SvgUri } from 'react-native-svg';
 
 import { BottomNavBar } from '../components/BottomNavBar';
 import { ShimmerEffect } from '../components/skeleton/ShimmerEffect';
+import { KundliChart } from '../components/kundli/KundliChart';
+import { DashaTimeline } from '../components/kundli/DashaTimeline';
+import { DateScrubber } from '../components/kundli/DateScrubber';
 import { useResponsiveLayout } from '../src/utils/responsive';
 import {
   KundliReportData,
+  ChartData,
   ChartStyle,
+  DivisionalCharts,
+  ReportLanguage,
   YogaInfo,
   MantraInfo,
   CharityInfo,
 } from '../src/types/kundli';
 import { kundliService, KundliReportParams } from '../src/services/kundli.service';
+import {
+  BirthChart,
+  DashaSystem,
+  NatalReference,
+  TransitPosition,
+  VargaId,
+} from '../src/types/astrology';
+import {
+  DASHA_LEVEL_LABELS,
+  DASHA_SYSTEMS,
+  GRAHA_LABELS,
+  GRAHA_NAMES,
+  SIGN_LABELS,
+  TRANSIT_NOTE_LABELS,
+  VARGAS,
+  VARGA_LABELS_TA,
+  VargaInfo,
+  calculateBirthChart,
+  calculateDivisionalCharts,
+  calculateKundliBasics,
+  calculateMahadashas,
+  calculateTransits,
+  findIngresses,
+  formatDegree,
+  getChartBodyId,
+  getDashaLordLabel,
+  getNatalReference,
+  getRunningPeriods,
+  getSignIndex,
+  julianDayToMs,
+  localizeName,
+  mergeDivisionalCharts,
+  msToJulianDay,
+  toChartHouses,
+} from '../src/astrology';
 
 // Tab configuration
-type KundliTab = 'general' | 'remedies' | 'dosha' | 'charts' | 'dasha';
+type KundliTab = 'general' | 'remedies' | 'dosha' | 'charts' | 'dasha' | 'transits';
+
+const TABS: KundliTab[] = ['general', 'remedies', 'dosha', 'charts', 'dasha', 'transits'];
+
+// Screen text in each report language. Report content (predictions,
+// descriptions, remedies) comes from the API in the requested language.
+const REPORT_TEXT_EN = {
+  title: 'Kundli Report',
+  subtitle: 'See your generated birth chart here',
+  switchLanguage: 'Show report in Tamil',
+  tabs: {
+    general: 'General',
+    remedies: 'Remedies',
+    dosha: 'Dosha',
+    charts: 'Charts',
+    dasha: 'Dasha',
+    transits: 'Transits',
+  } as Record<KundliTab, string>,
+  birthDetails: 'Birth Details',
+  nakshatra: 'Nakshatra',
+  pada: 'Pada',
+  rasi: 'Rasi',
+  lagna: 'Lagna',
+  deity: 'Deity',
+  gana: 'Gana',
+  nadi: 'Nadi',
+  yogas: 'YOGAS',
+  effects: 'Effects',
+  strength: { strong: 'strong', moderate: 'moderate', weak: 'weak' } as Record<string, string>,
+  general: 'GENERAL',
+  career: 'CAREER',
+  love: 'LOVE & RELATIONSHIPS',
+  health: 'HEALTH',
+  planetaryPositions: 'Planetary Positions',
+  retrogradeBadge: 'R',
+  exaltedBadge: 'Ex',
+  debilitatedBadge: 'Db',
+  gemstone: 'Recommended Gemstone',
+  wearGemstone: (finger: string, metal: string) => `Wear on ${finger} finger in ${metal}`,
+  weight: 'Weight',
+  bestDay: 'Best day to wear',
+  timing: 'Timing',
+  luckyColors: 'Lucky Colors',
+  luckyNumbers: 'Lucky Numbers',
+  luckyDays: 'Lucky Days',
+  luckyDirection: 'Lucky Direction',
+  mantras: 'Recommended Mantras',
+  repeatTimes: (count: number) => `Repeat ${count} times`,
+  charities: 'Recommended Charities',
+  charity: (item: string, day: string, recipient?: string) =>
+    `${item} on ${day}${recipient ? ` to ${recipient}` : ''}`,
+  fasting: 'Fasting',
+  fastingDay: 'Recommended day',
+  rudrakshas: 'Recommended Rudrakshas',
+  mangalDosha: 'Mangal Dosha',
+  kaalSarpDosha: 'Kaal Sarp Dosha',
+  sadeSati: 'Sade Sati',
+  present: 'Present',
+  notPresent: 'Not Present',
+  active: 'Active',
+  notActive: 'Not Active',
+  severity: { mild: 'mild', moderate: 'moderate', severe: 'severe' } as Record<string, string>,
+  doshaRemedies: 'Remedies:',
+  sadeSatiPeriod: (start: string, end: string) => `Period: ${start} to ${end}`,
+  saturnTransit: (sign: string) => `Saturn currently in ${sign}`,
+  retrograde: 'Retrograde',
+  chartStyles: { south_indian: 'South', north_indian: 'North', east_indian: 'East' } as Record<ChartStyle, string>,
+  chartTitle: (name: string, id: string) => `${name} Chart (${id})`,
+  planetAcrossVargas: 'Planet Across Vargas',
+  currentDasha: 'Current Dasha Period',
+  yearsRemaining: (years: number) => `(${years} years remaining)`,
+  monthsRemaining: (months: number) => `(${months} months remaining)`,
+  daysRemaining: (days: number) => `(${days} days remaining)`,
+  until: (date: string) => `(until ${date})`,
+  dashaTimeline: 'Dasha Timeline',
+  systemTimeline: (system: string) => `${system} Timeline`,
+  years: 'years',
+  current: 'Current',
+  transitDate: 'Transit Date',
+  today: 'Today',
+  transitChart: 'Transits over Rasi Chart',
+  overMoon: (sign: string) => `Over Natal Moon (${sign})`,
+  overLagna: (sign: string) => `Over Lagna (${sign})`,
+  noTransits: 'No grahas transiting this sign',
+  transitPositions: 'Transit Positions',
+  housesFrom: (house: number, houseFromMoon: number) => `House ${house} · ${houseFromMoon} from Moon`,
+  upcomingIngresses: 'Upcoming Ingresses',
+  ingressesHint: (years: number) => `Saturn, Jupiter, Rahu and Ketu sign changes in the next ${years} years`,
+  entersSign: (graha: string, sign: string) => `${graha} enters ${sign}`,
+  noIngresses: 'No sign changes in this period',
+};
 
-const TABS: { key: KundliTab; label: string }[] = [
-  { key: 'general', label: 'General' },
-  { key: 'remedies', label: 'Remedies' },
-  { key: 'dosha', label: 'Dosha' },
-  { key: 'charts', label: 'Charts' },
-  { key: 'dasha', label: 'Dasha' },
-];
+type ReportText = typeof REPORT_TEXT_EN;
+
+const REPORT_TEXT: Record<ReportLanguage, ReportText> = {
+  en: REPORT_TEXT_EN,
+  ta: {
+    title: 'ஜாதக அறிக்கை',
+    subtitle: 'உங்கள் ஜாதகத்தை இங்கே காணுங்கள்',
+    switchLanguage: 'Show report in English',
+    tabs: {
+      general: 'பொது',
+      remedies: 'பரிகாரம்',
+      dosha: 'தோஷம்',
+      charts: 'கட்டங்கள்',
+      dasha: 'தசை',
+      transits: 'கோசாரம்',
+    },
+    birthDetails: 'பிறப்பு விவரங்கள்',
+    nakshatra: 'நட்சத்திரம்',
+    pada: 'பாதம்',
+    rasi: 'ராசி',
+    lagna: 'லக்னம்',
+    deity: 'தெய்வம்',
+    gana: 'கணம்',
+    nadi: 'நாடி',
+    yogas: 'யோகங்கள்',
+    effects: 'பலன்கள்',
+    strength: { strong: 'வலுவானது', moderate: 'மிதமானது', weak: 'பலவீனமானது' },
+    general: 'பொது பலன்',
+    career: 'தொழில்',
+    love: 'காதல் & உறவுகள்',
+    health: 'ஆரோக்கியம்',
+    planetaryPositions: 'கிரக நிலைகள்',
+    retrogradeBadge: 'வ',
+    exaltedBadge: 'உ',
+    debilitatedBadge: 'நீ',
+    gemstone: 'பரிந்துரைக்கப்பட்ட ரத்தினம்',
+    wearGemstone: (finger, metal) => `${metal}-இல் ${finger} விரலில் அணியவும்`,
+    weight: 'எடை',
+    bestDay: 'அணிய உகந்த நாள்',
+    timing: 'நேரம்',
+    luckyColors: 'அதிர்ஷ்ட நிறங்கள்',
+    luckyNumbers: 'அதிர்ஷ்ட எண்கள்',
+    luckyDays: 'அதிர்ஷ்ட நாட்கள்',
+    luckyDirection: 'அதிர்ஷ்ட திசை',
+    mantras: 'பரிந்துரைக்கப்பட்ட மந்திரங்கள்',
+    repeatTimes: (count) => `${count} முறை ஜபிக்கவும்`,
+    charities: 'பரிந்துரைக்கப்பட்ட தானங்கள்',
+    charity: (item, day, recipient) => `${day} அன்று ${recipient ? `${recipient}-க்கு ` : ''}${item}`,
+    fasting: 'விரதம்',
+    fastingDay: 'பரிந்துரைக்கப்பட்ட நாள்',
+    rudrakshas: 'பரிந்துரைக்கப்பட்ட ருத்ராட்சங்கள்',
+    mangalDosha: 'செவ்வாய் தோஷம்',
+    kaalSarpDosha: 'கால சர்ப்ப தோஷம்',
+    sadeSati: 'ஏழரை சனி',
+    present: 'உள்ளது',
+    notPresent: 'இல்லை',
+    active: 'நடப்பில் உள்ளது',
+    notActive: 'நடப்பில் இல்லை',
+    severity: { mild: 'லேசானது', moderate: 'மிதமானது', severe: 'கடுமையானது' },
+    doshaRemedies: 'பரிகாரங்கள்:',
+    sadeSatiPeriod: (start, end) => `காலம்: ${start} முதல் ${end} வரை`,
+    saturnTransit: (sign) => `சனி தற்போது ${sign} ராசியில்`,
+    retrograde: 'வக்ரம்',
+    chartStyles: { south_indian: 'தெற்கு', north_indian: 'வடக்கு', east_indian: 'கிழக்கு' },
+    chartTitle: (name, id) => `${name} கட்டம் (${id})`,
+    planetAcrossVargas: 'வர்க்கங்களில் கிரக நிலை',
+    currentDasha: 'நடப்பு தசா காலம்',
+    yearsRemaining: (years) => `(${years} ஆண்டுகள் மீதம்)`,
+    monthsRemaining: (months) => `(${months} மாதங்கள் மீதம்)`,
+    daysRemaining: (days) => `(${days} நாட்கள் மீதம்)`,
+    until: (date) => `(${date} வரை)`,
+    dashaTimeline: 'தசா காலவரிசை',
+    systemTimeline: (system) => `${system} காலவரிசை`,
+    years: 'ஆண்டுகள்',
+    current: 'நடப்பு',
+    transitDate: 'கோசார தேதி',
+    today: 'இன்று',
+    transitChart: 'ராசி கட்டத்தின் மீது கோசாரம்',
+    overMoon: (sign) => `ஜன்ம சந்திரன் மீது (${sign})`,
+    overLagna: (sign) => `லக்னத்தின் மீது (${sign})`,
+    noTransits: 'இந்த ராசியில் கோசார கிரகங்கள் இல்லை',
+    transitPositions: 'கோசார கிரக நிலைகள்',
+    housesFrom: (house, houseFromMoon) => `${house}-ம் பாவம் · சந்திரனிலிருந்து ${houseFromMoon}`,
+    upcomingIngresses: 'வரவிருக்கும் ராசி மாற்றங்கள்',
+    ingressesHint: (years) => `அடுத்த ${years} ஆண்டுகளில் சனி, குரு, ராகு, கேது ராசி மாற்றங்கள்`,
+    entersSign: (graha, sign) => `${graha} ${sign} ராசிக்கு பெயர்ச்சி`,
+    noIngresses: 'இக்காலத்தில் ராசி மாற்றங்கள் இல்லை',
+  },
+};
 
 // Helper function to format dates
 const formatDate = (dateStr: string): string => {
@@ -78,9 +293,9 @@ const getMantraText = (mantra: string | MantraInfo): string => {
 };
 
 // Helper to get charity text
-const getCharityText = (charity: string | CharityInfo): string => {
+const getCharityText = (charity: string | CharityInfo, text: ReportText): string => {
   if (typeof charity === 'string') return charity;
-  return `${charity.item} on ${charity.day}${charity.recipient ? ` to ${charity.recipient}` : ''}`;
+  return text.charity(charity.item, charity.day, charity.recipient);
 };
 
 // Fallback report data when API fails
@@ -141,599 +356,1069 @@ const getFallbackReportData = (): KundliReportData => ({
 
 // ==================== TAB COMPONENTS ====================
 
+interface TabProps {
+  data: KundliReportData;
+  scale: number;
+  language: ReportLanguage;
+}
+
 // General Tab Component
-const GeneralTab = ({ data, scale }: { data: KundliReportData; scale: number }) => (
-  <Animated.View entering={FadeInDown.duration(400)} style={styles.tabContent}>
-    {/* Birth Details */}
-    <View style={[styles.section, { marginBottom: 20 * scale }]}>
-      <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>Birth Details</Text>
-      <View style={[styles.infoGrid, { marginTop: 12 * scale }]}>
-        <View style={styles.infoItem}>
-          <Text style={[styles.infoLabel, { fontSize: 12 * scale }]}>Nakshatra</Text>
-          <Text style={[styles.infoValue, { fontSize: 14 * scale }]}>
-            {data.nakshatra.name} (Pada {data.nakshatra.pada})
-          </Text>
-        </View>
-        <View style={styles.infoItem}>
-          <Text style={[styles.infoLabel, { fontSize: 12 * scale }]}>Rasi</Text>
-          <Text style={[styles.infoValue, { fontSize: 14 * scale }]}>{data.rasi.name}</Text>
-        </View>
-        <View style={styles.infoItem}>
-          <Text style={[styles.infoLabel, { fontSize: 12 * scale }]}>Lagna</Text>
-          <Text style={[styles.infoValue, { fontSize: 14 * scale }]}>{data.lagna.name}</Text>
-        </View>
-        {data.nakshatra.deity && (
+const GeneralTab = ({ data, scale, language }: TabProps) => {
+  const text = REPORT_TEXT[language];
+
+  return (
+    <Animated.View entering={FadeInDown.duration(400)} style={styles.tabContent}>
+      {/* Birth Details */}
+      <View style={[styles.section, { marginBottom: 20 * scale }]}>
+        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.birthDetails}</Text>
+        <View style={[styles.infoGrid, { marginTop: 12 * scale }]}>
           <View style={styles.infoItem}>
-            <Text style={[styles.infoLabel, { fontSize: 12 * scale }]}>Deity</Text>
-            <Text style={[styles.infoValue, { fontSize: 14 * scale }]}>{data.nakshatra.deity}</Text>
+            <Text style={[styles.infoLabel, { fontSize: 12 * scale }]}>{text.nakshatra}</Text>
+            <Text style={[styles.infoValue, { fontSize: 14 * scale }]}>
+              {localizeName(data.nakshatra.name, language)} ({text.pada} {data.nakshatra.pada})
+            </Text>
           </View>
-        )}
-        {data.nakshatra.ganam && (
           <View style={styles.infoItem}>
-            <Text style={[styles.infoLabel, { fontSize: 12 * scale }]}>Gana</Text>
-            <Text style={[styles.infoValue, { fontSize: 14 * scale }]}>{data.nakshatra.ganam}</Text>
+            <Text style={[styles.infoLabel, { fontSize: 12 * scale }]}>{text.rasi}</Text>
+            <Text style={[styles.infoValue, { fontSize: 14 * scale }]}>{localizeName(data.rasi.name, language)}</Text>
           </View>
-        )}
-        {data.nakshatra.nadi && (
           <View style={styles.infoItem}>
-            <Text style={[styles.infoLabel, { fontSize: 12 * scale }]}>Nadi</Text>
-            <Text style={[styles.infoValue, { fontSize: 14 * scale }]}>{data.nakshatra.nadi}</Text>
+            <Text style={[styles.infoLabel, { fontSize: 12 * scale }]}>{text.lagna}</Text>
+            <Text style={[styles.infoValue, { fontSize: 14 * scale }]}>{localizeName(data.lagna.name, language)}</Text>
           </View>
-        )}
-      </View>
-    </View>
-
-    {/* Yogas Section */}
-    {data.yogas && data.yogas.filter(y => y.hasYoga).length > 0 && (
-      <View style={[styles.section, { marginBottom: 20 * scale }]}>
-        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>YOGAS</Text>
-        {data.yogas.filter(y => y.hasYoga).map((yoga, index) => (
-          <View
-            key={index}
-            style={[styles.yogaCard, { padding: 12 * scale, marginTop: 8 * scale, borderRadius: 8 * scale }]}
-          >
-            <View style={styles.yogaHeader}>
-              <Text style={[styles.yogaName, { fontSize: 14 * scale }]}>{yoga.name}</Text>
-              {yoga.strength && (
-                <View style={[
-                  styles.strengthBadge,
-                  yoga.strength === 'strong' ? styles.strengthStrong :
-                  yoga.strength === 'moderate' ? styles.strengthModerate : styles.strengthWeak
-                ]}>
-                  <Text style={[styles.strengthText, { fontSize: 10 * scale }]}>{yoga.strength}</Text>
-                </View>
-              )}
+          {data.nakshatra.deity && (
+            <View style={styles.infoItem}>
+              <Text style={[styles.infoLabel, { fontSize: 12 * scale }]}>{text.deity}</Text>
+              <Text style={[styles.infoValue, { fontSize: 14 * scale }]}>{data.nakshatra.deity}</Text>
             </View>
-            <Text style={[styles.yogaDescription, { fontSize: 13 * scale, marginTop: 4 * scale }]}>
-              {yoga.description}
-            </Text>
-            {yoga.effects && (
-              <Text style={[styles.yogaEffects, { fontSize: 12 * scale, marginTop: 4 * scale }]}>
-                Effects: {yoga.effects}
-              </Text>
-            )}
-          </View>
-        ))}
-      </View>
-    )}
-
-    {/* General Prediction */}
-    <View style={[styles.section, { marginBottom: 20 * scale }]}>
-      <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>GENERAL</Text>
-      <Text style={[styles.predictionText, { fontSize: 13 * scale, marginTop: 12 * scale }]}>
-        {data.predictions.general}
-      </Text>
-    </View>
-
-    {/* Career Prediction */}
-    {data.predictions.career && (
-      <View style={[styles.section, { marginBottom: 20 * scale }]}>
-        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>CAREER</Text>
-        <Text style={[styles.predictionText, { fontSize: 13 * scale, marginTop: 12 * scale }]}>
-          {data.predictions.career}
-        </Text>
-      </View>
-    )}
-
-    {/* Love Prediction */}
-    {data.predictions.love && (
-      <View style={[styles.section, { marginBottom: 20 * scale }]}>
-        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>LOVE & RELATIONSHIPS</Text>
-        <Text style={[styles.predictionText, { fontSize: 13 * scale, marginTop: 12 * scale }]}>
-          {data.predictions.love}
-        </Text>
+          )}
+          {data.nakshatra.ganam && (
+            <View style={styles.infoItem}>
+              <Text style={[styles.infoLabel, { fontSize: 12 * scale }]}>{text.gana}</Text>
+              <Text style={[styles.infoValue, { fontSize: 14 * scale }]}>{data.nakshatra.ganam}</Text>
+            </View>
+          )}
+          {data.nakshatra.nadi && (
+            <View style={styles.infoItem}>
+              <Text style={[styles.infoLabel, { fontSize: 12 * scale }]}>{text.nadi}</Text>
+              <Text style={[styles.infoValue, { fontSize: 14 * scale }]}>{data.nakshatra.nadi}</Text>
+            </View>
+          )}
+        </View>
       </View>
-    )}
 
-    {/* Health Prediction */}
-    {data.predictions.health && (
-      <View style={[styles.section, { marginBottom: 20 * scale }]}>
-        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>HEALTH</Text>
-        <Text style={[styles.predictionText, { fontSize: 13 * scale, marginTop: 12 * scale }]}>
-          {data.predictions.health}
-        </Text>
-      </View>
-    )}
-
-    {/* Planetary Positions */}
-    <View style={styles.section}>
-      <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>Planetary Positions</Text>
-      <View style={[styles.planetsGrid, { marginTop: 12 * scale }]}>
-        {data.planets.map((planet, index) => (
-          <View key={index} style={[styles.planetRow, { paddingVertical: 10 * scale }]}>
-            <View style={styles.planetNameContainer}>
-              <Text style={[styles.planetName, { fontSize: 14 * scale }]}>
-                {planet.name}
-              </Text>
-              <View style={styles.planetBadges}>
-                {planet.isRetrograde && (
-                  <View style={styles.retroBadge}>
-                    <Text style={[styles.retroText, { fontSize: 9 * scale }]}>R</Text>
-                  </View>
-                )}
-                {planet.isExalted && (
-                  <View style={styles.exaltedBadge}>
-                    <Text style={[styles.exaltedText, { fontSize: 9 * scale }]}>Ex</Text>
-                  </View>
-                )}
-                {planet.isDebilitated && (
-                  <View style={styles.debilitatedBadge}>
-                    <Text style={[styles.debilitatedText, { fontSize: 9 * scale }]}>Db</Text>
+      {/* Yogas Section */}
+      {data.yogas && data.yogas.filter(y => y.hasYoga).length > 0 && (
+        <View style={[styles.section, { marginBottom: 20 * scale }]}>
+          <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.yogas}</Text>
+          {data.yogas.filter(y => y.hasYoga).map((yoga, index) => (
+            <View
+              key={index}
+              style={[styles.yogaCard, { padding: 12 * scale, marginTop: 8 * scale, borderRadius: 8 * scale }]}
+            >
+              <View style={styles.yogaHeader}>
+                <Text style={[styles.yogaName, { fontSize: 14 * scale }]}>{yoga.name}</Text>
+                {yoga.strength && (
+                  <View style={[
+                    styles.strengthBadge,
+                    yoga.strength === 'strong' ? styles.strengthStrong :
+                    yoga.strength === 'moderate' ? styles.strengthModerate : styles.strengthWeak
+                  ]}>
+                    <Text style={[styles.strengthText, { fontSize: 10 * scale }]}>
+                      {text.strength[yoga.strength] || yoga.strength}
+                    </Text>
                   </View>
                 )}
               </View>
-            </View>
-            <View style={styles.planetDetails}>
-              <Text style={[styles.planetInfo, { fontSize: 13 * scale }]}>
-                {planet.sign} - {planet.degreeFormatted || `${planet.degree.toFixed(1)}°`}
+              <Text style={[styles.yogaDescription, { fontSize: 13 * scale, marginTop: 4 * scale }]}>
+                {yoga.description}
               </Text>
-              {planet.nakshatra && (
-                <Text style={[styles.planetNakshatra, { fontSize: 11 * scale }]}>
-                  {planet.nakshatra} {planet.nakshatraPada ? `(${planet.nakshatraPada})` : ''}
+              {yoga.effects && (
+                <Text style={[styles.yogaEffects, { fontSize: 12 * scale, marginTop: 4 * scale }]}>
+                  {text.effects}: {yoga.effects}
                 </Text>
               )}
             </View>
-          </View>
-        ))}
-      </View>
-    </View>
-  </Animated.View>
-);
+          ))}
+        </View>
+      )}
 
-// Remedies Tab Component
-const RemediesTab = ({ data, scale }: { data: KundliReportData; scale: number }) => (
-  <Animated.View entering={FadeInDown.duration(400)} style={styles.tabContent}>
-    {/* Gemstone */}
-    <View style={[styles.section, { marginBottom: 20 * scale }]}>
-      <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>Recommended Gemstone</Text>
-      <View style={[styles.gemstoneCard, { padding: 16 * scale, marginTop: 12 * scale, borderRadius: 12 * scale }]}>
-        <Text style={[styles.gemstoneName, { fontSize: 18 * scale }]}>{data.remedies.gemstone.name}</Text>
-        <Text style={[styles.gemstoneDetails, { fontSize: 13 * scale, marginTop: 8 * scale }]}>
-          Wear on {data.remedies.gemstone.finger} finger in {data.remedies.gemstone.metal}
+      {/* General Prediction */}
+      <View style={[styles.section, { marginBottom: 20 * scale }]}>
+        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.general}</Text>
+        <Text style={[styles.predictionText, { fontSize: 13 * scale, marginTop: 12 * scale }]}>
+          {data.predictions.general}
         </Text>
-        {data.remedies.gemstone.weight && (
-          <Text style={[styles.gemstoneDetails, { fontSize: 12 * scale, marginTop: 4 * scale }]}>
-            Weight: {data.remedies.gemstone.weight}
+      </View>
+
+      {/* Career Prediction */}
+      {data.predictions.career && (
+        <View style={[styles.section, { marginBottom: 20 * scale }]}>
+          <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.career}</Text>
+          <Text style={[styles.predictionText, { fontSize: 13 * scale, marginTop: 12 * scale }]}>
+            {data.predictions.career}
           </Text>
-        )}
-        {data.remedies.gemstone.day && (
-          <Text style={[styles.gemstoneDetails, { fontSize: 12 * scale, marginTop: 4 * scale }]}>
-            Best day to wear: {data.remedies.gemstone.day}
+        </View>
+      )}
+
+      {/* Love Prediction */}
+      {data.predictions.love && (
+        <View style={[styles.section, { marginBottom: 20 * scale }]}>
+          <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.love}</Text>
+          <Text style={[styles.predictionText, { fontSize: 13 * scale, marginTop: 12 * scale }]}>
+            {data.predictions.love}
           </Text>
-        )}
-        {data.remedies.gemstone.time && (
-          <Text style={[styles.gemstoneDetails, { fontSize: 12 * scale, marginTop: 4 * scale }]}>
-            Timing: {data.remedies.gemstone.time}
+        </View>
+      )}
+
+      {/* Health Prediction */}
+      {data.predictions.health && (
+        <View style={[styles.section, { marginBottom: 20 * scale }]}>
+          <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.health}</Text>
+          <Text style={[styles.predictionText, { fontSize: 13 * scale, marginTop: 12 * scale }]}>
+            {data.predictions.health}
           </Text>
-        )}
-      </View>
-    </View>
-
-    {/* Lucky Colors */}
-    <View style={[styles.section, { marginBottom: 20 * scale }]}>
-      <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>Lucky Colors</Text>
-      <View style={[styles.tagsRow, { marginTop: 12 * scale }]}>
-        {data.remedies.luckyColors.map((color, index) => (
-          <View key={index} style={[styles.tag, { paddingHorizontal: 16 * scale, paddingVertical: 8 * scale, borderRadius: 20 * scale }]}>
-            <Text style={[styles.tagText, { fontSize: 13 * scale }]}>{color}</Text>
-          </View>
-        ))}
-      </View>
-    </View>
-
-    {/* Lucky Numbers */}
-    <View style={[styles.section, { marginBottom: 20 * scale }]}>
-      <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>Lucky Numbers</Text>
-      <View style={[styles.tagsRow, { marginTop: 12 * scale }]}>
-        {data.remedies.luckyNumbers.map((num, index) => (
-          <View key={index} style={[styles.tag, { paddingHorizontal: 16 * scale, paddingVertical: 8 * scale, borderRadius: 20 * scale }]}>
-            <Text style={[styles.tagText, { fontSize: 13 * scale }]}>{num}</Text>
-          </View>
-        ))}
+        </View>
+      )}
+
+      {/* Planetary Positions */}
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.planetaryPositions}</Text>
+        <View style={[styles.planetsGrid, { marginTop: 12 * scale }]}>
+          {data.planets.map((planet, index) => (
+            <View key={index} style={[styles.planetRow, { paddingVertical: 10 * scale }]}>
+              <View style={styles.planetNameContainer}>
+                <Text style={[styles.planetName, { fontSize: 14 * scale }]}>
+                  {localizeName(planet.name, language)}
+                </Text>
+                <View style={styles.planetBadges}>
+                  {planet.isRetrograde && (
+                    <View style={styles.retroBadge}>
+                      <Text style={[styles.retroText, { fontSize: 9 * scale }]}>{text.retrogradeBadge}</Text>
+                    </View>
+                  )}
+                  {planet.isExalted && (
+                    <View style={styles.exaltedBadge}>
+                      <Text style={[styles.exaltedText, { fontSize: 9 * scale }]}>{text.exaltedBadge}</Text>
+                    </View>
+                  )}
+                  {planet.isDebilitated && (
+                    <View style={styles.debilitatedBadge}>
+                      <Text style={[styles.debilitatedText, { fontSize: 9 * scale }]}>{text.debilitatedBadge}</Text>
+                    </View>
+                  )}
+                </View>
+              </View>
+              <View style={styles.planetDetails}>
+                <Text style={[styles.planetInfo, { fontSize: 13 * scale }]}>
+                  {localizeName(planet.sign, language)} - {planet.degreeFormatted || `${planet.degree.toFixed(1)}°`}
+                </Text>
+                {planet.nakshatra && (
+                  <Text style={[styles.planetNakshatra, { fontSize: 11 * scale }]}>
+                    {localizeName(planet.nakshatra, language)} {planet.nakshatraPada ? `(${planet.nakshatraPada})` : ''}
+                  </Text>
+                )}
+              </View>
+            </View>
+          ))}
+        </View>
       </View>
-    </View>
+    </Animated.View>
+  );
+};
 
-    {/* Lucky Days */}
-    <View style={[styles.section, { marginBottom: 20 * scale }]}>
-      <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>Lucky Days</Text>
-      <View style={[styles.tagsRow, { marginTop: 12 * scale }]}>
-        {data.remedies.luckyDays.map((day, index) => (
-          <View key={index} style={[styles.tag, { paddingHorizontal: 16 * scale, paddingVertical: 8 * scale, borderRadius: 20 * scale }]}>
-            <Text style={[styles.tagText, { fontSize: 13 * scale }]}>{day}</Text>
-          </View>
-        ))}
-      </View>
-    </View>
+// Remedies Tab Component
+const RemediesTab = ({ data, scale, language }: TabProps) => {
+  const text = REPORT_TEXT[language];
 
-    {/* Lucky Direction */}
-    {data.remedies.luckyDirection && (
+  return (
+    <Animated.View entering={FadeInDown.duration(400)} style={styles.tabContent}>
+      {/* Gemstone */}
       <View style={[styles.section, { marginBottom: 20 * scale }]}>
-        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>Lucky Direction</Text>
-        <View style={[styles.tagsRow, { marginTop: 12 * scale }]}>
-          <View style={[styles.tag, { paddingHorizontal: 16 * scale, paddingVertical: 8 * scale, borderRadius: 20 * scale }]}>
-            <Text style={[styles.tagText, { fontSize: 13 * scale }]}>{data.remedies.luckyDirection}</Text>
-          </View>
-        </View>
-      </View>
-    )}
-
-    {/* Mantras */}
-    <View style={[styles.section, { marginBottom: 20 * scale }]}>
-      <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>Recommended Mantras</Text>
-      {data.remedies.mantras.map((mantra, index) => (
-        <View key={index} style={[styles.mantraItem, { paddingVertical: 12 * scale, marginTop: index === 0 ? 12 * scale : 0 }]}>
-          <Text style={[styles.mantraText, { fontSize: 14 * scale }]}>{getMantraText(mantra)}</Text>
-          {typeof mantra !== 'string' && mantra.repetitions && (
-            <Text style={[styles.mantraRepetitions, { fontSize: 11 * scale }]}>
-              Repeat {mantra.repetitions} times {mantra.timing ? `- ${mantra.timing}` : ''}
+        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.gemstone}</Text>
+        <View style={[styles.gemstoneCard, { padding: 16 * scale, marginTop: 12 * scale, borderRadius: 12 * scale }]}>
+          <Text style={[styles.gemstoneName, { fontSize: 18 * scale }]}>{data.remedies.gemstone.name}</Text>
+          <Text style={[styles.gemstoneDetails, { fontSize: 13 * scale, marginTop: 8 * scale }]}>
+            {text.wearGemstone(data.remedies.gemstone.finger, data.remedies.gemstone.metal)}
+          </Text>
+          {data.remedies.gemstone.weight && (
+            <Text style={[styles.gemstoneDetails, { fontSize: 12 * scale, marginTop: 4 * scale }]}>
+              {text.weight}: {data.remedies.gemstone.weight}
+            </Text>
+          )}
+          {data.remedies.gemstone.day && (
+            <Text style={[styles.gemstoneDetails, { fontSize: 12 * scale, marginTop: 4 * scale }]}>
+              {text.bestDay}: {data.remedies.gemstone.day}
+            </Text>
+          )}
+          {data.remedies.gemstone.time && (
+            <Text style={[styles.gemstoneDetails, { fontSize: 12 * scale, marginTop: 4 * scale }]}>
+              {text.timing}: {data.remedies.gemstone.time}
             </Text>
           )}
         </View>
-      ))}
-    </View>
+      </View>
 
-    {/* Charities */}
-    {data.remedies.charities && data.remedies.charities.length > 0 && (
+      {/* Lucky Colors */}
       <View style={[styles.section, { marginBottom: 20 * scale }]}>
-        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>Recommended Charities</Text>
-        {data.remedies.charities.map((charity, index) => (
-          <View key={index} style={[styles.charityItem, { paddingVertical: 12 * scale, marginTop: index === 0 ? 12 * scale : 0 }]}>
-            <Text style={[styles.charityText, { fontSize: 14 * scale }]}>{getCharityText(charity)}</Text>
-          </View>
-        ))}
+        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.luckyColors}</Text>
+        <View style={[styles.tagsRow, { marginTop: 12 * scale }]}>
+          {data.remedies.luckyColors.map((color, index) => (
+            <View key={index} style={[styles.tag, { paddingHorizontal: 16 * scale, paddingVertical: 8 * scale, borderRadius: 20 * scale }]}>
+              <Text style={[styles.tagText, { fontSize: 13 * scale }]}>{color}</Text>
+            </View>
+          ))}
+        </View>
       </View>
-    )}
 
-    {/* Fasting */}
-    {data.remedies.fasting && (
+      {/* Lucky Numbers */}
       <View style={[styles.section, { marginBottom: 20 * scale }]}>
-        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>Fasting</Text>
-        <View style={[styles.fastingCard, { padding: 12 * scale, marginTop: 12 * scale, borderRadius: 8 * scale }]}>
-          <Text style={[styles.fastingDay, { fontSize: 14 * scale }]}>
-            Recommended day: {data.remedies.fasting.day}
-          </Text>
-          {data.remedies.fasting.description && (
-            <Text style={[styles.fastingDesc, { fontSize: 13 * scale, marginTop: 4 * scale }]}>
-              {data.remedies.fasting.description}
-            </Text>
-          )}
+        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.luckyNumbers}</Text>
+        <View style={[styles.tagsRow, { marginTop: 12 * scale }]}>
+          {data.remedies.luckyNumbers.map((num, index) => (
+            <View key={index} style={[styles.tag, { paddingHorizontal: 16 * scale, paddingVertical: 8 * scale, borderRadius: 20 * scale }]}>
+              <Text style={[styles.tagText, { fontSize: 13 * scale }]}>{num}</Text>
+            </View>
+          ))}
         </View>
       </View>
-    )}
 
-    {/* Rudrakshas */}
-    {data.remedies.rudrakshas && data.remedies.rudrakshas.length > 0 && (
+      {/* Lucky Days */}
       <View style={[styles.section, { marginBottom: 20 * scale }]}>
-        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>Recommended Rudrakshas</Text>
+        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.luckyDays}</Text>
         <View style={[styles.tagsRow, { marginTop: 12 * scale }]}>
-          {data.remedies.rudrakshas.map((rudraksha, index) => (
+          {data.remedies.luckyDays.map((day, index) => (
             <View key={index} style={[styles.tag, { paddingHorizontal: 16 * scale, paddingVertical: 8 * scale, borderRadius: 20 * scale }]}>
-              <Text style={[styles.tagText, { fontSize: 13 * scale }]}>{rudraksha}</Text>
+              <Text style={[styles.tagText, { fontSize: 13 * scale }]}>{day}</Text>
             </View>
           ))}
         </View>
       </View>
-    )}
-  </Animated.View>
-);
 
-// Dosha Tab Component
-const DoshaTab = ({ data, scale }: { data: KundliReportData; scale: number }) => (
-  <Animated.View entering={FadeInDown.duration(400)} style={styles.tabContent}>
-    {/* Mangal Dosha */}
-    <View style={[styles.section, { marginBottom: 20 * scale }]}>
-      <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>Mangal Dosha</Text>
-      <View style={[styles.doshaCard, { padding: 16 * scale, marginTop: 12 * scale, borderRadius: 12 * scale }]}>
-        <View style={styles.doshaHeader}>
-          <Text style={[
-            styles.doshaStatus,
-            { fontSize: 16 * scale },
-            data.mangalDosha.hasDosha ? styles.doshaStatusActive : styles.doshaStatusInactive
-          ]}>
-            {data.mangalDosha.hasDosha ? 'Present' : 'Not Present'}
-          </Text>
-          {data.mangalDosha.hasDosha && data.mangalDosha.severity !== 'none' && (
-            <View style={[
-              styles.severityBadge,
-              data.mangalDosha.severity === 'severe' ? styles.severitySevere :
-              data.mangalDosha.severity === 'moderate' ? styles.severityModerate : styles.severityMild
-            ]}>
-              <Text style={[styles.severityText, { fontSize: 10 * scale }]}>{data.mangalDosha.severity}</Text>
+      {/* Lucky Direction */}
+      {data.remedies.luckyDirection && (
+        <View style={[styles.section, { marginBottom: 20 * scale }]}>
+          <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.luckyDirection}</Text>
+          <View style={[styles.tagsRow, { marginTop: 12 * scale }]}>
+            <View style={[styles.tag, { paddingHorizontal: 16 * scale, paddingVertical: 8 * scale, borderRadius: 20 * scale }]}>
+              <Text style={[styles.tagText, { fontSize: 13 * scale }]}>{data.remedies.luckyDirection}</Text>
             </View>
-          )}
+          </View>
         </View>
-        <Text style={[styles.doshaDescription, { fontSize: 13 * scale, marginTop: 8 * scale }]}>
-          {data.mangalDosha.description}
-        </Text>
+      )}
 
-        {/* Show remedies if dosha present */}
-        {data.mangalDosha.hasDosha && data.mangalDosha.remedies && data.mangalDosha.remedies.length > 0 && (
-          <View style={[styles.doshaRemediesSection, { marginTop: 12 * scale }]}>
-            <Text style={[styles.doshaRemediesTitle, { fontSize: 14 * scale }]}>Remedies:</Text>
-            {data.mangalDosha.remedies.map((remedy, idx) => (
-              <Text key={idx} style={[styles.doshaRemedyItem, { fontSize: 13 * scale }]}>
-                • {remedy}
+      {/* Mantras */}
+      <View style={[styles.section, { marginBottom: 20 * scale }]}>
+        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.mantras}</Text>
+        {data.remedies.mantras.map((mantra, index) => (
+          <View key={index} style={[styles.mantraItem, { paddingVertical: 12 * scale, marginTop: index === 0 ? 12 * scale : 0 }]}>
+            <Text style={[styles.mantraText, { fontSize: 14 * scale }]}>{getMantraText(mantra)}</Text>
+            {typeof mantra !== 'string' && mantra.repetitions && (
+              <Text style={[styles.mantraRepetitions, { fontSize: 11 * scale }]}>
+                {text.repeatTimes(mantra.repetitions)} {mantra.timing ? `- ${mantra.timing}` : ''}
               </Text>
-            ))}
+            )}
           </View>
-        )}
+        ))}
       </View>
-    </View>
 
-    {/* Kaal Sarp Dosha */}
-    <View style={[styles.section, { marginBottom: 20 * scale }]}>
-      <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>Kaal Sarp Dosha</Text>
-      <View style={[styles.doshaCard, { padding: 16 * scale, marginTop: 12 * scale, borderRadius: 12 * scale }]}>
-        <View style={styles.doshaHeader}>
-          <Text style={[
-            styles.doshaStatus,
-            { fontSize: 16 * scale },
-            data.kaalSarpDosha.hasDosha ? styles.doshaStatusActive : styles.doshaStatusInactive
-          ]}>
-            {data.kaalSarpDosha.hasDosha ? `Present (${data.kaalSarpDosha.type})` : 'Not Present'}
-          </Text>
+      {/* Charities */}
+      {data.remedies.charities && data.remedies.charities.length > 0 && (
+        <View style={[styles.section, { marginBottom: 20 * scale }]}>
+          <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.charities}</Text>
+          {data.remedies.charities.map((charity, index) => (
+            <View key={index} style={[styles.charityItem, { paddingVertical: 12 * scale, marginTop: index === 0 ? 12 * scale : 0 }]}>
+              <Text style={[styles.charityText, { fontSize: 14 * scale }]}>{getCharityText(charity, text)}</Text>
+            </View>
+          ))}
         </View>
-        <Text style={[styles.doshaDescription, { fontSize: 13 * scale, marginTop: 8 * scale }]}>
-          {data.kaalSarpDosha.description}
-        </Text>
-
-        {/* Show remedies if dosha present */}
-        {data.kaalSarpDosha.hasDosha && data.kaalSarpDosha.remedies && data.kaalSarpDosha.remedies.length > 0 && (
-          <View style={[styles.doshaRemediesSection, { marginTop: 12 * scale }]}>
-            <Text style={[styles.doshaRemediesTitle, { fontSize: 14 * scale }]}>Remedies:</Text>
-            {data.kaalSarpDosha.remedies.map((remedy, idx) => (
-              <Text key={idx} style={[styles.doshaRemedyItem, { fontSize: 13 * scale }]}>
-                • {remedy}
+      )}
+
+      {/* Fasting */}
+      {data.remedies.fasting && (
+        <View style={[styles.section, { marginBottom: 20 * scale }]}>
+          <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.fasting}</Text>
+          <View style={[styles.fastingCard, { padding: 12 * scale, marginTop: 12 * scale, borderRadius: 8 * scale }]}>
+            <Text style={[styles.fastingDay, { fontSize: 14 * scale }]}>
+              {text.fastingDay}: {data.remedies.fasting.day}
+            </Text>
+            {data.remedies.fasting.description && (
+              <Text style={[styles.fastingDesc, { fontSize: 13 * scale, marginTop: 4 * scale }]}>
+                {data.remedies.fasting.description}
               </Text>
+            )}
+          </View>
+        </View>
+      )}
+
+      {/* Rudrakshas */}
+      {data.remedies.rudrakshas && data.remedies.rudrakshas.length > 0 && (
+        <View style={[styles.section, { marginBottom: 20 * scale }]}>
+          <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.rudrakshas}</Text>
+          <View style={[styles.tagsRow, { marginTop: 12 * scale }]}>
+            {data.remedies.rudrakshas.map((rudraksha, index) => (
+              <View key={index} style={[styles.tag, { paddingHorizontal: 16 * scale, paddingVertical: 8 * scale, borderRadius: 20 * scale }]}>
+                <Text style={[styles.tagText, { fontSize: 13 * scale }]}>{rudraksha}</Text>
+              </View>
             ))}
           </View>
-        )}
-      </View>
-    </View>
-
-    {/* Sade Sati */}
-    <View style={styles.section}>
-      <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>Sade Sati</Text>
-      <View style={[styles.doshaCard, { padding: 16 * scale, marginTop: 12 * scale, borderRadius: 12 * scale }]}>
-        <View style={styles.doshaHeader}>
-          <Text style={[
-            styles.doshaStatus,
-            { fontSize: 16 * scale },
-            data.sadeSati.isActive ? styles.doshaStatusActive : styles.doshaStatusInactive
-          ]}>
-            {data.sadeSati.isActive ? `Active (${data.sadeSati.phase})` : 'Not Active'}
-          </Text>
         </View>
-        {data.sadeSati.description && (
+      )}
+    </Animated.View>
+  );
+};
+
+// Dosha Tab Component
+const DoshaTab = ({ data, scale, language }: TabProps) => {
+  const text = REPORT_TEXT[language];
+
+  return (
+    <Animated.View entering={FadeInDown.duration(400)} style={styles.tabContent}>
+      {/* Mangal Dosha */}
+      <View style={[styles.section, { marginBottom: 20 * scale }]}>
+        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.mangalDosha}</Text>
+        <View style={[styles.doshaCard, { padding: 16 * scale, marginTop: 12 * scale, borderRadius: 12 * scale }]}>
+          <View style={styles.doshaHeader}>
+            <Text style={[
+              styles.doshaStatus,
+              { fontSize: 16 * scale },
+              data.mangalDosha.hasDosha ? styles.doshaStatusActive : styles.doshaStatusInactive
+            ]}>
+              {data.mangalDosha.hasDosha ? text.present : text.notPresent}
+            </Text>
+            {data.mangalDosha.hasDosha && data.mangalDosha.severity !== 'none' && (
+              <View style={[
+                styles.severityBadge,
+                data.mangalDosha.severity === 'severe' ? styles.severitySevere :
+                data.mangalDosha.severity === 'moderate' ? styles.severityModerate : styles.severityMild
+              ]}>
+                <Text style={[styles.severityText, { fontSize: 10 * scale }]}>
+                  {text.severity[data.mangalDosha.severity] || data.mangalDosha.severity}
+                </Text>
+              </View>
+            )}
+          </View>
           <Text style={[styles.doshaDescription, { fontSize: 13 * scale, marginTop: 8 * scale }]}>
-            {data.sadeSati.description}
+            {data.mangalDosha.description}
           </Text>
-        )}
-        {data.sadeSati.isActive && data.sadeSati.startDate && data.sadeSati.endDate && (
+
+          {/* Show remedies if dosha present */}
+          {data.mangalDosha.hasDosha && data.mangalDosha.remedies && data.mangalDosha.remedies.length > 0 && (
+            <View style={[styles.doshaRemediesSection, { marginTop: 12 * scale }]}>
+              <Text style={[styles.doshaRemediesTitle, { fontSize: 14 * scale }]}>{text.doshaRemedies}</Text>
+              {data.mangalDosha.remedies.map((remedy, idx) => (
+                <Text key={idx} style={[styles.doshaRemedyItem, { fontSize: 13 * scale }]}>
+                  • {remedy}
+                </Text>
+              ))}
+            </View>
+          )}
+        </View>
+      </View>
+
+      {/* Kaal Sarp Dosha */}
+      <View style={[styles.section, { marginBottom: 20 * scale }]}>
+        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.kaalSarpDosha}</Text>
+        <View style={[styles.doshaCard, { padding: 16 * scale, marginTop: 12 * scale, borderRadius: 12 * scale }]}>
+          <View style={styles.doshaHeader}>
+            <Text style={[
+              styles.doshaStatus,
+              { fontSize: 16 * scale },
+              data.kaalSarpDosha.hasDosha ? styles.doshaStatusActive : styles.doshaStatusInactive
+            ]}>
+              {data.kaalSarpDosha.hasDosha ? `${text.present} (${data.kaalSarpDosha.type})` : text.notPresent}
+            </Text>
+          </View>
           <Text style={[styles.doshaDescription, { fontSize: 13 * scale, marginTop: 8 * scale }]}>
-            Period: {formatDate(data.sadeSati.startDate)} to {formatDate(data.sadeSati.endDate)}
+            {data.kaalSarpDosha.description}
           </Text>
-        )}
-        {data.sadeSati.currentTransit && (
-          <View style={[styles.transitInfo, { marginTop: 8 * scale }]}>
-            <Text style={[styles.transitText, { fontSize: 12 * scale }]}>
-              Saturn currently in {data.sadeSati.currentTransit.sign}
-              {data.sadeSati.currentTransit.isRetrograde ? ' (Retrograde)' : ''}
+
+          {/* Show remedies if dosha present */}
+          {data.kaalSarpDosha.hasDosha && data.kaalSarpDosha.remedies && data.kaalSarpDosha.remedies.length > 0 && (
+            <View style={[styles.doshaRemediesSection, { marginTop: 12 * scale }]}>
+              <Text style={[styles.doshaRemediesTitle, { fontSize: 14 * scale }]}>{text.doshaRemedies}</Text>
+              {data.kaalSarpDosha.remedies.map((remedy, idx) => (
+                <Text key={idx} style={[styles.doshaRemedyItem, { fontSize: 13 * scale }]}>
+                  • {remedy}
+                </Text>
+              ))}
+            </View>
+          )}
+        </View>
+      </View>
+
+      {/* Sade Sati */}
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.sadeSati}</Text>
+        <View style={[styles.doshaCard, { padding: 16 * scale, marginTop: 12 * scale, borderRadius: 12 * scale }]}>
+          <View style={styles.doshaHeader}>
+            <Text style={[
+              styles.doshaStatus,
+              { fontSize: 16 * scale },
+              data.sadeSati.isActive ? styles.doshaStatusActive : styles.doshaStatusInactive
+            ]}>
+              {data.sadeSati.isActive ? `${text.active} (${data.sadeSati.phase})` : text.notActive}
             </Text>
           </View>
-        )}
+          {data.sadeSati.description && (
+            <Text style={[styles.doshaDescription, { fontSize: 13 * scale, marginTop: 8 * scale }]}>
+              {data.sadeSati.description}
+            </Text>
+          )}
+          {data.sadeSati.isActive && data.sadeSati.startDate && data.sadeSati.endDate && (
+            <Text style={[styles.doshaDescription, { fontSize: 13 * scale, marginTop: 8 * scale }]}>
+              {text.sadeSatiPeriod(formatDate(data.sadeSati.startDate), formatDate(data.sadeSati.endDate))}
+            </Text>
+          )}
+          {data.sadeSati.currentTransit && (
+            <View style={[styles.transitInfo, { marginTop: 8 * scale }]}>
+              <Text style={[styles.transitText, { fontSize: 12 * scale }]}>
+                {text.saturnTransit(localizeName(data.sadeSati.currentTransit.sign, language))}
+                {data.sadeSati.currentTransit.isRetrograde ? ` (${text.retrograde})` : ''}
+              </Text>
+            </View>
+          )}
+        </View>
       </View>
-    </View>
-  </Animated.View>
-);
+    </Animated.View>
+  );
+};
+
+const CHART_STYLES: ChartStyle[] = ['south_indian', 'north_indian', 'east_indian'];
+
+interface DrawableChart {
+  varga: VargaInfo;
+  houses: ChartData['houses'];
+}
 
-// Helper function to check if charts have valid URLs
-const hasValidCharts = (charts: KundliReportData['charts'], style: 'south' | 'north'): boolean => {
-  if (!charts) return false;
-  const allCharts = [charts.rasiChart, charts.navamsaChart, charts.dasamsaChart, charts.saptamsaChart];
-  return allCharts.some(chart => {
-    if (!chart) return false;
-    const url = style === 'south' ? chart.svgUrl : chart.svgUrlNorth;
-    return url && url.trim() !== '';
-  });
+// Charts with house data to draw. Without server charts, the rasi chart is
+// built from the planet positions and the lagna.
+const getDrawableCharts = (data: KundliReportData): DrawableChart[] => {
+  const charts = VARGAS
+    .map((varga) => ({ varga, houses: data.charts?.[varga.chartKey]?.houses || [] }))
+    .filter((chart) => chart.houses.length > 0);
+
+  if (charts.length === 0) {
+    const lagnaSignIndex = getSignIndex(data.lagna.name);
+    if (lagnaSignIndex >= 0 && data.planets.length > 0) {
+      const placements = data.planets
+        .map((planet) => ({ name: planet.name, signIndex: getSignIndex(planet.sign) }))
+        .filter((placement) => placement.signIndex >= 0);
+      charts.push({ varga: VARGAS[0], houses: toChartHouses(lagnaSignIndex, placements) });
+    }
+  }
+
+  return charts;
+};
+
+// Sign a planet occupies in a chart, or -1 if the chart doesn't place it
+const getPlanetSignIndex = (houses: ChartData['houses'], planetName: string): number => {
+  const id = getChartBodyId(planetName);
+  const house = houses.find((h) => h.planets.some((planet) => getChartBodyId(planet) === id));
+  return house ? getSignIndex(house.sign) : -1;
 };
 
+// Varga name and signification in the report language
+const getVargaLabel = (varga: VargaInfo, language: ReportLanguage) =>
+  language === 'ta' ? VARGA_LABELS_TA[varga.id] : varga;
+
 // Charts Tab Component
 const ChartsTab = ({
   data,
   scale,
+  language,
   chartStyle,
   onStyleChange
-}: {
-  data: KundliReportData;
-  scale: number;
-  chartStyle: 'south' | 'north';
-  onStyleChange: (style: 'south' | 'north') => void;
+}: TabProps & {
+  chartStyle: ChartStyle;
+  onStyleChange: (style: ChartStyle) => void;
 }) => {
-  // Filter charts that have valid URLs for the current style
-  const charts = [
-    { key: 'rasiChart', title: 'Rasi Chart (D1)', data: data.charts?.rasiChart },
-    { key: 'navamsaChart', title: 'Navamsa Chart (D9)', data: data.charts?.navamsaChart },
-    { key: 'dasamsaChart', title: 'Dasamsa Chart (D10)', data: data.charts?.dasamsaChart },
-    { key: 'saptamsaChart', title: 'Saptamsa Chart (D7)', data: data.charts?.saptamsaChart },
-  ].filter(c => {
-    if (!c.data) return false;
-    const url = chartStyle === 'south' ? c.data.svgUrl : c.data.svgUrlNorth;
-    return url && url.trim() !== '';
-  });
-
-  // If no valid charts, don't render anything
+  const text = REPORT_TEXT[language];
+  const [selectedVarga, setSelectedVarga] = useState<VargaId>('D1');
+  const [selectedPlanet, setSelectedPlanet] = useState<string | null>(null);
+  const charts = useMemo(() => getDrawableCharts(data), [data]);
+
+  // If no drawable charts, don't render anything
   if (charts.length === 0) {
     return null;
   }
 
+  const activeChart = charts.find((chart) => chart.varga.id === selectedVarga) || charts[0];
+  const tablePlanet = selectedPlanet ?? data.planets[0]?.name;
+
+  const handleVargaChange = (varga: VargaId) => {
+    Haptics.selectionAsync();
+    setSelectedVarga(varga);
+  };
+
+  const handlePlanetChange = (planet: string) => {
+    Haptics.selectionAsync();
+    setSelectedPlanet(planet);
+  };
+
   return (
     <Animated.View entering={FadeInDown.duration(400)} style={styles.tabContent}>
       {/* Chart Style Toggle */}
       <View style={[styles.styleToggle, { marginBottom: 16 * scale }]}>
-        <TouchableOpacity
-          style={[styles.toggleBtn, chartStyle === 'south' && styles.toggleActive]}
-          onPress={() => onStyleChange('south')}
-        >
-          <Text style={[
-            styles.toggleText,
-            { fontSize: 13 * scale },
-            chartStyle === 'south' && styles.toggleTextActive
-          ]}>South Indian</Text>
-        </TouchableOpacity>
-        <TouchableOpacity
-          style={[styles.toggleBtn, chartStyle === 'north' && styles.toggleActive]}
-          onPress={() => onStyleChange('north')}
+        {CHART_STYLES.map((key) => (
+          <TouchableOpacity
+            key={key}
+            style={[styles.toggleBtn, chartStyle === key && styles.toggleActive]}
+            onPress={() => onStyleChange(key)}
+          >
+            <Text style={[
+              styles.toggleText,
+              { fontSize: 13 * scale },
+              chartStyle === key && styles.toggleTextActive
+            ]}>{text.chartStyles[key]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Varga Picker */}
+      {charts.length > 1 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={{ gap: 8 * scale }}
+          style={{ marginBottom: 16 * scale }}
         >
-          <Text style={[
-            styles.toggleText,
-            { fontSize: 13 * scale },
-            chartStyle === 'north' && styles.toggleTextActive
-          ]}>North Indian</Text>
-        </TouchableOpacity>
+          {charts.map(({ varga }) => {
+            const isActive = varga.id === activeChart.varga.id;
+            return (
+              <TouchableOpacity
+                key={varga.id}
+                style={[
+                  styles.chip,
+                  { paddingHorizontal: 14 * scale, paddingVertical: 6 * scale, borderRadius: 16 * scale },
+                  isActive && styles.chipActive,
+                ]}
+                onPress={() => handleVargaChange(varga.id)}
+              >
+                <Text style={[styles.chipText, { fontSize: 13 * scale }, isActive && styles.chipTextActive]}>
+                  {varga.id}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+
+      {/* Selected Chart */}
+      <View style={[styles.section, { marginBottom: 24 * scale }]}>
+        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>
+          {text.chartTitle(getVargaLabel(activeChart.varga, language).name, activeChart.varga.id)}
+        </Text>
+        <Text style={[styles.chartSignifies, { fontSize: 12 * scale }]}>
+          {getVargaLabel(activeChart.varga, language).signifies}
+        </Text>
+        <View style={{ marginTop: 12 * scale }}>
+          <KundliChart
+            key={activeChart.varga.id}
+            houses={activeChart.houses}
+            chartStyle={chartStyle}
+            planets={data.planets}
+            language={language}
+            scale={scale}
+          />
+        </View>
       </View>
 
-      {/* Render charts with valid URLs */}
-      {charts.map((chart) => {
-        const svgUrl = chartStyle === 'south' ? chart.data!.svgUrl : chart.data!.svgUrlNorth;
-        return (
-          <View key={chart.key} style={[styles.section, { marginBottom: 24 * scale }]}>
-            <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{chart.title}</Text>
-            <View style={{ marginTop: 12 * scale }}>
-              <SvgUri
-                width="100%"
-                height={undefined}
-                uri={svgUrl}
-                style={{ aspectRatio: 1 }}
-              />
-            </View>
+      {/* Planet Sign Across Vargas */}
+      {tablePlanet && (
+        <View style={[styles.section, { marginBottom: 24 * scale }]}>
+          <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.planetAcrossVargas}</Text>
+          <View style={[styles.tagsRow, { marginTop: 12 * scale, marginBottom: 12 * scale }]}>
+            {data.planets.map((planet) => {
+              const isActive = planet.name === tablePlanet;
+              return (
+                <TouchableOpacity
+                  key={planet.name}
+                  style={[
+                    styles.chip,
+                    { paddingHorizontal: 12 * scale, paddingVertical: 6 * scale, borderRadius: 16 * scale },
+                    isActive && styles.chipActive,
+                  ]}
+                  onPress={() => handlePlanetChange(planet.name)}
+                >
+                  <Text style={[styles.chipText, { fontSize: 12 * scale }, isActive && styles.chipTextActive]}>
+                    {localizeName(planet.name, language)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
           </View>
-        );
-      })}
+          <View style={styles.planetsGrid}>
+            {charts.map(({ varga, houses }) => {
+              const signIndex = getPlanetSignIndex(houses, tablePlanet);
+              return (
+                <View key={varga.id} style={[styles.planetRow, { paddingVertical: 10 * scale }]}>
+                  <Text style={[styles.planetName, { fontSize: 13 * scale }]}>
+                    {varga.id} · {getVargaLabel(varga, language).name}
+                  </Text>
+                  <Text style={[styles.planetInfo, { fontSize: 13 * scale }]}>
+                    {signIndex >= 0 ? SIGN_LABELS[language][signIndex] : '-'}
+                  </Text>
+                </View>
+              );
+            })}
+          </View>
+        </View>
+      )}
     </Animated.View>
   );
 };
 
-// Dasha Tab Component
-const DashaTab = ({ data, scale }: { data: KundliReportData; scale: number }) => (
-  <Animated.View entering={FadeInDown.duration(400)} style={styles.tabContent}>
-    {/* Current Dasha */}
-    <View style={[styles.section, { marginBottom: 20 * scale }]}>
-      <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>Current Dasha Period</Text>
-      <View style={[styles.dashaCard, { padding: 16 * scale, marginTop: 12 * scale, borderRadius: 12 * scale }]}>
-        {/* Mahadasha */}
-        <View style={styles.dashaRow}>
-          <Text style={[styles.dashaLabel, { fontSize: 13 * scale }]}>Mahadasha</Text>
-          <View style={styles.dashaValueContainer}>
-            <Text style={[styles.dashaValue, { fontSize: 14 * scale }]}>
-              {data.currentDasha.mahadasha.planet}
-            </Text>
-            {data.currentDasha.mahadasha.yearsRemaining !== undefined && (
-              <Text style={[styles.dashaRemaining, { fontSize: 11 * scale }]}>
-                ({data.currentDasha.mahadasha.yearsRemaining} years remaining)
-              </Text>
-            )}
-          </View>
-        </View>
+// Server Vimshottari summary, shown when the birth details aren't available
+const ServerDashaSummary = ({ data, scale, language }: TabProps) => {
+  const text = REPORT_TEXT[language];
+  const levels = DASHA_LEVEL_LABELS[language];
 
-        {/* Antardasha */}
-        <View style={[styles.dashaRow, { marginTop: 12 * scale }]}>
-          <Text style={[styles.dashaLabel, { fontSize: 13 * scale }]}>Antardasha</Text>
-          <View style={styles.dashaValueContainer}>
-            <Text style={[styles.dashaValue, { fontSize: 14 * scale }]}>
-              {data.currentDasha.antardasha.planet}
-            </Text>
-            {data.currentDasha.antardasha.monthsRemaining !== undefined && (
-              <Text style={[styles.dashaRemaining, { fontSize: 11 * scale }]}>
-                ({data.currentDasha.antardasha.monthsRemaining} months remaining)
+  return (
+    <Animated.View entering={FadeInDown.duration(400)} style={styles.tabContent}>
+      {/* Current Dasha */}
+      <View style={[styles.section, { marginBottom: 20 * scale }]}>
+        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.currentDasha}</Text>
+        <View style={[styles.dashaCard, { padding: 16 * scale, marginTop: 12 * scale, borderRadius: 12 * scale }]}>
+          {/* Mahadasha */}
+          <View style={styles.dashaRow}>
+            <Text style={[styles.dashaLabel, { fontSize: 13 * scale }]}>{levels[0]}</Text>
+            <View style={styles.dashaValueContainer}>
+              <Text style={[styles.dashaValue, { fontSize: 14 * scale }]}>
+                {localizeName(data.currentDasha.mahadasha.planet, language)}
               </Text>
-            )}
+              {data.currentDasha.mahadasha.yearsRemaining !== undefined && (
+                <Text style={[styles.dashaRemaining, { fontSize: 11 * scale }]}>
+                  {text.yearsRemaining(data.currentDasha.mahadasha.yearsRemaining)}
+                </Text>
+              )}
+            </View>
           </View>
-        </View>
 
-        {/* Pratyantardasha */}
-        {data.currentDasha.pratyantardasha && (
+          {/* Antardasha */}
           <View style={[styles.dashaRow, { marginTop: 12 * scale }]}>
-            <Text style={[styles.dashaLabel, { fontSize: 13 * scale }]}>Pratyantardasha</Text>
+            <Text style={[styles.dashaLabel, { fontSize: 13 * scale }]}>{levels[1]}</Text>
             <View style={styles.dashaValueContainer}>
               <Text style={[styles.dashaValue, { fontSize: 14 * scale }]}>
-                {data.currentDasha.pratyantardasha.planet}
+                {localizeName(data.currentDasha.antardasha.planet, language)}
               </Text>
-              {data.currentDasha.pratyantardasha.daysRemaining !== undefined && (
+              {data.currentDasha.antardasha.monthsRemaining !== undefined && (
                 <Text style={[styles.dashaRemaining, { fontSize: 11 * scale }]}>
-                  ({data.currentDasha.pratyantardasha.daysRemaining} days remaining)
+                  {text.monthsRemaining(data.currentDasha.antardasha.monthsRemaining)}
                 </Text>
               )}
             </View>
           </View>
-        )}
-      </View>
-    </View>
 
-    {/* Dasha Timeline */}
-    <View style={styles.section}>
-      <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>Dasha Timeline</Text>
-      <View style={{ marginTop: 12 * scale }}>
-        {data.dashaPeriods.map((period, index) => (
-          <View
-            key={index}
-            style={[
-              styles.timelineItem,
-              { paddingVertical: 12 * scale },
-              period.isCurrent && styles.timelineItemCurrent
-            ]}
-          >
-            <View style={[
-              styles.timelineDot,
-              { width: 12 * scale, height: 12 * scale, borderRadius: 6 * scale },
-              period.isCurrent && styles.timelineDotCurrent
-            ]} />
-            <View style={styles.timelineContent}>
-              <View style={styles.timelineHeader}>
-                <Text style={[styles.timelinePlanet, { fontSize: 15 * scale }]}>
-                  {period.planet} Mahadasha
+          {/* Pratyantardasha */}
+          {data.currentDasha.pratyantardasha && (
+            <View style={[styles.dashaRow, { marginTop: 12 * scale }]}>
+              <Text style={[styles.dashaLabel, { fontSize: 13 * scale }]}>{levels[2]}</Text>
+              <View style={styles.dashaValueContainer}>
+                <Text style={[styles.dashaValue, { fontSize: 14 * scale }]}>
+                  {localizeName(data.currentDasha.pratyantardasha.planet, language)}
                 </Text>
-                {period.durationYears && (
-                  <Text style={[styles.timelineDuration, { fontSize: 12 * scale }]}>
-                    {period.durationYears} years
+                {data.currentDasha.pratyantardasha.daysRemaining !== undefined && (
+                  <Text style={[styles.dashaRemaining, { fontSize: 11 * scale }]}>
+                    {text.daysRemaining(data.currentDasha.pratyantardasha.daysRemaining)}
                   </Text>
                 )}
               </View>
-              <Text style={[styles.timelineDates, { fontSize: 12 * scale }]}>
-                {formatDate(period.startDate)} - {formatDate(period.endDate)}
-              </Text>
-              {period.isCurrent && (
-                <View style={[styles.currentBadge, { marginTop: 4 * scale }]}>
-                  <Text style={[styles.currentBadgeText, { fontSize: 10 * scale }]}>Current</Text>
+            </View>
+          )}
+        </View>
+      </View>
+
+      {/* Dasha Timeline */}
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.dashaTimeline}</Text>
+        <View style={{ marginTop: 12 * scale }}>
+          {data.dashaPeriods.map((period, index) => (
+            <View
+              key={index}
+              style={[
+                styles.timelineItem,
+                { paddingVertical: 12 * scale },
+                period.isCurrent && styles.timelineItemCurrent
+              ]}
+            >
+              <View style={[
+                styles.timelineDot,
+                { width: 12 * scale, height: 12 * scale, borderRadius: 6 * scale },
+                period.isCurrent && styles.timelineDotCurrent
+              ]} />
+              <View style={styles.timelineContent}>
+                <View style={styles.timelineHeader}>
+                  <Text style={[styles.timelinePlanet, { fontSize: 15 * scale }]}>
+                    {localizeName(period.planet, language)} {levels[0]}
+                  </Text>
+                  {period.durationYears && (
+                    <Text style={[styles.timelineDuration, { fontSize: 12 * scale }]}>
+                      {period.durationYears} {text.years}
+                    </Text>
+                  )}
                 </View>
-              )}
+                <Text style={[styles.timelineDates, { fontSize: 12 * scale }]}>
+                  {formatDate(period.startDate)} - {formatDate(period.endDate)}
+                </Text>
+                {period.isCurrent && (
+                  <View style={[styles.currentBadge, { marginTop: 4 * scale }]}>
+                    <Text style={[styles.currentBadgeText, { fontSize: 10 * scale }]}>{text.current}</Text>
+                  </View>
+                )}
+              </View>
             </View>
-          </View>
+          ))}
+        </View>
+      </View>
+    </Animated.View>
+  );
+};
+
+const DASHA_SYSTEM_OPTIONS: DashaSystem[] = ['vimshottari', 'yogini', 'ashtottari'];
+
+// Dasha Tab Component
+const DashaTab = ({
+  data,
+  scale,
+  language,
+  birthChart
+}: TabProps & {
+  birthChart: BirthChart | null;
+}) => {
+  const text = REPORT_TEXT[language];
+  const [system, setSystem] = useState<DashaSystem>('vimshottari');
+
+  const mahadashas = useMemo(
+    () => (birthChart ? calculateMahadashas(birthChart, system) : []),
+    [birthChart, system]
+  );
+  const runningPeriods = useMemo(() => getRunningPeriods(mahadashas, system), [mahadashas, system]);
+
+  if (!birthChart) {
+    return <ServerDashaSummary data={data} scale={scale} language={language} />;
+  }
+
+  return (
+    <Animated.View entering={FadeInDown.duration(400)} style={styles.tabContent}>
+      {/* Dasha System Selector */}
+      <View style={[styles.styleToggle, { marginBottom: 16 * scale }]}>
+        {DASHA_SYSTEM_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.toggleBtn, system === option && styles.toggleActive]}
+            onPress={() => {
+              Haptics.selectionAsync();
+              setSystem(option);
+            }}
+          >
+            <Text style={[
+              styles.toggleText,
+              { fontSize: 13 * scale },
+              system === option && styles.toggleTextActive
+            ]}>{localizeName(DASHA_SYSTEMS[option].label, language)}</Text>
+          </TouchableOpacity>
         ))}
       </View>
+
+      {/* Running Periods */}
+      {runningPeriods.length > 0 && (
+        <View style={[styles.section, { marginBottom: 20 * scale }]}>
+          <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.currentDasha}</Text>
+          <View style={[styles.dashaCard, { padding: 16 * scale, marginTop: 12 * scale, borderRadius: 12 * scale }]}>
+            {runningPeriods.map((period, index) => (
+              <View key={index} style={[styles.dashaRow, index > 0 && { marginTop: 12 * scale }]}>
+                <Text style={[styles.dashaLabel, { fontSize: 13 * scale }]}>
+                  {DASHA_LEVEL_LABELS[language][index]}
+                </Text>
+                <View style={styles.dashaValueContainer}>
+                  <Text style={[styles.dashaValue, { fontSize: 14 * scale }]}>
+                    {getDashaLordLabel(system, period.planet, language)}
+                  </Text>
+                  <Text style={[styles.dashaRemaining, { fontSize: 11 * scale }]}>
+                    {text.until(formatDate(period.endDate))}
+                  </Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        </View>
+      )}
+
+      {/* Dasha Timeline */}
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>
+          {text.systemTimeline(localizeName(DASHA_SYSTEMS[system].label, language))}
+        </Text>
+        <View style={{ marginTop: 12 * scale }}>
+          <DashaTimeline
+            key={system}
+            periods={mahadashas}
+            system={system}
+            language={language}
+            scale={scale}
+          />
+        </View>
+      </View>
+    </Animated.View>
+  );
+};
+
+// Transits are scrubbed from SCRUB_YEARS_BACK before today to SCRUB_YEARS_AHEAD after it
+const SCRUB_YEARS_BACK = 2;
+const SCRUB_YEARS_AHEAD = 10;
+const INGRESS_YEARS = 3; // Ingresses listed after the chosen date
+const DAYS_PER_YEAR = 365.25;
+
+const addYears = (date: Date, years: number): Date => {
+  const result = new Date(date);
+  result.setFullYear(result.getFullYear() + years);
+  return result;
+};
+
+// Natal lagna and Moon signs from the on-device chart (report labels are localized)
+const getNatalSigns = (birthChart: BirthChart | null): NatalReference | null =>
+  birthChart ? getNatalReference(birthChart) : null;
+
+// Transits Tab Component
+const TransitsTab = ({
+  data,
+  scale,
+  language,
+  chartStyle,
+  birthChart
+}: TabProps & {
+  chartStyle: ChartStyle;
+  birthChart: BirthChart | null;
+}) => {
+  const text = REPORT_TEXT[language];
+  const [today] = useState(() => new Date());
+  const [date, setDate] = useState(today);
+  const natal = useMemo(() => getNatalSigns(birthChart), [birthChart]);
+
+  const minimumDate = useMemo(() => addYears(today, -SCRUB_YEARS_BACK), [today]);
+  const maximumDate = useMemo(() => addYears(today, SCRUB_YEARS_AHEAD), [today]);
+
+  // Found once for the whole slider range, so scrubbing only filters them
+  const allIngresses = useMemo(
+    () => (natal
+      ? findIngresses(msToJulianDay(minimumDate.getTime()), msToJulianDay(maximumDate.getTime()), natal)
+      : []),
+    [natal, minimumDate, maximumDate]
+  );
+
+  const julianDay = msToJulianDay(date.getTime());
+  const transits = useMemo(() => (natal ? calculateTransits(julianDay, natal) : []), [natal, julianDay]);
+
+  const upcomingIngresses = useMemo(
+    () => allIngresses.filter((ingress) =>
+      ingress.julianDay >= julianDay && ingress.julianDay <= julianDay + INGRESS_YEARS * DAYS_PER_YEAR
+    ),
+    [allIngresses, julianDay]
+  );
+  const significantDates = useMemo(
+    () => allIngresses
+      .filter((ingress) => ingress.notes.length > 0)
+      .map((ingress) => new Date(julianDayToMs(ingress.julianDay))),
+    [allIngresses]
+  );
+
+  const natalHouses = useMemo(
+    () => getDrawableCharts(data).find((chart) => chart.varga.id === 'D1')?.houses ||
+      (natal ? toChartHouses(natal.lagnaSignIndex, []) : []),
+    [data, natal]
+  );
+  const transitHouses = useMemo(
+    () => (natal
+      ? toChartHouses(
+          natal.lagnaSignIndex,
+          transits.map((transit) => ({ name: GRAHA_NAMES[transit.id], signIndex: transit.signIndex }))
+        )
+      : []),
+    [natal, transits]
+  );
+  const transitPlanets = useMemo(
+    () => transits.map((transit) => ({ name: GRAHA_NAMES[transit.id], isRetrograde: transit.isRetrograde })),
+    [transits]
+  );
+
+  if (!natal) {
+    return null;
+  }
+
+  const isToday = date.toDateString() === today.toDateString();
+  const overMoon = transits.filter((transit) => transit.houseFromMoon === 1);
+  const overLagna = transits.filter((transit) => transit.house === 1);
+
+  const renderGrahaList = (title: string, grahas: TransitPosition[]) => (
+    <View style={[styles.section, { marginBottom: 20 * scale }]}>
+      <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{title}</Text>
+      {grahas.length === 0 ? (
+        <Text style={[styles.chartSignifies, { fontSize: 13 * scale, marginTop: 8 * scale }]}>
+          {text.noTransits}
+        </Text>
+      ) : (
+        <View style={[styles.tagsRow, { marginTop: 12 * scale }]}>
+          {grahas.map((transit) => (
+            <View
+              key={transit.id}
+              style={[styles.transitTag, { paddingHorizontal: 12 * scale, paddingVertical: 6 * scale, borderRadius: 16 * scale }]}
+            >
+              <Text style={[styles.transitTagText, { fontSize: 12 * scale }]}>
+                {GRAHA_LABELS[language][transit.id]} {formatDegree(transit.degreeInSign)}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
     </View>
-  </Animated.View>
-);
+  );
+
+  return (
+    <Animated.View entering={FadeInDown.duration(400)} style={styles.tabContent}>
+      {/* Date Slider */}
+      <View style={[styles.section, { marginBottom: 20 * scale }]}>
+        <View style={styles.transitDateRow}>
+          <View>
+            <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.transitDate}</Text>
+            <Text style={[styles.transitDate, { fontSize: 14 * scale, marginTop: 4 * scale }]}>
+              {formatDate(date.toISOString())}
+            </Text>
+          </View>
+          {!isToday && (
+            <TouchableOpacity
+              style={[styles.chip, { paddingHorizontal: 14 * scale, paddingVertical: 6 * scale, borderRadius: 16 * scale }]}
+              onPress={() => {
+                Haptics.selectionAsync();
+                setDate(today);
+              }}
+            >
+              <Text style={[styles.chipText, { fontSize: 13 * scale }]}>{text.today}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        <View style={{ marginTop: 8 * scale }}>
+          <DateScrubber
+            value={date}
+            minimumDate={minimumDate}
+            maximumDate={maximumDate}
+            onChange={setDate}
+            marks={significantDates}
+            scale={scale}
+          />
+        </View>
+        <View style={styles.transitDateRow}>
+          <Text style={[styles.chartSignifies, { fontSize: 11 * scale }]}>{minimumDate.getFullYear()}</Text>
+          <Text style={[styles.chartSignifies, { fontSize: 11 * scale }]}>{maximumDate.getFullYear()}</Text>
+        </View>
+      </View>
+
+      {/* Transit Overlay */}
+      <View style={[styles.section, { marginBottom: 24 * scale }]}>
+        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.transitChart}</Text>
+        <View style={{ marginTop: 12 * scale }}>
+          <KundliChart
+            houses={natalHouses}
+            chartStyle={chartStyle}
+            planets={data.planets}
+            transitHouses={transitHouses}
+            transitPlanets={transitPlanets}
+            language={language}
+            scale={scale}
+          />
+        </View>
+      </View>
+
+      {/* Transits over the natal Moon and lagna */}
+      {renderGrahaList(text.overMoon(SIGN_LABELS[language][natal.moonSignIndex]), overMoon)}
+      {renderGrahaList(text.overLagna(SIGN_LABELS[language][natal.lagnaSignIndex]), overLagna)}
+
+      {/* Transit Positions */}
+      <View style={[styles.section, { marginBottom: 24 * scale }]}>
+        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.transitPositions}</Text>
+        <View style={[styles.planetsGrid, { marginTop: 12 * scale }]}>
+          {transits.map((transit) => (
+            <View key={transit.id} style={[styles.planetRow, { paddingVertical: 10 * scale }]}>
+              <View style={styles.planetNameContainer}>
+                <Text style={[styles.planetName, { fontSize: 14 * scale }]}>{GRAHA_LABELS[language][transit.id]}</Text>
+                {transit.isRetrograde && transit.id !== 'rahu' && transit.id !== 'ketu' && (
+                  <View style={styles.planetBadges}>
+                    <View style={styles.retroBadge}>
+                      <Text style={[styles.retroText, { fontSize: 10 * scale }]}>{text.retrogradeBadge}</Text>
+                    </View>
+                  </View>
+                )}
+              </View>
+              <View style={styles.planetDetails}>
+                <Text style={[styles.planetInfo, { fontSize: 13 * scale }]}>
+                  {SIGN_LABELS[language][transit.signIndex]} {formatDegree(transit.degreeInSign)}
+                </Text>
+                <Text style={[styles.planetNakshatra, { fontSize: 11 * scale }]}>
+                  {text.housesFrom(transit.house, transit.houseFromMoon)}
+                </Text>
+              </View>
+            </View>
+          ))}
+        </View>
+      </View>
+
+      {/* Upcoming Ingresses */}
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { fontSize: 16 * scale }]}>{text.upcomingIngresses}</Text>
+        <Text style={[styles.chartSignifies, { fontSize: 12 * scale }]}>{text.ingressesHint(INGRESS_YEARS)}</Text>
+        <View style={{ marginTop: 12 * scale }}>
+          {upcomingIngresses.length === 0 ? (
+            <Text style={[styles.chartSignifies, { fontSize: 13 * scale }]}>{text.noIngresses}</Text>
+          ) : (
+            upcomingIngresses.map((ingress) => {
+              const isSignificant = ingress.notes.length > 0;
+              return (
+                <View
+                  key={`${ingress.graha}-${ingress.julianDay}`}
+                  style={[
+                    styles.timelineItem,
+                    { paddingVertical: 10 * scale },
+                    isSignificant && styles.ingressSignificant,
+                  ]}
+                >
+                  <View style={[
+                    styles.timelineDot,
+                    { width: 10 * scale, height: 10 * scale, borderRadius: 5 * scale },
+                    isSignificant && styles.ingressDotSignificant,
+                  ]} />
+                  <View style={styles.timelineContent}>
+                    <View style={styles.timelineHeader}>
+                      <Text style={[styles.timelinePlanet, { fontSize: 14 * scale }]}>
+                        {text.entersSign(GRAHA_LABELS[language][ingress.graha], SIGN_LABELS[language][ingress.signIndex])}
+                        {ingress.isRetrograde && ingress.graha !== 'rahu' && ingress.graha !== 'ketu' && ` (${text.retrogradeBadge})`}
+                      </Text>
+                    </View>
+                    <Text style={[styles.timelineDates, { fontSize: 12 * scale }]}>
+                      {formatDate(new Date(julianDayToMs(ingress.julianDay)).toISOString())}
+                      {'  ·  '}
+                      {text.housesFrom(ingress.house, ingress.houseFromMoon)}
+                    </Text>
+                    {isSignificant && (
+                      <View style={[styles.tagsRow, { marginTop: 6 * scale }]}>
+                        {ingress.notes.map((note) => (
+                          <View key={note} style={[styles.transitTag, { paddingHorizontal: 8 * scale, paddingVertical: 2 * scale, borderRadius: 10 * scale }]}>
+                            <Text style={[styles.transitTagText, { fontSize: 10 * scale }]}>
+                              {TRANSIT_NOTE_LABELS[language][note]}
+                            </Text>
+                          </View>
+                        ))}
+                      </View>
+                    )}
+                  </View>
+                </View>
+              );
+            })
+          )}
+        </View>
+      </View>
+    </Animated.View>
+  );
+};
 
 // Skeleton component for loading
 const ReportSkeleton = ({ scale }: { scale: number }) => (
@@ -753,7 +1438,7 @@ const ReportSkeleton = ({ scale }: { scale: number }) => (
 
 const KundliReportScreen = ({ navigation, route }: any) => {
   const { scale } = useResponsiveLayout();
-  const { kundliId, kundliData } = route.params || {};
+  const { kundliId, kundliData, refresh: refreshOnOpen } = route.params || {};
   const insets = useSafeAreaInsets();
 
   // Status bar height for proper spacing
@@ -766,7 +1451,9 @@ const KundliReportScreen = ({ navigation, route }: any) => {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [reportData, setReportData] = useState<KundliReportData | null>(null);
-  const [chartStyle, setChartStyle] = useState<'south' | 'north'>('south');
+  const [chartStyle, setChartStyle] = useState<ChartStyle>('south_indian');
+  const [language, setLanguage] = useState<ReportLanguage>('en');
+  const text = REPORT_TEXT[language];
 
   // Map API response to KundliReportData format
   const mapReportData = (report: any): KundliReportData => {
@@ -903,35 +1590,71 @@ const KundliReportScreen = ({ navigation, route }: any) => {
     };
   };
 
+  // Birth chart for the on-device vargas and dashas
+  const birthChart = useMemo((): BirthChart | null => {
+    if (!kundliData?.birthPlace) {
+      return null;
+    }
+    try {
+      return calculateBirthChart(kundliData);
+    } catch (error) {
+      console.warn('Local birth chart calculation failed:', error);
+      return null;
+    }
+  }, [kundliData]);
+
+  // Shodasavarga charts calculated on-device, used for the vargas the server doesn't send
+  const getLocalCharts = (): DivisionalCharts | undefined =>
+    birthChart ? calculateDivisionalCharts(birthChart) : undefined;
+
+  // Without the API, calculate the chart on-device from the saved birth details
+  // (planets, basic info and vargas only - doshas, dasha and predictions need the server)
+  const getOfflineReportData = (): KundliReportData => {
+    if (!kundliData?.birthPlace) {
+      return getFallbackReportData();
+    }
+    try {
+      return mapReportData({ ...calculateKundliBasics(kundliData), charts: getLocalCharts() });
+    } catch (error) {
+      console.warn('Offline kundli calculation failed:', error);
+      return getFallbackReportData();
+    }
+  };
+
   // Fetch report data from API
   const fetchReportData = useCallback(async (refresh: boolean = false) => {
     if (!kundliId) {
-      setReportData(getFallbackReportData());
+      setReportData(getOfflineReportData());
       setLoading(false);
       return;
     }
 
     try {
       const params: KundliReportParams = {
-        language: 'en',
-        chartStyle: chartStyle === 'south' ? 'south_indian' : 'north_indian',
+        language,
         refresh,
       };
 
       const report = await kundliService.getReport(kundliId, params);
       const mappedData = mapReportData(report);
-      setReportData(mappedData);
+      const localCharts = getLocalCharts();
+      setReportData(localCharts
+        ? { ...mappedData, charts: mergeDivisionalCharts(mappedData.charts, localCharts) }
+        : mappedData
+      );
     } catch (error) {
       console.warn('Failed to fetch kundli report from API:', error);
-      setReportData(getFallbackReportData());
+      setReportData(getOfflineReportData());
     } finally {
       setLoading(false);
     }
-  }, [kundliId, chartStyle]);
+  }, [kundliId, kundliData, birthChart, language]);
 
-  // Fetch report on mount
+  // Fetch report on mount - regenerated once after the birth details were edited
+  const refreshOnOpenRef = useRef(!!refreshOnOpen);
   useEffect(() => {
-    fetchReportData();
+    fetchReportData(refreshOnOpenRef.current);
+    refreshOnOpenRef.current = false;
   }, [fetchReportData]);
 
   // Handle refresh
@@ -954,25 +1677,28 @@ const KundliReportScreen = ({ navigation, route }: any) => {
     setActiveTab(tab);
   }, []);
 
+  // Handle report language change - refetches the report in the new language
+  const handleLanguageToggle = useCallback(() => {
+    Haptics.selectionAsync();
+    setLoading(true);
+    setLanguage((current) => (current === 'en' ? 'ta' : 'en'));
+  }, []);
+
   // Handle chart style change
-  const handleChartStyleChange = useCallback((style: 'south' | 'north') => {
+  const handleChartStyleChange = useCallback((style: ChartStyle) => {
     Haptics.selectionAsync();
     setChartStyle(style);
   }, []);
 
-  // Filter tabs - hide Charts tab if no valid charts available
+  // Filter tabs - hide Charts tab if there is nothing to draw, Transits without an on-device birth chart
   const visibleTabs = useMemo(() => {
     if (!reportData) return TABS;
 
-    // Check if charts have valid URLs for either style
-    const chartsAvailable = hasValidCharts(reportData.charts, 'south') ||
-                           hasValidCharts(reportData.charts, 'north');
-
-    if (!chartsAvailable) {
-      return TABS.filter(tab => tab.key !== 'charts');
-    }
-    return TABS;
-  }, [reportData]);
+    const hidden: KundliTab[] = [];
+    if (getDrawableCharts(reportData).length === 0) hidden.push('charts');
+    if (!getNatalSigns(birthChart)) hidden.push('transits');
+    return TABS.filter(tab => !hidden.includes(tab));
+  }, [reportData, birthChart]);
 
   // Render tab content
   const renderTabContent = () => {
@@ -982,22 +1708,33 @@ const KundliReportScreen = ({ navigation, route }: any) => {
 
     switch (activeTab) {
       case 'general':
-        return <GeneralTab data={reportData} scale={scale} />;
+        return <GeneralTab data={reportData} scale={scale} language={language} />;
       case 'remedies':
-        return <RemediesTab data={reportData} scale={scale} />;
+        return <RemediesTab data={reportData} scale={scale} language={language} />;
       case 'dosha':
-        return <DoshaTab data={reportData} scale={scale} />;
+        return <DoshaTab data={reportData} scale={scale} language={language} />;
       case 'charts':
         return (
           <ChartsTab
             data={reportData}
             scale={scale}
+            language={language}
             chartStyle={chartStyle}
             onStyleChange={handleChartStyleChange}
           />
         );
       case 'dasha':
-        return <DashaTab data={reportData} scale={scale} />;
+        return <DashaTab data={reportData} scale={scale} language={language} birthChart={birthChart} />;
+      case 'transits':
+        return (
+          <TransitsTab
+            data={reportData}
+            scale={scale}
+            language={language}
+            chartStyle={chartStyle}
+            birthChart={birthChart}
+          />
+        );
       default:
         return null;
     }
@@ -1031,15 +1768,26 @@ const KundliReportScreen = ({ navigation, route }: any) => {
           </TouchableOpacity>
 
           <Text style={[styles.headerTitle, { fontSize: 18 * scale }]}>
-            Kundli Report
+            {text.title}
           </Text>
 
-          <View style={styles.headerRight} />
+          {/* Report language: shows the language a tap switches to */}
+          <TouchableOpacity
+            style={[styles.languageButton, { borderRadius: 20 * scale }]}
+            onPress={handleLanguageToggle}
+            disabled={loading}
+            accessibilityLabel={text.switchLanguage}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Text style={[styles.languageButtonText, { fontSize: 16 * scale }]}>
+              {language === 'en' ? 'அ' : 'A'}
+            </Text>
+          </TouchableOpacity>
         </View>
 
         {/* Subtitle - On Yellow */}
         <Text style={[styles.subtitle, { fontSize: 13 * scale }]}>
-          See your generated birth chart here
+          {text.subtitle}
         </Text>
 
         {/* Tab Switcher - On Yellow */}
@@ -1051,7 +1799,7 @@ const KundliReportScreen = ({ navigation, route }: any) => {
         >
           {visibleTabs.map((tab) => (
             <TouchableOpacity
-              key={tab.key}
+              key={tab}
               style={[
                 styles.tab,
                 {
@@ -1060,17 +1808,17 @@ const KundliReportScreen = ({ navigation, route }: any) => {
                   borderRadius: 25 * scale,
                   marginRight: 8 * scale,
                 },
-                activeTab === tab.key && styles.tabActive,
+                activeTab === tab && styles.tabActive,
               ]}
-              onPress={() => handleTabChange(tab.key)}
+              onPress={() => handleTabChange(tab)}
               activeOpacity={0.7}
             >
               <Text style={[
                 styles.tabText,
                 { fontSize: 14 * scale },
-                activeTab === tab.key && styles.tabTextActive,
+                activeTab === tab && styles.tabTextActive,
               ]}>
-                {tab.label}
+                {text.tabs[tab]}
               </Text>
             </TouchableOpacity>
           ))}
@@ -1141,8 +1889,16 @@ const styles = StyleSheet.create({
     color: '#333333',
     textAlign: 'center',
   },
-  headerRight: {
+  languageButton: {
     width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.6)',
+  },
+  languageButtonText: {
+    fontFamily: 'Lexend_600SemiBold',
+    color: '#2930A6',
   },
   subtitle: {
     fontFamily: 'Lexend_400Regular',
@@ -1508,6 +2264,24 @@ const styles = StyleSheet.create({
   toggleTextActive: {
     color: '#FFFFFF',
   },
+  chip: {
+    backgroundColor: '#F0F0F0',
+  },
+  chipActive: {
+    backgroundColor: '#2930A6',
+  },
+  chipText: {
+    fontFamily: 'Lexend_500Medium',
+    color: '#595959',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  chartSignifies: {
+    fontFamily: 'Lexend_400Regular',
+    color: '#8C8C8C',
+    marginTop: 2,
+  },
   // Dasha
   dashaCard: {
     backgroundColor: 'rgba(41, 48, 166, 0.08)',
@@ -1592,6 +2366,32 @@ const styles = StyleSheet.create({
     fontFamily: 'Lexend_500Medium',
     color: '#FFFFFF',
   },
+  // Transits
+  transitDateRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  transitDate: {
+    fontFamily: 'Lexend_500Medium',
+    color: '#2930A6',
+  },
+  transitTag: {
+    backgroundColor: 'rgba(217, 119, 6, 0.12)',
+  },
+  transitTagText: {
+    fontFamily: 'Lexend_500Medium',
+    color: '#D97706',
+  },
+  ingressSignificant: {
+    backgroundColor: 'rgba(217, 119, 6, 0.06)',
+    borderRadius: 8,
+    marginHorizontal: -8,
+    paddingHorizontal: 8,
+  },
+  ingressDotSignificant: {
+    backgroundColor: '#D97706',
+  },
 });
 
 export default KundliReportScreen;
@@ -40,7 +40,9 @@ import { useAuth } from '../src/contexts/AuthContext';
 import NotificationService from '../src/utils/notificationService';
 import { handleApiError } from '../src/utils/errorHandler';
 import { io, Socket } from 'socket.io-client';
-import { API_CONFIG } from '../src/config/api.config';
+import { getEnvConfig, isMockBackend } from '../src/config/environment';
+import { authEvents, isAuthErrorMessage } from '../src/utils/authEvents';
+import { ErrorCode } from '../src/types/api.types';
 import { SkeletonBox } from '../components/skeleton';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
@@ -165,6 +167,16 @@ const LiveSessionScreen = ({ navigation, route }: any) => {
   // No mount animation needed - screens stay mounted via Tab Navigator
   // fadeAnim is already initialized to final value (1)
 
+  // Drop the live socket as soon as the session is invalidated anywhere in the app
+  useEffect(() => {
+    return authEvents.subscribe(() => {
+      if (socketRef.current) {
+        socketRef.current.disconnect();
+        socketRef.current = null;
+      }
+    });
+  }, []);
+
   // Keyboard event listeners
   useEffect(() => {
     const keyboardWillShow = Keyboard.addListener(
@@ -289,8 +301,13 @@ const LiveSessionScreen = ({ navigation, route }: any) => {
       socketRef.current.disconnect();
     }
 
+    // The mock backend has no socket server
+    if (isMockBackend()) {
+      return;
+    }
+
     // Create new socket connection
-    const socket = io(API_CONFIG.BASE_URL, {
+    const socket = io(getEnvConfig().WS_BASE_URL, {
       transports: ['websocket'],
       reconnection: true,
       reconnectionAttempts: 5,
@@ -333,6 +350,16 @@ const LiveSessionScreen = ({ navigation, route }: any) => {
     // Connection error handling
     socket.on('connect_error', (error) => {
       console.error('Socket connection error:', error);
+
+      // Handshake rejected our credentials - let AuthContext sign the user out
+      if (isAuthErrorMessage(error.message)) {
+        socket.disconnect();
+        authEvents.publish({
+          reason: ErrorCode.UNAUTHORIZED,
+          source: 'socket',
+          message: error.message,
+        });
+      }
     });
   };
 
@@ -0,0 +1,687 @@
+/**
+ * PanchangScreen
+ * Daily Panchang for any date and place, computed on-device
+ *
+ * Features:
+ * - Tithi, nakshatra, yoga and karana with the time each ends
+ * - Sunrise, sunset, Rahu Kalam, Yamagandam, Gulika and Abhijit muhurta
+ * - Tamil calendar month and day
+ * - Place search (remembered for the next visit) and day-by-day navigation
+ *
+ * Times are shown in the place's time zone, not the device's.
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Platform,
+  StatusBar as RNStatusBar,
+  ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { ChevronLeft, ChevronRight, MapPin, Sunrise, Sunset, X, Check } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+
+import { BottomNavBar } from '../components/BottomNavBar';
+import { useResponsiveLayout } from '../src/utils/responsive';
+import { usePlaces, useDebouncedPlaceSearch } from '../src/hooks/usePlaces';
+import { panchangService, DEFAULT_PANCHANG_PLACE } from '../src/services/panchang.service';
+import { TAMIL_MONTH_LABELS, getLocalDate, getTimezoneOffset } from '../src/astrology';
+import { BirthPlace } from '../src/types/kundli';
+import { PanchangElement, TimeWindow } from '../src/types/panchang';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const INAUSPICIOUS_COLOR = '#D32F2F';
+const AUSPICIOUS_COLOR = '#2E7D32';
+
+/**
+ * Clock time of an instant at a place, e.g. "6:02 AM"
+ */
+const formatTime = (iso: string, timezone: string) => {
+  const utcMs = Date.parse(iso);
+  const local = new Date(utcMs + getTimezoneOffset(timezone, utcMs) * 60000);
+  const hours = local.getUTCHours();
+  const minutes = local.getUTCMinutes().toString().padStart(2, '0');
+  return `${hours % 12 || 12}:${minutes} ${hours < 12 ? 'AM' : 'PM'}`;
+};
+
+// "19 Oct 2026"
+const formatDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return `${day} ${MONTHS[month - 1]} ${year}`;
+};
+
+const formatWindow = (window: TimeWindow, timezone: string) =>
+  `${formatTime(window.start, timezone)} – ${formatTime(window.end, timezone)}`;
+
+// Limbs often run past midnight, so the end time says which day it falls on
+const formatEndsAt = (element: PanchangElement, date: string, timezone: string) => {
+  const endDate = getLocalDate(Date.parse(element.endsAt), timezone);
+  const suffix = endDate === date ? '' : ` (${formatDate(endDate)})`;
+  return `until ${formatTime(element.endsAt, timezone)}${suffix}, then ${element.next}`;
+};
+
+const PanchangScreen = ({ navigation }: any) => {
+  const { scale } = useResponsiveLayout();
+  const insets = useSafeAreaInsets();
+
+  // Status bar height for proper spacing
+  const statusBarHeight = Platform.OS === 'ios' ? insets.top : RNStatusBar.currentHeight || 24;
+
+  const [place, setPlace] = useState<BirthPlace>(DEFAULT_PANCHANG_PLACE);
+  const [date, setDate] = useState(() => panchangService.getToday(DEFAULT_PANCHANG_PLACE));
+  const [showPlacePicker, setShowPlacePicker] = useState(false);
+
+  const { popularCities, fetchPopularCities } = usePlaces();
+  const { query, results, loading: searching, search } = useDebouncedPlaceSearch();
+
+  // Restore the place chosen on the last visit
+  useEffect(() => {
+    const loadPlace = async () => {
+      const savedPlace = await panchangService.getPlace();
+      setPlace(savedPlace);
+      setDate(panchangService.getToday(savedPlace));
+    };
+    loadPlace();
+  }, []);
+
+  useEffect(() => {
+    if (showPlacePicker && popularCities.length === 0) {
+      fetchPopularCities(10);
+    }
+  }, [showPlacePicker, popularCities.length, fetchPopularCities]);
+
+  const panchang = useMemo(() => panchangService.getPanchang(date, place), [date, place]);
+
+  const today = panchangService.getToday(place);
+  const tamilMonthIndex = panchang.tamilDate.monthIndex;
+
+  const handleBack = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    navigation.goBack();
+  }, [navigation]);
+
+  const handleShiftDate = useCallback((days: number) => {
+    Haptics.selectionAsync();
+    setDate((current) => panchangService.shiftDate(current, days));
+  }, []);
+
+  const handleToday = useCallback(() => {
+    Haptics.selectionAsync();
+    setDate(panchangService.getToday(place));
+  }, [place]);
+
+  const handleSelectPlace = useCallback((selected: BirthPlace) => {
+    Haptics.selectionAsync();
+    setPlace(selected);
+    // Keep "today" meaning today at the new place
+    if (date === panchangService.getToday(place)) {
+      setDate(panchangService.getToday(selected));
+    }
+    setShowPlacePicker(false);
+    search('');
+    panchangService.setPlace(selected);
+  }, [date, place, search]);
+
+  const handleClosePicker = useCallback(() => {
+    setShowPlacePicker(false);
+    search('');
+  }, [search]);
+
+  // Search results once the user types, popular cities before that
+  const displayedPlaces = query.trim().length >= 2
+    ? results
+    : popularCities.length > 0 ? popularCities : [DEFAULT_PANCHANG_PLACE];
+
+  const elements = [
+    {
+      label: 'Tithi',
+      value: `${panchang.tithi.paksha} ${panchang.tithi.name}`,
+      detail: formatEndsAt(panchang.tithi, date, place.timezone),
+    },
+    {
+      label: 'Nakshatra',
+      value: `${panchang.nakshatra.name} (Pada ${panchang.nakshatra.pada})`,
+      detail: formatEndsAt(panchang.nakshatra, date, place.timezone),
+      note: `Lord: ${panchang.nakshatra.lord}`,
+    },
+    {
+      label: 'Yoga',
+      value: panchang.yoga.name,
+      detail: formatEndsAt(panchang.yoga, date, place.timezone),
+    },
+    {
+      label: 'Karana',
+      value: panchang.karana.name,
+      detail: formatEndsAt(panchang.karana, date, place.timezone),
+    },
+  ];
+
+  const timings = [
+    { label: 'Rahu Kalam', window: panchang.rahuKalam, color: INAUSPICIOUS_COLOR },
+    { label: 'Yamagandam', window: panchang.yamagandam, color: INAUSPICIOUS_COLOR },
+    { label: 'Gulika Kalam', window: panchang.gulikaKalam, color: INAUSPICIOUS_COLOR },
+    { label: 'Abhijit Muhurta', window: panchang.abhijitMuhurta, color: AUSPICIOUS_COLOR },
+  ];
+
+  // Yellow header height (covers status bar + header + subtitle)
+  const yellowHeaderHeight = 150 * scale + statusBarHeight;
+
+  return (
+    <View style={styles.container}>
+      <StatusBar style="dark" />
+
+      {/* Yellow Background - Extends behind status bar */}
+      <View style={[
+        styles.headerBackground,
+        {
+          height: yellowHeaderHeight,
+          borderBottomLeftRadius: 28 * scale,
+          borderBottomRightRadius: 28 * scale,
+        }
+      ]} />
+
+      {/* Content with safe area padding */}
+      <View style={[styles.mainContent, { paddingTop: statusBarHeight }]}>
+
+        {/* Header Row - On Yellow */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={handleBack}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <ChevronLeft size={24 * scale} color="#333333" />
+          </TouchableOpacity>
+
+          <Text style={[styles.headerTitle, { fontSize: 18 * scale }]}>
+            Panchang
+          </Text>
+
+          <View style={styles.headerRight} />
+        </View>
+
+        {/* Place - On Yellow */}
+        <TouchableOpacity
+          style={[styles.placeButton, { marginTop: 2 * scale, paddingVertical: 4 * scale }]}
+          onPress={() => setShowPlacePicker(true)}
+          activeOpacity={0.7}
+        >
+          <MapPin size={14 * scale} color="#555555" />
+          <Text style={[styles.subtitle, { fontSize: 13 * scale }]} numberOfLines={1}>
+            {place.name}
+          </Text>
+          <Text style={[styles.changeText, { fontSize: 13 * scale }]}>Change</Text>
+        </TouchableOpacity>
+
+        {/* White content area */}
+        <View style={[styles.whiteContentArea, { marginTop: 16 * scale }]}>
+          {/* Date Row */}
+          <View style={[styles.dateRow, { paddingHorizontal: 20 * scale, paddingVertical: 14 * scale }]}>
+            <TouchableOpacity
+              style={styles.dateArrow}
+              onPress={() => handleShiftDate(-1)}
+              accessibilityLabel="Previous day"
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <ChevronLeft size={22 * scale} color="#2930A6" />
+            </TouchableOpacity>
+
+            <View style={styles.dateCenter}>
+              <Text style={[styles.dateText, { fontSize: 16 * scale }]}>
+                {formatDate(date)}
+              </Text>
+              <Text style={[styles.weekdayText, { fontSize: 12 * scale }]}>
+                {WEEKDAYS[panchang.weekday]}
+              </Text>
+            </View>
+
+            <TouchableOpacity
+              style={styles.dateArrow}
+              onPress={() => handleShiftDate(1)}
+              accessibilityLabel="Next day"
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            >
+              <ChevronRight size={22 * scale} color="#2930A6" />
+            </TouchableOpacity>
+          </View>
+
+          {date !== today && (
+            <TouchableOpacity
+              style={[styles.todayButton, {
+                paddingHorizontal: 14 * scale,
+                paddingVertical: 5 * scale,
+                borderRadius: 14 * scale,
+                marginBottom: 8 * scale,
+              }]}
+              onPress={handleToday}
+            >
+              <Text style={[styles.todayText, { fontSize: 12 * scale }]}>Today</Text>
+            </TouchableOpacity>
+          )}
+
+          <ScrollView
+            style={styles.content}
+            contentContainerStyle={{ paddingHorizontal: 20 * scale, paddingBottom: 120 * scale }}
+            showsVerticalScrollIndicator={false}
+          >
+            <Animated.View key={`${date}-${place.name}`} entering={FadeInDown.duration(250)}>
+              {/* Tamil Date + Sun Times */}
+              <View style={[styles.card, { padding: 16 * scale, borderRadius: 16 * scale }]}>
+                <Text style={[styles.tamilDate, { fontSize: 20 * scale }]}>
+                  {TAMIL_MONTH_LABELS.en[tamilMonthIndex]} {panchang.tamilDate.day}
+                </Text>
+                <Text style={[styles.tamilDateNative, { fontSize: 15 * scale, marginTop: 2 * scale }]}>
+                  {TAMIL_MONTH_LABELS.ta[tamilMonthIndex]} {panchang.tamilDate.day}
+                </Text>
+
+                <View style={[styles.sunRow, { marginTop: 14 * scale }]}>
+                  <View style={styles.sunItem}>
+                    <Sunrise size={18 * scale} color="#F59E0B" />
+                    <View style={{ marginLeft: 8 * scale }}>
+                      <Text style={[styles.itemLabel, { fontSize: 12 * scale }]}>Sunrise</Text>
+                      <Text style={[styles.itemValue, { fontSize: 14 * scale }]}>
+                        {formatTime(panchang.sunrise, place.timezone)}
+                      </Text>
+                    </View>
+                  </View>
+                  <View style={styles.sunItem}>
+                    <Sunset size={18 * scale} color="#EA580C" />
+                    <View style={{ marginLeft: 8 * scale }}>
+                      <Text style={[styles.itemLabel, { fontSize: 12 * scale }]}>Sunset</Text>
+                      <Text style={[styles.itemValue, { fontSize: 14 * scale }]}>
+                        {formatTime(panchang.sunset, place.timezone)}
+                      </Text>
+                    </View>
+                  </View>
+                </View>
+              </View>
+
+              {/* Panchang Elements */}
+              <Text style={[styles.sectionTitle, { fontSize: 14 * scale, marginTop: 20 * scale, marginBottom: 10 * scale }]}>
+                Panchang
+              </Text>
+              <View style={[styles.card, { borderRadius: 16 * scale }]}>
+                {elements.map((element, index) => (
+                  <View
+                    key={element.label}
+                    style={[
+                      { padding: 14 * scale },
+                      index < elements.length - 1 && styles.rowDivider,
+                    ]}
+                  >
+                    <Text style={[styles.itemLabel, { fontSize: 12 * scale }]}>{element.label}</Text>
+                    <Text style={[styles.itemValue, { fontSize: 15 * scale, marginTop: 2 * scale }]}>
+                      {element.value}
+                    </Text>
+                    {element.note && (
+                      <Text style={[styles.itemNote, { fontSize: 12 * scale, marginTop: 2 * scale }]}>
+                        {element.note}
+                      </Text>
+                    )}
+                    <Text style={[styles.itemNote, { fontSize: 12 * scale, marginTop: 2 * scale }]}>
+                      {element.detail}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+
+              {/* Timings */}
+              <Text style={[styles.sectionTitle, { fontSize: 14 * scale, marginTop: 20 * scale, marginBottom: 10 * scale }]}>
+                Timings
+              </Text>
+              <View style={[styles.card, { borderRadius: 16 * scale }]}>
+                {timings.map((timing, index) => (
+                  <View
+                    key={timing.label}
+                    style={[
+                      styles.timingRow,
+                      { padding: 14 * scale },
+                      index < timings.length - 1 && styles.rowDivider,
+                    ]}
+                  >
+                    <View style={{
+                      width: 8 * scale,
+                      height: 8 * scale,
+                      borderRadius: 4 * scale,
+                      backgroundColor: timing.color,
+                    }} />
+                    <Text style={[styles.timingLabel, { fontSize: 14 * scale, marginLeft: 10 * scale }]}>
+                      {timing.label}
+                    </Text>
+                    <Text style={[styles.timingValue, { fontSize: 14 * scale, color: timing.color }]}>
+                      {formatWindow(timing.window, place.timezone)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            </Animated.View>
+          </ScrollView>
+        </View>
+
+        {/* Bottom Navigation */}
+        <BottomNavBar navigation={navigation} />
+      </View>
+
+      {/* Place Picker */}
+      <Modal
+        visible={showPlacePicker}
+        animationType="slide"
+        transparent
+        onRequestClose={handleClosePicker}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, {
+            borderTopLeftRadius: 24 * scale,
+            borderTopRightRadius: 24 * scale,
+            padding: 20 * scale,
+            paddingBottom: 20 * scale + insets.bottom,
+          }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { fontSize: 18 * scale }]}>Choose a place</Text>
+              <TouchableOpacity
+                onPress={handleClosePicker}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <X size={22 * scale} color="#333333" />
+              </TouchableOpacity>
+            </View>
+
+            <View style={{ position: 'relative', marginTop: 16 * scale }}>
+              <TextInput
+                style={[styles.searchInput, {
+                  fontSize: 15 * scale,
+                  height: 48 * scale,
+                  borderRadius: 24 * scale,
+                  paddingHorizontal: 20 * scale,
+                }]}
+                placeholder="Search city or place"
+                placeholderTextColor="#888888"
+                value={query}
+                onChangeText={search}
+                autoFocus
+              />
+              {searching && (
+                <View style={[styles.searchLoader, { right: 16 * scale }]}>
+                  <ActivityIndicator size="small" color="#2930A6" />
+                </View>
+              )}
+            </View>
+
+            <ScrollView
+              style={{ marginTop: 12 * scale, maxHeight: 320 * scale }}
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}
+            >
+              {displayedPlaces.length === 0 && !searching ? (
+                <Text style={[styles.noPlacesText, { fontSize: 14 * scale, paddingVertical: 20 * scale }]}>
+                  No places found. Try a different search.
+                </Text>
+              ) : (
+                displayedPlaces.map((item, index) => (
+                  <TouchableOpacity
+                    key={`${item.name}-${item.latitude}-${index}`}
+                    style={[styles.placeItem, {
+                      paddingVertical: 14 * scale,
+                      paddingHorizontal: 16 * scale,
+                      borderRadius: 12 * scale,
+                      marginBottom: 8 * scale,
+                    },
+                      item.name === place.name && styles.placeItemSelected,
+                    ]}
+                    onPress={() => handleSelectPlace(item)}
+                  >
+                    <Text style={[
+                      styles.placeText,
+                      { fontSize: 14 * scale },
+                      item.name === place.name && styles.placeTextSelected,
+                    ]}>
+                      {item.name}
+                    </Text>
+                    {item.name === place.name && (
+                      <Check size={18 * scale} color="#2930A6" />
+                    )}
+                  </TouchableOpacity>
+                ))
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  mainContent: {
+    flex: 1,
+  },
+  headerBackground: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: '#FFCF0D',
+    zIndex: 0,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    zIndex: 10,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    fontFamily: 'Lexend_600SemiBold',
+    fontSize: 18,
+    color: '#333333',
+    textAlign: 'center',
+  },
+  headerRight: {
+    width: 40,
+  },
+  placeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 40,
+    gap: 6,
+  },
+  subtitle: {
+    fontFamily: 'Lexend_400Regular',
+    fontSize: 13,
+    color: '#555555',
+    flexShrink: 1,
+  },
+  changeText: {
+    fontFamily: 'Lexend_600SemiBold',
+    fontSize: 13,
+    color: '#2930A6',
+  },
+  whiteContentArea: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    // Border instead of shadow for performance
+    borderWidth: 1,
+    borderColor: '#F0F0F0',
+    borderBottomWidth: 0,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  dateArrow: {
+    width: 36,
+    height: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dateCenter: {
+    alignItems: 'center',
+  },
+  dateText: {
+    fontFamily: 'Lexend_600SemiBold',
+    fontSize: 16,
+    color: '#1a1a1a',
+  },
+  weekdayText: {
+    fontFamily: 'Lexend_400Regular',
+    fontSize: 12,
+    color: '#666666',
+  },
+  todayButton: {
+    alignSelf: 'center',
+    backgroundColor: '#2930A6',
+  },
+  todayText: {
+    fontFamily: 'Lexend_600SemiBold',
+    fontSize: 12,
+    color: '#FFFFFF',
+  },
+  content: {
+    flex: 1,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    // Border instead of shadow for performance
+    borderWidth: 1,
+    borderColor: '#E8E8E8',
+  },
+  tamilDate: {
+    fontFamily: 'Lexend_600SemiBold',
+    fontSize: 20,
+    color: '#2930A6',
+  },
+  tamilDateNative: {
+    fontFamily: 'Lexend_400Regular',
+    fontSize: 15,
+    color: '#555555',
+  },
+  sunRow: {
+    flexDirection: 'row',
+  },
+  sunItem: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontFamily: 'Lexend_600SemiBold',
+    fontSize: 14,
+    color: '#1a1a1a',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  rowDivider: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  itemLabel: {
+    fontFamily: 'Lexend_400Regular',
+    fontSize: 12,
+    color: '#888888',
+  },
+  itemValue: {
+    fontFamily: 'Lexend_600SemiBold',
+    fontSize: 15,
+    color: '#1a1a1a',
+  },
+  itemNote: {
+    fontFamily: 'Lexend_400Regular',
+    fontSize: 12,
+    color: '#595959',
+  },
+  timingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  timingLabel: {
+    flex: 1,
+    fontFamily: 'Lexend_500Medium',
+    fontSize: 14,
+    color: '#333333',
+  },
+  timingValue: {
+    fontFamily: 'Lexend_600SemiBold',
+    fontSize: 14,
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  modalContent: {
+    backgroundColor: '#FFFFFF',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  modalTitle: {
+    fontFamily: 'Lexend_600SemiBold',
+    fontSize: 18,
+    color: '#1a1a1a',
+  },
+  searchInput: {
+    fontFamily: 'Lexend_400Regular',
+    backgroundColor: '#F5F5F5',
+    color: '#1a1a1a',
+  },
+  searchLoader: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    justifyContent: 'center',
+  },
+  noPlacesText: {
+    fontFamily: 'Lexend_400Regular',
+    fontSize: 14,
+    color: '#888888',
+    textAlign: 'center',
+  },
+  placeItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#F8F8F8',
+  },
+  placeItemSelected: {
+    backgroundColor: '#EEF0FF',
+  },
+  placeText: {
+    fontFamily: 'Lexend_400Regular',
+    fontSize: 14,
+    color: '#333333',
+  },
+  placeTextSelected: {
+    fontFamily: 'Lexend_600SemiBold',
+    color: '#2930A6',
+  },
+});
+
+export default PanchangScreen;
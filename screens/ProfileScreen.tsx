@@ -58,6 +58,7 @@ import NotificationService from '../src/utils/notificationService';
 import Sidebar from '../components/Sidebar';
 import { BottomNavBar } from '../components/BottomNavBar';
 import { SkeletonCircle, SkeletonBox } from '../components/skeleton';
+import OutboxStatusBanner from '../components/OutboxStatusBanner';
 
 // Enable LayoutAnimation for Android
 if (Platform.OS === 'android' && UIManager.setLayoutAnimationEnabledExperimental) {
@@ -182,8 +183,10 @@ const ProfileScreen = ({ navigation }: any) => {
         return;
       }
 
-      await updateProfile(editedProfile);
-      NotificationService.success('Profile updated successfully!', 'Success');
+      const result = await updateProfile(editedProfile);
+      if (result === 'saved') {
+        NotificationService.success('Profile updated successfully!', 'Success');
+      }
       setIsEditing(false);
     } catch (error) {
       console.error('Error saving profile:', error);
@@ -439,6 +442,9 @@ const ProfileScreen = ({ navigation }: any) => {
           {/* Content Section */}
           <View style={styles.contentContainer}>
 
+            {/* Offline profile changes */}
+            <OutboxStatusBanner types={['update_profile']} onReplayed={refetch} scale={scale} />
+
             {/* Personal Details Card */}
             <View style={[styles.card, { padding: 20 * scale, borderRadius: 24 * scale }]}>
               <Text style={[styles.sectionTitle, { fontSize: 18 * scale }]}>Personal Details</Text>
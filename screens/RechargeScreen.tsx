@@ -111,6 +111,7 @@ const RechargeScreen: React.FC<RechargeScreenProps> = ({ navigation }) => {
 
       // Invalidate wallet queries to refresh data
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WALLET_BALANCE });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WALLET_SUMMARY });
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WALLET_TRANSACTIONS });
       queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USER_PROFILE] });
 
@@ -32,7 +32,7 @@ import IndiaFlag from '../assets/images/indiaflag.svg';
 import { useResponsiveLayout } from '../src/utils/responsive';
 import { useAuth } from '../src/contexts/AuthContext';
 import { validatePhone, formatPhoneToE164, getPhoneValidationError } from '../src/utils/phoneValidator';
-import { handleApiError } from '../src/utils/errorHandler';
+import { handleApiError, getErrorMessage } from '../src/utils/errorHandler';
 import NotificationService from '../src/utils/notificationService';
 
 const BASE_WIDTH = 384;
@@ -48,7 +48,7 @@ const SignInScreen = ({ onSuccess }: SignInScreenProps) => {
   const [loading, setLoading] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
-  const { sendOTP, login } = useAuth();
+  const { sendOTP, login, signOutReason } = useAuth();
 
   const [fontsLoaded] = useFonts({
     Lexend_400Regular,
@@ -350,6 +350,30 @@ const SignInScreen = ({ onSuccess }: SignInScreenProps) => {
             ]}
           />
 
+          {/* Sign-out Reason Banner */}
+          {signOutReason && (
+            <View
+              style={[
+                styles.reasonBanner,
+                {
+                  marginTop: 20 * scale,
+                  paddingVertical: 10 * scale,
+                  paddingHorizontal: 14 * scale,
+                  borderRadius: 12 * scale,
+                },
+              ]}
+            >
+              <Text
+                style={[
+                  styles.reasonText,
+                  { fontFamily: 'Nunito_400Regular', fontSize: 13 * scale },
+                ]}
+              >
+                {getErrorMessage(signOutReason)}
+              </Text>
+            </View>
+          )}
+
           {/* Phone Input or OTP Input */}
           {!otpSent ? (
             <View
@@ -650,6 +674,13 @@ const styles = StyleSheet.create({
     fontSize: 13,
     textAlign: 'center',
   },
+  reasonBanner: {
+    backgroundColor: '#fef3c7',
+  },
+  reasonText: {
+    color: '#92400e',
+    textAlign: 'center',
+  },
   resendText: {
     color: '#2930a6',
     fontSize: 14,
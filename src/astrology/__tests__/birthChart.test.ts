@@ -0,0 +1,99 @@
+import { KundliInput } from '../../types/kundli';
+import { calculateBirthChart, getGraha, getHouse, getSiderealPosition } from '../birthChart';
+import { NAKSHATRAS, SIGNS } from '../constants';
+
+type BirthDetails = Pick<KundliInput, 'dateOfBirth' | 'timeOfBirth' | 'birthPlace'>;
+
+const place = (name: string, latitude: number, longitude: number, timezone: string) => ({
+  name,
+  latitude,
+  longitude,
+  timezone,
+});
+
+interface ExpectedPosition {
+  sign: string;
+  nakshatra: string;
+  pada: number;
+  degreeInSign?: number; // Published degree, checked to DEGREE_TOLERANCE
+}
+
+// Published Lahiri charts. Times before standard time (LMT) are given in UT.
+const KNOWN_CHARTS: { name: string; input: BirthDetails; lagna: ExpectedPosition; moon: ExpectedPosition; sun?: ExpectedPosition }[] = [
+  {
+    name: 'Independence of India',
+    input: { dateOfBirth: '1947-08-15', timeOfBirth: '00:00', birthPlace: place('New Delhi', 28.6139, 77.209, '+05:30') },
+    lagna: { sign: 'Taurus', nakshatra: 'Krittika', pada: 4, degreeInSign: 7 + 46 / 60 },
+    moon: { sign: 'Cancer', nakshatra: 'Pushya', pada: 1, degreeInSign: 3 + 59 / 60 },
+    sun: { sign: 'Cancer', nakshatra: 'Ashlesha', pada: 4, degreeInSign: 27 + 59 / 60 },
+  },
+  {
+    name: 'Swami Vivekananda',
+    // 06:33 LMT, Calcutta
+    input: { dateOfBirth: '1863-01-12', timeOfBirth: '00:40', birthPlace: place('Kolkata', 22.5726, 88.3639, 'UTC') },
+    lagna: { sign: 'Sagittarius', nakshatra: 'Purva Ashadha', pada: 4 },
+    moon: { sign: 'Virgo', nakshatra: 'Hasta', pada: 3 },
+  },
+  {
+    name: 'Amitabh Bachchan',
+    input: { dateOfBirth: '1942-10-11', timeOfBirth: '16:00', birthPlace: place('Allahabad', 25.4358, 81.8463, '+05:30') },
+    lagna: { sign: 'Aquarius', nakshatra: 'Purva Bhadrapada', pada: 1 },
+    moon: { sign: 'Libra', nakshatra: 'Swati', pada: 2 },
+  },
+];
+
+// Published charts round to the arcminute; the ephemeris adds a few more
+const DEGREE_TOLERANCE = 5 / 60;
+
+const expectPosition = (
+  position: { signIndex: number; degreeInSign: number; nakshatraIndex: number; pada: number },
+  expected: ExpectedPosition
+) => {
+  expect(SIGNS[position.signIndex].name).toBe(expected.sign);
+  expect(NAKSHATRAS[position.nakshatraIndex].name).toBe(expected.nakshatra);
+  expect(position.pada).toBe(expected.pada);
+  if (expected.degreeInSign !== undefined) {
+    expect(Math.abs(position.degreeInSign - expected.degreeInSign)).toBeLessThan(DEGREE_TOLERANCE);
+  }
+};
+
+describe('calculateBirthChart', () => {
+  describe.each(KNOWN_CHARTS)('$name', ({ input, lagna, moon, sun }) => {
+    const chart = calculateBirthChart(input, { ayanamsa: 'lahiri' });
+
+    it('places the lagna', () => {
+      expectPosition(chart.ascendant, lagna);
+    });
+
+    it('places the Moon', () => {
+      expectPosition(getGraha(chart, 'moon'), moon);
+    });
+
+    if (sun) {
+      it('places the Sun', () => {
+        expectPosition(getGraha(chart, 'sun'), sun);
+      });
+    }
+
+    it('counts houses from the lagna sign', () => {
+      chart.grahas.forEach((graha) => {
+        expect(graha.house).toBe(getHouse(graha.signIndex, chart.ascendant.signIndex));
+      });
+    });
+  });
+});
+
+describe('getSiderealPosition', () => {
+  it('splits a longitude into sign, nakshatra and pada', () => {
+    // 0° Aries starts Ashwini pada 1; 13°20' starts Bharani
+    expect(getSiderealPosition(0)).toMatchObject({ signIndex: 0, nakshatraIndex: 0, pada: 1 });
+    expect(getSiderealPosition(13 + 20 / 60 + 1e-9)).toMatchObject({ signIndex: 0, nakshatraIndex: 1, pada: 1 });
+    // Last pada of Revati ends the zodiac
+    expect(getSiderealPosition(359.99)).toMatchObject({ signIndex: 11, nakshatraIndex: 26, pada: 4 });
+  });
+
+  it('wraps longitudes outside 0-360', () => {
+    expect(getSiderealPosition(-10).signIndex).toBe(11);
+    expect(getSiderealPosition(370).signIndex).toBe(0);
+  });
+});
@@ -0,0 +1,76 @@
+import { calculateBirthChart } from '../birthChart';
+import { calculateMahadashas, getRunningPeriods, getSubPeriods } from '../dasha';
+
+const DAY_MS = 86400000;
+
+// Independence of India: Moon in Pushya (Saturn's star), 3°59' into Cancer
+const chart = calculateBirthChart(
+  {
+    dateOfBirth: '1947-08-15',
+    timeOfBirth: '00:00',
+    birthPlace: { name: 'New Delhi', latitude: 28.6139, longitude: 77.209, timezone: '+05:30' },
+  },
+  { ayanamsa: 'lahiri' }
+);
+
+// An arcminute of the Moon moves a Vimshottari date by about a week
+const expectNear = (iso: string, expected: string, toleranceDays = 15) => {
+  expect(Math.abs(Date.parse(iso) - Date.parse(expected)) / DAY_MS).toBeLessThan(toleranceDays);
+};
+
+describe('calculateMahadashas', () => {
+  describe('Vimshottari', () => {
+    const mahadashas = calculateMahadashas(chart, 'vimshottari');
+
+    it('starts with the lord of the birth star and runs in order', () => {
+      expect(mahadashas.slice(0, 7).map((period) => period.planet)).toEqual([
+        'Saturn', 'Mercury', 'Ketu', 'Venus', 'Sun', 'Moon', 'Mars',
+      ]);
+    });
+
+    it('leaves about 18 years of Saturn at birth', () => {
+      expectNear(mahadashas[0].endDate, '1965-09-10');
+    });
+
+    it('matches the published Moon mahadasha of September 2015 to September 2025', () => {
+      const moon = mahadashas.find((period) => period.planet === 'Moon')!;
+      expectNear(moon.startDate, '2015-09-10');
+      expectNear(moon.endDate, '2025-09-10');
+    });
+
+    it('lists mahadashas until 120 years after birth', () => {
+      const last = mahadashas[mahadashas.length - 1];
+      expect(Date.parse(last.endDate)).toBeGreaterThanOrEqual(Date.UTC(2067, 7, 14));
+    });
+  });
+
+  it('starts Yogini from Dhanya for a Pushya Moon', () => {
+    expect(calculateMahadashas(chart, 'yogini')[0].planet).toBe('Dhanya');
+  });
+});
+
+describe('getSubPeriods', () => {
+  const moon = calculateMahadashas(chart, 'vimshottari').find((period) => period.planet === 'Moon')!;
+  const antardashas = getSubPeriods(moon, 'vimshottari');
+
+  it('starts with the period lord and divides it by each lord\'s years', () => {
+    expect(antardashas.map((period) => period.planet)).toEqual([
+      'Moon', 'Mars', 'Rahu', 'Jupiter', 'Saturn', 'Mercury', 'Ketu', 'Venus', 'Sun',
+    ]);
+    // Moon-Moon is 10/120 of the ten-year Moon mahadasha
+    const moonMoonDays = (Date.parse(antardashas[0].endDate) - Date.parse(antardashas[0].startDate)) / DAY_MS;
+    expect(moonMoonDays).toBeCloseTo((10 * 10 * 365.25) / 120, 6);
+  });
+
+  it('ends exactly with the parent period', () => {
+    expect(antardashas[antardashas.length - 1].endDate).toBe(moon.endDate);
+  });
+});
+
+describe('getRunningPeriods', () => {
+  it('finds Moon-Saturn in mid-2020', () => {
+    const mahadashas = calculateMahadashas(chart, 'vimshottari');
+    const running = getRunningPeriods(mahadashas, 'vimshottari', Date.UTC(2020, 5, 1), 2);
+    expect(running.map((period) => period.planet)).toEqual(['Moon', 'Saturn']);
+  });
+});
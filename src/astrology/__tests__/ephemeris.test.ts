@@ -0,0 +1,59 @@
+import { GrahaId } from '../../types/astrology';
+import { getAyanamsa } from '../ayanamsa';
+import { getTropicalLongitude, normalizeDegrees } from '../ephemeris';
+import { msToJulianDay } from '../time';
+
+const J2000 = 2451545.0; // 2000-01-01 12:00 UT
+
+// Smallest difference between two longitudes, across 0° Aries
+const angularDistance = (a: number, b: number) => {
+  const difference = normalizeDegrees(a - b);
+  return Math.min(difference, 360 - difference);
+};
+
+const ARCMINUTE = 1 / 60;
+
+// Geocentric ecliptic longitudes at J2000 (equinox of date) from standard
+// ephemerides, rounded to 0.01°. Tolerances follow the accuracy of the theory
+// used for each graha (see ephemeris.ts).
+const J2000_LONGITUDES: { graha: GrahaId; longitude: number; tolerance: number }[] = [
+  { graha: 'sun', longitude: 280.37, tolerance: 2 * ARCMINUTE },
+  { graha: 'moon', longitude: 223.32, tolerance: 3 * ARCMINUTE },
+  { graha: 'mercury', longitude: 271.89, tolerance: 5 * ARCMINUTE },
+  { graha: 'venus', longitude: 241.57, tolerance: 5 * ARCMINUTE },
+  { graha: 'mars', longitude: 327.96, tolerance: 5 * ARCMINUTE },
+  { graha: 'jupiter', longitude: 25.25, tolerance: 12 * ARCMINUTE },
+  { graha: 'saturn', longitude: 40.40, tolerance: 12 * ARCMINUTE },
+  { graha: 'rahu', longitude: 125.0445, tolerance: 0.5 * ARCMINUTE }, // Mean node, Meeus 47.7
+];
+
+describe('getTropicalLongitude', () => {
+  it.each(J2000_LONGITUDES)('places $graha at J2000', ({ graha, longitude, tolerance }) => {
+    expect(angularDistance(getTropicalLongitude(graha, J2000), longitude)).toBeLessThan(tolerance);
+  });
+
+  it('keeps Ketu opposite Rahu', () => {
+    const rahu = getTropicalLongitude('rahu', J2000);
+    const ketu = getTropicalLongitude('ketu', J2000);
+    expect(angularDistance(ketu, rahu + 180)).toBeLessThan(1e-9);
+  });
+});
+
+describe('getAyanamsa', () => {
+  it('matches the Lahiri definition at J2000', () => {
+    expect(getAyanamsa(J2000, 'lahiri')).toBeCloseTo(23.857092, 6);
+  });
+
+  it('matches the Lahiri reference value of 23°15\'00.658" on 1956-03-21', () => {
+    const julianDay = msToJulianDay(Date.UTC(1956, 2, 21));
+    // Mean ayanamsa - nutation (under 20") is ignored
+    expect(Math.abs(getAyanamsa(julianDay, 'lahiri') - (23 + 15 / 60 + 0.658 / 3600))).toBeLessThan(
+      0.6 * ARCMINUTE
+    );
+  });
+
+  it('grows by about 50.3" a year', () => {
+    const perYear = (getAyanamsa(J2000 + 365.25) - getAyanamsa(J2000)) * 3600;
+    expect(perYear).toBeCloseTo(50.29, 1);
+  });
+});
@@ -0,0 +1,107 @@
+import { ManglikPlacement } from '../../types/kundli';
+import { calculateBirthChart } from '../birthChart';
+import { ManglikChart, evaluateMangalDosha, getManglikChart } from '../manglik';
+
+// Mars 7th from the lagna, 3rd from the Moon and Venus
+const MANGLIK_PLACEMENTS: ManglikPlacement[] = [
+  { reference: 'lagna', house: 7, afflicted: true },
+  { reference: 'moon', house: 3, afflicted: false },
+  { reference: 'venus', house: 3, afflicted: false },
+];
+const CLEAR_PLACEMENTS = MANGLIK_PLACEMENTS.map((placement) => ({ ...placement, house: 3, afflicted: false }));
+
+const GEMINI = 2;
+
+// A Manglik chart in which no cancellation fires unless overridden: Mars in
+// Gemini, 3rd from the Moon and 2nd from Jupiter (no aspect)
+const manglikChart = (overrides: Partial<ManglikChart> = {}): ManglikChart => {
+  const marsSignIndex = overrides.marsSignIndex ?? GEMINI;
+  return {
+    placements: MANGLIK_PLACEMENTS,
+    marsSignIndex,
+    marsHouse: 7,
+    moonSignIndex: (marsSignIndex + 10) % 12,
+    jupiterSignIndex: (marsSignIndex + 11) % 12,
+    age: 25,
+    ...overrides,
+  };
+};
+
+const clearChart = (overrides: Partial<ManglikChart> = {}) =>
+  manglikChart({ placements: CLEAR_PLACEMENTS, marsHouse: 3, ...overrides });
+
+const evaluate = (boy: ManglikChart, girl: ManglikChart) =>
+  evaluateMangalDosha({ name: 'Arjun', chart: boy }, { name: 'Meera', chart: girl });
+
+const CANCELLATIONS: { rule: string; chart: Partial<ManglikChart> }[] = [
+  { rule: 'own_sign', chart: { marsSignIndex: 0 } }, // Aries
+  { rule: 'exalted', chart: { marsSignIndex: 9, marsHouse: 1 } }, // Capricorn, outside the 7th-house exception
+  { rule: 'house_sign', chart: { marsSignIndex: 3 } }, // Cancer in the 7th
+  { rule: 'leo_aquarius', chart: { marsSignIndex: 4 } },
+  { rule: 'jupiter', chart: { jupiterSignIndex: GEMINI } }, // Conjunct
+  { rule: 'jupiter', chart: { jupiterSignIndex: 10 } }, // Aquarius - Mars is 5th from Jupiter
+  { rule: 'moon', chart: { moonSignIndex: GEMINI } },
+];
+
+describe('evaluateMangalDosha', () => {
+  it.each(CANCELLATIONS)('cancels a one-sided dosha by the $rule rule', ({ rule, chart }) => {
+    const dosha = evaluate(manglikChart(chart), clearChart());
+
+    expect(dosha.status).toBe('cancelled');
+    expect(dosha.rules).toEqual([expect.objectContaining({ id: rule, appliesTo: 'boy' })]);
+    expect(dosha.cancellation).toMatch(/^Arjun: /);
+  });
+
+  it('leaves a one-sided dosha present when no rule fires', () => {
+    const dosha = evaluate(clearChart(), manglikChart());
+
+    expect(dosha).toMatchObject({ boyHasDosha: false, girlHasDosha: true, status: 'present', cancellation: null });
+    expect(dosha.rules).toEqual([]);
+  });
+
+  it('reports the age rule as a note without cancelling the dosha', () => {
+    const dosha = evaluate(manglikChart({ age: 30 }), clearChart());
+
+    expect(dosha.status).toBe('present');
+    expect(dosha.rules).toEqual([expect.objectContaining({ id: 'age', mitigating: true })]);
+  });
+
+  it('cancels two Manglik charts against each other', () => {
+    const dosha = evaluate(manglikChart(), manglikChart());
+
+    expect(dosha.status).toBe('cancelled');
+    expect(dosha.rules).toEqual([expect.objectContaining({ id: 'mutual', appliesTo: 'both' })]);
+  });
+
+  it('ignores cancellations in a chart without the dosha', () => {
+    const dosha = evaluate(clearChart({ marsSignIndex: 0 }), clearChart());
+
+    expect(dosha.status).toBe('none');
+    expect(dosha.rules).toEqual([]);
+  });
+});
+
+describe('getManglikChart', () => {
+  // Independence of India: Taurus lagna, Mars in Gemini (2nd), Moon and Venus in Cancer
+  const chart = calculateBirthChart(
+    {
+      dateOfBirth: '1947-08-15',
+      timeOfBirth: '00:00',
+      birthPlace: { name: 'New Delhi', latitude: 28.6139, longitude: 77.209, timezone: '+05:30' },
+    },
+    { ayanamsa: 'lahiri' }
+  );
+
+  it('counts Mars from the lagna, the Moon and Venus', () => {
+    expect(getManglikChart(chart, '1947-08-15').placements).toEqual([
+      { reference: 'lagna', house: 2, afflicted: true },
+      { reference: 'moon', house: 12, afflicted: true },
+      { reference: 'venus', house: 12, afflicted: true },
+    ]);
+  });
+
+  it('counts completed years for the age rule', () => {
+    expect(getManglikChart(chart, '1947-08-15', new Date(1975, 7, 14)).age).toBe(27);
+    expect(getManglikChart(chart, '1947-08-15', new Date(1975, 7, 15)).age).toBe(28);
+  });
+});
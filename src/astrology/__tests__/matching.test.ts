@@ -0,0 +1,87 @@
+import { MatchingPerson } from '../../types/kundli';
+import { ASHTAKOOT_MAX_SCORE, calculateMatchingReport } from '../matching';
+
+const CHENNAI = { name: 'Chennai', latitude: 13.0827, longitude: 80.2707, timezone: '+05:30' };
+
+// Births in Chennai in February 2000 and where the Moon (Lahiri) stood
+const MOONS = {
+  ashwiniPada2: '2000-02-11 12:00', // Aries 6°13'
+  ashwiniPada4: '2000-02-12 00:00', // Aries 13°02'
+  bharani: '2000-02-12 12:00', // Aries 19°56'
+  rohini: '2000-02-14 06:00', // Taurus 14°28'
+  ardra: '2000-02-16 06:00', // Gemini 13°14'
+  punarvasuGemini: '2000-02-17 00:00', // Gemini 24°10'
+  punarvasuCancer: '2000-02-17 12:00', // Cancer 1°28'
+  pushya: '2000-02-18 00:00', // Cancer 8°45'
+  magha: '2000-02-20 00:00', // Leo 7°41'
+  hasta: '2000-02-22 18:00', // Virgo 15°46'
+  swati: '2000-02-24 18:00', // Libra 11°42'
+};
+
+type Moon = keyof typeof MOONS;
+
+const person = (name: string, moon: Moon): MatchingPerson => {
+  const [dateOfBirth, timeOfBirth] = MOONS[moon].split(' ');
+  return { name, dateOfBirth, timeOfBirth, birthPlace: CHENNAI };
+};
+
+const match = (boy: Moon, girl: Moon) =>
+  calculateMatchingReport('m1', { boy: person('Arjun', boy), girl: person('Meera', girl) });
+
+describe('calculateMatchingReport', () => {
+  describe('Ashwini boy and Bharani girl', () => {
+    const report = match('ashwiniPada2', 'bharani');
+
+    it.each([
+      ['varna', 1], // Both Kshatriya (Aries)
+      ['vashya', 2], // Both Chatushpada
+      ['tara', 3], // Sampat and Ati Mitra
+      ['yoni', 2], // Horse and Elephant
+      ['graha_maitri', 5], // Both ruled by Mars
+      ['gana', 6], // Deva and Manushya
+      ['bhakoot', 7], // Same sign
+      ['nadi', 8], // Adi and Madhya
+    ])('scores %s at %d', (id, points) => {
+      expect(report.ashtakootGunas.find((guna) => guna.id === id)?.obtainedPoints).toBe(points);
+    });
+
+    it('totals 34 of 36', () => {
+      expect(report.totalScore).toBe(34);
+      expect(report.maxScore).toBe(ASHTAKOOT_MAX_SCORE);
+      expect(report.verdict.rating).toBe('excellent');
+    });
+  });
+
+  describe('Nadi Dosha', () => {
+    it.each<{ name: string; boy: Moon; girl: Moon; present: boolean }>([
+      { name: 'is present for different stars in different signs', boy: 'ashwiniPada2', girl: 'ardra', present: true },
+      { name: 'is present for the same star and pada', boy: 'ashwiniPada2', girl: 'ashwiniPada2', present: true },
+      { name: 'is cancelled for different stars in one sign', boy: 'ardra', girl: 'punarvasuGemini', present: false },
+      { name: 'is cancelled for one star in different signs', boy: 'punarvasuGemini', girl: 'punarvasuCancer', present: false },
+      { name: 'is cancelled for one star in different padas', boy: 'ashwiniPada2', girl: 'ashwiniPada4', present: false },
+    ])('$name', ({ boy, girl, present }) => {
+      const report = match(boy, girl);
+
+      // Every pair shares Adi Nadi, so the koota itself always scores 0
+      expect(report.ashtakootGunas.find((guna) => guna.id === 'nadi')?.obtainedPoints).toBe(0);
+      expect(report.doshaAnalysis.nadiDosha.present).toBe(present);
+    });
+  });
+
+  describe('Bhakoot', () => {
+    // The girl's Moon sign counted from the boy's Aries Moon
+    it.each<{ girl: Moon; distance: string; points: number }>([
+      { girl: 'rohini', distance: '2/12', points: 0 },
+      { girl: 'ardra', distance: '3/11', points: 7 },
+      { girl: 'pushya', distance: '4/10', points: 7 },
+      { girl: 'magha', distance: '5/9', points: 0 },
+      { girl: 'hasta', distance: '6/8', points: 0 },
+      { girl: 'swati', distance: '7/7', points: 7 },
+    ])('scores Moons $distance apart at $points', ({ girl, points }) => {
+      const report = match('ashwiniPada2', girl);
+
+      expect(report.ashtakootGunas.find((guna) => guna.id === 'bhakoot')?.obtainedPoints).toBe(points);
+      expect(report.recommendations.some((line) => line.startsWith('Bhakoot Dosha'))).toBe(points === 0);
+    });
+  });
+});
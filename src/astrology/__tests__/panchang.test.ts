@@ -0,0 +1,61 @@
+import { calculatePanchang } from '../panchang';
+
+const CHENNAI = { name: 'Chennai', latitude: 13.0827, longitude: 80.2707, timezone: 'Asia/Kolkata' };
+const MINUTE_MS = 60000;
+
+// Published Chennai times (IST) match to within a couple of minutes
+const expectNear = (iso: string, expected: string, toleranceMinutes = 3) => {
+  expect(Math.abs(Date.parse(iso) - Date.parse(expected)) / MINUTE_MS).toBeLessThan(toleranceMinutes);
+};
+
+describe('calculatePanchang', () => {
+  describe('Tamil New Year (Monday 14 April 2025)', () => {
+    const panchang = calculatePanchang('2025-04-14', CHENNAI);
+
+    it('starts Chithirai - the Sun enters Aries before sunrise', () => {
+      expect(panchang.tamilDate).toEqual({ monthIndex: 0, month: 'Chithirai', day: 1 });
+      expect(calculatePanchang('2025-04-13', CHENNAI).tamilDate).toMatchObject({ month: 'Panguni', day: 30 });
+    });
+
+    it('times sunrise and sunset', () => {
+      expectNear(panchang.sunrise, '2025-04-14T05:57:00+05:30');
+      expectNear(panchang.sunset, '2025-04-14T18:21:00+05:30');
+    });
+
+    it('puts Rahu Kalam in the second eighth of a Monday', () => {
+      expect(panchang.weekday).toBe(1);
+      expectNear(panchang.rahuKalam.start, '2025-04-14T07:31:00+05:30');
+      expectNear(panchang.rahuKalam.end, '2025-04-14T09:04:00+05:30');
+    });
+
+    it('divides the daytime into eighths for every kalam', () => {
+      const eighth = (Date.parse(panchang.sunset) - Date.parse(panchang.sunrise)) / 8;
+      [panchang.rahuKalam, panchang.yamagandam, panchang.gulikaKalam].forEach((kalam) => {
+        expect(Date.parse(kalam.end) - Date.parse(kalam.start)).toBeCloseTo(eighth, -1);
+      });
+    });
+  });
+
+  it('starts Thai on Pongal (14 January 2025)', () => {
+    expect(calculatePanchang('2025-01-14', CHENNAI).tamilDate).toEqual({ monthIndex: 9, month: 'Thai', day: 1 });
+    expect(calculatePanchang('2025-01-13', CHENNAI).tamilDate).toMatchObject({ month: 'Margazhi', day: 29 });
+  });
+
+  it('starts a month the next day when the Sun changes sign after sunset', () => {
+    // The Sun entered Pisces at about 18:50 IST on 14 March 2025
+    expect(calculatePanchang('2025-03-14', CHENNAI).tamilDate).toMatchObject({ month: 'Maasi', day: 30 });
+    expect(calculatePanchang('2025-03-15', CHENNAI).tamilDate).toMatchObject({ month: 'Panguni', day: 1 });
+  });
+
+  it('finds the Paush Purnima of 13 January 2025', () => {
+    const panchang = calculatePanchang('2025-01-13', CHENNAI);
+    expect(panchang.tithi).toMatchObject({ name: 'Purnima', paksha: 'Shukla', next: 'Pratipada' });
+    expect(panchang.nakshatra.name).toBe('Ardra');
+  });
+
+  it('puts Rahu Kalam in the last eighth of a Sunday', () => {
+    const panchang = calculatePanchang('2025-04-13', CHENNAI);
+    expect(panchang.weekday).toBe(0);
+    expect(panchang.rahuKalam.end).toBe(panchang.sunset);
+  });
+});
@@ -0,0 +1,67 @@
+import { MatchingPerson, PoruthamAnalysis } from '../../types/kundli';
+import { calculatePoruthams } from '../porutham';
+
+const CHENNAI = { name: 'Chennai', latitude: 13.0827, longitude: 80.2707, timezone: '+05:30' };
+
+// Births in Chennai and where the Moon (Lahiri) stood
+const MOONS = {
+  ashwini: '2000-02-11 12:00', // Aries 6°13' - Pada Rajju
+  bharani: '2000-02-12 12:00', // Aries 19°56' - Kati Rajju
+  magha: '2000-02-20 00:00', // Leo 7°41' - Pada Rajju
+  uttaraPhalguni: '2000-02-22 00:00', // Virgo 5°39' - Nabhi Rajju
+  jyeshtha: '2000-02-01 00:00', // Scorpio 24°59' - Pada Rajju, pierces Ashwini
+  shravana: '2000-02-05 12:00', // Capricorn 18°49' - Kanta Rajju
+};
+
+type Moon = keyof typeof MOONS;
+
+const person = (name: string, moon: Moon): MatchingPerson => {
+  const [dateOfBirth, timeOfBirth] = MOONS[moon].split(' ');
+  return { name, dateOfBirth, timeOfBirth, birthPlace: CHENNAI };
+};
+
+const analyse = (boy: Moon, girl: Moon) =>
+  calculatePoruthams({ boy: person('Arjun', boy), girl: person('Meera', girl) });
+
+const failed = (analysis: PoruthamAnalysis) =>
+  analysis.poruthams.filter((porutham) => !porutham.passed).map((porutham) => porutham.id);
+
+describe('calculatePoruthams', () => {
+  it.each<{ boy: Moon; girl: Moon; failing: string[]; matchedCount: number; rating: string }>([
+    // Boy's star 18th from the girl's
+    { boy: 'uttaraPhalguni', girl: 'shravana', failing: ['mahendra', 'vasya'], matchedCount: 8, rating: 'excellent' },
+    // Boy's star 27th from the girl's, both Moons in Aries
+    { boy: 'ashwini', girl: 'bharani', failing: ['dina', 'mahendra', 'vasya'], matchedCount: 7, rating: 'good' },
+  ])('matches $boy with $girl', ({ boy, girl, failing, matchedCount, rating }) => {
+    const analysis = analyse(boy, girl);
+
+    expect(failed(analysis)).toEqual(failing);
+    expect(analysis).toMatchObject({ matchedCount, total: 10, rating });
+  });
+
+  it('rules out stars in the same Rajju however many others agree', () => {
+    const analysis = analyse('ashwini', 'magha');
+
+    expect(failed(analysis)).toContain('rajju');
+    expect(failed(analysis)).not.toContain('vedhai');
+    expect(analysis.matchedCount).toBe(7);
+    expect(analysis.rating).toBe('below_average');
+    expect(analysis.summary).toMatch(/Rajju Porutham fails/);
+  });
+
+  it('rules out stars that pierce each other', () => {
+    const analysis = analyse('ashwini', 'jyeshtha');
+
+    expect(failed(analysis)).toEqual(expect.arrayContaining(['rajju', 'vedhai']));
+    expect(analysis.rating).toBe('below_average');
+    expect(analysis.summary).toMatch(/Rajju and Vedhai Poruthams fail/);
+  });
+
+  it('marks only Rajju and Vedhai as deal-breakers', () => {
+    const dealBreakers = analyse('ashwini', 'bharani').poruthams
+      .filter((porutham) => porutham.isDealBreaker)
+      .map((porutham) => porutham.id);
+
+    expect(dealBreakers).toEqual(['rajju', 'vedhai']);
+  });
+});
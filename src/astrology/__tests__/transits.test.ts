@@ -0,0 +1,80 @@
+import { NatalReference } from '../../types/astrology';
+import { SIGNS } from '../constants';
+import { julianDayToMs, msToJulianDay } from '../time';
+import { calculateTransits, findIngresses } from '../transits';
+
+const J2000 = 2451545.0; // 2000-01-01 12:00 UT
+const DAY_MS = 86400000;
+
+// Taurus lagna, Cancer Moon (Independence of India)
+const INDIA: NatalReference = { lagnaSignIndex: 1, moonSignIndex: 3 };
+
+const ingressesOf = (natal: NatalReference) =>
+  findIngresses(msToJulianDay(Date.UTC(2024, 0, 1)), msToJulianDay(Date.UTC(2026, 0, 1)), natal);
+
+const sign = (index: number) => SIGNS[index].name;
+
+describe('findIngresses', () => {
+  const ingresses = ingressesOf(INDIA);
+  const find = (graha: string, signName: string) =>
+    ingresses.find((ingress) => ingress.graha === graha && sign(ingress.signIndex) === signName);
+
+  // Published Lahiri ingress dates (IST)
+  it.each([
+    { graha: 'jupiter', signName: 'Taurus', date: '2024-05-01T17:22:00+05:30' },
+    { graha: 'saturn', signName: 'Pisces', date: '2025-03-29T21:44:00+05:30' },
+    { graha: 'jupiter', signName: 'Gemini', date: '2025-05-14T22:39:00+05:30' },
+    { graha: 'rahu', signName: 'Aquarius', date: '2025-05-18T16:30:00+05:30' },
+  ])('has $graha entering $signName on $date', ({ graha, signName, date }) => {
+    const ingress = find(graha, signName);
+    expect(ingress).toBeDefined();
+
+    expect(Math.abs(julianDayToMs(ingress!.julianDay) - Date.parse(date))).toBeLessThan(DAY_MS);
+  });
+
+  it('moves Ketu with Rahu, both backwards', () => {
+    const rahu = find('rahu', 'Aquarius')!;
+    const ketu = find('ketu', 'Leo')!;
+
+    expect(ketu.julianDay).toBeCloseTo(rahu.julianDay, 6);
+    expect(rahu.isRetrograde && ketu.isRetrograde).toBe(true);
+  });
+
+  it('notes Jupiter crossing the natal lagna and Moon', () => {
+    expect(find('jupiter', 'Taurus')).toMatchObject({ house: 1, notes: ['natal_lagna'] });
+    expect(find('jupiter', 'Cancer')).toMatchObject({ houseFromMoon: 1, notes: ['natal_moon'] });
+  });
+
+  it('starts Sade Sati when Saturn enters the 12th from the Moon', () => {
+    const saturn = ingressesOf({ lagnaSignIndex: 0, moonSignIndex: 0 })
+      .find((ingress) => ingress.graha === 'saturn' && sign(ingress.signIndex) === 'Pisces');
+
+    expect(saturn).toMatchObject({ houseFromMoon: 12, notes: ['sade_sati_begins'] });
+  });
+
+  it('lists ingresses in date order', () => {
+    const days = ingresses.map((ingress) => ingress.julianDay);
+    expect(days).toEqual([...days].sort((a, b) => a - b));
+  });
+});
+
+describe('calculateTransits', () => {
+  const transits = calculateTransits(J2000, INDIA);
+  const transit = (id: string) => transits.find((position) => position.id === id)!;
+
+  it('places Jupiter and Saturn in sidereal Aries at J2000', () => {
+    expect(sign(transit('jupiter').signIndex)).toBe('Aries');
+    expect(sign(transit('saturn').signIndex)).toBe('Aries');
+  });
+
+  it('counts houses from the natal lagna and Moon', () => {
+    // Aries is 12th from Taurus and 10th from Cancer
+    expect(transit('saturn')).toMatchObject({ house: 12, houseFromMoon: 10 });
+  });
+
+  it('always moves the nodes backwards', () => {
+    expect(transit('rahu').isRetrograde).toBe(true);
+    expect(transit('ketu').isRetrograde).toBe(true);
+    expect(transit('sun').isRetrograde).toBe(false);
+  });
+});
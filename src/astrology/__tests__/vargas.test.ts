@@ -0,0 +1,64 @@
+import { calculateBirthChart } from '../birthChart';
+import { SIGNS } from '../constants';
+import { VARGAS, calculateVargaChart, getVargaSignIndex } from '../vargas';
+
+// Sidereal longitude of a degree within a sign
+const at = (signName: string, degree: number) =>
+  SIGNS.findIndex((entry) => entry.name === signName) * 30 + degree;
+
+describe('getVargaSignIndex', () => {
+  it.each([
+    // Navamsa: movable signs start from themselves, fixed from the 9th, dual from the 5th
+    { division: 9, sign: 'Aries', degree: 0.5, expected: 'Aries' },
+    { division: 9, sign: 'Taurus', degree: 15, expected: 'Taurus' }, // Vargottama
+    { division: 9, sign: 'Gemini', degree: 0.5, expected: 'Libra' },
+    { division: 9, sign: 'Cancer', degree: 0.5, expected: 'Cancer' },
+    { division: 9, sign: 'Pisces', degree: 29.5, expected: 'Pisces' },
+    // Hora: Sun then Moon in odd signs, Moon then Sun in even
+    { division: 2, sign: 'Aries', degree: 10, expected: 'Leo' },
+    { division: 2, sign: 'Aries', degree: 20, expected: 'Cancer' },
+    { division: 2, sign: 'Taurus', degree: 10, expected: 'Cancer' },
+    { division: 2, sign: 'Taurus', degree: 20, expected: 'Leo' },
+    // Drekkana: 1st, 5th and 9th from the sign
+    { division: 3, sign: 'Aries', degree: 5, expected: 'Aries' },
+    { division: 3, sign: 'Aries', degree: 15, expected: 'Leo' },
+    { division: 3, sign: 'Aries', degree: 25, expected: 'Sagittarius' },
+    // Dasamsa: even signs start from the 9th
+    { division: 10, sign: 'Taurus', degree: 1, expected: 'Capricorn' },
+    { division: 10, sign: 'Aries', degree: 29, expected: 'Capricorn' },
+    // Dwadasamsa: from the sign itself
+    { division: 12, sign: 'Taurus', degree: 29, expected: 'Aries' },
+    // Trimsamsa: Mars, Saturn, Jupiter, Mercury, Venus in odd signs, reversed in even
+    { division: 30, sign: 'Aries', degree: 3, expected: 'Aries' },
+    { division: 30, sign: 'Aries', degree: 27, expected: 'Libra' },
+    { division: 30, sign: 'Taurus', degree: 3, expected: 'Taurus' },
+    { division: 30, sign: 'Taurus', degree: 27, expected: 'Scorpio' },
+  ])('places $sign $degree° in $expected in D$division', ({ division, sign, degree, expected }) => {
+    expect(SIGNS[getVargaSignIndex(at(sign, degree), division)].name).toBe(expected);
+  });
+
+  it('rejects an unsupported division', () => {
+    expect(() => getVargaSignIndex(0, 5)).toThrow('Unsupported varga division: D5');
+  });
+});
+
+describe('calculateVargaChart', () => {
+  // Independence of India: Taurus 7°46' lagna, Moon in Cancer 3°59'
+  const chart = calculateBirthChart(
+    {
+      dateOfBirth: '1947-08-15',
+      timeOfBirth: '00:00',
+      birthPlace: { name: 'New Delhi', latitude: 28.6139, longitude: 77.209, timezone: '+05:30' },
+    },
+    { ayanamsa: 'lahiri' }
+  );
+  const navamsa = calculateVargaChart(chart, VARGAS.find((varga) => varga.id === 'D9')!);
+
+  it('puts the published Pisces navamsa lagna in the first house', () => {
+    expect(navamsa.houses[0].sign).toBe('Pisces');
+  });
+
+  it('places the Moon in Leo in the navamsa', () => {
+    expect(navamsa.houses.find((house) => house.planets.includes('Moon'))?.sign).toBe('Leo');
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Ayanamsa
+ * Offset between the tropical and sidereal zodiacs
+ */
+
+import { Ayanamsa } from '../types/astrology';
+import { normalizeDegrees } from './ephemeris';
+import { julianCenturies } from './time';
+
+export const DEFAULT_AYANAMSA: Ayanamsa = 'lahiri';
+
+// Value of each ayanamsa at J2000.0 (degrees)
+const AYANAMSA_AT_J2000: Record<Ayanamsa, number> = {
+  lahiri: 23.857092, // Chitrapaksha, Indian Ephemeris standard
+  raman: 22.410791,
+  krishnamurti: 23.760240,
+};
+
+export const AYANAMSA_LABELS: Record<Ayanamsa, string> = {
+  lahiri: 'Lahiri (Chitrapaksha)',
+  raman: 'B. V. Raman',
+  krishnamurti: 'Krishnamurti (KP)',
+};
+
+/**
+ * Ayanamsa in degrees at a given moment
+ * All supported ayanamsas move with general precession in longitude
+ * @param julianDay - Julian Day (UT)
+ * @param ayanamsa - Ayanamsa (default: Lahiri)
+ */
+export const getAyanamsa = (julianDay: number, ayanamsa: Ayanamsa = DEFAULT_AYANAMSA): number => {
+  const t = julianCenturies(julianDay);
+  return AYANAMSA_AT_J2000[ayanamsa] + (5028.796195 * t + 1.1054348 * t * t) / 3600;
+};
+
+/**
+ * Convert a tropical longitude to sidereal
+ */
+export const toSidereal = (tropicalLongitude: number, ayanamsaValue: number): number =>
+  normalizeDegrees(tropicalLongitude - ayanamsaValue);
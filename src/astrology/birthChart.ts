@@ -0,0 +1,279 @@
+/**
+ * Birth Chart
+ * Sidereal birth chart from birth details, mapped to the KundliReport shapes
+ *
+ * Houses are whole-sign houses counted from the lagna, as in the charts the
+ * API returns.
+ */
+
+import { ChartData, KundliInput, KundliReport } from '../types/kundli';
+import {
+  BirthChart,
+  CalculationOptions,
+  GrahaId,
+  GrahaPosition,
+  SiderealPosition,
+} from '../types/astrology';
+import {
+  COMBUSTION_ORBS,
+  EXALTATION_SIGNS,
+  FIXED_KARANAS,
+  GRAHA_IDS,
+  GRAHA_NAMES,
+  MOVABLE_KARANAS,
+  NAKSHATRAS,
+  NAKSHATRA_SPAN,
+  PADA_SPAN,
+  SIGNS,
+  SIGN_SPAN,
+  TITHIS,
+  YOGAS,
+} from './constants';
+import {
+  getDailyMotion,
+  getTropicalAscendant,
+  getTropicalLongitude,
+  normalizeDegrees,
+} from './ephemeris';
+import { DEFAULT_AYANAMSA, getAyanamsa, toSidereal } from './ayanamsa';
+import { msToJulianDay, toUtcMs } from './time';
+
+type ReportPlanet = KundliReport['planets'][number];
+type ReportBasicInfo = KundliReport['basicInfo'];
+
+/**
+ * Sign, nakshatra and pada of a sidereal longitude
+ */
+export const getSiderealPosition = (longitude: number): SiderealPosition => {
+  const normalized = normalizeDegrees(longitude);
+  const nakshatraIndex = Math.floor(normalized / NAKSHATRA_SPAN) % 27;
+  return {
+    longitude: normalized,
+    signIndex: Math.floor(normalized / SIGN_SPAN) % 12,
+    degreeInSign: normalized % SIGN_SPAN,
+    nakshatraIndex,
+    pada: (Math.floor((normalized - nakshatraIndex * NAKSHATRA_SPAN) / PADA_SPAN) % 4) + 1,
+  };
+};
+
+/**
+ * Whole-sign house of a sign counted from the lagna sign (1-12)
+ */
+export const getHouse = (signIndex: number, lagnaSignIndex: number): number =>
+  ((signIndex - lagnaSignIndex + 12) % 12) + 1;
+
+/**
+ * Sidereal positions of the lagna and all nine grahas at a moment
+ * @param julianDay - Julian Day (UT)
+ * @param latitude - Birth latitude (north positive)
+ * @param longitude - Birth longitude (east positive)
+ * @param options - Calculation options (ayanamsa)
+ * @returns BirthChart
+ */
+export const calculateChartAt = (
+  julianDay: number,
+  latitude: number,
+  longitude: number,
+  options: CalculationOptions = {}
+): BirthChart => {
+  const ayanamsa = options.ayanamsa ?? DEFAULT_AYANAMSA;
+  const ayanamsaValue = getAyanamsa(julianDay, ayanamsa);
+
+  const ascendant = getSiderealPosition(
+    toSidereal(getTropicalAscendant(julianDay, latitude, longitude), ayanamsaValue)
+  );
+
+  const grahas: GrahaPosition[] = GRAHA_IDS.map((id) => {
+    const position = getSiderealPosition(
+      toSidereal(getTropicalLongitude(id, julianDay), ayanamsaValue)
+    );
+    const speed = getDailyMotion(id, julianDay);
+    return {
+      ...position,
+      id,
+      speed,
+      // The mean nodes always move backwards
+      isRetrograde: id === 'rahu' || id === 'ketu' || speed < 0,
+      house: getHouse(position.signIndex, ascendant.signIndex),
+    };
+  });
+
+  return { julianDay, ayanamsa, ayanamsaValue, ascendant, grahas };
+};
+
+/**
+ * Calculate a birth chart from kundli birth details
+ * @param input - Birth date, time and place
+ * @param options - Calculation options (ayanamsa)
+ * @returns BirthChart
+ */
+export const calculateBirthChart = (
+  input: Pick<KundliInput, 'dateOfBirth' | 'timeOfBirth' | 'birthPlace'>,
+  options: CalculationOptions = {}
+): BirthChart => {
+  const { dateOfBirth, timeOfBirth, birthPlace } = input;
+  const julianDay = msToJulianDay(toUtcMs(dateOfBirth, timeOfBirth, birthPlace.timezone));
+  return calculateChartAt(julianDay, birthPlace.latitude, birthPlace.longitude, options);
+};
+
+export const getGraha = (chart: BirthChart, id: GrahaId): GrahaPosition =>
+  chart.grahas.find((graha) => graha.id === id)!;
+
+/**
+ * Degrees within the sign as D°M'
+ */
+export const formatDegree = (degreeInSign: number): string => {
+  let degrees = Math.floor(degreeInSign);
+  let minutes = Math.round((degreeInSign - degrees) * 60);
+  if (minutes === 60) {
+    degrees += 1;
+    minutes = 0;
+  }
+  return `${degrees}°${minutes.toString().padStart(2, '0')}'`;
+};
+
+const isCombust = (graha: GrahaPosition, sun: GrahaPosition): boolean => {
+  const orb = COMBUSTION_ORBS[graha.id];
+  if (!orb) {
+    return false;
+  }
+  const distance = Math.abs(((graha.longitude - sun.longitude + 540) % 360) - 180);
+  return distance <= (graha.isRetrograde ? orb.retrograde : orb.direct);
+};
+
+/**
+ * Map a chart to the KundliReport `planets` shape
+ */
+export const toReportPlanets = (chart: BirthChart): ReportPlanet[] => {
+  const sun = getGraha(chart, 'sun');
+
+  return chart.grahas.map((graha) => {
+    const sign = SIGNS[graha.signIndex];
+    const nakshatra = NAKSHATRAS[graha.nakshatraIndex];
+    const exaltationSign = EXALTATION_SIGNS[graha.id];
+
+    return {
+      id: graha.id,
+      name: GRAHA_NAMES[graha.id],
+      sign: sign.name,
+      signLord: sign.lord,
+      degree: Math.round(graha.degreeInSign * 100) / 100,
+      degreeFormatted: formatDegree(graha.degreeInSign),
+      isRetrograde: graha.isRetrograde,
+      isCombust: isCombust(graha, sun),
+      isExalted: graha.signIndex === exaltationSign,
+      isDebilitated: graha.signIndex === (exaltationSign + 6) % 12,
+      house: graha.house,
+      nakshatra: nakshatra.name,
+      nakshatraLord: nakshatra.lord,
+      nakshatraPada: graha.pada,
+    };
+  });
+};
+
+/**
+ * Whole-sign chart houses from the lagna and the sign of each graha
+ * @param lagnaSignIndex - Sign of the lagna (0 = Aries)
+ * @param placements - Graha names with their sign index
+ * @returns ChartData['houses'] - Houses 1-12, in the shape the API returns
+ */
+export const toChartHouses = (
+  lagnaSignIndex: number,
+  placements: { name: string; signIndex: number }[]
+): ChartData['houses'] =>
+  Array.from({ length: 12 }, (_, index) => {
+    const signIndex = (lagnaSignIndex + index) % 12;
+    return {
+      number: index + 1,
+      sign: SIGNS[signIndex].name,
+      planets: placements
+        .filter((placement) => placement.signIndex === signIndex)
+        .map((placement) => placement.name),
+    };
+  });
+
+/**
+ * Name and paksha of a tithi (0-29, from Shukla Pratipada)
+ */
+export const getTithi = (tithiIndex: number): { name: string; paksha: 'Shukla' | 'Krishna' } => ({
+  name: tithiIndex === 29 ? 'Amavasya' : TITHIS[tithiIndex % 15],
+  paksha: tithiIndex < 15 ? 'Shukla' : 'Krishna',
+});
+
+/**
+ * Name of a karana (0-59, the half-tithis from Shukla Pratipada)
+ */
+export const getKaranaName = (karanaIndex: number): string => {
+  if (karanaIndex === 0) {
+    return FIXED_KARANAS.FIRST;
+  }
+  if (karanaIndex >= 57) {
+    return FIXED_KARANAS.LAST[karanaIndex - 57];
+  }
+  return MOVABLE_KARANAS[(karanaIndex - 1) % 7];
+};
+
+/**
+ * Tithi, yoga and karana from the Sun and Moon
+ */
+const getPanchangElements = (sunLongitude: number, moonLongitude: number) => {
+  const elongation = normalizeDegrees(moonLongitude - sunLongitude);
+
+  const tithiIndex = Math.floor(elongation / 12); // 0-29
+  const yogaIndex = Math.floor(normalizeDegrees(sunLongitude + moonLongitude) / NAKSHATRA_SPAN);
+  const karanaIndex = Math.floor(elongation / 6); // 0-59
+
+  return {
+    tithi: getTithi(tithiIndex),
+    yoga: { name: YOGAS[yogaIndex % 27] },
+    karana: { name: getKaranaName(karanaIndex) },
+  };
+};
+
+/**
+ * Map a chart to the KundliReport `basicInfo` shape
+ */
+export const toReportBasicInfo = (chart: BirthChart): ReportBasicInfo => {
+  const sun = getGraha(chart, 'sun');
+  const moon = getGraha(chart, 'moon');
+  const nakshatra = NAKSHATRAS[moon.nakshatraIndex];
+  const rasi = SIGNS[moon.signIndex];
+  const lagna = SIGNS[chart.ascendant.signIndex];
+
+  return {
+    nakshatra: {
+      name: nakshatra.name,
+      lord: nakshatra.lord,
+      pada: moon.pada,
+      deity: nakshatra.deity,
+      ganam: nakshatra.gana,
+      nadi: nakshatra.nadi,
+      animal: nakshatra.animal,
+    },
+    rasi: { name: rasi.name, lord: rasi.lord, element: rasi.element },
+    lagna: {
+      name: lagna.name,
+      lord: lagna.lord,
+      degree: Math.round(chart.ascendant.degreeInSign * 100) / 100,
+    },
+    ...getPanchangElements(sun.longitude, moon.longitude),
+    sunSign: SIGNS[sun.signIndex].name,
+    moonSign: rasi.name,
+  };
+};
+
+/**
+ * Offline replacement for the `basicInfo` and `planets` parts of a KundliReport
+ * @param input - Birth date, time and place
+ * @param options - Calculation options (ayanamsa)
+ */
+export const calculateKundliBasics = (
+  input: Pick<KundliInput, 'dateOfBirth' | 'timeOfBirth' | 'birthPlace'>,
+  options: CalculationOptions = {}
+): Pick<KundliReport, 'basicInfo' | 'planets'> => {
+  const chart = calculateBirthChart(input, options);
+  return {
+    basicInfo: toReportBasicInfo(chart),
+    planets: toReportPlanets(chart),
+  };
+};
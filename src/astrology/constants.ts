@@ -0,0 +1,204 @@
+/**
+ * Astrology Constants
+ * Reference tables for signs, nakshatras, grahas and panchang elements
+ */
+
+import { Element, Gana, GrahaId, Nadi } from '../types/astrology';
+
+export const SIGN_SPAN = 30;
+export const NAKSHATRA_SPAN = 360 / 27; // 13°20'
+export const PADA_SPAN = NAKSHATRA_SPAN / 4; // 3°20'
+
+export interface SignInfo {
+  name: string;
+  lord: string;
+  element: Element;
+}
+
+// Rasis from Aries (index 0)
+export const SIGNS: SignInfo[] = [
+  { name: 'Aries', lord: 'Mars', element: 'Fire' },
+  { name: 'Taurus', lord: 'Venus', element: 'Earth' },
+  { name: 'Gemini', lord: 'Mercury', element: 'Air' },
+  { name: 'Cancer', lord: 'Moon', element: 'Water' },
+  { name: 'Leo', lord: 'Sun', element: 'Fire' },
+  { name: 'Virgo', lord: 'Mercury', element: 'Earth' },
+  { name: 'Libra', lord: 'Venus', element: 'Air' },
+  { name: 'Scorpio', lord: 'Mars', element: 'Water' },
+  { name: 'Sagittarius', lord: 'Jupiter', element: 'Fire' },
+  { name: 'Capricorn', lord: 'Saturn', element: 'Earth' },
+  { name: 'Aquarius', lord: 'Saturn', element: 'Air' },
+  { name: 'Pisces', lord: 'Jupiter', element: 'Water' },
+];
+
+export interface NakshatraInfo {
+  name: string;
+  lord: string;
+  deity: string;
+  gana: Gana;
+  nadi: Nadi;
+  animal: string; // Yoni
+}
+
+// Nakshatras from Ashwini (index 0)
+export const NAKSHATRAS: NakshatraInfo[] = [
+  { name: 'Ashwini', lord: 'Ketu', deity: 'Ashwini Kumaras', gana: 'Deva', nadi: 'Adi', animal: 'Horse' },
+  { name: 'Bharani', lord: 'Venus', deity: 'Yama', gana: 'Manushya', nadi: 'Madhya', animal: 'Elephant' },
+  { name: 'Krittika', lord: 'Sun', deity: 'Agni', gana: 'Rakshasa', nadi: 'Antya', animal: 'Sheep' },
+  { name: 'Rohini', lord: 'Moon', deity: 'Brahma', gana: 'Manushya', nadi: 'Antya', animal: 'Serpent' },
+  { name: 'Mrigashira', lord: 'Mars', deity: 'Soma', gana: 'Deva', nadi: 'Madhya', animal: 'Serpent' },
+  { name: 'Ardra', lord: 'Rahu', deity: 'Rudra', gana: 'Manushya', nadi: 'Adi', animal: 'Dog' },
+  { name: 'Punarvasu', lord: 'Jupiter', deity: 'Aditi', gana: 'Deva', nadi: 'Adi', animal: 'Cat' },
+  { name: 'Pushya', lord: 'Saturn', deity: 'Brihaspati', gana: 'Deva', nadi: 'Madhya', animal: 'Sheep' },
+  { name: 'Ashlesha', lord: 'Mercury', deity: 'Nagas', gana: 'Rakshasa', nadi: 'Antya', animal: 'Cat' },
+  { name: 'Magha', lord: 'Ketu', deity: 'Pitrs', gana: 'Rakshasa', nadi: 'Antya', animal: 'Rat' },
+  { name: 'Purva Phalguni', lord: 'Venus', deity: 'Bhaga', gana: 'Manushya', nadi: 'Madhya', animal: 'Rat' },
+  { name: 'Uttara Phalguni', lord: 'Sun', deity: 'Aryaman', gana: 'Manushya', nadi: 'Adi', animal: 'Cow' },
+  { name: 'Hasta', lord: 'Moon', deity: 'Savitr', gana: 'Deva', nadi: 'Adi', animal: 'Buffalo' },
+  { name: 'Chitra', lord: 'Mars', deity: 'Tvashtr', gana: 'Rakshasa', nadi: 'Madhya', animal: 'Tiger' },
+  { name: 'Swati', lord: 'Rahu', deity: 'Vayu', gana: 'Deva', nadi: 'Antya', animal: 'Buffalo' },
+  { name: 'Vishakha', lord: 'Jupiter', deity: 'Indragni', gana: 'Rakshasa', nadi: 'Antya', animal: 'Tiger' },
+  { name: 'Anuradha', lord: 'Saturn', deity: 'Mitra', gana: 'Deva', nadi: 'Madhya', animal: 'Deer' },
+  { name: 'Jyeshtha', lord: 'Mercury', deity: 'Indra', gana: 'Rakshasa', nadi: 'Adi', animal: 'Deer' },
+  { name: 'Mula', lord: 'Ketu', deity: 'Nirriti', gana: 'Rakshasa', nadi: 'Adi', animal: 'Dog' },
+  { name: 'Purva Ashadha', lord: 'Venus', deity: 'Apas', gana: 'Manushya', nadi: 'Madhya', animal: 'Monkey' },
+  { name: 'Uttara Ashadha', lord: 'Sun', deity: 'Vishvadevas', gana: 'Manushya', nadi: 'Antya', animal: 'Mongoose' },
+  { name: 'Shravana', lord: 'Moon', deity: 'Vishnu', gana: 'Deva', nadi: 'Antya', animal: 'Monkey' },
+  { name: 'Dhanishta', lord: 'Mars', deity: 'Vasus', gana: 'Rakshasa', nadi: 'Madhya', animal: 'Lion' },
+  { name: 'Shatabhisha', lord: 'Rahu', deity: 'Varuna', gana: 'Rakshasa', nadi: 'Adi', animal: 'Horse' },
+  { name: 'Purva Bhadrapada', lord: 'Jupiter', deity: 'Aja Ekapada', gana: 'Manushya', nadi: 'Adi', animal: 'Lion' },
+  { name: 'Uttara Bhadrapada', lord: 'Saturn', deity: 'Ahirbudhnya', gana: 'Manushya', nadi: 'Madhya', animal: 'Cow' },
+  { name: 'Revati', lord: 'Mercury', deity: 'Pushan', gana: 'Deva', nadi: 'Antya', animal: 'Elephant' },
+];
+
+export const GRAHA_IDS: GrahaId[] = [
+  'sun',
+  'moon',
+  'mars',
+  'mercury',
+  'jupiter',
+  'venus',
+  'saturn',
+  'rahu',
+  'ketu',
+];
+
+export const GRAHA_NAMES: Record<GrahaId, string> = {
+  sun: 'Sun',
+  moon: 'Moon',
+  mars: 'Mars',
+  mercury: 'Mercury',
+  jupiter: 'Jupiter',
+  venus: 'Venus',
+  saturn: 'Saturn',
+  rahu: 'Rahu',
+  ketu: 'Ketu',
+};
+
+// Sign index of exaltation (debilitation is the opposite sign)
+export const EXALTATION_SIGNS: Record<GrahaId, number> = {
+  sun: 0, // Aries
+  moon: 1, // Taurus
+  mars: 9, // Capricorn
+  mercury: 5, // Virgo
+  jupiter: 3, // Cancer
+  venus: 11, // Pisces
+  saturn: 6, // Libra
+  rahu: 1, // Taurus
+  ketu: 7, // Scorpio
+};
+
+// Natural friends and enemies of the seven sign lords (by name, as in SIGNS);
+// any lord in neither list is neutral
+export const NATURAL_RELATIONSHIPS: Record<string, { friends: string[]; enemies: string[] }> = {
+  Sun: { friends: ['Moon', 'Mars', 'Jupiter'], enemies: ['Venus', 'Saturn'] },
+  Moon: { friends: ['Sun', 'Mercury'], enemies: [] },
+  Mars: { friends: ['Sun', 'Moon', 'Jupiter'], enemies: ['Mercury'] },
+  Mercury: { friends: ['Sun', 'Venus'], enemies: ['Moon'] },
+  Jupiter: { friends: ['Sun', 'Moon', 'Mars'], enemies: ['Mercury', 'Venus'] },
+  Venus: { friends: ['Mercury', 'Saturn'], enemies: ['Sun', 'Moon'] },
+  Saturn: { friends: ['Mercury', 'Venus'], enemies: ['Sun', 'Moon', 'Mars'] },
+};
+
+// Maximum distance from the Sun (degrees) at which a graha is combust
+// Mercury and Venus use the smaller orb while retrograde
+export const COMBUSTION_ORBS: Partial<Record<GrahaId, { direct: number; retrograde: number }>> = {
+  moon: { direct: 12, retrograde: 12 },
+  mars: { direct: 17, retrograde: 17 },
+  mercury: { direct: 14, retrograde: 12 },
+  jupiter: { direct: 11, retrograde: 11 },
+  venus: { direct: 10, retrograde: 8 },
+  saturn: { direct: 15, retrograde: 15 },
+};
+
+// Tithis of one paksha (the 15th is Purnima in Shukla, Amavasya in Krishna)
+export const TITHIS = [
+  'Pratipada',
+  'Dwitiya',
+  'Tritiya',
+  'Chaturthi',
+  'Panchami',
+  'Shashthi',
+  'Saptami',
+  'Ashtami',
+  'Navami',
+  'Dashami',
+  'Ekadashi',
+  'Dwadashi',
+  'Trayodashi',
+  'Chaturdashi',
+  'Purnima',
+];
+
+export const YOGAS = [
+  'Vishkumbha',
+  'Priti',
+  'Ayushman',
+  'Saubhagya',
+  'Shobhana',
+  'Atiganda',
+  'Sukarma',
+  'Dhriti',
+  'Shula',
+  'Ganda',
+  'Vriddhi',
+  'Dhruva',
+  'Vyaghata',
+  'Harshana',
+  'Vajra',
+  'Siddhi',
+  'Vyatipata',
+  'Variyan',
+  'Parigha',
+  'Shiva',
+  'Siddha',
+  'Sadhya',
+  'Shubha',
+  'Shukla',
+  'Brahma',
+  'Indra',
+  'Vaidhriti',
+];
+
+// Movable karanas repeat through the month; the fixed ones fill the remaining four half-tithis
+export const MOVABLE_KARANAS = ['Bava', 'Balava', 'Kaulava', 'Taitila', 'Garaja', 'Vanija', 'Vishti'];
+export const FIXED_KARANAS = {
+  FIRST: 'Kimstughna', // First half of Shukla Pratipada
+  LAST: ['Shakuni', 'Chatushpada', 'Naga'], // Second half of Krishna Chaturdashi and Amavasya
+};
+
+// Tamil solar months, from Chithirai (Sun in Aries)
+export const TAMIL_MONTHS = [
+  'Chithirai',
+  'Vaikasi',
+  'Aani',
+  'Aadi',
+  'Aavani',
+  'Purattasi',
+  'Aippasi',
+  'Karthigai',
+  'Margazhi',
+  'Thai',
+  'Maasi',
+  'Panguni',
+];
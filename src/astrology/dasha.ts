@@ -0,0 +1,217 @@
+/**
+ * Dasha
+ * Vimshottari, Yogini and Ashtottari planetary periods from the Moon's nakshatra
+ *
+ * Each system is a fixed cycle of lords with period lengths in years. The
+ * first mahadasha belongs to the lord of the Moon's birth nakshatra, with the
+ * part of the nakshatra the Moon has already crossed counted as elapsed.
+ * Sub-periods at every level start with the parent's lord and divide the
+ * parent in proportion to each lord's years.
+ */
+
+import { DashaPeriod, ReportLanguage } from '../types/kundli';
+import { BirthChart, DashaSystem, GrahaId } from '../types/astrology';
+import { GRAHA_NAMES, NAKSHATRA_SPAN } from './constants';
+import { getGraha } from './birthChart';
+import { julianDayToMs } from './time';
+import { DASHA_LEVEL_LABELS, GRAHA_LABELS, localizeName } from './labels';
+
+const MS_PER_YEAR = 365.25 * 86400000;
+
+// Mahadashas are listed until this many years after birth
+const LIFESPAN_YEARS = 120;
+
+export const DASHA_LEVELS = DASHA_LEVEL_LABELS.en;
+
+interface DashaLord {
+  name: string; // Graha name, or the Yogini's name
+  graha: GrahaId;
+  years: number;
+}
+
+interface DashaSystemInfo {
+  label: string;
+  lords: DashaLord[];
+  // Lord of the first mahadasha and the fraction of it elapsed at birth
+  getStart: (moonLongitude: number) => { lordIndex: number; elapsed: number };
+}
+
+const lord = (graha: GrahaId, years: number, name: string = GRAHA_NAMES[graha]): DashaLord => ({
+  name,
+  graha,
+  years,
+});
+
+const getNakshatraProgress = (moonLongitude: number) => {
+  const index = Math.floor(moonLongitude / NAKSHATRA_SPAN) % 27;
+  return { index, elapsed: (moonLongitude - index * NAKSHATRA_SPAN) / NAKSHATRA_SPAN };
+};
+
+// Ashtottari lords rule runs of 3 or 4 nakshatras starting from Ardra (index 5).
+// Abhijit is not counted separately; it falls inside Saturn's run.
+const ASHTOTTARI_FIRST_NAKSHATRA = 5;
+const ASHTOTTARI_RUNS = [4, 3, 4, 3, 3, 3, 4, 3];
+
+export const DASHA_SYSTEMS: Record<DashaSystem, DashaSystemInfo> = {
+  vimshottari: {
+    label: 'Vimshottari',
+    lords: [
+      lord('ketu', 7),
+      lord('venus', 20),
+      lord('sun', 6),
+      lord('moon', 10),
+      lord('mars', 7),
+      lord('rahu', 18),
+      lord('jupiter', 16),
+      lord('saturn', 19),
+      lord('mercury', 17),
+    ],
+    getStart: (moonLongitude) => {
+      const { index, elapsed } = getNakshatraProgress(moonLongitude);
+      return { lordIndex: index % 9, elapsed };
+    },
+  },
+  yogini: {
+    label: 'Yogini',
+    lords: [
+      lord('moon', 1, 'Mangala'),
+      lord('sun', 2, 'Pingala'),
+      lord('jupiter', 3, 'Dhanya'),
+      lord('mars', 4, 'Bhramari'),
+      lord('mercury', 5, 'Bhadrika'),
+      lord('saturn', 6, 'Ulka'),
+      lord('venus', 7, 'Siddha'),
+      lord('rahu', 8, 'Sankata'),
+    ],
+    // (nakshatra number + 3) counted from Mangala, with 0 meaning Sankata
+    getStart: (moonLongitude) => {
+      const { index, elapsed } = getNakshatraProgress(moonLongitude);
+      return { lordIndex: (index + 3) % 8, elapsed };
+    },
+  },
+  ashtottari: {
+    label: 'Ashtottari',
+    lords: [
+      lord('sun', 6),
+      lord('moon', 15),
+      lord('mars', 8),
+      lord('mercury', 17),
+      lord('saturn', 10),
+      lord('jupiter', 19),
+      lord('rahu', 12),
+      lord('venus', 21),
+    ],
+    // Elapsed is measured across the lord's whole run of nakshatras
+    getStart: (moonLongitude) => {
+      const { index, elapsed } = getNakshatraProgress(moonLongitude);
+      let offset = (index - ASHTOTTARI_FIRST_NAKSHATRA + 27) % 27;
+      let lordIndex = 0;
+      while (offset >= ASHTOTTARI_RUNS[lordIndex]) {
+        offset -= ASHTOTTARI_RUNS[lordIndex];
+        lordIndex++;
+      }
+      return { lordIndex, elapsed: (offset + elapsed) / ASHTOTTARI_RUNS[lordIndex] };
+    },
+  },
+};
+
+const toPeriod = (name: string, startMs: number, endMs: number): DashaPeriod => ({
+  planet: name,
+  startDate: new Date(startMs).toISOString(),
+  endDate: new Date(endMs).toISOString(),
+});
+
+/**
+ * Mahadashas from the one running at birth until 120 years after birth
+ * @param chart - Birth chart (Moon position and birth instant)
+ * @param system - Dasha system
+ * @returns DashaPeriod[] - Without sub-periods; see getSubPeriods
+ */
+export const calculateMahadashas = (chart: BirthChart, system: DashaSystem): DashaPeriod[] => {
+  const { lords, getStart } = DASHA_SYSTEMS[system];
+  const birthMs = julianDayToMs(chart.julianDay);
+  const { lordIndex, elapsed } = getStart(getGraha(chart, 'moon').longitude);
+
+  const periods: DashaPeriod[] = [];
+  const untilMs = birthMs + LIFESPAN_YEARS * MS_PER_YEAR;
+  let startMs = birthMs - elapsed * lords[lordIndex].years * MS_PER_YEAR;
+
+  for (let index = lordIndex; startMs < untilMs; index++) {
+    const current = lords[index % lords.length];
+    const endMs = startMs + current.years * MS_PER_YEAR;
+    periods.push(toPeriod(current.name, startMs, endMs));
+    startMs = endMs;
+  }
+  return periods;
+};
+
+/**
+ * Sub-periods of a period, one per lord starting with the period's own lord
+ * @param period - Period at any level
+ * @param system - Dasha system the period belongs to
+ * @returns DashaPeriod[] - Empty if the period's lord is not in the system
+ */
+export const getSubPeriods = (period: DashaPeriod, system: DashaSystem): DashaPeriod[] => {
+  const { lords } = DASHA_SYSTEMS[system];
+  const lordIndex = lords.findIndex((entry) => entry.name === period.planet);
+  if (lordIndex < 0) {
+    return [];
+  }
+
+  const totalYears = lords.reduce((sum, entry) => sum + entry.years, 0);
+  const periodStartMs = Date.parse(period.startDate);
+  const periodEndMs = Date.parse(period.endDate);
+  const span = periodEndMs - periodStartMs;
+
+  let startMs = periodStartMs;
+  return lords.map((_, offset) => {
+    const current = lords[(lordIndex + offset) % lords.length];
+    const endMs = offset === lords.length - 1
+      ? periodEndMs
+      : startMs + (span * current.years) / totalYears;
+    const subPeriod = toPeriod(current.name, startMs, endMs);
+    startMs = endMs;
+    return subPeriod;
+  });
+};
+
+export const isPeriodRunning = (period: DashaPeriod, atMs: number = Date.now()): boolean =>
+  Date.parse(period.startDate) <= atMs && atMs < Date.parse(period.endDate);
+
+/**
+ * The running period at each level, from mahadasha down
+ * @param mahadashas - Output of calculateMahadashas
+ * @param system - Dasha system
+ * @param atMs - Instant to look up (default: now)
+ * @param depth - Levels to resolve (default: all five)
+ */
+export const getRunningPeriods = (
+  mahadashas: DashaPeriod[],
+  system: DashaSystem,
+  atMs: number = Date.now(),
+  depth: number = DASHA_LEVELS.length
+): DashaPeriod[] => {
+  const chain: DashaPeriod[] = [];
+  let periods = mahadashas;
+  while (chain.length < depth) {
+    const running = periods.find((period) => isPeriodRunning(period, atMs));
+    if (!running) break;
+    chain.push(running);
+    periods = getSubPeriods(running, system);
+  }
+  return chain;
+};
+
+/**
+ * Display name of a period's lord - Yoginis also show their graha
+ */
+export const getDashaLordLabel = (
+  system: DashaSystem,
+  name: string,
+  language: ReportLanguage = 'en'
+): string => {
+  const entry = DASHA_SYSTEMS[system].lords.find((candidate) => candidate.name === name);
+  return entry && entry.name !== GRAHA_NAMES[entry.graha]
+    ? `${localizeName(entry.name, language)} (${GRAHA_LABELS[language][entry.graha]})`
+    : localizeName(name, language);
+};
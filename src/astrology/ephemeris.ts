@@ -0,0 +1,285 @@
+/**
+ * Ephemeris
+ * Tropical geocentric longitudes of the grahas and the ascendant
+ *
+ * Compact analytical theories, accurate to about an arcminute for the Sun and
+ * Moon, a few arcminutes for the inner planets and up to ~10 arcminutes for
+ * Jupiter and Saturn between 1800 and 2050 - enough for sign, nakshatra and
+ * pada placement except right at a boundary:
+ * - Sun: Meeus, Astronomical Algorithms ch. 25
+ * - Moon: Meeus ch. 47 (principal periodic terms)
+ * - Planets: JPL Keplerian elements (Standish), precessed to the equinox of date
+ * - Rahu/Ketu: mean lunar node
+ * Longitudes are referred to the mean equinox of date; nutation and ΔT are
+ * ignored, both being well under the precision of the inputs (birth minute).
+ */
+
+import { GrahaId } from '../types/astrology';
+import { julianCenturies } from './time';
+
+const DEG = Math.PI / 180;
+
+export const normalizeDegrees = (degrees: number): number => ((degrees % 360) + 360) % 360;
+
+const sin = (degrees: number) => Math.sin(degrees * DEG);
+const cos = (degrees: number) => Math.cos(degrees * DEG);
+
+/**
+ * Mean obliquity of the ecliptic (degrees)
+ */
+export const getObliquity = (julianDay: number): number => {
+  const t = julianCenturies(julianDay);
+  return 23.439291 - 0.0130042 * t - 1.64e-7 * t * t + 5.04e-7 * t * t * t;
+};
+
+/**
+ * Greenwich mean sidereal time (degrees)
+ */
+export const getSiderealTime = (julianDay: number): number => {
+  const t = julianCenturies(julianDay);
+  return normalizeDegrees(
+    280.46061837 +
+      360.98564736629 * (julianDay - 2451545.0) +
+      0.000387933 * t * t -
+      (t * t * t) / 38710000
+  );
+};
+
+const getSunLongitude = (t: number): number => {
+  const meanLongitude = 280.46646 + 36000.76983 * t + 0.0003032 * t * t;
+  const meanAnomaly = 357.52911 + 35999.05029 * t - 0.0001537 * t * t;
+  const center =
+    (1.914602 - 0.004817 * t - 0.000014 * t * t) * sin(meanAnomaly) +
+    (0.019993 - 0.000101 * t) * sin(2 * meanAnomaly) +
+    0.000289 * sin(3 * meanAnomaly);
+  // Annual aberration makes this the apparent longitude
+  return normalizeDegrees(meanLongitude + center - 0.00569);
+};
+
+// Moon longitude terms: multiples of D, M, M', F and the coefficient (1e-6 degrees)
+const MOON_TERMS: [number, number, number, number, number][] = [
+  [0, 0, 1, 0, 6288774],
+  [2, 0, -1, 0, 1274027],
+  [2, 0, 0, 0, 658314],
+  [0, 0, 2, 0, 213618],
+  [0, 1, 0, 0, -185116],
+  [0, 0, 0, 2, -114332],
+  [2, 0, -2, 0, 58793],
+  [2, -1, -1, 0, 57066],
+  [2, 0, 1, 0, 53322],
+  [2, -1, 0, 0, 45758],
+  [0, 1, -1, 0, -40923],
+  [1, 0, 0, 0, -34720],
+  [0, 1, 1, 0, -30383],
+  [2, 0, 0, -2, 15327],
+  [0, 0, 1, 2, -12528],
+  [0, 0, 1, -2, 10980],
+  [4, 0, -1, 0, 10675],
+  [0, 0, 3, 0, 10034],
+  [4, 0, -2, 0, 8548],
+  [2, 1, -1, 0, -7888],
+  [2, 1, 0, 0, -6766],
+  [1, 0, -1, 0, -5163],
+  [1, 1, 0, 0, 4987],
+  [2, -1, 1, 0, 4036],
+  [2, 0, 2, 0, 3994],
+  [4, 0, 0, 0, 3861],
+  [2, 0, -3, 0, 3665],
+  [0, 1, -2, 0, -2689],
+  [2, 0, -1, 2, -2602],
+  [2, -1, -2, 0, 2390],
+  [1, 0, 1, 0, -2348],
+  [2, -2, 0, 0, 2236],
+  [0, 1, 2, 0, -2120],
+  [0, 2, 0, 0, -2069],
+  [2, -2, -1, 0, 2048],
+  [2, 0, 1, -2, -1773],
+  [2, 0, 0, 2, -1595],
+  [4, -1, -1, 0, 1215],
+  [0, 0, 2, 2, -1110],
+  [3, 0, -1, 0, -892],
+  [2, 1, 1, 0, -810],
+  [4, -1, -2, 0, 759],
+  [0, 2, -1, 0, -713],
+  [2, 2, -1, 0, -700],
+  [2, 1, -2, 0, 691],
+  [2, -1, 0, -2, 596],
+  [4, 0, 1, 0, 549],
+  [0, 0, 4, 0, 537],
+  [4, -1, 0, 0, 520],
+  [1, 0, -2, 0, -487],
+];
+
+const getMoonLongitude = (t: number): number => {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  const t4 = t3 * t;
+
+  const meanLongitude =
+    218.3164477 + 481267.88123421 * t - 0.0015786 * t2 + t3 / 538841 - t4 / 65194000;
+  const elongation =
+    297.8501921 + 445267.1114034 * t - 0.0018819 * t2 + t3 / 545868 - t4 / 113065000;
+  const sunAnomaly = 357.5291092 + 35999.0502909 * t - 0.0001536 * t2 + t3 / 24490000;
+  const moonAnomaly =
+    134.9633964 + 477198.8675055 * t + 0.0087414 * t2 + t3 / 69699 - t4 / 14712000;
+  const latitudeArgument =
+    93.272095 + 483202.0175233 * t - 0.0036539 * t2 - t3 / 3526000 + t4 / 863310000;
+  const eccentricity = 1 - 0.002516 * t - 0.0000074 * t2;
+
+  let sum = 0;
+  MOON_TERMS.forEach(([d, m, mPrime, f, coefficient]) => {
+    const argument = d * elongation + m * sunAnomaly + mPrime * moonAnomaly + f * latitudeArgument;
+    // Terms involving the Sun's anomaly shrink with Earth's orbital eccentricity
+    const correction = Math.abs(m) === 1 ? eccentricity : m === 0 ? 1 : eccentricity * eccentricity;
+    sum += coefficient * correction * sin(argument);
+  });
+
+  // Venus, Jupiter and flattening perturbations
+  const a1 = 119.75 + 131.849 * t;
+  const a2 = 53.09 + 479264.29 * t;
+  sum += 3958 * sin(a1) + 1962 * sin(meanLongitude - latitudeArgument) + 318 * sin(a2);
+
+  return normalizeDegrees(meanLongitude + sum / 1e6);
+};
+
+/**
+ * Mean longitude of the Moon's ascending node (Rahu)
+ */
+const getMeanNodeLongitude = (t: number): number =>
+  normalizeDegrees(125.04452 - 1934.136261 * t + 0.0020708 * t * t + (t * t * t) / 450000);
+
+// JPL Keplerian elements (J2000 ecliptic) and their rates per century:
+// semi-major axis (au), eccentricity, inclination, mean longitude,
+// longitude of perihelion, longitude of ascending node (degrees)
+type OrbitalElements = [number, number, number, number, number, number];
+
+const ORBITS: Record<'earth' | 'mercury' | 'venus' | 'mars' | 'jupiter' | 'saturn', [OrbitalElements, OrbitalElements]> = {
+  mercury: [
+    [0.38709927, 0.20563593, 7.00497902, 252.2503235, 77.45779628, 48.33076593],
+    [0.00000037, 0.00001906, -0.00594749, 149472.67411175, 0.16047689, -0.12534081],
+  ],
+  venus: [
+    [0.72333566, 0.00677672, 3.39467605, 181.9790995, 131.60246718, 76.67984255],
+    [0.0000039, -0.00004107, -0.0007889, 58517.81538729, 0.00268329, -0.27769418],
+  ],
+  earth: [
+    [1.00000261, 0.01671123, -0.00001531, 100.46457166, 102.93768193, 0],
+    [0.00000562, -0.00004392, -0.01294668, 35999.37244981, 0.32327364, 0],
+  ],
+  mars: [
+    [1.52371034, 0.0933941, 1.84969142, -4.55343205, -23.94362959, 49.55953891],
+    [0.00001847, 0.00007882, -0.00813131, 19140.30268499, 0.44441088, -0.29257343],
+  ],
+  jupiter: [
+    [5.202887, 0.04838624, 1.30439695, 34.39644051, 14.72847983, 100.47390909],
+    [-0.00011607, -0.00013253, -0.00183714, 3034.74612775, 0.21252668, 0.20469106],
+  ],
+  saturn: [
+    [9.53667594, 0.05386179, 2.48599187, 49.95424423, 92.59887831, 113.66242448],
+    [-0.0012506, -0.00050991, 0.00193609, 1222.49362201, -0.41897216, -0.28867794],
+  ],
+};
+
+/**
+ * Heliocentric ecliptic coordinates (J2000, au)
+ */
+const getHeliocentricPosition = (body: keyof typeof ORBITS, t: number): [number, number, number] => {
+  const [base, rate] = ORBITS[body];
+  const [a, e, inclination, meanLongitude, perihelion, node] = base.map(
+    (value, index) => value + rate[index] * t
+  );
+
+  const argumentOfPerihelion = perihelion - node;
+  const meanAnomaly = normalizeDegrees(meanLongitude - perihelion) * DEG;
+
+  // Kepler's equation by Newton iteration
+  let eccentricAnomaly = meanAnomaly + e * Math.sin(meanAnomaly);
+  for (let i = 0; i < 8; i++) {
+    const delta =
+      (eccentricAnomaly - e * Math.sin(eccentricAnomaly) - meanAnomaly) /
+      (1 - e * Math.cos(eccentricAnomaly));
+    eccentricAnomaly -= delta;
+    if (Math.abs(delta) < 1e-10) break;
+  }
+
+  const xOrbit = a * (Math.cos(eccentricAnomaly) - e);
+  const yOrbit = a * Math.sqrt(1 - e * e) * Math.sin(eccentricAnomaly);
+
+  const cosW = cos(argumentOfPerihelion);
+  const sinW = sin(argumentOfPerihelion);
+  const cosN = cos(node);
+  const sinN = sin(node);
+  const cosI = cos(inclination);
+  const sinI = sin(inclination);
+
+  return [
+    (cosW * cosN - sinW * sinN * cosI) * xOrbit + (-sinW * cosN - cosW * sinN * cosI) * yOrbit,
+    (cosW * sinN + sinW * cosN * cosI) * xOrbit + (-sinW * sinN + cosW * cosN * cosI) * yOrbit,
+    sinW * sinI * xOrbit + cosW * sinI * yOrbit,
+  ];
+};
+
+const getPlanetLongitude = (
+  planet: 'mercury' | 'venus' | 'mars' | 'jupiter' | 'saturn',
+  t: number
+): number => {
+  const [px, py] = getHeliocentricPosition(planet, t);
+  const [ex, ey] = getHeliocentricPosition('earth', t);
+  const longitudeJ2000 = Math.atan2(py - ey, px - ex) / DEG;
+
+  // General precession in longitude, J2000 -> equinox of date
+  return normalizeDegrees(longitudeJ2000 + 1.396971 * t + 0.0003086 * t * t);
+};
+
+/**
+ * Tropical geocentric longitude of a graha (degrees)
+ * @param graha - Graha
+ * @param julianDay - Julian Day (UT)
+ */
+export const getTropicalLongitude = (graha: GrahaId, julianDay: number): number => {
+  const t = julianCenturies(julianDay);
+
+  switch (graha) {
+    case 'sun':
+      return getSunLongitude(t);
+    case 'moon':
+      return getMoonLongitude(t);
+    case 'rahu':
+      return getMeanNodeLongitude(t);
+    case 'ketu':
+      return normalizeDegrees(getMeanNodeLongitude(t) + 180);
+    default:
+      return getPlanetLongitude(graha, t);
+  }
+};
+
+/**
+ * Daily motion of a graha (degrees/day, negative when retrograde)
+ */
+export const getDailyMotion = (graha: GrahaId, julianDay: number): number => {
+  const before = getTropicalLongitude(graha, julianDay - 0.5);
+  const after = getTropicalLongitude(graha, julianDay + 0.5);
+  // Unwrap across 0° Aries
+  return ((after - before + 540) % 360) - 180;
+};
+
+/**
+ * Tropical longitude of the ascendant (degrees)
+ * @param julianDay - Julian Day (UT)
+ * @param latitude - Geographic latitude (north positive)
+ * @param longitude - Geographic longitude (east positive)
+ */
+export const getTropicalAscendant = (
+  julianDay: number,
+  latitude: number,
+  longitude: number
+): number => {
+  const localSiderealTime = normalizeDegrees(getSiderealTime(julianDay) + longitude);
+  const obliquity = getObliquity(julianDay);
+
+  const ascendant = Math.atan2(
+    cos(localSiderealTime),
+    -(sin(localSiderealTime) * cos(obliquity) + Math.tan(latitude * DEG) * sin(obliquity))
+  );
+  return normalizeDegrees(ascendant / DEG);
+};
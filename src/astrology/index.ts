@@ -0,0 +1,18 @@
+/**
+ * Astrology Engine Index
+ * On-device Vedic calculations (no network required)
+ */
+
+export * from './constants';
+export * from './time';
+export * from './ephemeris';
+export * from './ayanamsa';
+export * from './birthChart';
+export * from './labels';
+export * from './vargas';
+export * from './dasha';
+export * from './transits';
+export * from './panchang';
+export * from './manglik';
+export * from './matching';
+export * from './porutham';
@@ -0,0 +1,322 @@
+/**
+ * Chart Labels
+ * English and Tamil glyphs and names for grahas, signs, nakshatras and vargas
+ */
+
+import { GrahaId, TransitNote, VargaId } from '../types/astrology';
+import { ReportLanguage } from '../types/kundli';
+import { GRAHA_NAMES, NAKSHATRAS, SIGNS, TAMIL_MONTHS } from './constants';
+
+// Chart bodies: the nine grahas plus the lagna (ascendant)
+export type ChartBodyId = GrahaId | 'lagna';
+
+// Short glyphs drawn inside chart houses
+export const GRAHA_GLYPHS: Record<ReportLanguage, Record<ChartBodyId, string>> = {
+  en: {
+    sun: 'Su',
+    moon: 'Mo',
+    mars: 'Ma',
+    mercury: 'Me',
+    jupiter: 'Ju',
+    venus: 'Ve',
+    saturn: 'Sa',
+    rahu: 'Ra',
+    ketu: 'Ke',
+    lagna: 'Asc',
+  },
+  ta: {
+    sun: 'சூ',
+    moon: 'சந்',
+    mars: 'செ',
+    mercury: 'பு',
+    jupiter: 'கு',
+    venus: 'சு',
+    saturn: 'சனி',
+    rahu: 'ரா',
+    ketu: 'கே',
+    lagna: 'ல',
+  },
+};
+
+export const GRAHA_LABELS: Record<ReportLanguage, Record<ChartBodyId, string>> = {
+  en: { ...GRAHA_NAMES, lagna: 'Lagna' },
+  ta: {
+    sun: 'சூரியன்',
+    moon: 'சந்திரன்',
+    mars: 'செவ்வாய்',
+    mercury: 'புதன்',
+    jupiter: 'குரு',
+    venus: 'சுக்கிரன்',
+    saturn: 'சனி',
+    rahu: 'ராகு',
+    ketu: 'கேது',
+    lagna: 'லக்னம்',
+  },
+};
+
+// Sign names from Aries (index 0)
+export const SIGN_LABELS: Record<ReportLanguage, string[]> = {
+  en: SIGNS.map((sign) => sign.name),
+  ta: [
+    'மேஷம்',
+    'ரிஷபம்',
+    'மிதுனம்',
+    'கடகம்',
+    'சிம்மம்',
+    'கன்னி',
+    'துலாம்',
+    'விருச்சிகம்',
+    'தனுசு',
+    'மகரம்',
+    'கும்பம்',
+    'மீனம்',
+  ],
+};
+
+// Tamil solar months from Chithirai (index 0)
+export const TAMIL_MONTH_LABELS: Record<ReportLanguage, string[]> = {
+  en: TAMIL_MONTHS,
+  ta: [
+    'சித்திரை',
+    'வைகாசி',
+    'ஆனி',
+    'ஆடி',
+    'ஆவணி',
+    'புரட்டாசி',
+    'ஐப்பசி',
+    'கார்த்திகை',
+    'மார்கழி',
+    'தை',
+    'மாசி',
+    'பங்குனி',
+  ],
+};
+
+// Abbreviated sign names that fit a South Indian chart cell
+export const SIGN_SHORT_LABELS: Record<ReportLanguage, string[]> = {
+  en: SIGNS.map((sign) => sign.name.slice(0, 3)),
+  ta: ['மேஷ', 'ரிஷ', 'மிது', 'கட', 'சிம்', 'கன்', 'துலா', 'விரு', 'தனு', 'மக', 'கும்', 'மீன'],
+};
+
+// Markers appended to a glyph ('வ' = vakram, retrograde)
+export const CHART_MARKERS: Record<ReportLanguage, { retrograde: string; exalted: string; debilitated: string }> = {
+  en: { retrograde: '(R)', exalted: '↑', debilitated: '↓' },
+  ta: { retrograde: '(வ)', exalted: '↑', debilitated: '↓' },
+};
+
+export const CHART_TEXT: Record<ReportLanguage, {
+  house: string;
+  emptyHouse: string;
+  tapHint: string;
+  retrograde: string;
+  exalted: string;
+  debilitated: string;
+  transit: string;
+}> = {
+  en: {
+    house: 'House',
+    emptyHouse: 'No grahas in this house',
+    tapHint: 'Tap a house for details',
+    retrograde: 'Retrograde',
+    exalted: 'Exalted',
+    debilitated: 'Debilitated',
+    transit: 'Transit',
+  },
+  ta: {
+    house: 'பாவம்',
+    emptyHouse: 'இந்த பாவத்தில் கிரகங்கள் இல்லை',
+    tapHint: 'விவரங்களுக்கு ஒரு பாவத்தைத் தொடவும்',
+    retrograde: 'வக்ரம்',
+    exalted: 'உச்சம்',
+    debilitated: 'நீசம்',
+    transit: 'கோசாரம்',
+  },
+};
+
+// First two letters of the English name identify a body ('Sun', 'Su', 'SUN')
+const BODY_PREFIXES: Record<string, ChartBodyId> = {
+  su: 'sun',
+  mo: 'moon',
+  ma: 'mars',
+  me: 'mercury',
+  ju: 'jupiter',
+  ve: 'venus',
+  sa: 'saturn',
+  ra: 'rahu',
+  ke: 'ketu',
+  as: 'lagna',
+  la: 'lagna',
+};
+
+/**
+ * Resolve a planet name or abbreviation from the API to a chart body
+ * @returns ChartBodyId, or null if unrecognised
+ */
+export const getChartBodyId = (name: string): ChartBodyId | null =>
+  BODY_PREFIXES[name.trim().slice(0, 2).toLowerCase()] ?? null;
+
+/**
+ * Index of an English sign name (0 = Aries), or -1 if unknown
+ */
+export const getSignIndex = (name: string): number =>
+  SIGNS.findIndex((sign) => sign.name.toLowerCase() === name.trim().toLowerCase());
+
+// Nakshatra names from Ashwini (index 0)
+export const NAKSHATRA_LABELS: Record<ReportLanguage, string[]> = {
+  en: NAKSHATRAS.map((nakshatra) => nakshatra.name),
+  ta: [
+    'அஸ்வினி',
+    'பரணி',
+    'கிருத்திகை',
+    'ரோகிணி',
+    'மிருகசீரிடம்',
+    'திருவாதிரை',
+    'புனர்பூசம்',
+    'பூசம்',
+    'ஆயில்யம்',
+    'மகம்',
+    'பூரம்',
+    'உத்திரம்',
+    'அஸ்தம்',
+    'சித்திரை',
+    'சுவாதி',
+    'விசாகம்',
+    'அனுஷம்',
+    'கேட்டை',
+    'மூலம்',
+    'பூராடம்',
+    'உத்திராடம்',
+    'திருவோணம்',
+    'அவிட்டம்',
+    'சதயம்',
+    'பூரட்டாதி',
+    'உத்திரட்டாதி',
+    'ரேவதி',
+  ],
+};
+
+export const DASHA_LEVEL_LABELS: Record<ReportLanguage, string[]> = {
+  en: ['Mahadasha', 'Antardasha', 'Pratyantardasha', 'Sookshma', 'Prana'],
+  ta: ['மகா தசை', 'புக்தி', 'அந்தரம்', 'சூட்சுமம்', 'பிராணம்'],
+};
+
+// Tamil names and significations of the Shodasavarga charts
+export const VARGA_LABELS_TA: Record<VargaId, { name: string; signifies: string }> = {
+  D1: { name: 'ராசி', signifies: 'உடல் மற்றும் பொது வாழ்க்கை' },
+  D2: { name: 'ஹோரை', signifies: 'செல்வம்' },
+  D3: { name: 'திரேக்காணம்', signifies: 'உடன்பிறப்புகள் மற்றும் தைரியம்' },
+  D4: { name: 'சதுர்த்தாம்சம்', signifies: 'சொத்து மற்றும் அதிர்ஷ்டம்' },
+  D7: { name: 'சப்தாம்சம்', signifies: 'குழந்தைகள்' },
+  D9: { name: 'நவாம்சம்', signifies: 'வாழ்க்கைத் துணை மற்றும் தர்மம்' },
+  D10: { name: 'தசாம்சம்', signifies: 'தொழில்' },
+  D12: { name: 'துவாதசாம்சம்', signifies: 'பெற்றோர்' },
+  D16: { name: 'சோடசாம்சம்', signifies: 'வாகனங்கள் மற்றும் வசதிகள்' },
+  D20: { name: 'விம்சாம்சம்', signifies: 'ஆன்மிக முன்னேற்றம்' },
+  D24: { name: 'சதுர்விம்சாம்சம்', signifies: 'கல்வி' },
+  D27: { name: 'சப்தவிம்சாம்சம்', signifies: 'பலம் மற்றும் பலவீனம்' },
+  D30: { name: 'திரிம்சாம்சம்', signifies: 'துன்பங்கள்' },
+  D40: { name: 'கவேதாம்சம்', signifies: 'தாய்வழி மரபு' },
+  D45: { name: 'அக்ஷவேதாம்சம்', signifies: 'குணம் மற்றும் தந்தைவழி மரபு' },
+  D60: { name: 'சஷ்டியாம்சம்', signifies: 'பூர்வ கர்மா' },
+};
+
+export const TRANSIT_NOTE_LABELS: Record<ReportLanguage, Record<TransitNote, string>> = {
+  en: {
+    natal_moon: 'Over natal Moon',
+    natal_lagna: 'Over lagna',
+    sade_sati_begins: 'Sade Sati begins',
+    sade_sati_ends: 'Sade Sati ends',
+    ashtama_shani: 'Ashtama Shani',
+  },
+  ta: {
+    natal_moon: 'ஜன்ம சந்திரன் மீது',
+    natal_lagna: 'லக்னத்தின் மீது',
+    sade_sati_begins: 'ஏழரை சனி ஆரம்பம்',
+    sade_sati_ends: 'ஏழரை சனி நிறைவு',
+    ashtama_shani: 'அஷ்டம சனி',
+  },
+};
+
+// Tamil names for everything else the API sends in English: Yoginis, dasha
+// systems and the common spelling variants of nakshatra names
+const TAMIL_NAMES: Record<string, string> = {
+  mangala: 'மங்களா',
+  pingala: 'பிங்களா',
+  dhanya: 'தான்யா',
+  bhramari: 'பிராமரி',
+  bhadrika: 'பத்ரிகா',
+  ulka: 'உல்கா',
+  siddha: 'சித்தா',
+  sankata: 'சங்கடா',
+  vimshottari: 'விம்சோத்தரி',
+  yogini: 'யோகினி',
+  ashtottari: 'அஷ்டோத்தரி',
+  ascendant: 'லக்னம்',
+  aswini: 'அஸ்வினி',
+  ashvini: 'அஸ்வினி',
+  krithika: 'கிருத்திகை',
+  kritika: 'கிருத்திகை',
+  mrigasira: 'மிருகசீரிடம்',
+  mrigashirsha: 'மிருகசீரிடம்',
+  arudra: 'திருவாதிரை',
+  aridra: 'திருவாதிரை',
+  pushyami: 'பூசம்',
+  aslesha: 'ஆயில்யம்',
+  ashlesa: 'ஆயில்யம்',
+  makha: 'மகம்',
+  purvaphalguni: 'பூரம்',
+  poorvaphalguni: 'பூரம்',
+  uttaraphalguni: 'உத்திரம்',
+  hastha: 'அஸ்தம்',
+  chithra: 'சித்திரை',
+  svati: 'சுவாதி',
+  swathi: 'சுவாதி',
+  visakha: 'விசாகம்',
+  vishaka: 'விசாகம்',
+  jyeshta: 'கேட்டை',
+  jyestha: 'கேட்டை',
+  moola: 'மூலம்',
+  purvashadha: 'பூராடம்',
+  poorvashadha: 'பூராடம்',
+  uttarashadha: 'உத்திராடம்',
+  sravana: 'திருவோணம்',
+  shravan: 'திருவோணம்',
+  dhanishtha: 'அவிட்டம்',
+  satabhisha: 'சதயம்',
+  shatabhishak: 'சதயம்',
+  purvabhadra: 'பூரட்டாதி',
+  poorvabhadrapada: 'பூரட்டாதி',
+  uttarabhadra: 'உத்திரட்டாதி',
+  revathi: 'ரேவதி',
+};
+
+// 'Purva Phalguni', 'purva-phalguni' and 'PurvaPhalguni' all compare equal
+const toKey = (name: string): string => name.toLowerCase().replace(/[^a-z]/g, '');
+
+const NAME_INDEX: Record<string, Record<ReportLanguage, string>> = {};
+const addNames = (en: string[], ta: string[]) =>
+  en.forEach((name, index) => {
+    NAME_INDEX[toKey(name)] = { en: name, ta: ta[index] };
+  });
+addNames(SIGN_LABELS.en, SIGN_LABELS.ta);
+addNames(NAKSHATRA_LABELS.en, NAKSHATRA_LABELS.ta);
+addNames(Object.values(GRAHA_LABELS.en), Object.values(GRAHA_LABELS.ta));
+
+/**
+ * Planet, sign or nakshatra name from the API in the given language
+ * Names the dictionary doesn't know - including names the server already
+ * sent in Tamil - are returned unchanged.
+ * @param name - Name as sent by the API (usually English)
+ * @param language - Display language
+ * @returns string
+ */
+export const localizeName = (name: string | undefined, language: ReportLanguage): string => {
+  if (!name) return '';
+  const key = toKey(name);
+  const entry = NAME_INDEX[key];
+  if (entry) return entry[language];
+  if (language === 'ta' && TAMIL_NAMES[key]) return TAMIL_NAMES[key];
+  // Abbreviations such as 'Su' or 'Asc'; longer names would match signs and nakshatras
+  const bodyId = key.length <= 3 ? getChartBodyId(key) : null;
+  return bodyId ? GRAHA_LABELS[language][bodyId] : name;
+};
@@ -0,0 +1,234 @@
+/**
+ * Manglik
+ * Mangal Dosha with its classical cancellations
+ *
+ * Mars in the 1st, 2nd, 4th, 7th, 8th or 12th house counted from the lagna,
+ * the Moon or Venus makes a chart Manglik. Any one of the personal
+ * cancellations below clears that partner's dosha, and two Manglik charts
+ * clear each other. Mitigating rules (the age rule, which not every
+ * tradition accepts) are reported without clearing anything. Every rule that
+ * fires is reported so the user can see why a match is still acceptable.
+ */
+
+import { BirthChart } from '../types/astrology';
+import {
+  MangalDoshaStatus,
+  ManglikPlacement,
+  ManglikReference,
+  ManglikRule,
+  MatchingReport,
+} from '../types/kundli';
+import { SIGNS } from './constants';
+import { getGraha, getHouse } from './birthChart';
+
+type MangalDosha = MatchingReport['doshaAnalysis']['mangalDosha'];
+
+// Mars and the grahas its cancellations look at, for one partner
+export interface ManglikChart {
+  placements: ManglikPlacement[];
+  marsSignIndex: number;
+  marsHouse: number; // From the lagna
+  moonSignIndex: number;
+  jupiterSignIndex: number;
+  age: number;
+}
+
+interface PersonalRule {
+  id: string;
+  name: string;
+  applies: (chart: ManglikChart) => boolean;
+  describe: (chart: ManglikChart) => string;
+  mitigating?: boolean; // Softens the dosha without cancelling it
+}
+
+const MANGAL_DOSHA_HOUSES = [1, 2, 4, 7, 8, 12];
+
+const REFERENCE_LABELS: Record<ManglikReference, string> = {
+  lagna: 'the lagna',
+  moon: 'the Moon',
+  venus: 'Venus',
+};
+
+const MARS_OWN_SIGNS = [0, 7]; // Aries, Scorpio
+const MARS_EXALTATION_SIGN = 9; // Capricorn
+const MARS_NEUTRAL_SIGNS = [4, 10]; // Leo, Aquarius
+
+// Signs in which Mars does no harm from a given house of the lagna
+const HOUSE_SIGN_EXCEPTIONS: Record<number, number[]> = {
+  2: [2, 5], // Gemini, Virgo
+  4: [0, 7], // Aries, Scorpio
+  7: [3, 9], // Cancer, Capricorn
+  8: [8, 11], // Sagittarius, Pisces
+  12: [1, 6], // Taurus, Libra
+};
+
+// Houses from Jupiter that it conjoins or aspects (5th, 7th and 9th)
+const JUPITER_ASPECT_HOUSES = [1, 5, 7, 9];
+
+// The dosha is held to weaken after this age
+const MANGLIK_AGE_LIMIT = 28;
+
+const ordinal = (house: number): string => {
+  if (house === 1) return '1st';
+  if (house === 2) return '2nd';
+  if (house === 3) return '3rd';
+  return `${house}th`;
+};
+
+const marsSign = (chart: ManglikChart) => SIGNS[chart.marsSignIndex].name;
+
+const PERSONAL_RULES: PersonalRule[] = [
+  {
+    id: 'own_sign',
+    name: 'Mars in own sign',
+    applies: (chart) => MARS_OWN_SIGNS.includes(chart.marsSignIndex),
+    describe: (chart) => `Mars is in its own sign ${marsSign(chart)}.`,
+  },
+  {
+    id: 'exalted',
+    name: 'Mars exalted',
+    applies: (chart) => chart.marsSignIndex === MARS_EXALTATION_SIGN,
+    describe: () => 'Mars is exalted in Capricorn.',
+  },
+  {
+    id: 'house_sign',
+    name: 'House and sign exception',
+    applies: (chart) => !!HOUSE_SIGN_EXCEPTIONS[chart.marsHouse]?.includes(chart.marsSignIndex),
+    describe: (chart) => `Mars in ${marsSign(chart)} in the ${ordinal(chart.marsHouse)} house from the lagna does not cause the dosha.`,
+  },
+  {
+    id: 'leo_aquarius',
+    name: 'Mars in Leo or Aquarius',
+    applies: (chart) => MARS_NEUTRAL_SIGNS.includes(chart.marsSignIndex),
+    describe: (chart) => `Mars in ${marsSign(chart)} does not cause the dosha in any house.`,
+  },
+  {
+    id: 'jupiter',
+    name: 'Jupiter conjoins or aspects Mars',
+    applies: (chart) => JUPITER_ASPECT_HOUSES.includes(getHouse(chart.marsSignIndex, chart.jupiterSignIndex)),
+    describe: (chart) => chart.jupiterSignIndex === chart.marsSignIndex
+      ? 'Jupiter conjoins Mars and restrains it.'
+      : 'Jupiter aspects Mars and restrains it.',
+  },
+  {
+    id: 'moon',
+    name: 'Chandra-Mangala Yoga',
+    applies: (chart) => chart.moonSignIndex === chart.marsSignIndex,
+    describe: () => 'The Moon conjoins Mars, forming Chandra-Mangala Yoga.',
+  },
+  {
+    id: 'age',
+    name: 'Age',
+    applies: (chart) => chart.age >= MANGLIK_AGE_LIMIT,
+    describe: (chart) => `At ${chart.age}, past ${MANGLIK_AGE_LIMIT}, the dosha is held to have weakened.`,
+    mitigating: true,
+  },
+];
+
+// Completed years between a YYYY-MM-DD birth date and a date
+const getAge = (dateOfBirth: string, asOf: Date): number => {
+  const [year, month, day] = dateOfBirth.split('-').map(Number);
+  const hadBirthday = asOf.getMonth() + 1 > month || (asOf.getMonth() + 1 === month && asOf.getDate() >= day);
+  return asOf.getFullYear() - year - (hadBirthday ? 0 : 1);
+};
+
+/**
+ * Mars placements and cancellation inputs of one partner's chart
+ * @param chart - Birth chart
+ * @param dateOfBirth - YYYY-MM-DD, for the age rule
+ * @param asOf - Date the age is reckoned at
+ * @returns ManglikChart
+ */
+export const getManglikChart = (chart: BirthChart, dateOfBirth: string, asOf: Date = new Date()): ManglikChart => {
+  const mars = getGraha(chart, 'mars');
+  const moon = getGraha(chart, 'moon');
+  const references: [ManglikReference, number][] = [
+    ['lagna', chart.ascendant.signIndex],
+    ['moon', moon.signIndex],
+    ['venus', getGraha(chart, 'venus').signIndex],
+  ];
+
+  return {
+    placements: references.map(([reference, signIndex]) => {
+      const house = getHouse(mars.signIndex, signIndex);
+      return { reference, house, afflicted: MANGAL_DOSHA_HOUSES.includes(house) };
+    }),
+    marsSignIndex: mars.signIndex,
+    marsHouse: mars.house,
+    moonSignIndex: moon.signIndex,
+    jupiterSignIndex: getGraha(chart, 'jupiter').signIndex,
+    age: getAge(dateOfBirth, asOf),
+  };
+};
+
+const isManglik = (chart: ManglikChart): boolean => chart.placements.some((placement) => placement.afflicted);
+
+// Where Mars afflicts the chart from, for the rule descriptions
+const describeDosha = (name: string, chart: ManglikChart): string => {
+  const afflicted = chart.placements
+    .filter((placement) => placement.afflicted)
+    .map((placement) => `${ordinal(placement.house)} from ${REFERENCE_LABELS[placement.reference]}`);
+  return `${name} is Manglik (Mars ${afflicted.join(', ')})`;
+};
+
+// One line of the free-text cancellation, naming whose chart the rule is in
+const describeRule = (rule: ManglikRule, boyName: string, girlName: string): string => {
+  if (rule.appliesTo === 'both') return rule.description;
+  return `${rule.appliesTo === 'boy' ? boyName : girlName}: ${rule.description}`;
+};
+
+/**
+ * Mangal Dosha of a couple, with every classical cancellation that fired
+ * @param boy - Boy's name and Manglik chart
+ * @param girl - Girl's name and Manglik chart
+ * @returns Mangal Dosha analysis - status 'none', 'present' or 'cancelled'
+ */
+export const evaluateMangalDosha = (
+  boy: { name: string; chart: ManglikChart },
+  girl: { name: string; chart: ManglikChart }
+): MangalDosha => {
+  const boyHasDosha = isManglik(boy.chart);
+  const girlHasDosha = isManglik(girl.chart);
+  const rules: ManglikRule[] = [];
+
+  // Personal cancellations only matter for a partner who has the dosha
+  const applyPersonalRules = (chart: ManglikChart, appliesTo: ManglikRule['appliesTo']): boolean => {
+    const fired = PERSONAL_RULES.filter((rule) => rule.applies(chart));
+    fired.forEach((rule) => rules.push({
+      id: rule.id,
+      name: rule.name,
+      description: rule.describe(chart),
+      appliesTo,
+      ...(rule.mitigating && { mitigating: true }),
+    }));
+    return fired.some((rule) => !rule.mitigating);
+  };
+  const boyCancelled = boyHasDosha && applyPersonalRules(boy.chart, 'boy');
+  const girlCancelled = girlHasDosha && applyPersonalRules(girl.chart, 'girl');
+
+  const mutual = boyHasDosha && girlHasDosha;
+  if (mutual) {
+    rules.push({
+      id: 'mutual',
+      name: 'Mutual dosha',
+      description: `${describeDosha(boy.name, boy.chart)} and ${describeDosha(girl.name, girl.chart)}, so the doshas cancel each other.`,
+      appliesTo: 'both',
+    });
+  }
+
+  let status: MangalDoshaStatus = 'none';
+  if (boyHasDosha || girlHasDosha) {
+    // Without mutual dosha only one partner is Manglik
+    status = mutual || boyCancelled || girlCancelled ? 'cancelled' : 'present';
+  }
+
+  return {
+    boyHasDosha,
+    girlHasDosha,
+    cancellation: rules.length > 0 ? rules.map((rule) => describeRule(rule, boy.name, girl.name)).join(' ') : null,
+    status,
+    boyPlacements: boy.chart.placements,
+    girlPlacements: girl.chart.placements,
+    rules,
+  };
+};
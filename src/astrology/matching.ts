@@ -0,0 +1,422 @@
+/**
+ * Matching
+ * Ashtakoot Guna Milan from the Moon of both partners, with Nadi and Mangal Dosha
+ *
+ * Each koota compares the boy's and girl's Moon sign or nakshatra and scores
+ * out of its weight (1 to 8, 36 in all). Tables follow the common North
+ * Indian reckoning; where the boy and girl are scored differently the boy
+ * is the first index.
+ */
+
+import { CalculationOptions, Gana } from '../types/astrology';
+import { MatchingInput, MatchingPerson, MatchingReport } from '../types/kundli';
+import { NAKSHATRAS, NATURAL_RELATIONSHIPS, SIGNS, SIGN_SPAN } from './constants';
+import { calculateBirthChart, getGraha, getHouse } from './birthChart';
+import { ManglikChart, evaluateMangalDosha, getManglikChart } from './manglik';
+
+export const ASHTAKOOT_MAX_SCORE = 36;
+
+type Rating = MatchingReport['verdict']['rating'];
+
+// Moon and Mars of one partner, the only parts of the chart matching reads
+export interface MatchingMoon {
+  name: string;
+  signIndex: number;
+  degreeInSign: number;
+  nakshatraIndex: number;
+  pada: number;
+  manglik: ManglikChart;
+}
+
+interface KootaResult {
+  points: number;
+  boyAttribute: string;
+  girlAttribute: string;
+}
+
+interface Koota {
+  id: string;
+  name: string;
+  maxPoints: number;
+  description: string;
+  score: (boy: MatchingMoon, girl: MatchingMoon) => KootaResult;
+}
+
+// Varna by element of the Moon sign, highest first
+const VARNAS = ['Brahmin', 'Kshatriya', 'Vaishya', 'Shudra'];
+const VARNA_BY_ELEMENT = { Water: 0, Fire: 1, Earth: 2, Air: 3 };
+
+const VASHYAS = ['Chatushpada', 'Manava', 'Jalachara', 'Vanachara', 'Keeta'];
+
+// Vashya group by sign; Sagittarius and Capricorn change group at 15°
+const getVashya = (moon: MatchingMoon): number => {
+  const secondHalf = moon.degreeInSign >= SIGN_SPAN / 2;
+  switch (moon.signIndex) {
+    case 0: case 1: return 0; // Aries, Taurus
+    case 2: case 5: case 6: case 10: return 1; // Gemini, Virgo, Libra, Aquarius
+    case 3: case 11: return 2; // Cancer, Pisces
+    case 4: return 3; // Leo
+    case 7: return 4; // Scorpio
+    case 8: return secondHalf ? 0 : 1; // Sagittarius
+    default: return secondHalf ? 2 : 0; // Capricorn
+  }
+};
+
+const VASHYA_POINTS = [
+  [2, 1, 1, 0.5, 1],
+  [1, 2, 0.5, 0, 1],
+  [1, 0.5, 2, 1, 1],
+  [0.5, 0, 1, 2, 0],
+  [1, 1, 1, 0, 2],
+];
+
+const TARAS = ['Janma', 'Sampat', 'Vipat', 'Kshema', 'Pratyari', 'Sadhaka', 'Vadha', 'Mitra', 'Ati Mitra'];
+const INAUSPICIOUS_TARAS = [2, 4, 6]; // Vipat, Pratyari, Vadha
+
+// Tara (0-8) of a nakshatra counted from another
+const getTara = (from: number, to: number): number => ((to - from + 27) % 27) % 9;
+
+const YONIS = [
+  'Horse', 'Elephant', 'Sheep', 'Serpent', 'Dog', 'Cat', 'Rat',
+  'Cow', 'Buffalo', 'Tiger', 'Deer', 'Monkey', 'Mongoose', 'Lion',
+];
+
+// Sworn enemies (Cow-Tiger, Horse-Buffalo, ...) score 0
+const YONI_POINTS = [
+  [4, 2, 2, 3, 2, 2, 2, 1, 0, 1, 3, 3, 2, 1],
+  [2, 4, 3, 3, 2, 2, 2, 2, 3, 1, 2, 3, 2, 0],
+  [2, 3, 4, 2, 1, 2, 1, 3, 3, 1, 2, 0, 3, 1],
+  [3, 3, 2, 4, 2, 1, 1, 1, 1, 2, 2, 2, 0, 2],
+  [2, 2, 1, 2, 4, 2, 1, 2, 2, 1, 0, 2, 1, 1],
+  [2, 2, 2, 1, 2, 4, 0, 2, 2, 1, 3, 3, 2, 1],
+  [2, 2, 1, 1, 1, 0, 4, 2, 2, 2, 2, 2, 1, 2],
+  [1, 2, 3, 1, 2, 2, 2, 4, 3, 0, 3, 2, 2, 1],
+  [0, 3, 3, 1, 2, 2, 2, 3, 4, 1, 2, 2, 2, 1],
+  [1, 1, 1, 2, 1, 1, 2, 0, 1, 4, 1, 1, 2, 1],
+  [3, 2, 2, 2, 0, 3, 2, 3, 2, 1, 4, 2, 2, 1],
+  [3, 3, 0, 2, 2, 3, 2, 2, 2, 1, 2, 4, 3, 2],
+  [2, 2, 3, 0, 1, 2, 1, 2, 2, 2, 2, 3, 4, 2],
+  [1, 0, 1, 2, 1, 1, 2, 1, 1, 1, 1, 2, 2, 4],
+];
+
+type Relationship = 'friend' | 'neutral' | 'enemy';
+
+const getRelationship = (lord: string, other: string): Relationship => {
+  const relationships = NATURAL_RELATIONSHIPS[lord];
+  if (relationships.friends.includes(other)) return 'friend';
+  if (relationships.enemies.includes(other)) return 'enemy';
+  return 'neutral';
+};
+
+// Graha Maitri points by how each lord sees the other, in either order
+const MAITRI_POINTS: Record<string, number> = {
+  'friend-friend': 5,
+  'friend-neutral': 4,
+  'neutral-neutral': 3,
+  'enemy-friend': 1,
+  'enemy-neutral': 0.5,
+  'enemy-enemy': 0,
+};
+
+const GANAS: Gana[] = ['Deva', 'Manushya', 'Rakshasa'];
+const GANA_POINTS = [
+  [6, 6, 1],
+  [5, 6, 0],
+  [1, 0, 6],
+];
+
+// Moon signs 2/12, 5/9 or 6/8 apart
+const BHAKOOT_DOSHA_DISTANCES = [2, 12, 5, 9, 6, 8];
+
+const KOOTAS: Koota[] = [
+  {
+    id: 'varna',
+    name: 'Varna',
+    maxPoints: 1,
+    description: 'Varna represents the spiritual compatibility and ego levels. It indicates the mental compatibility of the couple.',
+    score: (boy, girl) => {
+      const boyVarna = VARNA_BY_ELEMENT[SIGNS[boy.signIndex].element];
+      const girlVarna = VARNA_BY_ELEMENT[SIGNS[girl.signIndex].element];
+      return {
+        points: boyVarna <= girlVarna ? 1 : 0,
+        boyAttribute: VARNAS[boyVarna],
+        girlAttribute: VARNAS[girlVarna],
+      };
+    },
+  },
+  {
+    id: 'vashya',
+    name: 'Vashya',
+    maxPoints: 2,
+    description: 'Vashya indicates the power equation and mutual attraction between partners. It shows who will have more influence in the relationship.',
+    score: (boy, girl) => {
+      const boyVashya = getVashya(boy);
+      const girlVashya = getVashya(girl);
+      return {
+        points: VASHYA_POINTS[boyVashya][girlVashya],
+        boyAttribute: VASHYAS[boyVashya],
+        girlAttribute: VASHYAS[girlVashya],
+      };
+    },
+  },
+  {
+    id: 'tara',
+    name: 'Tara',
+    maxPoints: 3,
+    description: 'Tara or Dina represents the birth star compatibility. It indicates the health and well-being of both partners after marriage.',
+    score: (boy, girl) => {
+      // Each partner's star counted from the other's; 1.5 points for each auspicious Tara
+      const fromGirl = getTara(girl.nakshatraIndex, boy.nakshatraIndex);
+      const fromBoy = getTara(boy.nakshatraIndex, girl.nakshatraIndex);
+      const auspicious = [fromGirl, fromBoy].filter((tara) => !INAUSPICIOUS_TARAS.includes(tara)).length;
+      return {
+        points: auspicious * 1.5,
+        boyAttribute: `${NAKSHATRAS[boy.nakshatraIndex].name} (${TARAS[fromGirl]})`,
+        girlAttribute: `${NAKSHATRAS[girl.nakshatraIndex].name} (${TARAS[fromBoy]})`,
+      };
+    },
+  },
+  {
+    id: 'yoni',
+    name: 'Yoni',
+    maxPoints: 4,
+    description: 'Yoni represents physical and sexual compatibility between partners. It indicates the intimacy and physical attraction.',
+    score: (boy, girl) => {
+      const boyYoni = YONIS.indexOf(NAKSHATRAS[boy.nakshatraIndex].animal);
+      const girlYoni = YONIS.indexOf(NAKSHATRAS[girl.nakshatraIndex].animal);
+      return {
+        points: YONI_POINTS[boyYoni][girlYoni],
+        boyAttribute: YONIS[boyYoni],
+        girlAttribute: YONIS[girlYoni],
+      };
+    },
+  },
+  {
+    id: 'graha_maitri',
+    name: 'Graha Maitri',
+    maxPoints: 5,
+    description: 'Graha Maitri or Rasyadhipati indicates the mental compatibility and friendship between the couple based on Moon sign lords.',
+    score: (boy, girl) => {
+      const boyLord = SIGNS[boy.signIndex].lord;
+      const girlLord = SIGNS[girl.signIndex].lord;
+      const key = [getRelationship(boyLord, girlLord), getRelationship(girlLord, boyLord)].sort().join('-');
+      return {
+        points: boyLord === girlLord ? 5 : MAITRI_POINTS[key],
+        boyAttribute: boyLord,
+        girlAttribute: girlLord,
+      };
+    },
+  },
+  {
+    id: 'gana',
+    name: 'Gana',
+    maxPoints: 6,
+    description: 'Gana represents the temperament and behavior compatibility. It indicates how well the couple will get along in daily life.',
+    score: (boy, girl) => {
+      const boyGana = NAKSHATRAS[boy.nakshatraIndex].gana;
+      const girlGana = NAKSHATRAS[girl.nakshatraIndex].gana;
+      return {
+        points: GANA_POINTS[GANAS.indexOf(boyGana)][GANAS.indexOf(girlGana)],
+        boyAttribute: boyGana,
+        girlAttribute: girlGana,
+      };
+    },
+  },
+  {
+    id: 'bhakoot',
+    name: 'Bhakoot',
+    maxPoints: 7,
+    description: 'Bhakoot or Rashikoot indicates the emotional compatibility and love between partners. It affects the financial prosperity and family happiness.',
+    score: (boy, girl) => ({
+      points: BHAKOOT_DOSHA_DISTANCES.includes(getHouse(boy.signIndex, girl.signIndex)) ? 0 : 7,
+      boyAttribute: SIGNS[boy.signIndex].name,
+      girlAttribute: SIGNS[girl.signIndex].name,
+    }),
+  },
+  {
+    id: 'nadi',
+    name: 'Nadi',
+    maxPoints: 8,
+    description: 'Nadi is the most important factor in Kundli matching. It indicates the genetic compatibility and health of future children.',
+    score: (boy, girl) => {
+      const boyNadi = NAKSHATRAS[boy.nakshatraIndex].nadi;
+      const girlNadi = NAKSHATRAS[girl.nakshatraIndex].nadi;
+      return {
+        points: boyNadi === girlNadi ? 0 : 8,
+        boyAttribute: boyNadi,
+        girlAttribute: girlNadi,
+      };
+    },
+  },
+];
+
+/**
+ * Moon sign, nakshatra and Mars placements of one partner
+ * @param person - Birth details
+ * @param options - Calculation options (ayanamsa)
+ * @returns MatchingMoon
+ */
+export const getMatchingMoon = (person: MatchingPerson, options: CalculationOptions = {}): MatchingMoon => {
+  const chart = calculateBirthChart(person, options);
+  const moon = getGraha(chart, 'moon');
+  return {
+    name: person.name,
+    signIndex: moon.signIndex,
+    degreeInSign: moon.degreeInSign,
+    nakshatraIndex: moon.nakshatraIndex,
+    pada: moon.pada,
+    manglik: getManglikChart(chart, person.dateOfBirth),
+  };
+};
+
+// Share of the koota's points, in the report's rating scale
+const getRating = (points: number, maxPoints: number): Rating => {
+  const percentage = (points / maxPoints) * 100;
+  if (percentage >= 75) return 'excellent';
+  if (percentage >= 50) return 'good';
+  if (percentage >= 25) return 'average';
+  return 'below_average';
+};
+
+/**
+ * Overall rating of an Ashtakoot score out of 36
+ */
+export const getMatchingRating = (totalScore: number): Rating => {
+  if (totalScore >= 25) return 'excellent';
+  if (totalScore >= 18) return 'good';
+  if (totalScore >= 12) return 'average';
+  return 'below_average';
+};
+
+const VERDICTS: Record<Rating, { description: string; recommendation: string }> = {
+  excellent: {
+    description: 'Highly favorable match with strong prospects for a harmonious and prosperous married life.',
+    recommendation: 'The match is recommended.',
+  },
+  good: {
+    description: 'Favorable match with good prospects for a happy married life.',
+    recommendation: 'The match is recommended. Minor remedies may help enhance compatibility.',
+  },
+  average: {
+    description: 'Acceptable match with some areas that need attention.',
+    recommendation: 'Consult an astrologer for detailed analysis and appropriate remedies.',
+  },
+  below_average: {
+    description: 'Below average compatibility between the partners.',
+    recommendation: 'Consult an experienced astrologer for detailed analysis before proceeding.',
+  },
+};
+
+const getNadiDosha = (boy: MatchingMoon, girl: MatchingMoon): MatchingReport['doshaAnalysis']['nadiDosha'] => {
+  const boyNadi = NAKSHATRAS[boy.nakshatraIndex].nadi;
+  if (boyNadi !== NAKSHATRAS[girl.nakshatraIndex].nadi) {
+    return { present: false, description: `Different Nadis (${boyNadi} and ${NAKSHATRAS[girl.nakshatraIndex].nadi}) - no Nadi Dosha.` };
+  }
+
+  // Classical exceptions: the Moons share a sign but not a star, a star but
+  // not a sign, or a star but not a pada
+  const sameSign = boy.signIndex === girl.signIndex;
+  const sameStar = boy.nakshatraIndex === girl.nakshatraIndex;
+  let exception: string | null = null;
+  if (sameSign && !sameStar) exception = 'share a sign in different nakshatras';
+  else if (sameStar && !sameSign) exception = 'share a nakshatra in different signs';
+  else if (sameStar && boy.pada !== girl.pada) exception = 'share a nakshatra in different padas';
+
+  if (exception) {
+    return {
+      present: false,
+      description: `Both partners have ${boyNadi} Nadi, but the dosha is cancelled as their Moons ${exception}.`,
+    };
+  }
+
+  return {
+    present: true,
+    description: `Both partners have ${boyNadi} Nadi. Nadi Dosha is believed to affect the health of the couple and their children.`,
+  };
+};
+
+const getMangalDosha = (boy: MatchingMoon, girl: MatchingMoon): MatchingReport['doshaAnalysis']['mangalDosha'] =>
+  evaluateMangalDosha({ name: boy.name, chart: boy.manglik }, { name: girl.name, chart: girl.manglik });
+
+/**
+ * Mangal Dosha of a couple with its cancellations, without the rest of the report
+ * @param input - Boy and girl birth details
+ * @param options - Calculation options (ayanamsa)
+ * @returns Mangal Dosha analysis
+ */
+export const calculateMangalDosha = (
+  input: MatchingInput,
+  options: CalculationOptions = {}
+): MatchingReport['doshaAnalysis']['mangalDosha'] =>
+  getMangalDosha(getMatchingMoon(input.boy, options), getMatchingMoon(input.girl, options));
+
+/**
+ * Ashtakoot matching report for two people, computed on-device
+ * @param matchingId - Id of the saved matching the report belongs to
+ * @param input - Boy and girl birth details
+ * @param options - Calculation options (ayanamsa)
+ * @returns MatchingReport
+ */
+export const calculateMatchingReport = (
+  matchingId: string,
+  input: MatchingInput,
+  options: CalculationOptions = {}
+): MatchingReport => {
+  const boy = getMatchingMoon(input.boy, options);
+  const girl = getMatchingMoon(input.girl, options);
+
+  const ashtakootGunas = KOOTAS.map((koota) => {
+    const result = koota.score(boy, girl);
+    return {
+      id: koota.id,
+      name: koota.name,
+      description: koota.description,
+      maxPoints: koota.maxPoints,
+      obtainedPoints: result.points,
+      boyAttribute: result.boyAttribute,
+      girlAttribute: result.girlAttribute,
+      verdict: getRating(result.points, koota.maxPoints),
+    };
+  });
+
+  const totalScore = ashtakootGunas.reduce((sum, guna) => sum + guna.obtainedPoints, 0);
+  const rating = getMatchingRating(totalScore);
+  const nadiDosha = getNadiDosha(boy, girl);
+  const mangalDosha = getMangalDosha(boy, girl);
+  const bhakootDosha = ashtakootGunas.find((guna) => guna.id === 'bhakoot')!.obtainedPoints === 0;
+
+  const recommendations: string[] = [];
+  if (nadiDosha.present) {
+    recommendations.push('Nadi Dosha is present - consult an astrologer about remedies before proceeding.');
+  }
+  if (bhakootDosha) {
+    recommendations.push('Bhakoot Dosha is present - check whether the Moon sign lords are friends, which softens it.');
+  }
+  if (mangalDosha.status === 'present') {
+    recommendations.push(`Mangal Dosha is present in ${mangalDosha.boyHasDosha ? `${input.boy.name}'s` : `${input.girl.name}'s`} chart only - a detailed chart analysis is advised.`);
+  }
+  recommendations.push(VERDICTS[rating].recommendation);
+
+  const summarize = (person: MatchingMoon) => {
+    const nakshatra = NAKSHATRAS[person.nakshatraIndex];
+    return {
+      name: person.name,
+      nakshatra: nakshatra.name,
+      rasi: SIGNS[person.signIndex].name,
+      nakshatraLord: nakshatra.lord,
+    };
+  };
+
+  return {
+    matchingId,
+    boy: summarize(boy),
+    girl: summarize(girl),
+    totalScore,
+    maxScore: ASHTAKOOT_MAX_SCORE,
+    verdict: { rating, ...VERDICTS[rating] },
+    ashtakootGunas,
+    doshaAnalysis: { mangalDosha, nadiDosha },
+    summary: `${input.boy.name} and ${input.girl.name} score ${totalScore} out of ${ASHTAKOOT_MAX_SCORE} in Ashtakoot Guna Milan. ${VERDICTS[rating].description}`,
+    recommendations,
+  };
+};
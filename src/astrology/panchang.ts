@@ -0,0 +1,243 @@
+/**
+ * Panchang
+ * Daily tithi, nakshatra, yoga and karana, sun times, kalams and the Tamil date
+ *
+ * The Panchang day runs from sunrise, so each limb is the one running at
+ * sunrise, with the moment it ends found by stepping forward an hour at a
+ * time and bisecting the step in which it changes. Rahu Kalam, Yamagandam and
+ * Gulika are fixed eighths of the daytime by weekday; Abhijit is the middle
+ * of its fifteen muhurtas.
+ */
+
+import { BirthPlace } from '../types/kundli';
+import { Ayanamsa, CalculationOptions } from '../types/astrology';
+import { Panchang, TamilDate, TimeWindow } from '../types/panchang';
+import { NAKSHATRAS, NAKSHATRA_SPAN, PADA_SPAN, SIGN_SPAN, TAMIL_MONTHS, YOGAS } from './constants';
+import { getObliquity, getSiderealTime, getTropicalLongitude, normalizeDegrees } from './ephemeris';
+import { DEFAULT_AYANAMSA, getAyanamsa, toSidereal } from './ayanamsa';
+import { getKaranaName, getTithi } from './birthChart';
+import { getTimezoneOffset, julianDayToMs, msToJulianDay, toUtcMs } from './time';
+
+const DEG = Math.PI / 180;
+const MS_PER_DAY = 86400000;
+const MS_PER_MINUTE = 60000;
+
+const SUN_ALTITUDE = -0.833; // Upper limb on the horizon, refraction included
+const SIDEREAL_DAY_DEGREES = 360.9856; // Earth's rotation per solar day
+const SEARCH_STEP_DAYS = 1 / 24;
+const MAX_SEARCH_STEPS = 48; // Every limb ends within a day and a bit
+const BISECTION_STEPS = 12; // 1 hour / 2^12 - about a second
+
+// Eighth of the daytime each kalam falls in (1-8), by weekday from Sunday
+const RAHU_KALAM_PARTS = [8, 2, 7, 5, 6, 4, 3];
+const YAMAGANDAM_PARTS = [5, 4, 3, 2, 1, 7, 6];
+const GULIKA_KALAM_PARTS = [7, 6, 5, 4, 3, 2, 1];
+
+const getSunMoon = (julianDay: number, ayanamsa: Ayanamsa) => {
+  const ayanamsaValue = getAyanamsa(julianDay, ayanamsa);
+  return {
+    sun: toSidereal(getTropicalLongitude('sun', julianDay), ayanamsaValue),
+    moon: toSidereal(getTropicalLongitude('moon', julianDay), ayanamsaValue),
+  };
+};
+
+// Index of each limb from the sidereal Sun and Moon
+const LIMBS = {
+  tithi: (sun: number, moon: number) => Math.floor(normalizeDegrees(moon - sun) / 12), // 0-29
+  nakshatra: (sun: number, moon: number) => Math.floor(moon / NAKSHATRA_SPAN) % 27,
+  yoga: (sun: number, moon: number) => Math.floor(normalizeDegrees(sun + moon) / NAKSHATRA_SPAN) % 27,
+  karana: (sun: number, moon: number) => Math.floor(normalizeDegrees(moon - sun) / 6), // 0-59
+};
+
+type Limb = keyof typeof LIMBS;
+
+const getLimbIndex = (limb: Limb, julianDay: number, ayanamsa: Ayanamsa): number => {
+  const { sun, moon } = getSunMoon(julianDay, ayanamsa);
+  return LIMBS[limb](sun, moon);
+};
+
+// First moment in (start, end] where hasChanged turns true, given it is false at start
+const bisect = (start: number, end: number, hasChanged: (julianDay: number) => boolean): number => {
+  for (let step = 0; step < BISECTION_STEPS; step++) {
+    const middle = (start + end) / 2;
+    if (hasChanged(middle)) {
+      end = middle;
+    } else {
+      start = middle;
+    }
+  }
+  return end;
+};
+
+/**
+ * Index of a limb at a moment and the moment it ends
+ */
+const findLimb = (limb: Limb, julianDay: number, ayanamsa: Ayanamsa) => {
+  const index = getLimbIndex(limb, julianDay, ayanamsa);
+  const hasChanged = (day: number) => getLimbIndex(limb, day, ayanamsa) !== index;
+
+  let start = julianDay;
+  let end = julianDay + SEARCH_STEP_DAYS;
+  for (let step = 0; step < MAX_SEARCH_STEPS && !hasChanged(end); step++) {
+    start = end;
+    end += SEARCH_STEP_DAYS;
+  }
+
+  return { index, endsAt: toIso(julianDayToMs(bisect(start, end, hasChanged))) };
+};
+
+const toIso = (utcMs: number): string => new Date(utcMs).toISOString();
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a time zone
+ */
+export const getLocalDate = (utcMs: number, timezone: string): string =>
+  toIso(utcMs + getTimezoneOffset(timezone, utcMs) * MS_PER_MINUTE).split('T')[0];
+
+/**
+ * Calendar date a number of days after another (YYYY-MM-DD)
+ */
+export const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return toIso(Date.UTC(year, month - 1, day + days)).split('T')[0];
+};
+
+const getWeekday = (date: string): number => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+/**
+ * Sunrise or sunset on a local date
+ * @returns number | null - ms since epoch, or null if the Sun doesn't cross the horizon
+ */
+const getSunEvent = (date: string, place: BirthPlace, event: 'rise' | 'set'): number | null => {
+  const latitude = place.latitude * DEG;
+  let julianDay = msToJulianDay(toUtcMs(date, event === 'rise' ? '06:00' : '18:00', place.timezone));
+
+  // Each pass moves the guess to where the Sun's hour angle reaches the horizon
+  for (let pass = 0; pass < 4; pass++) {
+    const longitude = getTropicalLongitude('sun', julianDay) * DEG;
+    const obliquity = getObliquity(julianDay) * DEG;
+    const rightAscension = Math.atan2(Math.cos(obliquity) * Math.sin(longitude), Math.cos(longitude)) / DEG;
+    const declination = Math.asin(Math.sin(obliquity) * Math.sin(longitude));
+
+    const cosHourAngle = (Math.sin(SUN_ALTITUDE * DEG) - Math.sin(latitude) * Math.sin(declination)) /
+      (Math.cos(latitude) * Math.cos(declination));
+    if (Math.abs(cosHourAngle) > 1) {
+      return null;
+    }
+
+    const target = (Math.acos(cosHourAngle) / DEG) * (event === 'rise' ? -1 : 1);
+    const hourAngle = getSiderealTime(julianDay) + place.longitude - rightAscension;
+    const offset = (((hourAngle - target) % 360) + 540) % 360 - 180;
+    julianDay -= offset / SIDEREAL_DAY_DEGREES;
+  }
+
+  return julianDayToMs(julianDay);
+};
+
+// Polar day or night: fall back to 6 AM - 6 PM so the day can still be divided
+const getSunTime = (date: string, place: BirthPlace, event: 'rise' | 'set'): number =>
+  getSunEvent(date, place, event) ?? toUtcMs(date, event === 'rise' ? '06:00' : '18:00', place.timezone);
+
+const getDayPart = (sunrise: number, sunset: number, part: number): TimeWindow => {
+  const length = (sunset - sunrise) / 8;
+  return {
+    start: toIso(sunrise + (part - 1) * length),
+    end: toIso(sunrise + part * length),
+  };
+};
+
+/**
+ * Tamil solar date: the month is the Sun's sign, starting the day the Sun
+ * enters it if that happens before sunset, otherwise the day after
+ */
+const getTamilDate = (date: string, sunset: number, place: BirthPlace, ayanamsa: Ayanamsa): TamilDate => {
+  const getSunSign = (julianDay: number) =>
+    Math.floor(getSunMoon(julianDay, ayanamsa).sun / SIGN_SPAN) % 12;
+
+  const sunsetJulianDay = msToJulianDay(sunset);
+  const monthIndex = getSunSign(sunsetJulianDay);
+
+  // Step back a day at a time to the day before the ingress, then bisect it
+  let inSign = sunsetJulianDay;
+  let before = inSign - 1;
+  while (getSunSign(before) === monthIndex) {
+    inSign = before;
+    before -= 1;
+  }
+  const ingress = julianDayToMs(bisect(before, inSign, (day) => getSunSign(day) === monthIndex));
+
+  const ingressDate = getLocalDate(ingress, place.timezone);
+  const firstDay = ingress < getSunTime(ingressDate, place, 'set') ? ingressDate : addDays(ingressDate, 1);
+
+  return {
+    monthIndex,
+    month: TAMIL_MONTHS[monthIndex],
+    day: Math.round((Date.parse(date) - Date.parse(firstDay)) / MS_PER_DAY) + 1,
+  };
+};
+
+/**
+ * Panchang of a date at a place
+ * @param date - Local date (YYYY-MM-DD)
+ * @param place - Place with coordinates and time zone
+ * @param options - Calculation options (ayanamsa)
+ * @returns Panchang
+ */
+export const calculatePanchang = (
+  date: string,
+  place: BirthPlace,
+  options: CalculationOptions = {}
+): Panchang => {
+  const ayanamsa = options.ayanamsa ?? DEFAULT_AYANAMSA;
+  const weekday = getWeekday(date);
+  const sunrise = getSunTime(date, place, 'rise');
+  const sunset = getSunTime(date, place, 'set');
+  const sunriseJulianDay = msToJulianDay(sunrise);
+
+  const tithi = findLimb('tithi', sunriseJulianDay, ayanamsa);
+  const nakshatra = findLimb('nakshatra', sunriseJulianDay, ayanamsa);
+  const yoga = findLimb('yoga', sunriseJulianDay, ayanamsa);
+  const karana = findLimb('karana', sunriseJulianDay, ayanamsa);
+  const moonAtSunrise = getSunMoon(sunriseJulianDay, ayanamsa).moon;
+
+  const muhurta = (sunset - sunrise) / 15;
+  const midday = (sunrise + sunset) / 2;
+
+  return {
+    date,
+    place,
+    weekday,
+    sunrise: toIso(sunrise),
+    sunset: toIso(sunset),
+    tithi: {
+      ...getTithi(tithi.index),
+      endsAt: tithi.endsAt,
+      next: getTithi((tithi.index + 1) % 30).name,
+    },
+    nakshatra: {
+      name: NAKSHATRAS[nakshatra.index].name,
+      lord: NAKSHATRAS[nakshatra.index].lord,
+      pada: Math.floor((moonAtSunrise % NAKSHATRA_SPAN) / PADA_SPAN) + 1,
+      endsAt: nakshatra.endsAt,
+      next: NAKSHATRAS[(nakshatra.index + 1) % 27].name,
+    },
+    yoga: {
+      name: YOGAS[yoga.index],
+      endsAt: yoga.endsAt,
+      next: YOGAS[(yoga.index + 1) % 27],
+    },
+    karana: {
+      name: getKaranaName(karana.index),
+      endsAt: karana.endsAt,
+      next: getKaranaName((karana.index + 1) % 60),
+    },
+    rahuKalam: getDayPart(sunrise, sunset, RAHU_KALAM_PARTS[weekday]),
+    yamagandam: getDayPart(sunrise, sunset, YAMAGANDAM_PARTS[weekday]),
+    gulikaKalam: getDayPart(sunrise, sunset, GULIKA_KALAM_PARTS[weekday]),
+    abhijitMuhurta: {
+      start: toIso(midday - muhurta / 2),
+      end: toIso(midday + muhurta / 2),
+    },
+    tamilDate: getTamilDate(date, sunset, place, ayanamsa),
+  };
+};
@@ -0,0 +1,215 @@
+/**
+ * Porutham
+ * South Indian Dasa Porutham: ten pass/fail agreements between the partners' Moons
+ *
+ * Star counts run from the girl's nakshatra to the boy's (her star counts
+ * as 1), and sign counts likewise from her Moon sign. Rajju and Vedhai are
+ * deal-breakers - failing either rules the match out however many others
+ * agree.
+ */
+
+import { CalculationOptions } from '../types/astrology';
+import { MatchingInput, PoruthamAnalysis, PoruthamResult } from '../types/kundli';
+import { NAKSHATRAS, NATURAL_RELATIONSHIPS, SIGNS } from './constants';
+import { getHouse } from './birthChart';
+import { MatchingMoon, getMatchingMoon } from './matching';
+
+interface Porutham {
+  id: string;
+  name: string;
+  description: string;
+  isDealBreaker?: boolean;
+  passes: (boy: MatchingMoon, girl: MatchingMoon) => boolean;
+  attribute: (moon: MatchingMoon) => string;
+}
+
+// Counts from the girl's star with which the boy's star agrees
+const DINA_COUNTS = [2, 4, 6, 8, 9, 11, 13, 15, 18, 20, 24, 26];
+const MAHENDRA_COUNTS = [4, 7, 10, 13, 16, 19, 22, 25];
+const STREE_DEERGHA_MIN_COUNT = 14; // More than 13 stars apart
+
+// Boy's sign counted from the girl's
+const RASI_COUNTS = [1, 7, 9, 10, 11, 12];
+
+// Signs each sign holds in Vasya, from Aries
+const VASYA_SIGNS = [
+  [4, 7], // Aries: Leo, Scorpio
+  [3, 6], // Taurus: Cancer, Libra
+  [5], // Gemini: Virgo
+  [7, 8], // Cancer: Scorpio, Sagittarius
+  [6], // Leo: Libra
+  [11, 2], // Virgo: Pisces, Gemini
+  [9, 5], // Libra: Capricorn, Virgo
+  [3], // Scorpio: Cancer
+  [11], // Sagittarius: Pisces
+  [0, 10], // Capricorn: Aries, Aquarius
+  [0], // Aquarius: Aries
+  [9], // Pisces: Capricorn
+];
+
+// Yonis that are sworn enemies
+const YONI_ENEMIES = [
+  ['Horse', 'Buffalo'],
+  ['Elephant', 'Lion'],
+  ['Sheep', 'Monkey'],
+  ['Serpent', 'Mongoose'],
+  ['Dog', 'Deer'],
+  ['Cat', 'Rat'],
+  ['Cow', 'Tiger'],
+];
+
+// Rajju runs feet to head and back down every nine stars
+const RAJJUS = ['Pada', 'Kati', 'Nabhi', 'Kanta', 'Siro', 'Kanta', 'Nabhi', 'Kati', 'Pada'];
+
+// Stars that pierce each other (by index); Mrigashira, Chitra and Dhanishta all pierce one another
+const VEDHAI_GROUPS = [
+  [0, 17], [1, 16], [2, 15], [3, 14], [5, 21], [6, 20], [7, 19],
+  [8, 18], [9, 26], [10, 25], [11, 24], [12, 23], [4, 13, 22],
+];
+
+// Boy's star counted from the girl's (1-27)
+const getStarCount = (boy: MatchingMoon, girl: MatchingMoon): number =>
+  ((boy.nakshatraIndex - girl.nakshatraIndex + 27) % 27) + 1;
+
+const nakshatraName = (moon: MatchingMoon) => NAKSHATRAS[moon.nakshatraIndex].name;
+const signName = (moon: MatchingMoon) => SIGNS[moon.signIndex].name;
+
+const PORUTHAMS: Porutham[] = [
+  {
+    id: 'dina',
+    name: 'Dina',
+    description: 'Dina Porutham looks at the birth stars for good health and a long, trouble-free married life.',
+    passes: (boy, girl) => DINA_COUNTS.includes(getStarCount(boy, girl)),
+    attribute: nakshatraName,
+  },
+  {
+    id: 'gana',
+    name: 'Gana',
+    description: 'Gana Porutham matches temperament - Deva, Manushya or Rakshasa - for harmony in daily life.',
+    passes: (boy, girl) => {
+      const boyGana = NAKSHATRAS[boy.nakshatraIndex].gana;
+      const girlGana = NAKSHATRAS[girl.nakshatraIndex].gana;
+      return boyGana === girlGana || (boyGana !== 'Rakshasa' && girlGana !== 'Rakshasa');
+    },
+    attribute: (moon) => NAKSHATRAS[moon.nakshatraIndex].gana,
+  },
+  {
+    id: 'mahendra',
+    name: 'Mahendra',
+    description: 'Mahendra Porutham indicates the well-being of children and the growth of the family.',
+    passes: (boy, girl) => MAHENDRA_COUNTS.includes(getStarCount(boy, girl)),
+    attribute: nakshatraName,
+  },
+  {
+    id: 'stree_deergha',
+    name: 'Stree Deergha',
+    description: 'Stree Deergha looks at the distance between the stars for the prosperity and long life of the bride.',
+    passes: (boy, girl) => getStarCount(boy, girl) >= STREE_DEERGHA_MIN_COUNT,
+    attribute: nakshatraName,
+  },
+  {
+    id: 'yoni',
+    name: 'Yoni',
+    description: 'Yoni Porutham indicates physical compatibility; it fails only when the yonis are sworn enemies.',
+    passes: (boy, girl) => {
+      const pair = [NAKSHATRAS[boy.nakshatraIndex].animal, NAKSHATRAS[girl.nakshatraIndex].animal];
+      return !YONI_ENEMIES.some((enemies) => enemies.every((animal) => pair.includes(animal)));
+    },
+    attribute: (moon) => NAKSHATRAS[moon.nakshatraIndex].animal,
+  },
+  {
+    id: 'rasi',
+    name: 'Rasi',
+    description: 'Rasi Porutham compares the Moon signs for harmony, prosperity and the continuity of the family.',
+    passes: (boy, girl) => RASI_COUNTS.includes(getHouse(boy.signIndex, girl.signIndex)),
+    attribute: signName,
+  },
+  {
+    id: 'rasiyathipathi',
+    name: 'Rasiyathipathi',
+    description: 'Rasiyathipathi Porutham checks that the lords of the Moon signs are not enemies of each other.',
+    passes: (boy, girl) => {
+      const boyLord = SIGNS[boy.signIndex].lord;
+      const girlLord = SIGNS[girl.signIndex].lord;
+      return !NATURAL_RELATIONSHIPS[boyLord].enemies.includes(girlLord) &&
+        !NATURAL_RELATIONSHIPS[girlLord].enemies.includes(boyLord);
+    },
+    attribute: (moon) => SIGNS[moon.signIndex].lord,
+  },
+  {
+    id: 'vasya',
+    name: 'Vasya',
+    description: 'Vasya Porutham indicates mutual attraction and affection between the partners.',
+    passes: (boy, girl) =>
+      VASYA_SIGNS[girl.signIndex].includes(boy.signIndex) || VASYA_SIGNS[boy.signIndex].includes(girl.signIndex),
+    attribute: signName,
+  },
+  {
+    id: 'rajju',
+    name: 'Rajju',
+    description: 'Rajju Porutham is the most important for the longevity of the husband. Both stars in the same Rajju rules the match out.',
+    isDealBreaker: true,
+    passes: (boy, girl) => RAJJUS[boy.nakshatraIndex % 9] !== RAJJUS[girl.nakshatraIndex % 9],
+    attribute: (moon) => `${RAJJUS[moon.nakshatraIndex % 9]} Rajju`,
+  },
+  {
+    id: 'vedhai',
+    name: 'Vedhai',
+    description: 'Vedhai Porutham checks that the stars do not afflict each other. Mutually afflicting stars rule the match out.',
+    isDealBreaker: true,
+    passes: (boy, girl) => !VEDHAI_GROUPS.some((group) =>
+      boy.nakshatraIndex !== girl.nakshatraIndex &&
+      group.includes(boy.nakshatraIndex) &&
+      group.includes(girl.nakshatraIndex)),
+    attribute: nakshatraName,
+  },
+];
+
+const getRating = (matchedCount: number, dealBreakerFailed: boolean): PoruthamAnalysis['rating'] => {
+  if (dealBreakerFailed) return 'below_average';
+  if (matchedCount >= 8) return 'excellent';
+  if (matchedCount >= 6) return 'good';
+  if (matchedCount >= 5) return 'average';
+  return 'below_average';
+};
+
+/**
+ * Dasa Porutham analysis for two people, computed on-device
+ * @param input - Boy and girl birth details
+ * @param options - Calculation options (ayanamsa)
+ * @returns PoruthamAnalysis
+ */
+export const calculatePoruthams = (
+  input: MatchingInput,
+  options: CalculationOptions = {}
+): PoruthamAnalysis => {
+  const boy = getMatchingMoon(input.boy, options);
+  const girl = getMatchingMoon(input.girl, options);
+
+  const poruthams: PoruthamResult[] = PORUTHAMS.map((porutham) => ({
+    id: porutham.id,
+    name: porutham.name,
+    description: porutham.description,
+    passed: porutham.passes(boy, girl),
+    isDealBreaker: !!porutham.isDealBreaker,
+    boyAttribute: porutham.attribute(boy),
+    girlAttribute: porutham.attribute(girl),
+  }));
+
+  const matchedCount = poruthams.filter((porutham) => porutham.passed).length;
+  const failedDealBreakers = poruthams.filter((porutham) => porutham.isDealBreaker && !porutham.passed);
+  const dealBreakerFailed = failedDealBreakers.length > 0;
+
+  const summary = dealBreakerFailed
+    ? `${matchedCount} of ${PORUTHAMS.length} poruthams match, but ${failedDealBreakers.map((porutham) => porutham.name).join(' and ')} ${failedDealBreakers.length > 1 ? 'Poruthams fail' : 'Porutham fails'}, which rules the match out.`
+    : `${matchedCount} of ${PORUTHAMS.length} poruthams match, including both Rajju and Vedhai.`;
+
+  return {
+    poruthams,
+    matchedCount,
+    total: PORUTHAMS.length,
+    dealBreakerFailed,
+    rating: getRating(matchedCount, dealBreakerFailed),
+    summary,
+  };
+};
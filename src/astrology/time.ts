@@ -0,0 +1,85 @@
+/**
+ * Astrology Time Utilities
+ * Civil birth time to Julian Day (UT) conversion
+ */
+
+const MS_PER_DAY = 86400000;
+const UNIX_EPOCH_JD = 2440587.5;
+
+// Used when the runtime has no time zone data (e.g. Intl without tz support)
+const FALLBACK_OFFSETS: Record<string, number> = {
+  'Asia/Kolkata': 330,
+  'Asia/Calcutta': 330,
+  'Asia/Colombo': 330,
+  'Asia/Kathmandu': 345,
+  'Asia/Dhaka': 360,
+  'Asia/Dubai': 240,
+  'Asia/Singapore': 480,
+  'Europe/London': 0,
+  UTC: 0,
+};
+
+/**
+ * Offset of a time zone from UTC at a given instant, in minutes
+ * Accepts IANA names ('Asia/Kolkata') and fixed offsets ('+05:30')
+ * @param timezone - Time zone
+ * @param utcMs - Instant (ms since epoch)
+ * @returns number - Minutes east of UTC
+ */
+export const getTimezoneOffset = (timezone: string, utcMs: number): number => {
+  const fixed = /^(?:UTC|GMT)?([+-])(\d{1,2}):?(\d{2})?$/.exec(timezone.trim());
+  if (fixed) {
+    const minutes = Number(fixed[2]) * 60 + Number(fixed[3] || 0);
+    return fixed[1] === '-' ? -minutes : minutes;
+  }
+
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    }).formatToParts(new Date(utcMs));
+    const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+    const localAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'));
+    const offset = Math.round((localAsUtc - Math.floor(utcMs / 60000) * 60000) / 60000);
+    if (!Number.isNaN(offset)) {
+      return offset;
+    }
+  } catch {
+    // Unknown zone or no Intl time zone support - fall through
+  }
+
+  return FALLBACK_OFFSETS[timezone] ?? 0;
+};
+
+/**
+ * Convert a local birth date/time to a UTC instant
+ * @param dateOfBirth - YYYY-MM-DD
+ * @param timeOfBirth - HH:mm
+ * @param timezone - Birth place time zone
+ * @returns number - ms since epoch
+ */
+export const toUtcMs = (dateOfBirth: string, timeOfBirth: string, timezone: string): number => {
+  const [year, month, day] = dateOfBirth.split('T')[0].split('-').map(Number);
+  const [hour, minute] = timeOfBirth.split(':').map(Number);
+  const localAsUtc = Date.UTC(year, month - 1, day, hour || 0, minute || 0);
+
+  // Resolve the offset at the approximate instant, then again at the corrected
+  // one so births near a DST change land on the right side of it
+  const firstGuess = localAsUtc - getTimezoneOffset(timezone, localAsUtc) * 60000;
+  return localAsUtc - getTimezoneOffset(timezone, firstGuess) * 60000;
+};
+
+export const msToJulianDay = (utcMs: number): number => utcMs / MS_PER_DAY + UNIX_EPOCH_JD;
+
+export const julianDayToMs = (julianDay: number): number =>
+  (julianDay - UNIX_EPOCH_JD) * MS_PER_DAY;
+
+/**
+ * Julian centuries since J2000.0
+ */
+export const julianCenturies = (julianDay: number): number => (julianDay - 2451545.0) / 36525;
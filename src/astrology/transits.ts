@@ -0,0 +1,161 @@
+/**
+ * Transits
+ * Gochar: graha positions on any date, read against the natal chart
+ *
+ * Transits are counted in whole signs from the natal lagna and Moon. Sign
+ * ingresses of the slow grahas are found by sampling their sign every few
+ * days and bisecting each sample step in which it changes.
+ */
+
+import {
+  Ayanamsa,
+  BirthChart,
+  CalculationOptions,
+  GrahaId,
+  NatalReference,
+  TransitIngress,
+  TransitNote,
+  TransitPosition,
+} from '../types/astrology';
+import { GRAHA_IDS, SIGN_SPAN } from './constants';
+import { getDailyMotion, getTropicalLongitude } from './ephemeris';
+import { DEFAULT_AYANAMSA, getAyanamsa, toSidereal } from './ayanamsa';
+import { getGraha, getHouse, getSiderealPosition } from './birthChart';
+
+// Slow grahas whose sign changes mark the years ahead
+export const INGRESS_GRAHAS: GrahaId[] = ['saturn', 'jupiter', 'rahu', 'ketu'];
+
+// Short enough to catch a graha crossing back over a sign edge near a station
+const SEARCH_STEP_DAYS = 2;
+const BISECTION_STEPS = 16; // 2 days / 2^16 - a few seconds
+
+const getSiderealLongitude = (graha: GrahaId, julianDay: number, ayanamsa: Ayanamsa): number =>
+  toSidereal(getTropicalLongitude(graha, julianDay), getAyanamsa(julianDay, ayanamsa));
+
+const getSignAt = (graha: GrahaId, julianDay: number, ayanamsa: Ayanamsa): number =>
+  Math.floor(getSiderealLongitude(graha, julianDay, ayanamsa) / SIGN_SPAN) % 12;
+
+const isMovingBackwards = (graha: GrahaId, julianDay: number): boolean =>
+  // The mean nodes always move backwards
+  graha === 'rahu' || graha === 'ketu' || getDailyMotion(graha, julianDay) < 0;
+
+/**
+ * Natal lagna and Moon signs of a birth chart
+ */
+export const getNatalReference = (chart: BirthChart): NatalReference => ({
+  lagnaSignIndex: chart.ascendant.signIndex,
+  moonSignIndex: getGraha(chart, 'moon').signIndex,
+});
+
+/**
+ * Positions of the nine grahas on a date, with houses from the natal lagna and Moon
+ * @param julianDay - Julian Day (UT)
+ * @param natal - Natal lagna and Moon signs
+ * @param options - Calculation options (ayanamsa)
+ * @returns TransitPosition[]
+ */
+export const calculateTransits = (
+  julianDay: number,
+  natal: NatalReference,
+  options: CalculationOptions = {}
+): TransitPosition[] => {
+  const ayanamsa = options.ayanamsa ?? DEFAULT_AYANAMSA;
+
+  return GRAHA_IDS.map((id) => {
+    const position = getSiderealPosition(getSiderealLongitude(id, julianDay, ayanamsa));
+    return {
+      ...position,
+      id,
+      speed: getDailyMotion(id, julianDay),
+      isRetrograde: isMovingBackwards(id, julianDay),
+      house: getHouse(position.signIndex, natal.lagnaSignIndex),
+      houseFromMoon: getHouse(position.signIndex, natal.moonSignIndex),
+    };
+  });
+};
+
+const getIngressNotes = (
+  graha: GrahaId,
+  house: number,
+  houseFromMoon: number,
+  isRetrograde: boolean
+): TransitNote[] => {
+  const notes: TransitNote[] = [];
+  if (houseFromMoon === 1) notes.push('natal_moon');
+  if (house === 1) notes.push('natal_lagna');
+  if (graha === 'saturn') {
+    // A retrograde step back into the 12th or 3rd doesn't start or end Sade Sati
+    if (houseFromMoon === 12 && !isRetrograde) notes.push('sade_sati_begins');
+    if (houseFromMoon === 3 && !isRetrograde) notes.push('sade_sati_ends');
+    if (houseFromMoon === 8) notes.push('ashtama_shani');
+  }
+  return notes;
+};
+
+// Moment a graha leaves startSign, somewhere between start and end
+const findSignChange = (
+  graha: GrahaId,
+  start: number,
+  end: number,
+  startSign: number,
+  ayanamsa: Ayanamsa
+): number => {
+  for (let step = 0; step < BISECTION_STEPS; step++) {
+    const middle = (start + end) / 2;
+    if (getSignAt(graha, middle, ayanamsa) === startSign) {
+      start = middle;
+    } else {
+      end = middle;
+    }
+  }
+  return end;
+};
+
+/**
+ * Sign ingresses of Saturn, Jupiter, Rahu and Ketu between two dates
+ * @param fromJulianDay - Start of the search (UT)
+ * @param toJulianDay - End of the search (UT)
+ * @param natal - Natal lagna and Moon signs
+ * @param options - Calculation options (ayanamsa)
+ * @returns TransitIngress[] - In date order
+ */
+export const findIngresses = (
+  fromJulianDay: number,
+  toJulianDay: number,
+  natal: NatalReference,
+  options: CalculationOptions = {}
+): TransitIngress[] => {
+  const ayanamsa = options.ayanamsa ?? DEFAULT_AYANAMSA;
+  const ingresses: TransitIngress[] = [];
+
+  INGRESS_GRAHAS.forEach((graha) => {
+    let previousDay = fromJulianDay;
+    let previousSign = getSignAt(graha, previousDay, ayanamsa);
+
+    while (previousDay < toJulianDay) {
+      const day = Math.min(previousDay + SEARCH_STEP_DAYS, toJulianDay);
+      const sign = getSignAt(graha, day, ayanamsa);
+
+      if (sign !== previousSign) {
+        const julianDay = findSignChange(graha, previousDay, day, previousSign, ayanamsa);
+        const isRetrograde = isMovingBackwards(graha, julianDay);
+        const house = getHouse(sign, natal.lagnaSignIndex);
+        const houseFromMoon = getHouse(sign, natal.moonSignIndex);
+        ingresses.push({
+          graha,
+          julianDay,
+          signIndex: sign,
+          isRetrograde,
+          house,
+          houseFromMoon,
+          notes: getIngressNotes(graha, house, houseFromMoon, isRetrograde),
+        });
+      }
+
+      previousDay = day;
+      previousSign = sign;
+    }
+  });
+
+  return ingresses.sort((a, b) => a.julianDay - b.julianDay);
+};
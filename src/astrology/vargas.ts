@@ -0,0 +1,159 @@
+/**
+ * Vargas
+ * Shodasavarga divisional charts calculated from sidereal longitudes
+ *
+ * Division rules follow Brihat Parashara Hora Shastra. Signs are "odd" from
+ * Aries (index 0) and alternate; modality cycles movable, fixed, dual.
+ */
+
+import { ChartData, DivisionalCharts } from '../types/kundli';
+import { BirthChart, VargaId } from '../types/astrology';
+import { GRAHA_NAMES, SIGN_SPAN } from './constants';
+import { normalizeDegrees } from './ephemeris';
+import { toChartHouses } from './birthChart';
+
+export interface VargaInfo {
+  id: VargaId;
+  division: number;
+  name: string;
+  signifies: string;
+  chartKey: keyof DivisionalCharts;
+}
+
+export const VARGAS: VargaInfo[] = [
+  { id: 'D1', division: 1, name: 'Rasi', signifies: 'Body and overall life', chartKey: 'rasiChart' },
+  { id: 'D2', division: 2, name: 'Hora', signifies: 'Wealth', chartKey: 'horaChart' },
+  { id: 'D3', division: 3, name: 'Drekkana', signifies: 'Siblings and courage', chartKey: 'drekkanaChart' },
+  { id: 'D4', division: 4, name: 'Chaturthamsa', signifies: 'Property and fortune', chartKey: 'chaturthamsaChart' },
+  { id: 'D7', division: 7, name: 'Saptamsa', signifies: 'Children', chartKey: 'saptamsaChart' },
+  { id: 'D9', division: 9, name: 'Navamsa', signifies: 'Spouse and dharma', chartKey: 'navamsaChart' },
+  { id: 'D10', division: 10, name: 'Dasamsa', signifies: 'Career', chartKey: 'dasamsaChart' },
+  { id: 'D12', division: 12, name: 'Dwadasamsa', signifies: 'Parents', chartKey: 'dwadasamsaChart' },
+  { id: 'D16', division: 16, name: 'Shodasamsa', signifies: 'Vehicles and comforts', chartKey: 'shodasamsaChart' },
+  { id: 'D20', division: 20, name: 'Vimsamsa', signifies: 'Spiritual progress', chartKey: 'vimsamsaChart' },
+  { id: 'D24', division: 24, name: 'Chaturvimsamsa', signifies: 'Education', chartKey: 'chaturvimsamsaChart' },
+  { id: 'D27', division: 27, name: 'Saptavimsamsa', signifies: 'Strengths and weaknesses', chartKey: 'saptavimsamsaChart' },
+  { id: 'D30', division: 30, name: 'Trimsamsa', signifies: 'Misfortunes', chartKey: 'trimsamsaChart' },
+  { id: 'D40', division: 40, name: 'Khavedamsa', signifies: 'Maternal legacy', chartKey: 'khavedamsaChart' },
+  { id: 'D45', division: 45, name: 'Akshavedamsa', signifies: 'Character and paternal legacy', chartKey: 'akshavedamsaChart' },
+  { id: 'D60', division: 60, name: 'Shashtiamsa', signifies: 'Past karma', chartKey: 'shashtiamsaChart' },
+];
+
+// Trimsamsa: unequal parts ruled by the five tara grahas [upper degree, sign index]
+const TRIMSAMSA_ODD: [number, number][] = [
+  [5, 0], // Mars - Aries
+  [10, 10], // Saturn - Aquarius
+  [18, 8], // Jupiter - Sagittarius
+  [25, 2], // Mercury - Gemini
+  [30, 6], // Venus - Libra
+];
+const TRIMSAMSA_EVEN: [number, number][] = [
+  [5, 1], // Venus - Taurus
+  [12, 5], // Mercury - Virgo
+  [20, 11], // Jupiter - Pisces
+  [25, 9], // Saturn - Capricorn
+  [30, 7], // Mars - Scorpio
+];
+
+/**
+ * Sign a sidereal longitude falls in within a divisional chart
+ * @param longitude - Sidereal longitude (degrees)
+ * @param division - Varga division (1, 2, 3 ... 60)
+ * @returns number - Sign index (0 = Aries)
+ */
+export const getVargaSignIndex = (longitude: number, division: number): number => {
+  const normalized = normalizeDegrees(longitude);
+  const sign = Math.floor(normalized / SIGN_SPAN) % 12;
+  const degree = normalized - sign * SIGN_SPAN;
+  const part = Math.min(division - 1, Math.floor((degree * division) / SIGN_SPAN));
+  const isOdd = sign % 2 === 0;
+  const modality = sign % 3; // 0 movable, 1 fixed, 2 dual
+  const from = (start: number) => (start + part) % 12;
+
+  switch (division) {
+    case 1:
+      return sign;
+    case 2:
+      // Sun's hora (Leo) then Moon's hora (Cancer) in odd signs, reversed in even
+      return (part === 0) === isOdd ? 4 : 3;
+    case 3:
+      return (sign + 4 * part) % 12; // 1st, 5th and 9th from the sign
+    case 4:
+      return (sign + 3 * part) % 12; // 1st, 4th, 7th and 10th from the sign
+    case 7:
+      return from(isOdd ? sign : sign + 6);
+    case 9:
+      return from([sign, sign + 8, sign + 4][modality]);
+    case 10:
+      return from(isOdd ? sign : sign + 8);
+    case 12:
+      return from(sign);
+    case 16:
+      return from([0, 4, 8][modality]);
+    case 20:
+      return from([0, 8, 4][modality]);
+    case 24:
+      return from(isOdd ? 4 : 3);
+    case 27:
+      return from([0, 3, 6, 9][sign % 4]);
+    case 30:
+      return (isOdd ? TRIMSAMSA_ODD : TRIMSAMSA_EVEN).find(([upper]) => degree < upper)![1];
+    case 40:
+      return from(isOdd ? 0 : 6);
+    case 45:
+      return from([0, 4, 8][modality]);
+    case 60:
+      return from(sign);
+    default:
+      throw new Error(`Unsupported varga division: D${division}`);
+  }
+};
+
+/**
+ * Calculate one divisional chart from a birth chart
+ * @param chart - Birth chart
+ * @param varga - Varga to calculate
+ * @returns ChartData - Houses counted from the varga lagna
+ */
+export const calculateVargaChart = (chart: BirthChart, varga: VargaInfo): ChartData => ({
+  chartType: varga.id,
+  chartName: varga.name,
+  svgUrl: '',
+  svgUrlNorth: '',
+  houses: toChartHouses(
+    getVargaSignIndex(chart.ascendant.longitude, varga.division),
+    chart.grahas.map((graha) => ({
+      name: GRAHA_NAMES[graha.id],
+      signIndex: getVargaSignIndex(graha.longitude, varga.division),
+    }))
+  ),
+});
+
+/**
+ * Calculate all sixteen Shodasavarga charts
+ */
+export const calculateDivisionalCharts = (chart: BirthChart): DivisionalCharts =>
+  VARGAS.reduce<DivisionalCharts>((charts, varga) => {
+    charts[varga.chartKey] = calculateVargaChart(chart, varga);
+    return charts;
+  }, {});
+
+/**
+ * Fill the charts missing from a report with locally calculated ones
+ * Charts without house data count as missing.
+ * @param charts - Charts from the report (take precedence)
+ * @param fallback - Locally calculated charts
+ */
+export const mergeDivisionalCharts = (
+  charts: DivisionalCharts | undefined,
+  fallback: DivisionalCharts
+): DivisionalCharts => {
+  const merged: DivisionalCharts = { ...fallback };
+  VARGAS.forEach(({ chartKey }) => {
+    const chart = charts?.[chartKey];
+    if (chart && chart.houses.length > 0) {
+      merged[chartKey] = chart;
+    }
+  });
+  return merged;
+};
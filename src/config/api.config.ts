@@ -1,11 +1,24 @@
+import { getEnvConfig } from './environment';
+
 // API Configuration
 export const API_CONFIG = {
-  BASE_URL: 'https://api.nakshatratalks.com', // Production API URL (fixed)
+  // Resolved on every access so it always follows the active environment
+  get BASE_URL(): string {
+    return getEnvConfig().API_BASE_URL;
+  },
   TIMEOUT: 30000, // 30 seconds
   HEADERS: {
     'Content-Type': 'application/json',
     'Accept': 'application/json',
   },
+  RETRY: {
+    MAX_RETRIES: 3,
+    BASE_DELAY: 500, // First backoff step in ms (doubles each attempt)
+    MAX_DELAY: 10000, // Cap for a single backoff wait
+    MAX_RETRY_AFTER: 30000, // Give up instead of honouring longer Retry-After waits
+    RETRYABLE_STATUS_CODES: [408, 429, 500, 502, 503, 504],
+    IDEMPOTENT_METHODS: ['get', 'head', 'options', 'put', 'delete'],
+  },
 };
 
 // Storage Keys
@@ -21,6 +34,7 @@ export const API_ENDPOINTS = {
   AUTH: {
     SEND_OTP: '/auth/send-otp',
     VERIFY_OTP: '/auth/verify-otp',
+    REFRESH: '/auth/refresh',
     ME: '/auth/me',
   },
 
@@ -1,64 +1,134 @@
 /**
  * Environment Configuration
- * Manages different API URLs for development and production
+ * Single source of truth for API, WebSocket and Supabase endpoints
+ *
+ * The environment is chosen at build time via EXPO_PUBLIC_APP_ENV and can be
+ * overridden in debug builds from the hidden developer menu. The override is
+ * persisted and applied on the next launch (the menu reloads the app).
  */
 
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
 // Environment types
-export type Environment = 'development' | 'staging' | 'production';
+export type Environment = 'development' | 'staging' | 'production' | 'mock';
+
+export interface EnvironmentConfig {
+  API_BASE_URL: string;
+  WS_BASE_URL: string;
+  SUPABASE_URL: string;
+  USE_MOCK_BACKEND: boolean; // Serve fixture responses instead of hitting the network
+}
+
+const SUPABASE_URL = 'https://vckkbwvjczptjwixxvwi.supabase.co';
 
 // Environment-specific configurations
-const environments = {
+const environments: Record<Environment, EnvironmentConfig> = {
   development: {
     API_BASE_URL: 'http://localhost:4000', // Local backend server
     WS_BASE_URL: 'ws://localhost:4000',
+    SUPABASE_URL,
+    USE_MOCK_BACKEND: false,
   },
   staging: {
     API_BASE_URL: 'https://staging-api.nakshatratalks.com',
     WS_BASE_URL: 'wss://staging-api.nakshatratalks.com',
+    SUPABASE_URL,
+    USE_MOCK_BACKEND: false,
   },
   production: {
     API_BASE_URL: 'https://api.nakshatratalks.com',
     WS_BASE_URL: 'wss://api.nakshatratalks.com',
+    SUPABASE_URL,
+    USE_MOCK_BACKEND: false,
+  },
+  mock: {
+    API_BASE_URL: 'http://mock.nakshatratalks.local', // Never reached - requests use the mock adapter
+    WS_BASE_URL: '',
+    SUPABASE_URL,
+    USE_MOCK_BACKEND: true,
   },
 };
 
+export const AVAILABLE_ENVIRONMENTS = Object.keys(environments) as Environment[];
+
+// Persisted developer-menu override
+const ENVIRONMENT_OVERRIDE_KEY = '@nakshatra_environment_override';
+
+const isEnvironment = (value: unknown): value is Environment =>
+  typeof value === 'string' && AVAILABLE_ENVIRONMENTS.includes(value as Environment);
+
 /**
- * Get current environment
+ * Environment baked in at build time
  * Default to production for safety
  *
- * To switch environments:
- * 1. Change this return value
- * 2. Or use environment variables in the future (e.g., process.env.NODE_ENV)
+ * Example: EXPO_PUBLIC_APP_ENV=staging npx expo run:android
  */
-const getCurrentEnvironment = (): Environment => {
-  // TODO: In production, this should be configured via build-time environment variables
-  // For now, manually set the environment here
+const buildEnvValue = process.env.EXPO_PUBLIC_APP_ENV;
+export const BUILD_ENVIRONMENT: Environment = isEnvironment(buildEnvValue)
+  ? buildEnvValue
+  : 'production';
+
+let currentEnv: Environment = BUILD_ENVIRONMENT;
 
-  // Change this line to switch environments:
-  return 'production'; // Options: 'development' | 'staging' | 'production'
+/**
+ * Apply the persisted developer override (debug builds only)
+ * Must run before the first API call - App.tsx awaits it before rendering
+ * @returns Promise<Environment> - The active environment
+ */
+export const initEnvironment = async (): Promise<Environment> => {
+  if (!__DEV__) {
+    return currentEnv;
+  }
 
-  // For automated switching based on build type:
-  // return __DEV__ ? 'development' : 'production';
+  try {
+    const override = await AsyncStorage.getItem(ENVIRONMENT_OVERRIDE_KEY);
+    if (isEnvironment(override)) {
+      currentEnv = override;
+    }
+  } catch (error) {
+    console.warn('[Environment] Failed to load override:', error);
+  }
+
+  console.log('[Environment] Active environment:', currentEnv);
+  return currentEnv;
+};
+
+/**
+ * Persist a developer override (null restores the build-time environment)
+ * Takes effect on the next app launch
+ */
+export const setEnvironmentOverride = async (env: Environment | null): Promise<void> => {
+  if (env === null || env === BUILD_ENVIRONMENT) {
+    await AsyncStorage.removeItem(ENVIRONMENT_OVERRIDE_KEY);
+  } else {
+    await AsyncStorage.setItem(ENVIRONMENT_OVERRIDE_KEY, env);
+  }
 };
 
-// Get current environment config
-const currentEnv = getCurrentEnvironment();
-export const ENV_CONFIG = environments[currentEnv];
+/**
+ * Get current environment name
+ */
+export const getCurrentEnvironment = (): Environment => currentEnv;
 
-// Export current environment name for debugging
-export const CURRENT_ENVIRONMENT = currentEnv;
+/**
+ * Get current environment config
+ */
+export const getEnvConfig = (): EnvironmentConfig => environments[currentEnv];
 
-// Helper to check if running in development
-export const isDevelopment = currentEnv === 'development';
+// Helper to check if running against the local backend
+export const isDevelopment = (): boolean => currentEnv === 'development';
 
 // Helper to check if running in production
-export const isProduction = currentEnv === 'production';
+export const isProduction = (): boolean => currentEnv === 'production';
+
+// Helper to check if requests are served by the mock backend
+export const isMockBackend = (): boolean => environments[currentEnv].USE_MOCK_BACKEND;
 
 /**
  * Usage example:
  *
- * import { ENV_CONFIG, CURRENT_ENVIRONMENT } from './environment';
+ * import { getEnvConfig, getCurrentEnvironment } from './environment';
  *
- * console.log('Current Environment:', CURRENT_ENVIRONMENT);
- * console.log('API Base URL:', ENV_CONFIG.API_BASE_URL);
+ * console.log('Current Environment:', getCurrentEnvironment());
+ * console.log('API Base URL:', getEnvConfig().API_BASE_URL);
  */
@@ -3,24 +3,67 @@
  * Setup for realtime database updates
  */
 
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { getEnvConfig, isMockBackend } from './environment';
+import { ErrorCode } from '../types/api.types';
+import { authEvents, isAuthErrorMessage } from '../utils/authEvents';
 
 // Supabase Configuration
-// TODO: Replace with your actual Supabase credentials
-const SUPABASE_URL = 'https://vckkbwvjczptjwixxvwi.supabase.co';
+// The project URL comes from the active environment (see environment.ts)
 const SUPABASE_ANON_KEY = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || '';
 
-// Create Supabase client
-export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
-  auth: {
-    persistSession: false,
-  },
-  realtime: {
-    params: {
-      eventsPerSecond: 10,
-    },
-  },
-});
+let supabaseClient: SupabaseClient | null = null;
+
+/**
+ * Get the Supabase client, created lazily so it picks up the active environment
+ * @returns SupabaseClient
+ */
+export const getSupabase = (): SupabaseClient => {
+  if (!supabaseClient) {
+    supabaseClient = createClient(getEnvConfig().SUPABASE_URL, SUPABASE_ANON_KEY, {
+      auth: {
+        persistSession: false,
+      },
+      realtime: {
+        params: {
+          eventsPerSecond: 10,
+        },
+      },
+    });
+  }
+  return supabaseClient;
+};
+
+// The mock backend has no realtime server - subscriptions become no-ops
+const noopUnsubscribe = () => {};
+
+/**
+ * Forward rejected channel credentials to the app-wide auth channel
+ */
+const reportChannelStatus = (status: string, error?: Error) => {
+  if (status === 'CHANNEL_ERROR' && isAuthErrorMessage(error?.message)) {
+    authEvents.publish({
+      reason: ErrorCode.UNAUTHORIZED,
+      source: 'realtime',
+      message: error?.message,
+    });
+  }
+};
+
+/**
+ * Tear down every open realtime channel (e.g. when the session ends)
+ */
+export const removeAllRealtimeChannels = async (): Promise<void> => {
+  if (!supabaseClient) {
+    return;
+  }
+
+  try {
+    await supabaseClient.removeAllChannels();
+  } catch (error) {
+    console.warn('[Supabase] Failed to remove channels:', error);
+  }
+};
 
 /**
  * Subscribe to astrologer availability changes for chat
@@ -30,7 +73,11 @@ export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
 export const subscribeToChatAvailability = (
   callback: (payload: any) => void
 ) => {
-  const channel = supabase
+  if (isMockBackend()) {
+    return noopUnsubscribe;
+  }
+
+  const channel = getSupabase()
     .channel('chat-astrologers-availability')
     .on(
       'postgres_changes',
@@ -42,7 +89,7 @@ export const subscribeToChatAvailability = (
       },
       callback
     )
-    .subscribe();
+    .subscribe(reportChannelStatus);
 
   return () => {
     channel.unsubscribe();
@@ -57,7 +104,11 @@ export const subscribeToChatAvailability = (
 export const subscribeToCallAvailability = (
   callback: (payload: any) => void
 ) => {
-  const channel = supabase
+  if (isMockBackend()) {
+    return noopUnsubscribe;
+  }
+
+  const channel = getSupabase()
     .channel('call-astrologers-availability')
     .on(
       'postgres_changes',
@@ -69,7 +120,7 @@ export const subscribeToCallAvailability = (
       },
       callback
     )
-    .subscribe();
+    .subscribe(reportChannelStatus);
 
   return () => {
     channel.unsubscribe();
@@ -86,7 +137,11 @@ export const subscribeToChatMessages = (
   sessionId: string,
   callback: (payload: any) => void
 ) => {
-  const channel = supabase
+  if (isMockBackend()) {
+    return noopUnsubscribe;
+  }
+
+  const channel = getSupabase()
     .channel(`chat-messages-${sessionId}`)
     .on(
       'postgres_changes',
@@ -98,7 +153,7 @@ export const subscribeToChatMessages = (
       },
       callback
     )
-    .subscribe();
+    .subscribe(reportChannelStatus);
 
   return () => {
     channel.unsubscribe();
@@ -115,7 +170,11 @@ export const subscribeToSessionStatus = (
   sessionId: string,
   callback: (payload: any) => void
 ) => {
-  const channel = supabase
+  if (isMockBackend()) {
+    return noopUnsubscribe;
+  }
+
+  const channel = getSupabase()
     .channel(`session-status-${sessionId}`)
     .on(
       'postgres_changes',
@@ -127,7 +186,7 @@ export const subscribeToSessionStatus = (
       },
       callback
     )
-    .subscribe();
+    .subscribe(reportChannelStatus);
 
   return () => {
     channel.unsubscribe();
@@ -144,7 +203,11 @@ export const subscribeToWalletBalance = (
   userId: string,
   callback: (payload: any) => void
 ) => {
-  const channel = supabase
+  if (isMockBackend()) {
+    return noopUnsubscribe;
+  }
+
+  const channel = getSupabase()
     .channel(`wallet-balance-${userId}`)
     .on(
       'postgres_changes',
@@ -156,7 +219,7 @@ export const subscribeToWalletBalance = (
       },
       callback
     )
-    .subscribe();
+    .subscribe(reportChannelStatus);
 
   return () => {
     channel.unsubscribe();
@@ -174,7 +237,11 @@ export const subscribeToCallRequestStatus = (
   requestId: string,
   callback: (payload: any) => void
 ) => {
-  const channel = supabase
+  if (isMockBackend()) {
+    return noopUnsubscribe;
+  }
+
+  const channel = getSupabase()
     .channel(`call-request-${requestId}`)
     .on(
       'postgres_changes',
@@ -186,7 +253,7 @@ export const subscribeToCallRequestStatus = (
       },
       callback
     )
-    .subscribe();
+    .subscribe(reportChannelStatus);
 
   return () => {
     channel.unsubscribe();
@@ -204,7 +271,11 @@ export const subscribeToQueueStatus = (
   queueId: string,
   callback: (payload: any) => void
 ) => {
-  const channel = supabase
+  if (isMockBackend()) {
+    return noopUnsubscribe;
+  }
+
+  const channel = getSupabase()
     .channel(`queue-status-${queueId}`)
     .on(
       'postgres_changes',
@@ -216,7 +287,7 @@ export const subscribeToQueueStatus = (
       },
       callback
     )
-    .subscribe();
+    .subscribe(reportChannelStatus);
 
   return () => {
     channel.unsubscribe();
@@ -234,7 +305,11 @@ export const subscribeToUserQueueEntries = (
   userId: string,
   callback: (payload: any) => void
 ) => {
-  const channel = supabase
+  if (isMockBackend()) {
+    return noopUnsubscribe;
+  }
+
+  const channel = getSupabase()
     .channel(`user-queue-${userId}`)
     .on(
       'postgres_changes',
@@ -246,7 +321,7 @@ export const subscribeToUserQueueEntries = (
       },
       callback
     )
-    .subscribe();
+    .subscribe(reportChannelStatus);
 
   return () => {
     channel.unsubscribe();
@@ -264,7 +339,11 @@ export const subscribeToCallSession = (
   sessionId: string,
   callback: (payload: any) => void
 ) => {
-  const channel = supabase
+  if (isMockBackend()) {
+    return noopUnsubscribe;
+  }
+
+  const channel = getSupabase()
     .channel(`call-session-${sessionId}`)
     .on(
       'postgres_changes',
@@ -276,7 +355,7 @@ export const subscribeToCallSession = (
       },
       callback
     )
-    .subscribe();
+    .subscribe(reportChannelStatus);
 
   return () => {
     channel.unsubscribe();
@@ -28,6 +28,17 @@ export const QUERY_KEYS = {
   WALLET_SUMMARY: ['wallet', 'summary'] as const,
   WALLET_TRANSACTIONS: ['wallet', 'transactions'] as const,
   RECHARGE_OPTIONS: ['wallet', 'recharge-options'] as const,
+
+  // Chat
+  CHAT_HISTORY: ['chat', 'history'] as const,
+
+  // Horoscope
+  DAILY_HOROSCOPES: ['horoscope', 'daily'] as const,
+  DAILY_HOROSCOPE: (sign: string) => ['horoscope', 'daily', sign] as const,
+
+  // Kundli & Matching
+  KUNDLI_LIST: ['kundli', 'list'] as const,
+  MATCHING_LIST: ['matching', 'list'] as const,
 };
 
 // Type helper for query keys
@@ -35,14 +46,39 @@ export type QueryKeyType = typeof QUERY_KEYS[keyof typeof QUERY_KEYS];
 
 // AsyncStorage keys for persistence (strings)
 export const STORAGE_KEYS = {
-  // Critical data - persisted to survive app restarts
-  USER_PROFILE: '@cache_user_profile',
-  CATEGORIES: '@cache_categories',
-  SPECIALIZATIONS: '@cache_specializations',
-  TOP_ASTROLOGERS: '@cache_top_astrologers',
+  // Persisted React Query cache (see PERSISTED_QUERIES)
+  QUERY_CACHE: '@cache_query_client',
+
+  // Reports saved on this device
+  SAVED_KUNDLIS: '@kundli_reports',
+  SAVED_MATCHINGS: '@matching_reports',
+
+  // Offline mutations waiting to be replayed (see outboxService)
+  OUTBOX_QUEUE: '@outbox_queue',
+
+  // Sync state of saved kundlis (see kundliSyncService)
+  KUNDLI_SYNC: '@kundli_sync',
+
+  // Place last chosen on the Panchang screen
+  PANCHANG_PLACE: '@panchang_place',
 
   // Cache metadata
   CACHE_TIMESTAMPS: '@cache_timestamps',
+  LEGACY_ADOPTED: '@cache_legacy_adopted', // Set once pre-namespace data was adopted
+};
+
+// Keys written before storage was namespaced by user (see CacheService.setUser)
+export const LEGACY_STORAGE_KEYS = {
+  // Raw arrays, adopted into the first user's namespace
+  DATA: [STORAGE_KEYS.SAVED_KUNDLIS, STORAGE_KEYS.SAVED_MATCHINGS, STORAGE_KEYS.OUTBOX_QUEUE],
+  // Global caches, dropped
+  CACHES: [
+    '@cache_user_profile',
+    '@cache_categories',
+    '@cache_specializations',
+    '@cache_top_astrologers',
+    STORAGE_KEYS.QUERY_CACHE,
+  ],
 };
 
 // TTL (Time to Live) in milliseconds
@@ -51,8 +87,34 @@ export const CACHE_TTL = {
   CATEGORIES: 24 * 60 * 60 * 1000, // 24 hours (static content)
   SPECIALIZATIONS: 24 * 60 * 60 * 1000, // 24 hours (static content)
   TOP_ASTROLOGERS: 30 * 60 * 1000, // 30 minutes
+  WALLET_SUMMARY: 24 * 60 * 60 * 1000, // 24 hours (refetched on every visit)
+  CHAT_HISTORY: 7 * 24 * 60 * 60 * 1000, // 7 days
+  DAILY_HOROSCOPE: 24 * 60 * 60 * 1000, // 24 hours (changes daily)
+  KUNDLI_LIST: 30 * 24 * 60 * 60 * 1000, // 30 days (user's own reports)
+  MATCHING_LIST: 30 * 24 * 60 * 60 * 1000, // 30 days (user's own reports)
+  PERSISTENT: Number.MAX_SAFE_INTEGER, // User-created data - never expires, archived on logout
 
   // React Query stale time
   STALE_TIME: 5 * 60 * 1000, // 5 minutes
   GC_TIME: 10 * 60 * 1000, // 10 minutes (garbage collection)
 };
+
+// Queries persisted to AsyncStorage by the QueryClient persister.
+// A query opts in when its key starts with one of these prefixes; ttl is how long
+// after it was fetched a persisted entry may still be restored on cold start.
+export interface PersistedQueryConfig {
+  queryKey: readonly unknown[];
+  ttl: number;
+}
+
+export const PERSISTED_QUERIES: PersistedQueryConfig[] = [
+  { queryKey: QUERY_KEYS.USER_PROFILE, ttl: CACHE_TTL.USER_PROFILE },
+  { queryKey: QUERY_KEYS.CATEGORIES, ttl: CACHE_TTL.CATEGORIES },
+  { queryKey: QUERY_KEYS.SPECIALIZATIONS, ttl: CACHE_TTL.SPECIALIZATIONS },
+  { queryKey: QUERY_KEYS.TOP_ASTROLOGERS, ttl: CACHE_TTL.TOP_ASTROLOGERS },
+  { queryKey: QUERY_KEYS.WALLET_SUMMARY, ttl: CACHE_TTL.WALLET_SUMMARY },
+  { queryKey: QUERY_KEYS.CHAT_HISTORY, ttl: CACHE_TTL.CHAT_HISTORY },
+  { queryKey: QUERY_KEYS.DAILY_HOROSCOPES, ttl: CACHE_TTL.DAILY_HOROSCOPE },
+  { queryKey: QUERY_KEYS.KUNDLI_LIST, ttl: CACHE_TTL.KUNDLI_LIST },
+  { queryKey: QUERY_KEYS.MATCHING_LIST, ttl: CACHE_TTL.MATCHING_LIST },
+];
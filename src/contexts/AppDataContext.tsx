@@ -48,20 +48,15 @@ export const AppDataProvider: React.FC<AppDataProviderProps> = ({ children }) =>
     prefetchService.setQueryClient(queryClient);
   }, [queryClient]);
 
-  // Hydrate from cache immediately on mount
+  // Persisted data is namespaced per user - forget the previous user's prefetch state
   useEffect(() => {
-    const hydrateCache = async () => {
-      try {
-        await prefetchService.hydrateFromCache();
-      } catch (error) {
-        console.warn('[AppData] Cache hydration failed:', error);
-      }
-    };
-
-    hydrateCache();
-  }, []);
+    if (!authLoading && !isAuthenticated) {
+      setPrefetchComplete(false);
+      setPrefetchResult(null);
+    }
+  }, [isAuthenticated, authLoading]);
 
-  // Start prefetch after authentication is confirmed
+  // Hydrate from the user's cache, then prefetch, once authentication is confirmed
   useEffect(() => {
     const startPrefetch = async () => {
       if (authLoading || !isAuthenticated) {
@@ -77,6 +72,9 @@ export const AppDataProvider: React.FC<AppDataProviderProps> = ({ children }) =>
       setPrefetchError(null);
 
       try {
+        // Restored data is shown instantly and covers requests that fail below
+        await prefetchService.hydrateFromCache();
+
         const result = await prefetchService.prefetchAllData();
         setPrefetchResult(result);
         setPrefetchComplete(true);
@@ -3,14 +3,19 @@
  * Manages global authentication state
  */
 
-import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
-import { authService } from '../services';
+import React, { createContext, useState, useContext, useEffect, useRef, ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { authService, cacheService, kundliSyncService, outboxService, queryPersister } from '../services';
 import { User } from '../types/api.types';
+import { authEvents, AuthEventReason } from '../utils/authEvents';
+import { isNetworkError } from '../utils/errorHandler';
+import { removeAllRealtimeChannels } from '../config/supabase.config';
 
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  signOutReason: AuthEventReason | null; // Why the user was signed out involuntarily
   login: (phone: string, otp: string) => Promise<void>;
   logout: () => Promise<void>;
   sendOTP: (phone: string) => Promise<void>;
@@ -27,6 +32,27 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   const [user, setUser] = useState<User | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [signOutReason, setSignOutReason] = useState<AuthEventReason | null>(null);
+  const queryClient = useQueryClient();
+
+  // Read inside the auth event listener without resubscribing
+  const isAuthenticatedRef = useRef(false);
+  useEffect(() => {
+    isAuthenticatedRef.current = isAuthenticated;
+  }, [isAuthenticated]);
+
+  /**
+   * Drop the signed-out user's data from memory and leave their storage namespace
+   */
+  const clearUserData = async () => {
+    // Let an in-flight replay or sync pass finish writing to this user's
+    // namespace first - queued changes and sync records are then archived
+    // with it, so they are never replayed for the next user
+    await Promise.all([outboxService.reset(), kundliSyncService.reset()]);
+    queryClient.clear();
+    await queryPersister.clear();
+    await cacheService.endUserSession();
+  };
 
   /**
    * Check if user is authenticated on app launch
@@ -35,6 +61,44 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     checkAuth();
   }, []);
 
+  /**
+   * Sign out when the API, realtime channels or live socket report an invalid session
+   * A burst of failing requests produces many events - only the first one acts
+   */
+  useEffect(() => {
+    return authEvents.subscribe(async (event) => {
+      if (!isAuthenticatedRef.current) {
+        return;
+      }
+      isAuthenticatedRef.current = false;
+
+      await removeAllRealtimeChannels();
+      await clearUserData();
+      await authService.logout();
+
+      // Navigation swaps to the unauthenticated stack and opens SignIn
+      setSignOutReason(event.reason);
+      setUser(null);
+      setIsAuthenticated(false);
+    });
+  }, [queryClient]);
+
+  /**
+   * Replay queued offline mutations and sync saved kundlis only while signed in
+   */
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    outboxService.start();
+    kundliSyncService.start();
+    return () => {
+      outboxService.stop();
+      kundliSyncService.stop();
+    };
+  }, [isAuthenticated]);
+
   /**
    * Check authentication status
    */
@@ -47,9 +111,19 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
         // Get current user from API
         try {
           const response = await authService.getCurrentUser();
+          await cacheService.setUser(response.user.id);
           setUser(response.user);
           setIsAuthenticated(true);
         } catch (error: any) {
+          // Offline cold start - keep the session and work from the user's cache
+          const storedUser = isNetworkError(error) ? await authService.getStoredUser() : null;
+          if (storedUser) {
+            await cacheService.setUser(storedUser.id);
+            setUser(storedUser);
+            setIsAuthenticated(true);
+            return;
+          }
+
           // If token is invalid or expired (401), clear it
           if (error?.response?.status === 401) {
             await authService.logout();
@@ -88,6 +162,8 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
       const response = await authService.verifyOtp(phone, otp);
 
       if (response.success) {
+        await cacheService.setUser(response.user.id);
+        setSignOutReason(null);
         setUser(response.user);
         setIsAuthenticated(true);
       } else {
@@ -105,6 +181,8 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   const logout = async () => {
     try {
       await authService.logout();
+      await outboxService.clear(); // Signing out on purpose discards changes not yet sent
+      await clearUserData();
       setUser(null);
       setIsAuthenticated(false);
     } catch (error) {
@@ -119,6 +197,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
         user,
         isAuthenticated,
         isLoading,
+        signOutReason,
         login,
         logout,
         sendOTP,
@@ -4,9 +4,11 @@
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { chatService, astrologerService } from '../services';
 import { ChatSession, Astrologer } from '../types/api.types';
 import { handleApiError } from '../utils/errorHandler';
+import { QUERY_KEYS } from '../constants/cacheKeys';
 
 // Chat history item combining session and astrologer data
 export interface ChatHistoryItem {
@@ -29,12 +31,12 @@ interface UseChatHistoryDataReturn {
   refetch: () => Promise<void>;
 }
 
+// Stable fallback so effects keyed on the history don't re-run every render
+const NO_HISTORY: ChatHistoryItem[] = [];
+
 export const useChatHistoryData = (): UseChatHistoryDataReturn => {
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQueryState] = useState('');
   const [chatHistory, setChatHistory] = useState<ChatHistoryItem[]>([]);
-  const [allChatHistory, setAllChatHistory] = useState<ChatHistoryItem[]>([]);
 
   // Debounce timer ref
   const debounceTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -117,24 +119,29 @@ export const useChatHistoryData = (): UseChatHistoryDataReturn => {
   };
 
   /**
-   * Load chat history data
+   * Chat history query - persisted, so it shows instantly (and offline) on cold start
    */
-  const loadData = async () => {
-    try {
-      setLoading(true);
-      setError(null);
+  const {
+    data: allChatHistory = NO_HISTORY,
+    isLoading: loading,
+    error: queryError,
+    refetch: refetchQuery,
+  } = useQuery({
+    queryKey: QUERY_KEYS.CHAT_HISTORY,
+    queryFn: fetchChatHistory,
+    retry: false, // ApiClient already retries transient failures
+  });
+
+  const error = queryError
+    ? handleApiError(queryError, { showAlert: false })?.message || 'Failed to load chat history'
+    : null;
 
-      const history = await fetchChatHistory();
-      setAllChatHistory(history);
-      setChatHistory(history);
-    } catch (err: any) {
-      console.error('Error loading chat history:', err);
-      const apiError = handleApiError(err, { showAlert: false });
-      setError(apiError?.message || 'Failed to load chat history');
-    } finally {
-      setLoading(false);
-    }
-  };
+  /**
+   * Reload chat history from the API
+   */
+  const loadData = useCallback(async () => {
+    await refetchQuery();
+  }, [refetchQuery]);
 
   /**
    * Filter chat history based on search query
@@ -169,11 +176,16 @@ export const useChatHistoryData = (): UseChatHistoryDataReturn => {
   }, [allChatHistory]);
 
   /**
-   * Load data on component mount
+   * Re-apply the current search whenever the history changes
    */
   useEffect(() => {
-    loadData();
+    setChatHistory(filterChatHistory(searchQuery, allChatHistory));
+  }, [allChatHistory]);
 
+  /**
+   * Clear pending search on unmount
+   */
+  useEffect(() => {
     // Cleanup
     return () => {
       if (debounceTimer.current) {
@@ -11,7 +11,6 @@ import {
   astrologerService,
   contentService,
   liveSessionService,
-  cacheService,
 } from '../services';
 import {
   UserProfile,
@@ -130,18 +129,15 @@ export const useHomeData = (): UseHomeDataReturn => {
       // Step 3: Update React Query cache
       if (userProfile) {
         queryClient.setQueryData(QUERY_KEYS.USER_PROFILE, userProfile);
-        await cacheService.setUserProfile(userProfile);
       }
       if (liveSessions.length > 0) {
         queryClient.setQueryData(QUERY_KEYS.LIVE_SESSIONS, liveSessions);
       }
       if (topRatedAstrologers.length > 0) {
         queryClient.setQueryData(QUERY_KEYS.TOP_ASTROLOGERS, topRatedAstrologers);
-        await cacheService.setTopAstrologers(topRatedAstrologers);
       }
       if (categories.length > 0) {
         queryClient.setQueryData(QUERY_KEYS.CATEGORIES, categories);
-        await cacheService.setCategories(categories);
       }
       if (banners.length > 0) {
         queryClient.setQueryData(QUERY_KEYS.BANNERS, banners);
@@ -4,7 +4,9 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { cacheService } from '../services/cache.service';
+import { kundliSyncService } from '../services/kundliSync.service';
+import { CACHE_TTL, STORAGE_KEYS } from '../constants/cacheKeys';
 import { SavedKundli, SavedMatching } from '../types/kundli';
 
 // Simple UUID generator - no external dependency needed
@@ -16,12 +18,6 @@ const generateUUID = (): string => {
   });
 };
 
-// Storage keys
-const STORAGE_KEYS = {
-  SAVED_KUNDLIS: '@kundli_reports',
-  SAVED_MATCHINGS: '@matching_reports',
-};
-
 /**
  * Hook for managing saved Kundli reports
  */
@@ -38,9 +34,9 @@ export const useSavedKundlis = () => {
   const loadKundlis = useCallback(async () => {
     try {
       setLoading(true);
-      const data = await AsyncStorage.getItem(STORAGE_KEYS.SAVED_KUNDLIS);
-      if (data) {
-        const parsed = JSON.parse(data) as SavedKundli[];
+      // Scoped to the signed-in user by CacheService
+      const parsed = await cacheService.get<SavedKundli[]>(STORAGE_KEYS.SAVED_KUNDLIS);
+      if (parsed) {
         // Sort by most recent first
         parsed.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
         setKundlis(parsed);
@@ -67,50 +63,40 @@ export const useSavedKundlis = () => {
         updatedAt: now,
       };
 
-      const updatedKundlis = [newKundli, ...kundlis];
-      await AsyncStorage.setItem(STORAGE_KEYS.SAVED_KUNDLIS, JSON.stringify(updatedKundlis));
+      // Through the sync service so a running sync pass keeps the new kundli
+      const updatedKundlis = await kundliSyncService.updateLocal((current) => [newKundli, ...current]);
       setKundlis(updatedKundlis);
       return newKundli;
     } catch (err) {
       console.error('Error saving kundli:', err);
       throw new Error('Failed to save report');
     }
-  }, [kundlis]);
+  }, []);
 
   const updateKundli = useCallback(async (id: string, updates: Partial<SavedKundli>): Promise<SavedKundli | null> => {
     try {
-      const index = kundlis.findIndex(k => k.id === id);
-      if (index === -1) return null;
-
-      const updatedKundli: SavedKundli = {
-        ...kundlis[index],
-        ...updates,
-        updatedAt: new Date().toISOString(),
-      };
-
-      const updatedKundlis = [...kundlis];
-      updatedKundlis[index] = updatedKundli;
-
-      await AsyncStorage.setItem(STORAGE_KEYS.SAVED_KUNDLIS, JSON.stringify(updatedKundlis));
+      const updatedAt = new Date().toISOString();
+      const updatedKundlis = await kundliSyncService.updateLocal((current) =>
+        current.map(k => (k.id === id ? { ...k, ...updates, updatedAt } : k))
+      );
       setKundlis(updatedKundlis);
-      return updatedKundli;
+      return updatedKundlis.find(k => k.id === id) ?? null;
     } catch (err) {
       console.error('Error updating kundli:', err);
       throw new Error('Failed to update report');
     }
-  }, [kundlis]);
+  }, []);
 
   const deleteKundli = useCallback(async (id: string): Promise<boolean> => {
     try {
-      const updatedKundlis = kundlis.filter(k => k.id !== id);
-      await AsyncStorage.setItem(STORAGE_KEYS.SAVED_KUNDLIS, JSON.stringify(updatedKundlis));
+      const updatedKundlis = await kundliSyncService.updateLocal((current) => current.filter(k => k.id !== id));
       setKundlis(updatedKundlis);
       return true;
     } catch (err) {
       console.error('Error deleting kundli:', err);
       throw new Error('Failed to delete report');
     }
-  }, [kundlis]);
+  }, []);
 
   const getKundliById = useCallback((id: string): SavedKundli | undefined => {
     return kundlis.find(k => k.id === id);
@@ -154,9 +140,9 @@ export const useSavedMatchings = () => {
   const loadMatchings = useCallback(async () => {
     try {
       setLoading(true);
-      const data = await AsyncStorage.getItem(STORAGE_KEYS.SAVED_MATCHINGS);
-      if (data) {
-        const parsed = JSON.parse(data) as SavedMatching[];
+      // Scoped to the signed-in user by CacheService
+      const parsed = await cacheService.get<SavedMatching[]>(STORAGE_KEYS.SAVED_MATCHINGS);
+      if (parsed) {
         // Sort by most recent first
         parsed.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
         setMatchings(parsed);
@@ -184,7 +170,7 @@ export const useSavedMatchings = () => {
       };
 
       const updatedMatchings = [newMatching, ...matchings];
-      await AsyncStorage.setItem(STORAGE_KEYS.SAVED_MATCHINGS, JSON.stringify(updatedMatchings));
+      await cacheService.set(STORAGE_KEYS.SAVED_MATCHINGS, updatedMatchings, CACHE_TTL.PERSISTENT);
       setMatchings(updatedMatchings);
       return newMatching;
     } catch (err) {
@@ -196,7 +182,7 @@ export const useSavedMatchings = () => {
   const deleteMatching = useCallback(async (id: string): Promise<boolean> => {
     try {
       const updatedMatchings = matchings.filter(m => m.id !== id);
-      await AsyncStorage.setItem(STORAGE_KEYS.SAVED_MATCHINGS, JSON.stringify(updatedMatchings));
+      await cacheService.set(STORAGE_KEYS.SAVED_MATCHINGS, updatedMatchings, CACHE_TTL.PERSISTENT);
       setMatchings(updatedMatchings);
       return true;
     } catch (err) {
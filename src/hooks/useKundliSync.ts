@@ -0,0 +1,49 @@
+/**
+ * useKundliSync Hook
+ * Exposes per-kundli sync status and runs syncs between local and server kundlis
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { kundliSyncService, KundliSyncSnapshot } from '../services';
+import { KundliSyncRecord, SavedKundli } from '../types/kundli';
+
+interface UseKundliSyncOptions {
+  onSynced?: () => void; // e.g. reload the local store and refetch the server list
+}
+
+interface UseKundliSyncReturn {
+  records: Record<string, KundliSyncRecord>;
+  syncing: boolean;
+  lastSyncedAt: number | null;
+  sync: () => Promise<void>;
+  remove: (kundli: SavedKundli) => Promise<boolean>;
+}
+
+export const useKundliSync = (options: UseKundliSyncOptions = {}): UseKundliSyncReturn => {
+  const [snapshot, setSnapshot] = useState<KundliSyncSnapshot>(kundliSyncService.getSnapshot());
+
+  // Keep the latest callback without resubscribing on every render
+  const onSyncedRef = useRef(options.onSynced);
+  onSyncedRef.current = options.onSynced;
+
+  useEffect(() => {
+    const unsubscribe = kundliSyncService.subscribe(setSnapshot);
+    const unsubscribeSynced = kundliSyncService.onSynced(() => onSyncedRef.current?.());
+    kundliSyncService.init();
+    return () => {
+      unsubscribe();
+      unsubscribeSynced();
+    };
+  }, []);
+
+  const sync = useCallback(() => kundliSyncService.sync(), []);
+  const remove = useCallback((kundli: SavedKundli) => kundliSyncService.remove(kundli), []);
+
+  return {
+    records: snapshot.records,
+    syncing: snapshot.syncing,
+    lastSyncedAt: snapshot.lastSyncedAt,
+    sync,
+    remove,
+  };
+};
@@ -0,0 +1,72 @@
+/**
+ * useOutbox Hook
+ * Exposes queued offline mutations and their pending/failed state
+ */
+
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { outboxService } from '../services';
+import { OutboxEntry, OutboxMutationType } from '../types/outbox.types';
+
+interface UseOutboxOptions {
+  types?: OutboxMutationType[]; // Only track these mutation types (default: all)
+  onReplayed?: (entry: OutboxEntry) => void; // e.g. refetch data the mutation changed
+}
+
+interface UseOutboxReturn {
+  entries: OutboxEntry[];
+  pendingCount: number;
+  failedCount: number;
+  retry: (id: string) => Promise<void>;
+  retryAllFailed: () => Promise<void>;
+  discard: (id: string) => Promise<void>;
+}
+
+const matchesTypes = (typesKey: string | null, entry: OutboxEntry): boolean =>
+  typesKey === null || typesKey.split(',').includes(entry.type);
+
+export const useOutbox = (options: UseOutboxOptions = {}): UseOutboxReturn => {
+  const { types, onReplayed } = options;
+  const [allEntries, setAllEntries] = useState<OutboxEntry[]>(outboxService.getEntries());
+
+  // Keep the latest callback without resubscribing on every render
+  const onReplayedRef = useRef(onReplayed);
+  onReplayedRef.current = onReplayed;
+
+  // Callers usually pass an inline array - compare by value
+  const typesKey = types ? types.join(',') : null;
+
+  useEffect(() => {
+    const unsubscribe = outboxService.subscribe(setAllEntries);
+    outboxService.init();
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    return outboxService.onReplayed((entry) => {
+      if (matchesTypes(typesKey, entry)) {
+        onReplayedRef.current?.(entry);
+      }
+    });
+  }, [typesKey]);
+
+  const entries = useMemo(
+    () => allEntries.filter((entry) => matchesTypes(typesKey, entry)),
+    [allEntries, typesKey]
+  );
+
+  const retryAllFailed = useCallback(async () => {
+    const failed = entries.filter((entry) => entry.status === 'failed');
+    for (const entry of failed) {
+      await outboxService.retry(entry.id);
+    }
+  }, [entries]);
+
+  return {
+    entries,
+    pendingCount: entries.filter((entry) => entry.status === 'pending').length,
+    failedCount: entries.filter((entry) => entry.status === 'failed').length,
+    retry: (id: string) => outboxService.retry(id),
+    retryAllFailed,
+    discard: (id: string) => outboxService.discard(id),
+  };
+};
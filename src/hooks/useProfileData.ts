@@ -4,7 +4,7 @@
  */
 
 import { useState, useEffect } from 'react';
-import { userService } from '../services';
+import { userService, OutboxQueuedError } from '../services';
 import { UserProfile } from '../types/api.types';
 import { handleApiError } from '../utils/errorHandler';
 
@@ -13,7 +13,7 @@ interface UseProfileDataReturn {
   loading: boolean;
   error: string | null;
   refetch: () => Promise<void>;
-  updateProfile: (data: Partial<UserProfile>) => Promise<void>;
+  updateProfile: (data: Partial<UserProfile>) => Promise<'saved' | 'queued'>;
   updating: boolean;
 }
 
@@ -44,15 +44,22 @@ export const useProfileData = (): UseProfileDataReturn => {
 
   /**
    * Update user profile
+   * Offline updates are queued and applied optimistically
    */
-  const updateProfile = async (data: any) => {
+  const updateProfile = async (data: any): Promise<'saved' | 'queued'> => {
     try {
       setUpdating(true);
       setError(null);
 
       const updatedProfile = await userService.updateProfile(data);
       setUserProfile(updatedProfile);
+      return 'saved';
     } catch (err: any) {
+      if (err instanceof OutboxQueuedError) {
+        setUserProfile((prev) => (prev ? { ...prev, ...data } : prev));
+        handleApiError(err);
+        return 'queued';
+      }
       console.error('Error updating profile:', err);
       handleApiError(err);
       throw err;
@@ -62,7 +62,7 @@ export const useWalletData = (): UseWalletDataReturn => {
     error: summaryError,
     refetch: refetchSummary,
   } = useQuery({
-    queryKey: [QUERY_KEYS.WALLET_BALANCE, 'summary'],
+    queryKey: QUERY_KEYS.WALLET_SUMMARY, // Persisted - see PERSISTED_QUERIES
     queryFn: async () => {
       try {
         return await walletService.getSummary();
@@ -95,7 +95,7 @@ export const useWalletData = (): UseWalletDataReturn => {
     error: transactionsError,
     refetch: refetchTransactions,
   } = useQuery({
-    queryKey: [QUERY_KEYS.WALLET_TRANSACTIONS, activeFilter, transactionsPage],
+    queryKey: [...QUERY_KEYS.WALLET_TRANSACTIONS, activeFilter, transactionsPage],
     queryFn: async () => {
       const type = activeFilter === 'all' ? undefined : activeFilter;
       return await walletService.getTransactions(transactionsPage, 20, type);
@@ -0,0 +1,538 @@
+/**
+ * Mock Fixtures
+ * Static sample data served by the mock backend (see mockAdapter.ts)
+ */
+
+import {
+  User,
+  UserProfile,
+  Astrologer,
+  Category,
+  Specialization,
+  Banner,
+  WalletSummary,
+  Transaction,
+  RechargeOption,
+  ChatSession,
+  ChatMessage,
+  Review,
+} from '../types/api.types';
+import { LiveSession, LiveSessionMessage, LiveSessionViewer } from '../types/liveSession.types';
+import { QueueInfo } from '../types/call.types';
+import { DailyHoroscope, ZodiacSign, ZodiacSignId } from '../types/horoscope';
+import { BirthPlace, SavedKundli, KundliReport, SavedMatching, MatchingReport } from '../types/kundli';
+import { ZODIAC_SIGNS } from '../constants/zodiac';
+
+const NOW = new Date().toISOString();
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+// ===============================
+// Users
+// ===============================
+
+export const MOCK_USER: User = {
+  id: 'mock-user-1',
+  phone: '+919876543210',
+  name: 'Priya Raman',
+  email: 'priya@example.com',
+  profileImage: null,
+  dateOfBirth: '1994-08-17',
+  placeOfBirth: 'Chennai, Tamil Nadu',
+  timeOfBirth: '06:45',
+  gender: 'female',
+  maritalStatus: 'single',
+  walletBalance: 850,
+  role: 'user',
+  isActive: true,
+  createdAt: '2024-01-10T09:00:00.000Z',
+  updatedAt: NOW,
+};
+
+export const MOCK_USER_PROFILE: UserProfile = {
+  userId: MOCK_USER.id,
+  name: MOCK_USER.name,
+  phone: MOCK_USER.phone,
+  email: MOCK_USER.email,
+  profileImage: MOCK_USER.profileImage,
+  walletBalance: MOCK_USER.walletBalance ?? 0,
+  dateOfBirth: MOCK_USER.dateOfBirth,
+  placeOfBirth: MOCK_USER.placeOfBirth,
+  timeOfBirth: MOCK_USER.timeOfBirth,
+  gender: MOCK_USER.gender,
+  maritalStatus: MOCK_USER.maritalStatus,
+  createdAt: MOCK_USER.createdAt!,
+};
+
+// ===============================
+// Astrologers
+// ===============================
+
+const astrologer = (
+  id: string,
+  name: string,
+  overrides: Partial<Astrologer> = {}
+): Astrologer => ({
+  id,
+  phone: '+910000000000',
+  name,
+  email: null,
+  image: `https://i.pravatar.cc/300?u=${id}`,
+  description: `${name} has been guiding clients through Vedic astrology for years.`,
+  specialization: ['Vedic', 'Marriage'],
+  languages: ['Tamil', 'English'],
+  experience: 10,
+  education: ['Jyotish Visharad'],
+  pricePerMinute: 20,
+  rating: 4.7,
+  totalCalls: 1200,
+  totalReviews: 340,
+  isAvailable: true,
+  isLive: false,
+  chatAvailable: true,
+  callAvailable: true,
+  chatPricePerMinute: 20,
+  callPricePerMinute: 25,
+  status: 'approved',
+  photos: [],
+  createdAt: '2023-06-01T00:00:00.000Z',
+  updatedAt: NOW,
+  ...overrides,
+});
+
+export const MOCK_ASTROLOGERS: Astrologer[] = [
+  astrologer('mock-astro-1', 'Acharya Venkatesh', { rating: 4.9, experience: 22, isLive: true }),
+  astrologer('mock-astro-2', 'Lakshmi Narayanan', {
+    specialization: ['Kundli', 'Career'],
+    pricePerMinute: 15,
+    chatPricePerMinute: 15,
+    callPricePerMinute: 18,
+  }),
+  astrologer('mock-astro-3', 'Pandit Rakesh Sharma', {
+    languages: ['Hindi', 'English'],
+    specialization: ['Numerology', 'Vastu'],
+    rating: 4.5,
+    callAvailable: false,
+  }),
+  astrologer('mock-astro-4', 'Meenakshi Sundaram', {
+    specialization: ['Tarot', 'Love'],
+    experience: 6,
+    rating: 4.6,
+    isAvailable: false,
+    chatAvailable: false,
+    callAvailable: false,
+    nextAvailableAt: hoursAgo(-3),
+  }),
+];
+
+export const MOCK_REVIEWS: Review[] = [
+  {
+    id: 'mock-review-1',
+    userId: 'mock-user-2',
+    userName: 'Karthik',
+    userImage: null,
+    rating: 5,
+    comment: 'Very accurate and patient.',
+    tags: ['Accurate', 'Helpful'],
+    status: 'approved',
+    createdAt: hoursAgo(48),
+  },
+];
+
+export const MOCK_WORKING_HOURS: Record<string, string> = {
+  monday: '09:00-18:00',
+  tuesday: '09:00-18:00',
+  wednesday: '09:00-18:00',
+  thursday: '09:00-18:00',
+  friday: '09:00-18:00',
+  saturday: '10:00-14:00',
+};
+
+// ===============================
+// Content
+// ===============================
+
+export const MOCK_CATEGORIES: Category[] = ['Love', 'Career', 'Marriage', 'Health', 'Finance'].map(
+  (name, index) => ({
+    id: `mock-category-${index + 1}`,
+    name,
+    icon: name.toLowerCase(),
+    description: null,
+    order: index + 1,
+    isActive: true,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  })
+);
+
+export const MOCK_SPECIALIZATIONS: Specialization[] = [
+  'Vedic',
+  'Kundli',
+  'Numerology',
+  'Tarot',
+  'Vastu',
+].map((name, index) => ({
+  id: `mock-specialization-${index + 1}`,
+  name,
+  icon: null,
+  description: null,
+  order: index + 1,
+  isActive: true,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+}));
+
+export const MOCK_BANNERS: Banner[] = [
+  {
+    id: 'mock-banner-1',
+    title: 'First chat free',
+    subtitle: 'Talk to a verified astrologer today',
+    buttonText: 'Chat Now',
+    buttonAction: 'BrowseChat',
+    image: null,
+    backgroundColor: '#2930A6',
+    order: 1,
+    isActive: true,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+];
+
+// ===============================
+// Wallet
+// ===============================
+
+export const MOCK_TRANSACTIONS: Transaction[] = [
+  {
+    id: 'mock-txn-1',
+    type: 'recharge',
+    amount: 500,
+    description: 'Wallet recharge',
+    paymentMethod: 'upi',
+    status: 'completed',
+    balanceBefore: 500,
+    balanceAfter: 1000,
+    createdAt: hoursAgo(72),
+  },
+  {
+    id: 'mock-txn-2',
+    type: 'debit',
+    amount: 150,
+    description: 'Chat with Acharya Venkatesh',
+    astrologerId: 'mock-astro-1',
+    astrologerName: 'Acharya Venkatesh',
+    sessionId: 'mock-chat-session-1',
+    duration: 10,
+    status: 'completed',
+    balanceBefore: 1000,
+    balanceAfter: 850,
+    createdAt: hoursAgo(24),
+  },
+];
+
+export const MOCK_WALLET_SUMMARY: WalletSummary = {
+  balance: MOCK_USER_PROFILE.walletBalance,
+  currency: 'INR',
+  pendingOrders: 0,
+  stats: {
+    last30Days: {
+      totalSpent: 150,
+      totalRecharged: 500,
+      transactionCount: MOCK_TRANSACTIONS.length,
+    },
+  },
+  recentTransactions: MOCK_TRANSACTIONS,
+};
+
+export const MOCK_RECHARGE_OPTIONS: RechargeOption[] = [
+  { amount: 100 },
+  { amount: 200 },
+  { amount: 500, bonus: 50, isPopular: true },
+  { amount: 1000, bonus: 150 },
+];
+
+// ===============================
+// Chat & Call
+// ===============================
+
+export const MOCK_CHAT_SESSIONS: ChatSession[] = [
+  {
+    id: 'mock-chat-session-1',
+    userId: MOCK_USER.id,
+    astrologerId: 'mock-astro-1',
+    astrologerName: 'Acharya Venkatesh',
+    sessionType: 'chat',
+    startTime: hoursAgo(24),
+    endTime: hoursAgo(23.8),
+    duration: 10,
+    pricePerMinute: 15,
+    totalCost: 150,
+    status: 'completed',
+    rating: 5,
+    createdAt: hoursAgo(24),
+  },
+];
+
+export const MOCK_CHAT_MESSAGES: ChatMessage[] = [
+  {
+    id: 'mock-message-1',
+    sessionId: 'mock-chat-session-1',
+    senderId: MOCK_USER.id,
+    senderType: 'user',
+    message: 'When is a good time to change jobs?',
+    type: 'text',
+    isRead: true,
+    createdAt: hoursAgo(24),
+  },
+  {
+    id: 'mock-message-2',
+    sessionId: 'mock-chat-session-1',
+    senderId: 'mock-astro-1',
+    senderType: 'astrologer',
+    message: 'Jupiter moves into your 10th house in spring - that is a favourable window.',
+    type: 'text',
+    isRead: true,
+    createdAt: hoursAgo(23.9),
+  },
+];
+
+export const MOCK_QUEUE_INFO: QueueInfo = {
+  queueSize: 2,
+  estimatedWaitMinutes: 12,
+  isInCall: false,
+  canJoinQueue: true,
+  maxQueueSize: 10,
+};
+
+// ===============================
+// Live Sessions
+// ===============================
+
+export const MOCK_LIVE_SESSIONS: LiveSession[] = [
+  {
+    id: 'mock-live-1',
+    astrologerId: 'mock-astro-1',
+    astrologerName: 'Acharya Venkatesh',
+    astrologerImage: MOCK_ASTROLOGERS[0].image,
+    title: 'Guru Peyarchi predictions',
+    description: 'What the Jupiter transit means for each rasi',
+    viewerCount: 128,
+    startTime: hoursAgo(0.5),
+    status: 'live',
+    category: 'Transit',
+    tags: ['jupiter', 'transit'],
+    isFollowing: false,
+    createdAt: hoursAgo(1),
+  },
+];
+
+export const MOCK_LIVE_MESSAGES: LiveSessionMessage[] = [
+  {
+    id: 'mock-live-message-1',
+    sessionId: 'mock-live-1',
+    userId: 'mock-user-2',
+    userName: 'Karthik',
+    message: 'Vanakkam guruji!',
+    type: 'text',
+    createdAt: hoursAgo(0.4),
+  },
+];
+
+export const MOCK_LIVE_VIEWERS: LiveSessionViewer[] = [
+  {
+    id: 'mock-viewer-1',
+    sessionId: 'mock-live-1',
+    userId: 'mock-user-2',
+    userName: 'Karthik',
+    joinedAt: hoursAgo(0.4),
+    isActive: true,
+  },
+];
+
+// ===============================
+// Horoscope & Places
+// ===============================
+
+export const MOCK_ZODIAC_SIGNS: ZodiacSign[] = ZODIAC_SIGNS.map((sign) => ({
+  id: sign.id as ZodiacSignId,
+  name: sign.name,
+  symbol: sign.symbol,
+  element: (sign.element.charAt(0).toUpperCase() + sign.element.slice(1)) as ZodiacSign['element'],
+  dateRange: sign.dateRange,
+}));
+
+export const buildMockHoroscope = (sign: DailyHoroscope['sign']): DailyHoroscope => ({
+  sign,
+  date: NOW.slice(0, 10),
+  day: new Date().toLocaleDateString('en-US', { weekday: 'long' }),
+  horoscope: {
+    general: 'A steady day. Finish what you started before taking on anything new.',
+    love: 'An honest conversation clears a lingering doubt.',
+    career: 'Your preparation is noticed - speak up in meetings.',
+    health: 'Keep meals regular and get to bed early.',
+  },
+  luckyNumber: 7,
+  luckyColor: 'Saffron',
+  compatibility: 'Leo',
+});
+
+export const MOCK_PLACES: BirthPlace[] = [
+  { name: 'Chennai', state: 'Tamil Nadu', country: 'India', latitude: 13.0827, longitude: 80.2707, timezone: 'Asia/Kolkata' },
+  { name: 'Madurai', state: 'Tamil Nadu', country: 'India', latitude: 9.9252, longitude: 78.1198, timezone: 'Asia/Kolkata' },
+  { name: 'Coimbatore', state: 'Tamil Nadu', country: 'India', latitude: 11.0168, longitude: 76.9558, timezone: 'Asia/Kolkata' },
+  { name: 'Bengaluru', state: 'Karnataka', country: 'India', latitude: 12.9716, longitude: 77.5946, timezone: 'Asia/Kolkata' },
+  { name: 'Mumbai', state: 'Maharashtra', country: 'India', latitude: 19.076, longitude: 72.8777, timezone: 'Asia/Kolkata' },
+  { name: 'New Delhi', state: 'Delhi', country: 'India', latitude: 28.6139, longitude: 77.209, timezone: 'Asia/Kolkata' },
+];
+
+// ===============================
+// Kundli & Matching
+// ===============================
+
+export const MOCK_KUNDLIS: SavedKundli[] = [
+  {
+    id: 'mock-kundli-1',
+    name: 'Priya Raman',
+    gender: 'female',
+    dateOfBirth: '1994-08-17',
+    timeOfBirth: '06:45',
+    birthPlace: MOCK_PLACES[0],
+    createdAt: hoursAgo(240),
+    updatedAt: hoursAgo(240),
+  },
+];
+
+export const buildMockKundliReport = (kundliId: string): KundliReport => ({
+  kundliId,
+  basicInfo: {
+    nakshatra: { name: 'Rohini', lord: 'Moon', pada: 2, deity: 'Brahma', ganam: 'Manushya', nadi: 'Antya', animal: 'Serpent' },
+    rasi: { name: 'Taurus', lord: 'Venus', element: 'Earth' },
+    lagna: { name: 'Leo', lord: 'Sun', degree: 4.2 },
+    tithi: { name: 'Ekadashi', paksha: 'Krishna' },
+    yoga: { name: 'Vyaghata' },
+    karana: { name: 'Bava' },
+    sunSign: 'Leo',
+    moonSign: 'Taurus',
+  },
+  planets: [
+    { name: 'Sun', sign: 'Cancer', degree: 31.2, isRetrograde: false, house: 12, nakshatra: 'Ashlesha', nakshatraPada: 1 },
+    { name: 'Moon', sign: 'Taurus', degree: 15.6, isRetrograde: false, house: 10, nakshatra: 'Rohini', nakshatraPada: 2 },
+    { name: 'Mars', sign: 'Gemini', degree: 9.8, isRetrograde: false, house: 11, nakshatra: 'Ardra', nakshatraPada: 1 },
+    { name: 'Mercury', sign: 'Leo', degree: 2.4, isRetrograde: true, house: 1, nakshatra: 'Magha', nakshatraPada: 1 },
+    { name: 'Jupiter', sign: 'Libra', degree: 12.9, isRetrograde: false, house: 3, nakshatra: 'Swati', nakshatraPada: 2 },
+    { name: 'Venus', sign: 'Leo', degree: 27.1, isRetrograde: false, house: 1, nakshatra: 'Uttara Phalguni', nakshatraPada: 1 },
+    { name: 'Saturn', sign: 'Aquarius', degree: 17.3, isRetrograde: true, house: 7, nakshatra: 'Shatabhisha', nakshatraPada: 4 },
+    { name: 'Rahu', sign: 'Libra', degree: 4.5, isRetrograde: true, house: 3, nakshatra: 'Chitra', nakshatraPada: 4 },
+    { name: 'Ketu', sign: 'Aries', degree: 4.5, isRetrograde: true, house: 9, nakshatra: 'Ashwini', nakshatraPada: 2 },
+  ],
+  yogas: [
+    { name: 'Gaja Kesari Yoga', hasYoga: false, description: 'Jupiter in a kendra from the Moon.' },
+    { name: 'Budha Aditya Yoga', hasYoga: true, description: 'Sun and Mercury together.', strength: 'moderate' },
+  ],
+  doshas: {
+    mangalDosha: {
+      hasDosha: false,
+      severity: 'none',
+      description: 'Mars is not placed in a dosha house.',
+      remedies: [],
+    },
+    kaalSarpDosha: {
+      hasDosha: false,
+      type: 'none',
+      severity: 'none',
+      description: 'Planets are not hemmed between Rahu and Ketu.',
+      remedies: [],
+    },
+    sadeSati: {
+      isActive: false,
+      phase: 'none',
+      startDate: null,
+      endDate: null,
+      saturnSign: 'Pisces',
+      moonSign: 'Taurus',
+    },
+  },
+  dasha: {
+    current: {
+      mahadasha: { planet: 'Rahu', startDate: '2015-03-02', endDate: '2033-03-02', totalYears: 18 },
+      antardasha: { planet: 'Venus', startDate: '2024-11-20', endDate: '2027-11-20' },
+    },
+    timeline: [
+      { planet: 'Mars', startDate: '2008-03-02', endDate: '2015-03-02', durationYears: 7 },
+      { planet: 'Rahu', startDate: '2015-03-02', endDate: '2033-03-02', durationYears: 18, isCurrent: true },
+      { planet: 'Jupiter', startDate: '2033-03-02', endDate: '2049-03-02', durationYears: 16 },
+    ],
+  },
+  remedies: {
+    gemstone: { name: 'Ruby', planet: 'Sun', finger: 'Ring', metal: 'Gold', day: 'Sunday' },
+    luckyColors: ['Orange', 'Gold'],
+    luckyNumbers: [1, 9],
+    luckyDays: ['Sunday'],
+    mantras: ['Om Suryaya Namah'],
+  },
+  predictions: {
+    general: 'A confident, generous nature with a strong sense of duty.',
+    career: 'Leadership roles suit you; government or administration is favoured.',
+  },
+  charts: {
+    rasiChart: {
+      chartType: 'D1',
+      chartName: 'Rasi',
+      svgUrl: '',
+      svgUrlNorth: '',
+      houses: [],
+    },
+  },
+});
+
+export const MOCK_MATCHINGS: SavedMatching[] = [
+  {
+    id: 'mock-matching-1',
+    boy: {
+      name: 'Arun Kumar',
+      gender: 'male',
+      dateOfBirth: '1992-02-11',
+      timeOfBirth: '21:10',
+      birthPlace: MOCK_PLACES[1],
+    },
+    girl: {
+      name: 'Priya Raman',
+      gender: 'female',
+      dateOfBirth: '1994-08-17',
+      timeOfBirth: '06:45',
+      birthPlace: MOCK_PLACES[0],
+    },
+    score: 32.5,
+    maxScore: 36,
+    createdAt: hoursAgo(120),
+    updatedAt: hoursAgo(120),
+  },
+];
+
+export const buildMockMatchingReport = (matchingId: string): MatchingReport => ({
+  matchingId,
+  boy: { name: 'Arun Kumar', nakshatra: 'Hasta', rasi: 'Virgo', nakshatraLord: 'Moon' },
+  girl: { name: 'Priya Raman', nakshatra: 'Rohini', rasi: 'Taurus', nakshatraLord: 'Moon' },
+  totalScore: 32.5,
+  maxScore: 36,
+  verdict: {
+    rating: 'good',
+    description: 'A good match with strong mutual understanding.',
+    recommendation: 'Recommended for marriage.',
+  },
+  ashtakootGunas: [
+    { id: 'varna', name: 'Varna', description: 'Spiritual compatibility', maxPoints: 1, obtainedPoints: 1, boyAttribute: 'Vaishya', girlAttribute: 'Vaishya', verdict: 'excellent' },
+    { id: 'vashya', name: 'Vashya', description: 'Mutual attraction', maxPoints: 2, obtainedPoints: 2, boyAttribute: 'Manava', girlAttribute: 'Chatushpada', verdict: 'excellent' },
+    { id: 'tara', name: 'Tara', description: 'Destiny', maxPoints: 3, obtainedPoints: 1.5, boyAttribute: 'Hasta', girlAttribute: 'Rohini', verdict: 'average' },
+    { id: 'yoni', name: 'Yoni', description: 'Physical compatibility', maxPoints: 4, obtainedPoints: 2, boyAttribute: 'Buffalo', girlAttribute: 'Serpent', verdict: 'average' },
+    { id: 'graha_maitri', name: 'Graha Maitri', description: 'Mental compatibility', maxPoints: 5, obtainedPoints: 5, boyAttribute: 'Mercury', girlAttribute: 'Venus', verdict: 'excellent' },
+    { id: 'gana', name: 'Gana', description: 'Temperament', maxPoints: 6, obtainedPoints: 6, boyAttribute: 'Deva', girlAttribute: 'Manushya', verdict: 'excellent' },
+    { id: 'bhakoot', name: 'Bhakoot', description: 'Love and family welfare', maxPoints: 7, obtainedPoints: 7, boyAttribute: 'Virgo', girlAttribute: 'Taurus', verdict: 'excellent' },
+    { id: 'nadi', name: 'Nadi', description: 'Health and genes', maxPoints: 8, obtainedPoints: 8, boyAttribute: 'Adi', girlAttribute: 'Antya', verdict: 'excellent' },
+  ],
+  doshaAnalysis: {
+    mangalDosha: { boyHasDosha: false, girlHasDosha: false, cancellation: null, status: 'No Mangal Dosha' },
+    nadiDosha: { present: false, description: 'Different nadis - no Nadi Dosha.' },
+  },
+  summary: 'Good compatibility across most gunas.',
+  recommendations: ['Consult an astrologer for a muhurtham.'],
+});
@@ -0,0 +1,526 @@
+/**
+ * Mock Backend Adapter
+ * Axios adapter that answers every API_ENDPOINTS route from local fixtures
+ * Enabled by the 'mock' environment (see config/environment.ts)
+ */
+
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { API_ENDPOINTS } from '../config/api.config';
+import {
+  MOCK_USER,
+  MOCK_USER_PROFILE,
+  MOCK_ASTROLOGERS,
+  MOCK_REVIEWS,
+  MOCK_WORKING_HOURS,
+  MOCK_CATEGORIES,
+  MOCK_SPECIALIZATIONS,
+  MOCK_BANNERS,
+  MOCK_TRANSACTIONS,
+  MOCK_WALLET_SUMMARY,
+  MOCK_RECHARGE_OPTIONS,
+  MOCK_CHAT_SESSIONS,
+  MOCK_CHAT_MESSAGES,
+  MOCK_QUEUE_INFO,
+  MOCK_LIVE_SESSIONS,
+  MOCK_LIVE_MESSAGES,
+  MOCK_LIVE_VIEWERS,
+  MOCK_ZODIAC_SIGNS,
+  MOCK_PLACES,
+  MOCK_KUNDLIS,
+  MOCK_MATCHINGS,
+  buildMockHoroscope,
+  buildMockKundliReport,
+  buildMockMatchingReport,
+} from './fixtures';
+
+// Simulated network latency in ms
+const MOCK_LATENCY = 300;
+
+type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+interface MockRequest {
+  params: Record<string, string>; // Path parameters
+  query: Record<string, any>;
+  body: any;
+}
+
+interface MockResult {
+  status?: number;
+  body: unknown;
+}
+
+interface MockRoute {
+  method: HttpMethod;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: (request: MockRequest) => MockResult;
+}
+
+// In-memory copies so mutations survive for the lifetime of the app session
+const kundlis = [...MOCK_KUNDLIS];
+const matchings = [...MOCK_MATCHINGS];
+const chatMessages = [...MOCK_CHAT_MESSAGES];
+
+const ok = (data?: unknown, extra: Record<string, unknown> = {}): MockResult => ({
+  body: { success: true, data, message: 'OK', ...extra },
+});
+
+const notFound = (message: string): MockResult => ({
+  status: 404,
+  body: { success: false, error: { code: 'NOT_FOUND', message } },
+});
+
+const paginate = <T>(items: T[], query: Record<string, any>) => {
+  const limit = Number(query.limit) || items.length || 1;
+  return {
+    currentPage: 1,
+    totalPages: Math.max(1, Math.ceil(items.length / limit)),
+    totalItems: items.length,
+    itemsPerPage: limit,
+    hasNext: items.length > limit,
+    hasPrev: false,
+  };
+};
+
+const nowIso = () => new Date().toISOString();
+const inSeconds = (seconds: number) => new Date(Date.now() + seconds * 1000).toISOString();
+const mockId = (prefix: string) => `${prefix}-${Date.now()}`;
+
+const findAstrologer = (id: string) =>
+  MOCK_ASTROLOGERS.find((astrologer) => astrologer.id === id) || MOCK_ASTROLOGERS[0];
+
+const mockCallSession = (sessionId: string) => ({
+  sessionId,
+  twilioToken: 'mock-twilio-token',
+  twilioRoomName: `mock-room-${sessionId}`,
+  startTime: nowIso(),
+  pricePerMinute: 25,
+});
+
+const routes: MockRoute[] = [];
+
+/**
+ * Register a mock route
+ * @param method - HTTP method
+ * @param path - Endpoint path; ':name' segments become path parameters
+ */
+const route = (method: HttpMethod, path: string, handler: MockRoute['handler']) => {
+  const paramNames: string[] = [];
+  const source = path.replace(/:([a-zA-Z]+)/g, (_, name: string) => {
+    paramNames.push(name);
+    return '([^/]+)';
+  });
+  routes.push({ method, pattern: new RegExp(`^${source}$`), paramNames, handler });
+};
+
+// Auth
+route('post', API_ENDPOINTS.AUTH.SEND_OTP, () => ({
+  body: { success: true, message: 'OTP sent (mock - any 6 digits work)' },
+}));
+route('post', API_ENDPOINTS.AUTH.VERIFY_OTP, () => ({
+  body: {
+    success: true,
+    message: 'Verified',
+    access_token: 'mock-access-token',
+    refresh_token: 'mock-refresh-token',
+    user: MOCK_USER,
+  },
+}));
+route('post', API_ENDPOINTS.AUTH.REFRESH, () => ({
+  body: { success: true, access_token: 'mock-access-token', refresh_token: 'mock-refresh-token' },
+}));
+route('get', API_ENDPOINTS.AUTH.ME, () => ({ body: { success: true, user: MOCK_USER } }));
+
+// User
+route('get', API_ENDPOINTS.USER.PROFILE, () => ok(MOCK_USER_PROFILE));
+route('put', API_ENDPOINTS.USER.PROFILE, ({ body }) => ok({ ...MOCK_USER_PROFILE, ...body }));
+
+// Astrologers - fixed paths must be registered before ':id' routes
+route('get', API_ENDPOINTS.ASTROLOGERS.LIVE, () =>
+  ok(MOCK_ASTROLOGERS.filter((astrologer) => astrologer.isLive))
+);
+route('get', API_ENDPOINTS.ASTROLOGERS.TOP_RATED, ({ query }) =>
+  ok([...MOCK_ASTROLOGERS].sort((a, b) => b.rating - a.rating).slice(0, Number(query.limit) || 10))
+);
+route('get', API_ENDPOINTS.ASTROLOGERS.SEARCH, ({ query }) => {
+  const term = String(query.q || '').toLowerCase();
+  const results = MOCK_ASTROLOGERS.filter((astrologer) => astrologer.name.toLowerCase().includes(term));
+  return ok({
+    results,
+    total: results.length,
+    filters: {
+      languages: ['Tamil', 'English', 'Hindi'],
+      specializations: MOCK_SPECIALIZATIONS.map((specialization) => specialization.name),
+      priceRange: { min: 15, max: 25 },
+    },
+  });
+});
+route('get', API_ENDPOINTS.ASTROLOGERS.AVAILABLE, () =>
+  ok(MOCK_ASTROLOGERS.filter((astrologer) => astrologer.isAvailable))
+);
+route('get', API_ENDPOINTS.ASTROLOGERS.DETAILS(':id'), ({ params }) =>
+  ok({ ...findAstrologer(params.id), reviews: MOCK_REVIEWS })
+);
+route('get', API_ENDPOINTS.ASTROLOGERS.REVIEWS(':id'), () => ok(MOCK_REVIEWS));
+route('post', API_ENDPOINTS.ASTROLOGERS.REVIEWS(':id'), ({ params, body }) =>
+  ok({ id: mockId('mock-review'), astrologerId: params.id, ...body, createdAt: nowIso() })
+);
+route('post', API_ENDPOINTS.ASTROLOGERS.FOLLOW(':id'), () => ok());
+route('post', API_ENDPOINTS.ASTROLOGERS.UNFOLLOW(':id'), () => ok());
+route('get', API_ENDPOINTS.ASTROLOGERS.PHOTOS(':id'), () => ok([]));
+route('post', API_ENDPOINTS.ASTROLOGERS.PHOTOS(':id'), () =>
+  ok({ id: mockId('mock-photo'), url: 'https://picsum.photos/400' })
+);
+route('delete', API_ENDPOINTS.ASTROLOGERS.PHOTO_DELETE(':id', ':photoId'), () => ok());
+route('patch', API_ENDPOINTS.ASTROLOGERS.PHOTO_REORDER(':id'), () => ok());
+route('get', API_ENDPOINTS.ASTROLOGERS.STATS(':id'), ({ params }) =>
+  ok({ astrologerId: params.id, totalSessions: 1200, totalEarnings: 0, averageRating: 4.7 })
+);
+route('patch', API_ENDPOINTS.ASTROLOGERS.TOGGLE_AVAILABILITY(':id'), ({ body }) => ok(body));
+route('patch', API_ENDPOINTS.ASTROLOGERS.TOGGLE_CHAT_AVAILABILITY(':id'), ({ body }) => ok(body));
+route('patch', API_ENDPOINTS.ASTROLOGERS.TOGGLE_CALL_AVAILABILITY(':id'), ({ body }) => ok(body));
+route('get', API_ENDPOINTS.ASTROLOGERS.WORKING_HOURS(':id'), () => ok(MOCK_WORKING_HOURS));
+route('patch', API_ENDPOINTS.ASTROLOGERS.WORKING_HOURS(':id'), ({ body }) =>
+  ok({ ...MOCK_WORKING_HOURS, ...body?.workingHours })
+);
+
+// Wallet
+route('get', API_ENDPOINTS.WALLET.BALANCE, () =>
+  ok({ userId: MOCK_USER.id, balance: MOCK_WALLET_SUMMARY.balance, currency: 'INR', lastUpdated: nowIso() })
+);
+route('get', API_ENDPOINTS.WALLET.SUMMARY, () => ok(MOCK_WALLET_SUMMARY));
+route('get', API_ENDPOINTS.WALLET.RECHARGE_OPTIONS, () => ok(MOCK_RECHARGE_OPTIONS));
+route('post', API_ENDPOINTS.WALLET.RECHARGE_INITIATE, ({ body }) =>
+  ok({
+    orderId: mockId('mock-order'),
+    keyId: 'rzp_test_mock',
+    amount: body?.amount ?? 0,
+    amountInPaise: (body?.amount ?? 0) * 100,
+    currency: 'INR',
+    prefill: { name: MOCK_USER.name, email: MOCK_USER.email, contact: MOCK_USER.phone },
+  })
+);
+route('post', API_ENDPOINTS.WALLET.RECHARGE_VERIFY, () =>
+  ok({ success: true, transactionId: mockId('mock-txn'), newBalance: MOCK_WALLET_SUMMARY.balance })
+);
+route('post', API_ENDPOINTS.WALLET.RECHARGE, () => ok({ newBalance: MOCK_WALLET_SUMMARY.balance }));
+route('get', API_ENDPOINTS.WALLET.TRANSACTIONS, ({ query }) =>
+  ok(MOCK_TRANSACTIONS, { pagination: paginate(MOCK_TRANSACTIONS, query) })
+);
+route('get', API_ENDPOINTS.WALLET.RECHARGES, ({ query }) => {
+  const recharges = MOCK_TRANSACTIONS.filter((transaction) => transaction.type === 'recharge');
+  return ok(recharges, { pagination: paginate(recharges, query) });
+});
+route('get', API_ENDPOINTS.WALLET.PENDING_ORDERS, () => ok([]));
+route('post', API_ENDPOINTS.WALLET.CANCEL_ORDER(':orderId'), () =>
+  ok({ success: true, message: 'Order cancelled' })
+);
+
+// Content
+route('get', API_ENDPOINTS.CONTENT.CATEGORIES, () => ok(MOCK_CATEGORIES));
+route('get', API_ENDPOINTS.CONTENT.BANNERS, () => ok(MOCK_BANNERS));
+route('get', API_ENDPOINTS.CONTENT.SPECIALIZATIONS, () => ok(MOCK_SPECIALIZATIONS));
+
+// Feedback
+route('post', API_ENDPOINTS.FEEDBACK, ({ body }) => ok({ id: mockId('mock-feedback'), ...body }));
+
+// Chat
+route('get', API_ENDPOINTS.CHAT.AVAILABLE_ASTROLOGERS, ({ query }) => {
+  const astrologers = MOCK_ASTROLOGERS.filter((astrologer) => astrologer.chatAvailable);
+  return ok(astrologers, { pagination: paginate(astrologers, query) });
+});
+route('post', API_ENDPOINTS.CHAT.VALIDATE_BALANCE, ({ body }) => {
+  const pricePerMinute = findAstrologer(body?.astrologerId).chatPricePerMinute || 20;
+  return ok({
+    canStartChat: true,
+    currentBalance: MOCK_WALLET_SUMMARY.balance,
+    pricePerMinute,
+    minimumRequired: pricePerMinute * 5,
+    estimatedMinutes: Math.floor(MOCK_WALLET_SUMMARY.balance / pricePerMinute),
+  });
+});
+route('get', API_ENDPOINTS.CHAT.ACTIVE_SESSION, () => ok(null));
+route('get', API_ENDPOINTS.CHAT.SESSIONS, ({ query }) =>
+  ok(MOCK_CHAT_SESSIONS, { pagination: paginate(MOCK_CHAT_SESSIONS, query) })
+);
+route('post', API_ENDPOINTS.CHAT.SESSIONS, ({ body }) => {
+  const astrologer = findAstrologer(body?.astrologerId);
+  return ok({
+    id: mockId('mock-chat-session'),
+    userId: MOCK_USER.id,
+    astrologerId: astrologer.id,
+    astrologerName: astrologer.name,
+    sessionType: 'chat',
+    startTime: nowIso(),
+    pricePerMinute: astrologer.chatPricePerMinute || astrologer.pricePerMinute,
+    status: 'active',
+  });
+});
+route('post', API_ENDPOINTS.CHAT.END_SESSION(':sessionId'), ({ params }) =>
+  ok({ sessionId: params.sessionId, status: 'completed', duration: 5, totalCost: 100 })
+);
+route('get', API_ENDPOINTS.CHAT.MESSAGES(':sessionId'), ({ params }) =>
+  ok(chatMessages.filter((message) => message.sessionId === params.sessionId))
+);
+route('post', API_ENDPOINTS.CHAT.MESSAGES(':sessionId'), ({ params, body }) => {
+  const message = {
+    id: mockId('mock-message'),
+    sessionId: params.sessionId,
+    senderId: MOCK_USER.id,
+    senderType: 'user' as const,
+    message: body?.message ?? '',
+    type: body?.type ?? 'text',
+    isRead: false,
+    createdAt: nowIso(),
+  };
+  chatMessages.push(message);
+  return ok(message);
+});
+route('post', API_ENDPOINTS.CHAT.RATING(':sessionId'), ({ body }) => ok(body));
+
+// Call
+route('get', API_ENDPOINTS.CALL.AVAILABLE_ASTROLOGERS, ({ query }) => {
+  const astrologers = MOCK_ASTROLOGERS.filter((astrologer) => astrologer.callAvailable);
+  return ok(astrologers, { pagination: paginate(astrologers, query) });
+});
+route('get', API_ENDPOINTS.CALL.SPECIALIZATIONS, () => ok(MOCK_SPECIALIZATIONS));
+route('post', API_ENDPOINTS.CALL.VALIDATE_BALANCE, ({ body }) => {
+  const pricePerMinute = findAstrologer(body?.astrologerId).callPricePerMinute || 25;
+  return ok({
+    canStartCall: true,
+    currentBalance: MOCK_WALLET_SUMMARY.balance,
+    pricePerMinute,
+    minimumRequired: pricePerMinute * 5,
+    estimatedMinutes: Math.floor(MOCK_WALLET_SUMMARY.balance / pricePerMinute),
+  });
+});
+route('get', API_ENDPOINTS.CALL.ACTIVE_SESSION, () => ok(null));
+route('get', API_ENDPOINTS.CALL.SESSIONS, ({ query }) => ok([], { pagination: paginate([], query) }));
+route('post', API_ENDPOINTS.CALL.SESSIONS, ({ body }) => {
+  const astrologer = findAstrologer(body?.astrologerId);
+  return ok({
+    id: mockId('mock-call-session'),
+    userId: MOCK_USER.id,
+    astrologerId: astrologer.id,
+    astrologerName: astrologer.name,
+    sessionType: 'call',
+    startTime: nowIso(),
+    pricePerMinute: astrologer.callPricePerMinute || astrologer.pricePerMinute,
+    status: 'active',
+  });
+});
+route('post', API_ENDPOINTS.CALL.END_SESSION(':sessionId'), ({ params }) =>
+  ok({
+    sessionId: params.sessionId,
+    duration: 3,
+    durationSeconds: 180,
+    totalCost: 75,
+    remainingBalance: MOCK_WALLET_SUMMARY.balance - 75,
+  })
+);
+route('get', API_ENDPOINTS.CALL.SESSION_DETAILS(':sessionId'), ({ params }) =>
+  ok({ ...MOCK_CHAT_SESSIONS[0], id: params.sessionId, sessionType: 'call' })
+);
+route('post', API_ENDPOINTS.CALL.RATING(':sessionId'), () => ok());
+route('post', API_ENDPOINTS.CALL.REQUEST, ({ body }) =>
+  ok({
+    requestId: mockId('mock-call-request'),
+    astrologerId: body?.astrologerId,
+    status: 'pending',
+    expiresAt: inSeconds(60),
+    remainingSeconds: 60,
+    pricePerMinute: findAstrologer(body?.astrologerId).callPricePerMinute || 25,
+  })
+);
+route('get', API_ENDPOINTS.CALL.PENDING_REQUEST, () => ok(null));
+route('get', API_ENDPOINTS.CALL.REQUEST_STATUS(':requestId'), ({ params }) =>
+  ok({ status: 'accepted', session: mockCallSession(`session-${params.requestId}`) })
+);
+route('post', API_ENDPOINTS.CALL.CANCEL_REQUEST(':requestId'), () => ok());
+route('post', API_ENDPOINTS.CALL.QUEUE_JOIN, () =>
+  ok({
+    queueId: mockId('mock-queue'),
+    position: MOCK_QUEUE_INFO.queueSize + 1,
+    estimatedWaitMinutes: MOCK_QUEUE_INFO.estimatedWaitMinutes,
+    expiresAt: inSeconds(600),
+    remainingSeconds: 600,
+  })
+);
+route('get', API_ENDPOINTS.CALL.QUEUE_STATUS, () => ok([]));
+route('get', API_ENDPOINTS.CALL.QUEUE_POSITION(':astrologerId'), () => ok(null));
+route('get', API_ENDPOINTS.CALL.QUEUE_INFO(':astrologerId'), () => ok(MOCK_QUEUE_INFO));
+route('post', API_ENDPOINTS.CALL.QUEUE_LEAVE(':queueId'), () => ok());
+route('post', API_ENDPOINTS.CALL.QUEUE_CALL_NOW(':queueId'), ({ params }) =>
+  ok({
+    requestId: `request-${params.queueId}`,
+    astrologerId: MOCK_ASTROLOGERS[0].id,
+    status: 'pending',
+    expiresAt: inSeconds(60),
+    remainingSeconds: 60,
+    pricePerMinute: 25,
+  })
+);
+
+// Notifications
+route('get', API_ENDPOINTS.NOTIFICATIONS.LIST, ({ query }) => ok([], { pagination: paginate([], query) }));
+route('patch', API_ENDPOINTS.NOTIFICATIONS.MARK_ALL_READ, () => ok());
+route('patch', API_ENDPOINTS.NOTIFICATIONS.MARK_READ(':id'), () => ok());
+
+// Live Sessions
+route('get', API_ENDPOINTS.LIVE_SESSIONS.LIST, () => ok(MOCK_LIVE_SESSIONS));
+route('post', API_ENDPOINTS.LIVE_SESSIONS.CREATE, ({ body }) =>
+  ok({ ...MOCK_LIVE_SESSIONS[0], ...body, id: mockId('mock-live'), status: 'scheduled' })
+);
+route('get', API_ENDPOINTS.LIVE_SESSIONS.DETAILS(':sessionId'), ({ params }) => {
+  const session = MOCK_LIVE_SESSIONS.find((item) => item.id === params.sessionId);
+  return session ? ok(session) : notFound('Live session not found');
+});
+route('put', API_ENDPOINTS.LIVE_SESSIONS.UPDATE(':sessionId'), ({ body }) =>
+  ok({ ...MOCK_LIVE_SESSIONS[0], ...body })
+);
+route('post', API_ENDPOINTS.LIVE_SESSIONS.JOIN(':sessionId'), () =>
+  ok({ session: MOCK_LIVE_SESSIONS[0], accessGranted: true })
+);
+route('post', API_ENDPOINTS.LIVE_SESSIONS.LEAVE(':sessionId'), () => ok());
+route('get', API_ENDPOINTS.LIVE_SESSIONS.MESSAGES(':sessionId'), () => ok(MOCK_LIVE_MESSAGES));
+route('post', API_ENDPOINTS.LIVE_SESSIONS.SEND_MESSAGE(':sessionId'), ({ params, body }) =>
+  ok({
+    id: mockId('mock-live-message'),
+    sessionId: params.sessionId,
+    userId: MOCK_USER.id,
+    userName: MOCK_USER.name,
+    message: body?.message ?? '',
+    type: body?.type ?? 'text',
+    createdAt: nowIso(),
+  })
+);
+route('get', API_ENDPOINTS.LIVE_SESSIONS.VIEWERS(':sessionId'), () => ok(MOCK_LIVE_VIEWERS));
+route('post', API_ENDPOINTS.LIVE_SESSIONS.START(':sessionId'), () =>
+  ok({ ...MOCK_LIVE_SESSIONS[0], status: 'live' })
+);
+route('post', API_ENDPOINTS.LIVE_SESSIONS.END(':sessionId'), () =>
+  ok({ ...MOCK_LIVE_SESSIONS[0], status: 'ended', endTime: nowIso() })
+);
+
+// Horoscope
+route('get', API_ENDPOINTS.HOROSCOPE.DAILY, ({ query }) => ok(buildMockHoroscope(query.sign || 'aries')));
+route('get', API_ENDPOINTS.HOROSCOPE.SIGNS, () => ok(MOCK_ZODIAC_SIGNS));
+
+// Places
+route('get', API_ENDPOINTS.PLACES.SEARCH, ({ query }) => {
+  const term = decodeURIComponent(String(query.query || '')).toLowerCase();
+  const results = MOCK_PLACES.filter((place) => place.name.toLowerCase().includes(term));
+  return ok(results, { count: results.length });
+});
+route('get', API_ENDPOINTS.PLACES.POPULAR, () => ok(MOCK_PLACES));
+route('get', API_ENDPOINTS.PLACES.REVERSE, () => ok({ ...MOCK_PLACES[0], distance: 0 }));
+
+// Kundli - 'list' must be registered before ':kundliId'
+route('post', API_ENDPOINTS.KUNDLI.GENERATE, ({ body }) => {
+  const kundli = { ...body, id: mockId('mock-kundli'), createdAt: nowIso(), updatedAt: nowIso() };
+  kundlis.unshift(kundli);
+  return ok(kundli);
+});
+route('get', API_ENDPOINTS.KUNDLI.LIST, ({ query }) => ok(kundlis, { pagination: paginate(kundlis, query) }));
+route('get', API_ENDPOINTS.KUNDLI.GET_REPORT(':kundliId'), ({ params }) =>
+  ok(buildMockKundliReport(params.kundliId))
+);
+route('get', API_ENDPOINTS.KUNDLI.GET_BY_ID(':kundliId'), ({ params }) => {
+  const kundli = kundlis.find((item) => item.id === params.kundliId);
+  return kundli ? ok(kundli) : notFound('Kundli not found');
+});
+route('put', API_ENDPOINTS.KUNDLI.UPDATE(':kundliId'), ({ params, body }) => {
+  const index = kundlis.findIndex((item) => item.id === params.kundliId);
+  if (index === -1) return notFound('Kundli not found');
+  kundlis[index] = { ...kundlis[index], ...body, updatedAt: nowIso() };
+  return ok(kundlis[index]);
+});
+route('delete', API_ENDPOINTS.KUNDLI.DELETE(':kundliId'), ({ params }) => {
+  const index = kundlis.findIndex((item) => item.id === params.kundliId);
+  if (index !== -1) kundlis.splice(index, 1);
+  return ok(null);
+});
+
+// Matching - 'list' must be registered before ':matchingId'
+route('post', API_ENDPOINTS.MATCHING.GENERATE, ({ body }) => {
+  const matching = {
+    ...MOCK_MATCHINGS[0],
+    ...body,
+    id: mockId('mock-matching'),
+    createdAt: nowIso(),
+    updatedAt: nowIso(),
+  };
+  matchings.unshift(matching);
+  return ok(matching);
+});
+route('get', API_ENDPOINTS.MATCHING.LIST, ({ query }) => ok(matchings, { pagination: paginate(matchings, query) }));
+route('get', API_ENDPOINTS.MATCHING.GET_REPORT(':matchingId'), ({ params }) =>
+  ok(buildMockMatchingReport(params.matchingId))
+);
+route('get', API_ENDPOINTS.MATCHING.GET_BY_ID(':matchingId'), ({ params }) => {
+  const matching = matchings.find((item) => item.id === params.matchingId);
+  return matching ? ok(matching) : notFound('Matching not found');
+});
+route('delete', API_ENDPOINTS.MATCHING.DELETE(':matchingId'), ({ params }) => {
+  const index = matchings.findIndex((item) => item.id === params.matchingId);
+  if (index !== -1) matchings.splice(index, 1);
+  return ok(null);
+});
+
+/**
+ * Parse the serialized request body back into an object
+ */
+const parseBody = (data: unknown): any => {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+/**
+ * Axios adapter resolving requests against the mock route table
+ */
+export const mockAdapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+  await new Promise((resolve) => setTimeout(resolve, MOCK_LATENCY));
+
+  const method = (config.method || 'get').toLowerCase() as HttpMethod;
+  const path = (config.url || '').split('?')[0];
+
+  let result: MockResult = notFound(`No mock route for ${method.toUpperCase()} ${path}`);
+  for (const candidate of routes) {
+    const match = candidate.method === method ? candidate.pattern.exec(path) : null;
+    if (!match) continue;
+
+    const params: Record<string, string> = {};
+    candidate.paramNames.forEach((name, index) => {
+      params[name] = decodeURIComponent(match[index + 1]);
+    });
+
+    result = candidate.handler({ params, query: config.params || {}, body: parseBody(config.data) });
+    break;
+  }
+
+  const status = result.status ?? 200;
+  const response: AxiosResponse = {
+    data: result.body,
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    headers: {},
+    config,
+    request: {},
+  };
+
+  if (status >= 400) {
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  }
+
+  return response;
+};
@@ -0,0 +1,142 @@
+/**
+ * API Schemas
+ * Runtime schemas for the core models in types/api.types.ts
+ */
+
+import { s, Schema } from '../utils/schema';
+import {
+  ApiResponse,
+  ApiError,
+  Pagination,
+  Astrologer,
+  Review,
+  ChatSession,
+  SearchResults,
+} from '../types/api.types';
+
+// ===============================
+// Response Wrapper
+// ===============================
+
+export const apiErrorSchema: Schema<ApiError> = s.object({
+  code: s.withDefault(s.string(), 'UNKNOWN_ERROR'),
+  message: s.withDefault(s.string(), 'An unexpected error occurred'),
+  details: s.any(),
+});
+
+export const paginationSchema: Schema<Pagination> = s.object({
+  currentPage: s.number(),
+  totalPages: s.number(),
+  totalItems: s.number(),
+  itemsPerPage: s.number(),
+  hasNext: s.withDefault(s.boolean(), false),
+  hasPrev: s.withDefault(s.boolean(), false),
+});
+
+/**
+ * ApiResponse<T> wrapper - `data` is validated strictly whenever present
+ * @param data - Schema for the payload
+ */
+export const apiResponseSchema = <T>(data: Schema<T>): Schema<ApiResponse<T>> =>
+  s.object({
+    success: s.boolean(),
+    data: s.transform(s.nullable(data), (value) => value ?? undefined),
+    message: s.optional(s.string()),
+    pagination: s.optional(paginationSchema),
+    error: s.optional(apiErrorSchema),
+  });
+
+// ===============================
+// Astrologers
+// ===============================
+
+export const reviewSchema: Schema<Review> = s.object({
+  id: s.string(),
+  userId: s.withDefault(s.string(), ''),
+  userName: s.withDefault(s.string(), 'Anonymous'),
+  userImage: s.optional(s.string()),
+  astrologerId: s.optional(s.string()),
+  sessionId: s.optional(s.string()),
+  rating: s.number(),
+  comment: s.optional(s.string()),
+  tags: s.optional(s.array(s.string())),
+  status: s.optional(s.literal('pending', 'approved', 'rejected')),
+  createdAt: s.string(),
+  updatedAt: s.optional(s.string()),
+});
+
+export const astrologerSchema: Schema<Astrologer> = s.transform(
+  s.object({
+    id: s.string(),
+    phone: s.withDefault(s.string(), ''),
+    name: s.string(),
+    email: s.optional(s.string()),
+    image: s.withDefault(s.string(), ''),
+    description: s.optional(s.string()),
+    bio: s.optional(s.string()),
+    specialization: s.withDefault(s.array(s.string()), []),
+    languages: s.withDefault(s.array(s.string()), []),
+    experience: s.withDefault(s.number(), 0),
+    education: s.optional(s.array(s.string())),
+    pricePerMinute: s.number(),
+    rating: s.withDefault(s.number(), 0),
+    totalCalls: s.withDefault(s.number(), 0),
+    totalReviews: s.optional(s.number()),
+    isAvailable: s.withDefault(s.boolean(), false),
+    isLive: s.withDefault(s.boolean(), false),
+    chatAvailable: s.optional(s.boolean()),
+    callAvailable: s.optional(s.boolean()),
+    chatPricePerMinute: s.optional(s.number()),
+    callPricePerMinute: s.optional(s.number()),
+    lastActivityAt: s.optional(s.string()),
+    workingHours: s.optional(s.record(s.string())),
+    nextAvailableAt: s.optional(s.string()),
+    status: s.optional(s.literal('pending', 'approved', 'rejected', 'inactive')),
+    role: s.optional(s.string()),
+    photos: s.optional(s.array(s.string())),
+    reviews: s.optional(s.array(reviewSchema)),
+    createdAt: s.optional(s.string()),
+    updatedAt: s.optional(s.string()),
+  }),
+  // 'bio' was renamed to 'description' in API v2.0.0 - accept either
+  (astrologer) => ({
+    ...astrologer,
+    description: astrologer.description ?? astrologer.bio,
+  })
+);
+
+export const searchResultsSchema: Schema<SearchResults> = s.object({
+  results: s.array(astrologerSchema),
+  total: s.withDefault(s.number(), 0),
+  filters: s.withDefault(
+    s.object({
+      languages: s.withDefault(s.array(s.string()), []),
+      specializations: s.withDefault(s.array(s.string()), []),
+      priceRange: s.withDefault(s.object({ min: s.number(), max: s.number() }), { min: 0, max: 0 }),
+    }),
+    { languages: [], specializations: [], priceRange: { min: 0, max: 0 } }
+  ),
+});
+
+// ===============================
+// Sessions
+// ===============================
+
+export const chatSessionSchema: Schema<ChatSession> = s.object({
+  id: s.string(),
+  userId: s.optional(s.string()),
+  astrologerId: s.string(),
+  astrologerName: s.optional(s.string()),
+  sessionType: s.literal('chat', 'call', 'video'),
+  startTime: s.string(),
+  endTime: s.optional(s.string()),
+  duration: s.optional(s.number()),
+  pricePerMinute: s.number(),
+  totalCost: s.optional(s.number()),
+  status: s.literal('active', 'completed', 'cancelled'),
+  rating: s.optional(s.number()),
+  review: s.optional(s.string()),
+  tags: s.optional(s.array(s.string())),
+  createdAt: s.optional(s.string()),
+  updatedAt: s.optional(s.string()),
+});
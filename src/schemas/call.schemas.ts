@@ -0,0 +1,86 @@
+/**
+ * Call Schemas
+ * Runtime schemas for the request-accept call flow in types/call.types.ts
+ */
+
+import { s, Schema } from '../utils/schema';
+import {
+  CallRequestStatus,
+  QueueStatus,
+  QueueInfo,
+  QueueEntry,
+  CreateCallRequestResponse,
+  PollCallRequestStatusResponse,
+  JoinQueueResponse,
+  EndCallResponse,
+} from '../types/call.types';
+
+const callRequestStatusSchema: Schema<CallRequestStatus> = s.literal(
+  'pending',
+  'accepted',
+  'rejected',
+  'timeout',
+  'cancelled'
+);
+
+const queueStatusSchema: Schema<QueueStatus> = s.literal('waiting', 'notified', 'expired', 'left');
+
+const callSessionSchema = s.object({
+  sessionId: s.string(),
+  twilioToken: s.string(),
+  twilioRoomName: s.string(),
+  startTime: s.string(),
+  pricePerMinute: s.number(),
+});
+
+export const queueInfoSchema: Schema<QueueInfo> = s.object({
+  queueSize: s.withDefault(s.number(), 0),
+  estimatedWaitMinutes: s.withDefault(s.number(), 0),
+  isInCall: s.boolean(),
+  canJoinQueue: s.boolean(),
+  maxQueueSize: s.withDefault(s.number(), 0),
+});
+
+export const queueEntrySchema: Schema<QueueEntry> = s.object({
+  queueId: s.string(),
+  astrologerId: s.string(),
+  astrologerName: s.optional(s.string()),
+  astrologerImage: s.optional(s.string()),
+  position: s.number(),
+  status: queueStatusSchema,
+  estimatedWaitMinutes: s.withDefault(s.number(), 0),
+  expiresAt: s.string(),
+  remainingSeconds: s.number(),
+  createdAt: s.withDefault(s.string(), ''),
+});
+
+export const createCallRequestResponseSchema: Schema<CreateCallRequestResponse> = s.object({
+  requestId: s.string(),
+  astrologerId: s.string(),
+  status: callRequestStatusSchema,
+  expiresAt: s.string(),
+  remainingSeconds: s.number(),
+  pricePerMinute: s.number(),
+});
+
+export const pollCallRequestStatusResponseSchema: Schema<PollCallRequestStatusResponse> = s.object({
+  status: callRequestStatusSchema,
+  session: s.optional(callSessionSchema),
+  message: s.optional(s.string()),
+});
+
+export const joinQueueResponseSchema: Schema<JoinQueueResponse> = s.object({
+  queueId: s.string(),
+  position: s.number(),
+  estimatedWaitMinutes: s.withDefault(s.number(), 0),
+  expiresAt: s.string(),
+  remainingSeconds: s.number(),
+});
+
+export const endCallResponseSchema: Schema<EndCallResponse> = s.object({
+  sessionId: s.string(),
+  duration: s.withDefault(s.number(), 0),
+  durationSeconds: s.withDefault(s.number(), 0),
+  totalCost: s.number(),
+  remainingBalance: s.number(),
+});
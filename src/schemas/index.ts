@@ -0,0 +1,8 @@
+/**
+ * Schemas Index
+ * Export all runtime response schemas
+ */
+
+export * from './api.schemas';
+export * from './call.schemas';
+export * from './kundli.schemas';
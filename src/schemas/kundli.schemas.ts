@@ -0,0 +1,317 @@
+/**
+ * Kundli Schemas
+ * Runtime schemas for the kundli and matching reports in types/kundli.ts
+ */
+
+import { s, Schema } from '../utils/schema';
+import { KundliReport, ChartData, YogaInfo, MatchingReport } from '../types/kundli';
+
+// ===============================
+// Kundli Report
+// ===============================
+
+const datedPeriodSchema = {
+  planet: s.string(),
+  startDate: s.string(),
+  endDate: s.string(),
+};
+
+const chartDataSchema: Schema<ChartData> = s.object({
+  chartType: s.withDefault(s.string(), ''),
+  chartName: s.withDefault(s.string(), ''),
+  svgUrl: s.withDefault(s.string(), ''),
+  svgUrlNorth: s.withDefault(s.string(), ''),
+  houses: s.withDefault(
+    s.array(
+      s.object({
+        number: s.number(),
+        sign: s.string(),
+        planets: s.withDefault(s.array(s.string()), []),
+      })
+    ),
+    []
+  ),
+});
+
+const yogaInfoSchema: Schema<YogaInfo> = s.object({
+  name: s.string(),
+  hasYoga: s.withDefault(s.boolean(), false),
+  description: s.withDefault(s.string(), ''),
+  effects: s.optional(s.string()),
+  strength: s.optional(s.literal('weak', 'moderate', 'strong')),
+  planets: s.optional(s.array(s.string())),
+});
+
+// Mantras and charities arrive either as plain strings or detailed objects
+const mantraSchema = s.union<KundliReport['remedies']['mantras'][number]>(
+  s.string(),
+  s.object({
+    mantra: s.string(),
+    planet: s.optional(s.string()),
+    repetitions: s.optional(s.number()),
+    timing: s.optional(s.string()),
+  })
+);
+
+const charitySchema = s.union<NonNullable<KundliReport['remedies']['charities']>[number]>(
+  s.string(),
+  s.object({
+    item: s.string(),
+    day: s.string(),
+    recipient: s.optional(s.string()),
+  })
+);
+
+const doshaRemediesSchema = s.withDefault(s.array(s.string()), []);
+
+export const kundliReportSchema: Schema<KundliReport> = s.object({
+  kundliId: s.string(),
+  basicInfo: s.object({
+    nakshatra: s.object({
+      name: s.string(),
+      lord: s.string(),
+      pada: s.number(),
+      deity: s.optional(s.string()),
+      symbol: s.optional(s.string()),
+      ganam: s.optional(s.string()),
+      nadi: s.optional(s.string()),
+      animal: s.optional(s.string()),
+      syllables: s.optional(s.array(s.string())),
+    }),
+    rasi: s.object({
+      name: s.string(),
+      lord: s.string(),
+      element: s.optional(s.string()),
+    }),
+    lagna: s.object({
+      name: s.string(),
+      lord: s.string(),
+      degree: s.optional(s.number()),
+    }),
+    tithi: s.optional(s.object({ name: s.string(), paksha: s.optional(s.string()) })),
+    yoga: s.optional(s.object({ name: s.string() })),
+    karana: s.optional(s.object({ name: s.string() })),
+    sunSign: s.optional(s.string()),
+    moonSign: s.optional(s.string()),
+  }),
+  planets: s.array(
+    s.object({
+      id: s.optional(s.string()),
+      name: s.string(),
+      sign: s.string(),
+      signLord: s.optional(s.string()),
+      degree: s.number(),
+      degreeFormatted: s.optional(s.string()),
+      isRetrograde: s.withDefault(s.boolean(), false),
+      isCombust: s.optional(s.boolean()),
+      isExalted: s.optional(s.boolean()),
+      isDebilitated: s.optional(s.boolean()),
+      house: s.number(),
+      nakshatra: s.withDefault(s.string(), ''),
+      nakshatraLord: s.optional(s.string()),
+      nakshatraPada: s.withDefault(s.number(), 0),
+    })
+  ),
+  yogas: s.optional(s.array(yogaInfoSchema)),
+  doshas: s.object({
+    mangalDosha: s.object({
+      hasDosha: s.boolean(),
+      severity: s.withDefault(s.string(), 'none'),
+      type: s.optional(s.string()),
+      description: s.withDefault(s.string(), ''),
+      remedies: doshaRemediesSchema,
+      affectedHouses: s.optional(s.array(s.number())),
+      exceptions: s.optional(s.array(s.string())),
+    }),
+    kaalSarpDosha: s.object({
+      hasDosha: s.boolean(),
+      type: s.withDefault(s.string(), 'none'),
+      severity: s.withDefault(s.string(), 'none'),
+      description: s.withDefault(s.string(), ''),
+      remedies: doshaRemediesSchema,
+    }),
+    sadeSati: s.object({
+      isActive: s.boolean(),
+      phase: s.withDefault(s.string(), 'none'),
+      description: s.optional(s.string()),
+      startDate: s.nullable(s.string()),
+      endDate: s.nullable(s.string()),
+      saturnSign: s.optional(s.string()),
+      moonSign: s.optional(s.string()),
+      currentTransit: s.optional(
+        s.object({
+          sign: s.string(),
+          isRetrograde: s.withDefault(s.boolean(), false),
+          startDate: s.string(),
+          endDate: s.string(),
+        })
+      ),
+    }),
+  }),
+  dasha: s.object({
+    current: s.object({
+      mahadasha: s.object({
+        ...datedPeriodSchema,
+        yearsRemaining: s.optional(s.number()),
+        totalYears: s.optional(s.number()),
+      }),
+      antardasha: s.object({
+        ...datedPeriodSchema,
+        monthsRemaining: s.optional(s.number()),
+      }),
+      pratyantardasha: s.optional(
+        s.object({
+          ...datedPeriodSchema,
+          daysRemaining: s.optional(s.number()),
+        })
+      ),
+    }),
+    timeline: s.withDefault(
+      s.array(
+        s.object({
+          ...datedPeriodSchema,
+          durationYears: s.optional(s.number()),
+          isCurrent: s.optional(s.boolean()),
+        })
+      ),
+      []
+    ),
+  }),
+  remedies: s.object({
+    gemstone: s.object({
+      name: s.string(),
+      planet: s.optional(s.string()),
+      finger: s.withDefault(s.string(), ''),
+      hand: s.optional(s.string()),
+      metal: s.withDefault(s.string(), ''),
+      weight: s.optional(s.string()),
+      day: s.optional(s.string()),
+      time: s.optional(s.string()),
+      mantra: s.optional(s.string()),
+    }),
+    luckyColors: s.withDefault(s.array(s.string()), []),
+    luckyNumbers: s.withDefault(s.array(s.number()), []),
+    luckyDays: s.withDefault(s.array(s.string()), []),
+    luckyDirection: s.optional(s.string()),
+    mantras: s.withDefault(s.array(mantraSchema), []),
+    charities: s.optional(s.array(charitySchema)),
+    fasting: s.optional(s.object({ day: s.string(), description: s.optional(s.string()) })),
+    rudrakshas: s.optional(s.array(s.string())),
+    yantras: s.optional(s.array(s.string())),
+  }),
+  predictions: s.object({
+    general: s.withDefault(s.string(), ''),
+    career: s.optional(s.string()),
+    love: s.optional(s.string()),
+    health: s.optional(s.string()),
+    finance: s.optional(s.string()),
+    family: s.optional(s.string()),
+    education: s.optional(s.string()),
+  }),
+  charts: s.optional(
+    s.object({
+      rasiChart: s.optional(chartDataSchema),
+      horaChart: s.optional(chartDataSchema),
+      drekkanaChart: s.optional(chartDataSchema),
+      chaturthamsaChart: s.optional(chartDataSchema),
+      saptamsaChart: s.optional(chartDataSchema),
+      navamsaChart: s.optional(chartDataSchema),
+      dasamsaChart: s.optional(chartDataSchema),
+      dwadasamsaChart: s.optional(chartDataSchema),
+      shodasamsaChart: s.optional(chartDataSchema),
+      vimsamsaChart: s.optional(chartDataSchema),
+      chaturvimsamsaChart: s.optional(chartDataSchema),
+      saptavimsamsaChart: s.optional(chartDataSchema),
+      trimsamsaChart: s.optional(chartDataSchema),
+      khavedamsaChart: s.optional(chartDataSchema),
+      akshavedamsaChart: s.optional(chartDataSchema),
+      shashtiamsaChart: s.optional(chartDataSchema),
+    })
+  ),
+});
+
+// ===============================
+// Matching Report
+// ===============================
+
+const matchingPersonSummarySchema = s.object({
+  name: s.string(),
+  nakshatra: s.string(),
+  rasi: s.string(),
+  nakshatraLord: s.withDefault(s.string(), ''),
+});
+
+const manglikPlacementSchema = s.object({
+  reference: s.literal('lagna', 'moon', 'venus'),
+  house: s.number(),
+  afflicted: s.boolean(),
+});
+
+const manglikRuleSchema = s.object({
+  id: s.string(),
+  name: s.string(),
+  description: s.withDefault(s.string(), ''),
+  appliesTo: s.literal('boy', 'girl', 'both'),
+});
+
+const poruthamAnalysisSchema = s.object({
+  poruthams: s.array(
+    s.object({
+      id: s.string(),
+      name: s.string(),
+      description: s.withDefault(s.string(), ''),
+      passed: s.boolean(),
+      isDealBreaker: s.withDefault(s.boolean(), false),
+      boyAttribute: s.withDefault(s.string(), ''),
+      girlAttribute: s.withDefault(s.string(), ''),
+    })
+  ),
+  matchedCount: s.number(),
+  total: s.withDefault(s.number(), 10),
+  dealBreakerFailed: s.boolean(),
+  rating: s.literal('excellent', 'good', 'average', 'below_average'),
+  summary: s.withDefault(s.string(), ''),
+});
+
+export const matchingReportSchema: Schema<MatchingReport> = s.object({
+  matchingId: s.string(),
+  boy: matchingPersonSummarySchema,
+  girl: matchingPersonSummarySchema,
+  totalScore: s.number(),
+  maxScore: s.withDefault(s.number(), 36),
+  verdict: s.object({
+    rating: s.literal('excellent', 'good', 'average', 'below_average'),
+    description: s.withDefault(s.string(), ''),
+    recommendation: s.withDefault(s.string(), ''),
+  }),
+  ashtakootGunas: s.array(
+    s.object({
+      id: s.string(),
+      name: s.string(),
+      description: s.withDefault(s.string(), ''),
+      maxPoints: s.number(),
+      obtainedPoints: s.number(),
+      boyAttribute: s.withDefault(s.string(), ''),
+      girlAttribute: s.withDefault(s.string(), ''),
+      verdict: s.withDefault(s.string(), ''),
+    })
+  ),
+  doshaAnalysis: s.object({
+    mangalDosha: s.object({
+      boyHasDosha: s.boolean(),
+      girlHasDosha: s.boolean(),
+      cancellation: s.nullable(s.string()),
+      status: s.withDefault(s.string(), ''),
+      boyPlacements: s.optional(s.array(manglikPlacementSchema)),
+      girlPlacements: s.optional(s.array(manglikPlacementSchema)),
+      rules: s.optional(s.array(manglikRuleSchema)),
+    }),
+    nadiDosha: s.object({
+      present: s.boolean(),
+      description: s.withDefault(s.string(), ''),
+    }),
+  }),
+  summary: s.withDefault(s.string(), ''),
+  recommendations: s.withDefault(s.array(s.string()), []),
+  porutham: s.optional(poruthamAnalysisSchema),
+});
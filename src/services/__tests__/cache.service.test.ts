@@ -0,0 +1,65 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CACHE_TTL, STORAGE_KEYS } from '../../constants/cacheKeys';
+import { cacheService } from '../cache.service';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const kundlis = [{ id: 'k1', name: 'Arjun', dateOfBirth: '1990-05-15', timeOfBirth: '10:30' }];
+
+describe('CacheService namespaces', () => {
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await cacheService.endUserSession();
+    await AsyncStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('drops writes and misses reads while no user is signed in', async () => {
+    await cacheService.set(STORAGE_KEYS.SAVED_KUNDLIS, kundlis, CACHE_TTL.PERSISTENT);
+
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.SAVED_KUNDLIS)).toBeNull();
+    expect(await cacheService.get(STORAGE_KEYS.SAVED_KUNDLIS)).toBeNull();
+  });
+
+  it('adopts pre-namespace data into the first user only', async () => {
+    await AsyncStorage.setItem(STORAGE_KEYS.SAVED_KUNDLIS, JSON.stringify(kundlis));
+
+    await cacheService.setUser('user-1');
+    expect(await cacheService.get(STORAGE_KEYS.SAVED_KUNDLIS)).toEqual(kundlis);
+
+    // Left behind under the global key after adoption, e.g. by an older build
+    await AsyncStorage.setItem(STORAGE_KEYS.SAVED_KUNDLIS, JSON.stringify(kundlis));
+    await cacheService.setUser('user-2');
+    expect(await cacheService.get(STORAGE_KEYS.SAVED_KUNDLIS)).toBeNull();
+  });
+
+  it('does not wrap an entry that is already a cache entry', async () => {
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.SAVED_KUNDLIS,
+      JSON.stringify({ data: kundlis, timestamp: Date.now(), ttl: CACHE_TTL.PERSISTENT, version: 2 })
+    );
+
+    await cacheService.setUser('user-1');
+    expect(await cacheService.get(STORAGE_KEYS.SAVED_KUNDLIS)).toEqual(kundlis);
+  });
+
+  it('archives persistent data on sign-out and restores it on the next sign-in', async () => {
+    await cacheService.setUser('user-1');
+    await cacheService.set(STORAGE_KEYS.SAVED_KUNDLIS, kundlis, CACHE_TTL.PERSISTENT);
+    await cacheService.set(STORAGE_KEYS.QUERY_CACHE, { queries: [] }, CACHE_TTL.USER_PROFILE);
+    await cacheService.endUserSession();
+
+    await cacheService.setUser('user-2');
+    expect(await cacheService.get(STORAGE_KEYS.SAVED_KUNDLIS)).toBeNull();
+
+    await cacheService.setUser('user-1');
+    expect(await cacheService.get(STORAGE_KEYS.SAVED_KUNDLIS)).toEqual(kundlis);
+    expect(await cacheService.get(STORAGE_KEYS.QUERY_CACHE)).toBeNull();
+  });
+});
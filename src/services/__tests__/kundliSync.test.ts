@@ -0,0 +1,197 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CACHE_TTL, STORAGE_KEYS } from '../../constants/cacheKeys';
+import { Pagination } from '../../types/api.types';
+import { SavedKundli } from '../../types/kundli';
+import { cacheService } from '../cache.service';
+import { kundliService } from '../kundli.service';
+import { kundliSyncService } from '../kundliSync.service';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../kundli.service', () => ({
+  kundliService: {
+    generate: jest.fn(),
+    list: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+const mockedKundliService = jest.mocked(kundliService);
+
+const kundli = (id: string, name: string, updatedAt = '2026-01-01T00:00:00.000Z'): SavedKundli => ({
+  id,
+  name,
+  gender: 'female',
+  dateOfBirth: '1992-11-03',
+  timeOfBirth: '10:30',
+  birthPlace: { name: 'Chennai', latitude: 13.08, longitude: 80.27, timezone: 'Asia/Kolkata' },
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt,
+});
+
+// A single page holding every server kundli
+const onePage = (items: SavedKundli[]): { data: SavedKundli[]; pagination: Pagination } => ({
+  data: items,
+  pagination: {
+    currentPage: 1,
+    totalPages: 1,
+    totalItems: items.length,
+    itemsPerPage: Math.max(items.length, 1),
+    hasNext: false,
+    hasPrev: false,
+  },
+});
+
+const readLocal = () => cacheService.get<SavedKundli[]>(STORAGE_KEYS.SAVED_KUNDLIS);
+
+// Holds the upload of local-only kundlis open so local writes can land mid-pass
+const pauseUploads = (server: SavedKundli[] = []) => {
+  mockedKundliService.list.mockResolvedValue(onePage(server));
+  let release = () => {};
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  mockedKundliService.generate.mockImplementation(async (input) => {
+    await released;
+    return kundli('server-1', input.name);
+  });
+  return () => release();
+};
+
+// Lets the pass run up to the paused upload
+const flushPromises = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+describe('kundliSyncService local writes during a pass', () => {
+  const synced = kundli('k1', 'Meera');
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    await cacheService.setUser('user-1');
+    await kundliSyncService.reset();
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    // k1 is in sync; local-1 waits to be uploaded
+    await cacheService.set(
+      STORAGE_KEYS.SAVED_KUNDLIS,
+      [synced, kundli('local-1', 'Arjun')],
+      CACHE_TTL.PERSISTENT
+    );
+    await cacheService.set(
+      STORAGE_KEYS.KUNDLI_SYNC,
+      { k1: { id: 'k1', status: 'synced', syncedAt: synced.updatedAt } },
+      CACHE_TTL.PERSISTENT
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps a kundli saved while the pass waits on the server', async () => {
+    const release = pauseUploads([synced]);
+
+    const pass = kundliSyncService.sync();
+    await flushPromises();
+    await kundliSyncService.updateLocal((current) => [kundli('local-2', 'Kavya'), ...current]);
+    release();
+    await pass;
+
+    const ids = (await readLocal())!.map((k) => k.id).sort();
+    expect(ids).toEqual(['k1', 'local-2', 'server-1']);
+  });
+
+  it('keeps an edit made while the pass waits on the server, for the next pass to push', async () => {
+    const release = pauseUploads([synced]);
+    const edited = { ...synced, name: 'Meera R', updatedAt: '2026-02-01T00:00:00.000Z' };
+
+    const pass = kundliSyncService.sync();
+    await flushPromises();
+    await kundliSyncService.updateLocal((current) => current.map((k) => (k.id === 'k1' ? edited : k)));
+    release();
+    await pass;
+
+    expect((await readLocal())!.find((k) => k.id === 'k1')).toEqual(edited);
+    expect(kundliSyncService.getRecord('k1')?.syncedAt).toBe(synced.updatedAt);
+  });
+
+  it('keeps an edit to a kundli uploaded by the same pass, under its server id', async () => {
+    const release = pauseUploads([synced]);
+
+    const pass = kundliSyncService.sync();
+    await flushPromises();
+    await kundliSyncService.updateLocal((current) =>
+      current.map((k) => (k.id === 'local-1' ? { ...k, name: 'Arjun K', updatedAt: '2026-02-01T00:00:00.000Z' } : k))
+    );
+    release();
+    await pass;
+
+    const uploaded = (await readLocal())!.find((k) => k.id === 'server-1');
+    expect(uploaded).toMatchObject({ name: 'Arjun K', updatedAt: '2026-02-01T00:00:00.000Z' });
+    expect((await readLocal())!.some((k) => k.id === 'local-1')).toBe(false);
+  });
+
+  it('does not bring back a kundli deleted while the pass waits on the server', async () => {
+    const release = pauseUploads([synced]);
+
+    const pass = kundliSyncService.sync();
+    await flushPromises();
+    await kundliSyncService.updateLocal((current) => current.filter((k) => k.id !== 'local-1'));
+    release();
+    await pass;
+
+    expect((await readLocal())!.map((k) => k.id)).toEqual(['k1']);
+  });
+
+  it('stops a pass on reset and saves its results before returning', async () => {
+    await cacheService.set(
+      STORAGE_KEYS.SAVED_KUNDLIS,
+      [synced, kundli('local-1', 'Arjun'), kundli('local-2', 'Kavya')],
+      CACHE_TTL.PERSISTENT
+    );
+    const release = pauseUploads([synced]);
+
+    kundliSyncService.sync();
+    await flushPromises();
+    const reset = kundliSyncService.reset();
+    release();
+    await reset;
+
+    // local-2 is not uploaded after the reset - it waits for the user's next sign-in
+    expect(mockedKundliService.generate).toHaveBeenCalledTimes(1);
+    const ids = (await readLocal())!.map((k) => k.id).sort();
+    expect(ids).toEqual(['k1', 'local-2', 'server-1']);
+  });
+});
+
+describe('kundliSyncService.saveOfflineEdit', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    await cacheService.setUser('user-1');
+    await kundliSyncService.reset();
+    jest.clearAllMocks();
+  });
+
+  it('keeps an offline edit to a server-only kundli and pushes it on the next pass', async () => {
+    const server = kundli('k1', 'Meera');
+    const edited = await kundliSyncService.saveOfflineEdit(server, { timeOfBirth: '11:45' });
+
+    expect(await readLocal()).toEqual([edited]);
+
+    mockedKundliService.list.mockResolvedValue(onePage([server]));
+    mockedKundliService.update.mockResolvedValue({ ...edited, updatedAt: '2026-03-01T00:00:00.000Z' });
+    await kundliSyncService.sync();
+
+    expect(mockedKundliService.update).toHaveBeenCalledWith(
+      'k1',
+      expect.objectContaining({ timeOfBirth: '11:45' })
+    );
+    expect(kundliSyncService.getRecord('k1')).toMatchObject({
+      status: 'synced',
+      syncedAt: '2026-03-01T00:00:00.000Z',
+    });
+  });
+});
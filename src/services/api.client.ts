@@ -3,17 +3,77 @@
  * Axios client with request/response interceptors
  */
 
-import axios, { AxiosInstance, AxiosError, AxiosRequestConfig } from 'axios';
+import axios, {
+  AxiosInstance,
+  AxiosError,
+  AxiosRequestConfig,
+  InternalAxiosRequestConfig,
+} from 'axios';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { API_CONFIG, STORAGE_KEYS } from '../config/api.config';
+import { API_CONFIG, API_ENDPOINTS, STORAGE_KEYS } from '../config/api.config';
+import { isMockBackend } from '../config/environment';
+import { ErrorCode, RefreshTokenResponse } from '../types/api.types';
+import { authEvents, markSessionExpired } from '../utils/authEvents';
+import { networkLog } from '../utils/networkLog';
+import { mockAdapter } from '../mocks/mockAdapter';
+
+// Per-request retry policy (overrides API_CONFIG.RETRY defaults)
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelay: number;
+  maxDelay: number;
+}
+
+// Request config accepted by the ApiClient helpers
+// retry: true opts a non-idempotent request (e.g. POST) into retries - it then carries an
+// Idempotency-Key header - and false disables them
+export interface ApiRequestConfig extends AxiosRequestConfig {
+  retry?: boolean | Partial<RetryPolicy>;
+}
+
+// Internal bookkeeping carried on the request config between attempts
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  retry?: ApiRequestConfig['retry'];
+  _retryCount?: number;
+  _tokenRefreshed?: boolean;
+  _startedAt?: number; // Start of the current attempt (network log)
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: API_CONFIG.RETRY.MAX_RETRIES,
+  baseDelay: API_CONFIG.RETRY.BASE_DELAY,
+  maxDelay: API_CONFIG.RETRY.MAX_DELAY,
+};
+
+// Lets the server de-duplicate a non-idempotent request that is sent more than once
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+/**
+ * Random key unique enough to identify a single user action
+ */
+export const generateIdempotencyKey = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}${Math.random()
+    .toString(36)
+    .slice(2, 10)}`;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Endpoints that must never trigger a token refresh
+const NO_REFRESH_ENDPOINTS = [
+  API_ENDPOINTS.AUTH.SEND_OTP,
+  API_ENDPOINTS.AUTH.VERIFY_OTP,
+  API_ENDPOINTS.AUTH.REFRESH,
+];
 
 class ApiClient {
   private client: AxiosInstance;
   private authToken: string | null = null;
+  private refreshPromise: Promise<string> | null = null;
+  private isReachable = true;
+  private connectivityListeners = new Set<(reachable: boolean) => void>();
 
   constructor() {
     this.client = axios.create({
-      baseURL: API_CONFIG.BASE_URL,
       timeout: API_CONFIG.TIMEOUT,
       headers: API_CONFIG.HEADERS,
     });
@@ -28,6 +88,20 @@ class ApiClient {
     // Request interceptor - Add auth token
     this.client.interceptors.request.use(
       async (config) => {
+        (config as RetriableRequestConfig)._startedAt = Date.now();
+
+        // Route to the active environment (resolved per request, see environment.ts)
+        Object.assign(config, this.getTransportConfig());
+
+        // Hold new requests while a token refresh is in flight
+        if (this.refreshPromise) {
+          try {
+            await this.refreshPromise;
+          } catch {
+            // Refresh failed - let the request go out and fail on its own
+          }
+        }
+
         // Load token if not already loaded
         if (!this.authToken) {
           this.authToken = await AsyncStorage.getItem(STORAGE_KEYS.AUTH_TOKEN);
@@ -38,6 +112,11 @@ class ApiClient {
           config.headers.Authorization = `Bearer ${this.authToken}`;
         }
 
+        // A non-idempotent request opted into retries keeps one key across all attempts
+        if (this.isRetriedMutation(config as RetriableRequestConfig) && !config.headers[IDEMPOTENCY_HEADER]) {
+          config.headers[IDEMPOTENCY_HEADER] = generateIdempotencyKey();
+        }
+
         return config;
       },
       (error) => {
@@ -45,22 +124,270 @@ class ApiClient {
       }
     );
 
-    // Response interceptor - Handle errors
+    // Response interceptor - Refresh expired tokens, retry transient failures
     this.client.interceptors.response.use(
-      (response) => response,
+      (response) => {
+        this.setReachable(true);
+        this.logRequest(response.config, response.status);
+        return response;
+      },
       async (error: AxiosError) => {
-        // Handle 401 Unauthorized - Token expired
-        if (error.response?.status === 401) {
-          await this.clearAuthToken();
-          // You can emit an event here to trigger logout in your app
-          // EventEmitter.emit('UNAUTHORIZED');
+        const originalRequest = error.config as RetriableRequestConfig | undefined;
+        if (originalRequest) {
+          this.logRequest(originalRequest, error.response?.status, error.message);
         }
 
-        return Promise.reject(error);
+        // Any server response proves connectivity; a request with no response disproves it
+        if (error.response) {
+          this.setReachable(true);
+        } else if (error.request && !axios.isCancel(error)) {
+          this.setReachable(false);
+        }
+
+        if (!originalRequest) {
+          return Promise.reject(error);
+        }
+
+        if (error.response?.status !== 401) {
+          return this.retryRequest(originalRequest, error);
+        }
+
+        if (NO_REFRESH_ENDPOINTS.includes(originalRequest.url || '')) {
+          return Promise.reject(error);
+        }
+
+        // Already replayed once with a fresh token - the session is gone
+        if (originalRequest._tokenRefreshed) {
+          await this.expireSession();
+          markSessionExpired(error);
+          return Promise.reject(error);
+        }
+
+        originalRequest._tokenRefreshed = true;
+
+        // Token was already refreshed by another request while this one was in flight
+        const sentAuthHeader = originalRequest.headers.Authorization;
+        if (this.authToken && sentAuthHeader !== `Bearer ${this.authToken}`) {
+          originalRequest.headers.Authorization = `Bearer ${this.authToken}`;
+          return this.client(originalRequest);
+        }
+
+        try {
+          const newToken = await this.refreshAccessToken();
+          originalRequest.headers.Authorization = `Bearer ${newToken}`;
+          return this.client(originalRequest);
+        } catch {
+          // refreshAccessToken already expired the session
+          markSessionExpired(error);
+          return Promise.reject(error);
+        }
       }
     );
   }
 
+  /**
+   * Record a finished attempt in the developer network log
+   */
+  private logRequest(config: RetriableRequestConfig, status?: number, error?: string) {
+    const startedAt = config._startedAt ?? Date.now();
+    networkLog.record({
+      method: (config.method || 'get').toUpperCase(),
+      url: config.url || '',
+      status,
+      duration: Date.now() - startedAt,
+      startedAt,
+      attempt: config._retryCount || 0,
+      error,
+    });
+  }
+
+  /**
+   * Base URL and adapter for the active environment
+   */
+  private getTransportConfig(): Pick<AxiosRequestConfig, 'baseURL' | 'adapter'> {
+    return isMockBackend()
+      ? { baseURL: API_CONFIG.BASE_URL, adapter: mockAdapter }
+      : { baseURL: API_CONFIG.BASE_URL };
+  }
+
+  /**
+   * Retry a failed request with jittered exponential backoff
+   * Idempotent methods retry by default; others must opt in via `retry`
+   */
+  private async retryRequest(config: RetriableRequestConfig, error: AxiosError) {
+    const policy = this.resolveRetryPolicy(config);
+    const attempt = config._retryCount || 0;
+
+    if (!policy || attempt >= policy.maxRetries || !this.isRetryableError(error)) {
+      return Promise.reject(error);
+    }
+
+    let delay = this.getRetryAfterDelay(error);
+    if (delay === null) {
+      // Full jitter: random wait between 0 and the capped exponential step
+      const exponential = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+      delay = Math.random() * exponential;
+    } else if (delay > API_CONFIG.RETRY.MAX_RETRY_AFTER) {
+      // Server asked for a longer wait than we are willing to block on
+      return Promise.reject(error);
+    }
+
+    config._retryCount = attempt + 1;
+    await sleep(delay);
+    return this.client(config);
+  }
+
+  /**
+   * Resolve the effective retry policy for a request (null if retries are disabled)
+   */
+  private resolveRetryPolicy(config: RetriableRequestConfig): RetryPolicy | null {
+    if (config.retry === false) {
+      return null;
+    }
+
+    const method = (config.method || 'get').toLowerCase();
+    const isIdempotent = API_CONFIG.RETRY.IDEMPOTENT_METHODS.includes(method);
+    if (!isIdempotent && !config.retry) {
+      return null;
+    }
+
+    return typeof config.retry === 'object'
+      ? { ...DEFAULT_RETRY_POLICY, ...config.retry }
+      : DEFAULT_RETRY_POLICY;
+  }
+
+  /**
+   * Whether a non-idempotent method (e.g. POST) opted into retries
+   */
+  private isRetriedMutation(config: RetriableRequestConfig): boolean {
+    const method = (config.method || 'get').toLowerCase();
+    return !API_CONFIG.RETRY.IDEMPOTENT_METHODS.includes(method) && !!config.retry;
+  }
+
+  /**
+   * Network failures, timeouts, rate limits and 5xx responses are worth retrying
+   */
+  private isRetryableError(error: AxiosError): boolean {
+    if (axios.isCancel(error)) {
+      return false;
+    }
+    if (!error.response) {
+      return !!error.request;
+    }
+    return API_CONFIG.RETRY.RETRYABLE_STATUS_CODES.includes(error.response.status);
+  }
+
+  /**
+   * Parse the Retry-After header (delta-seconds or HTTP date) into milliseconds
+   * @returns number | null - null when the header is absent or invalid
+   */
+  private getRetryAfterDelay(error: AxiosError): number | null {
+    const header = error.response?.headers?.['retry-after'];
+    if (!header) {
+      return null;
+    }
+
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(String(header));
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+
+    return null;
+  }
+
+  /**
+   * Refresh the access token using the stored refresh token
+   * Single-flight: concurrent callers share the same refresh request
+   * @returns Promise<string> - New access token
+   */
+  private refreshAccessToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performTokenRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performTokenRefresh(): Promise<string> {
+    try {
+      const refreshToken = await AsyncStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN);
+      if (!refreshToken) {
+        throw new Error('No refresh token available');
+      }
+
+      // Bypass this.client so the refresh call is not intercepted
+      const response = await axios.post<RefreshTokenResponse>(
+        API_ENDPOINTS.AUTH.REFRESH,
+        { refresh_token: refreshToken },
+        {
+          ...this.getTransportConfig(),
+          timeout: API_CONFIG.TIMEOUT,
+          headers: API_CONFIG.HEADERS,
+        }
+      );
+
+      const { success, access_token, refresh_token } = response.data;
+      if (!success || !access_token) {
+        throw new Error('Token refresh failed');
+      }
+
+      await this.setAuthToken(access_token);
+      if (refresh_token) {
+        await this.setRefreshToken(refresh_token);
+      }
+
+      return access_token;
+    } catch (error) {
+      await this.expireSession();
+      throw error;
+    }
+  }
+
+  /**
+   * Clear credentials and notify the app that the session is no longer valid
+   */
+  private async expireSession() {
+    await this.clearAuthToken();
+    authEvents.publish({ reason: ErrorCode.TOKEN_EXPIRED, source: 'api' });
+  }
+
+  /**
+   * Track backend reachability and notify listeners on transitions
+   */
+  private setReachable(reachable: boolean) {
+    if (this.isReachable === reachable) {
+      return;
+    }
+    this.isReachable = reachable;
+    this.connectivityListeners.forEach((listener) => listener(reachable));
+  }
+
+  /**
+   * Whether the last request reached the backend
+   * @returns boolean
+   */
+  isBackendReachable(): boolean {
+    return this.isReachable;
+  }
+
+  /**
+   * Subscribe to reachability changes (e.g. to replay queued work once back online)
+   * @param listener - Called with the new reachability state
+   * @returns Unsubscribe function
+   */
+  onConnectivityChange(listener: (reachable: boolean) => void): () => void {
+    this.connectivityListeners.add(listener);
+    return () => {
+      this.connectivityListeners.delete(listener);
+    };
+  }
+
   /**
    * Set authentication token
    * @param token - JWT token
@@ -70,6 +397,14 @@ class ApiClient {
     await AsyncStorage.setItem(STORAGE_KEYS.AUTH_TOKEN, token);
   }
 
+  /**
+   * Set refresh token
+   * @param token - Refresh token issued alongside the access token
+   */
+  async setRefreshToken(token: string) {
+    await AsyncStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, token);
+  }
+
   /**
    * Clear authentication token
    */
@@ -103,10 +438,10 @@ class ApiClient {
   /**
    * Generic GET request
    * @param url - Endpoint URL
-   * @param config - Axios config
+   * @param config - Axios config (plus optional retry policy)
    * @returns Promise<T>
    */
-  async get<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
+  async get<T>(url: string, config?: ApiRequestConfig): Promise<T> {
     const response = await this.client.get<T>(url, config);
     return response.data;
   }
@@ -115,10 +450,10 @@ class ApiClient {
    * Generic POST request
    * @param url - Endpoint URL
    * @param data - Request body
-   * @param config - Axios config
+   * @param config - Axios config (plus optional retry policy)
    * @returns Promise<T>
    */
-  async post<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
+  async post<T>(url: string, data?: any, config?: ApiRequestConfig): Promise<T> {
     const response = await this.client.post<T>(url, data, config);
     return response.data;
   }
@@ -127,10 +462,10 @@ class ApiClient {
    * Generic PUT request
    * @param url - Endpoint URL
    * @param data - Request body
-   * @param config - Axios config
+   * @param config - Axios config (plus optional retry policy)
    * @returns Promise<T>
    */
-  async put<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
+  async put<T>(url: string, data?: any, config?: ApiRequestConfig): Promise<T> {
     const response = await this.client.put<T>(url, data, config);
     return response.data;
   }
@@ -139,10 +474,10 @@ class ApiClient {
    * Generic PATCH request
    * @param url - Endpoint URL
    * @param data - Request body
-   * @param config - Axios config
+   * @param config - Axios config (plus optional retry policy)
    * @returns Promise<T>
    */
-  async patch<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
+  async patch<T>(url: string, data?: any, config?: ApiRequestConfig): Promise<T> {
     const response = await this.client.patch<T>(url, data, config);
     return response.data;
   }
@@ -150,10 +485,10 @@ class ApiClient {
   /**
    * Generic DELETE request
    * @param url - Endpoint URL
-   * @param config - Axios config
+   * @param config - Axios config (plus optional retry policy)
    * @returns Promise<T>
    */
-  async delete<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
+  async delete<T>(url: string, config?: ApiRequestConfig): Promise<T> {
     const response = await this.client.delete<T>(url, config);
     return response.data;
   }
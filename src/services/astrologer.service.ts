@@ -4,8 +4,16 @@
  */
 
 import { apiClient } from './api.client';
+import { outboxService } from './outbox.service';
 import { API_ENDPOINTS } from '../config/api.config';
 import { Astrologer, SearchFilters, SearchResults, ApiResponse, Review } from '../types/api.types';
+import { apiResponseSchema, astrologerSchema, searchResultsSchema } from '../schemas';
+import { s } from '../utils/schema';
+
+// Runtime response schemas
+const astrologerResponseSchema = apiResponseSchema(astrologerSchema);
+const astrologerListResponseSchema = apiResponseSchema(s.array(astrologerSchema));
+const searchResultsResponseSchema = apiResponseSchema(searchResultsSchema);
 
 class AstrologerService {
   /**
@@ -18,7 +26,7 @@ class AstrologerService {
       API_ENDPOINTS.ASTROLOGERS.LIVE,
       { params: { limit } }
     );
-    return response.data!;
+    return astrologerListResponseSchema.parse(response).data!;
   }
 
   /**
@@ -37,7 +45,7 @@ class AstrologerService {
       API_ENDPOINTS.ASTROLOGERS.TOP_RATED,
       { params: { limit, sortBy, order } }
     );
-    return response.data!;
+    return astrologerListResponseSchema.parse(response).data!;
   }
 
   /**
@@ -49,7 +57,7 @@ class AstrologerService {
     const response = await apiClient.get<ApiResponse<Astrologer>>(
       API_ENDPOINTS.ASTROLOGERS.DETAILS(id)
     );
-    return response.data!;
+    return astrologerResponseSchema.parse(response).data!;
   }
 
   /**
@@ -62,11 +70,12 @@ class AstrologerService {
       API_ENDPOINTS.ASTROLOGERS.SEARCH,
       { params: filters }
     );
-    return response.data!;
+    return searchResultsResponseSchema.parse(response).data!;
   }
 
   /**
    * Submit review for astrologer
+   * Queued in the outbox when offline (throws OutboxQueuedError)
    * @param astrologerId - Astrologer ID
    * @param data - Review data
    * @returns Promise<any>
@@ -80,10 +89,11 @@ class AstrologerService {
       sessionId: string;
     }
   ): Promise<any> {
-    const response = await apiClient.post<ApiResponse<any>>(
-      API_ENDPOINTS.ASTROLOGERS.REVIEWS(astrologerId),
-      data
-    );
+    const response = await outboxService.send<ApiResponse<any>>('submit_review', {
+      method: 'post',
+      url: API_ENDPOINTS.ASTROLOGERS.REVIEWS(astrologerId),
+      data,
+    });
     return response.data!;
   }
 
@@ -103,7 +113,7 @@ class AstrologerService {
       API_ENDPOINTS.ASTROLOGERS.AVAILABLE,
       { params: { type, limit } }
     );
-    return response.data!;
+    return astrologerListResponseSchema.parse(response).data!;
   }
 
   /**
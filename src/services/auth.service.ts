@@ -3,9 +3,10 @@
  * Handles OTP authentication flow
  */
 
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { apiClient } from './api.client';
-import { API_ENDPOINTS } from '../config/api.config';
-import { SendOtpResponse, VerifyOtpResponse, GetMeResponse } from '../types/api.types';
+import { API_ENDPOINTS, STORAGE_KEYS } from '../config/api.config';
+import { SendOtpResponse, VerifyOtpResponse, GetMeResponse, User } from '../types/api.types';
 
 class AuthService {
   /**
@@ -29,9 +30,13 @@ class AuthService {
       { phone, otp }
     );
 
-    // Save token after successful verification
+    // Save tokens after successful verification
     if (response.success && response.access_token) {
       await apiClient.setAuthToken(response.access_token);
+      if (response.refresh_token) {
+        await apiClient.setRefreshToken(response.refresh_token);
+      }
+      await this.saveUser(response.user);
     }
 
     return response;
@@ -42,7 +47,24 @@ class AuthService {
    * @returns Promise<GetMeResponse>
    */
   async getCurrentUser(): Promise<GetMeResponse> {
-    return apiClient.get<GetMeResponse>(API_ENDPOINTS.AUTH.ME);
+    const response = await apiClient.get<GetMeResponse>(API_ENDPOINTS.AUTH.ME);
+    await this.saveUser(response.user);
+    return response;
+  }
+
+  /**
+   * Get the user last confirmed by the server (cleared on logout)
+   * Lets the app start signed in while the backend is unreachable
+   * @returns Promise<User | null>
+   */
+  async getStoredUser(): Promise<User | null> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.USER_DATA);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.warn('[AuthService] Failed to read stored user:', error);
+      return null;
+    }
   }
 
   /**
@@ -68,6 +90,14 @@ class AuthService {
   async getAuthToken(): Promise<string | null> {
     return apiClient.getAuthToken();
   }
+
+  private async saveUser(user: User): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.USER_DATA, JSON.stringify(user));
+    } catch (error) {
+      console.warn('[AuthService] Failed to store user:', error);
+    }
+  }
 }
 
 export const authService = new AuthService();
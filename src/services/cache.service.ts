@@ -1,23 +1,53 @@
 /**
  * Cache Service
  * Handles AsyncStorage persistence with TTL support
+ *
+ * Every key is namespaced by the signed-in user's id, so people sharing a
+ * device never see each other's data; without a user, reads miss and writes
+ * are dropped. Ending the session purges the
+ * user's TTL caches and archives their persistent data (CACHE_TTL.PERSISTENT)
+ * under a separate namespace until they sign in again.
+ *
+ * Entries carry the schema version of their data and are upgraded through
+ * the migration registry (utils/cacheMigrations.ts) when read.
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { STORAGE_KEYS, CACHE_TTL } from '../constants/cacheKeys';
+import { CACHE_TTL, LEGACY_STORAGE_KEYS, STORAGE_KEYS } from '../constants/cacheKeys';
+import {
+  INITIAL_SCHEMA_VERSION,
+  getSchemaVersion,
+  migrateCacheData,
+} from '../utils/cacheMigrations';
+
+const USER_NAMESPACE = '@user';
+const ARCHIVE_NAMESPACE = '@archive';
 
 interface CacheEntry<T> {
   data: T;
   timestamp: number;
   ttl: number;
+  version?: number; // Schema version - absent on entries written before versioning
+}
+
+// Entry metadata for the developer tools screen
+export interface CacheEntryInfo {
+  key: string; // Unscoped key (pass to get/remove)
+  timestamp: number;
+  ttl: number;
+  version: number;
+  size: number; // Serialized length in characters
 }
 
 interface CacheTimestamps {
   [key: string]: number;
 }
 
+const namespacePrefix = (namespace: string, userId: string) => `${namespace}:${userId}/`;
+
 class CacheService {
   private timestamps: CacheTimestamps = {};
+  private userId: string | null = null;
 
   /**
    * Initialize cache service - load timestamps
@@ -35,23 +65,22 @@ class CacheService {
   }
 
   /**
-   * Save data to AsyncStorage with TTL
+   * Save data to AsyncStorage with TTL (dropped when no user is signed in)
    */
   async set<T>(key: string, data: T, ttl: number): Promise<void> {
+    const userId = this.userId;
+    if (!userId) {
+      console.warn(`[CacheService] Not saving ${key}: no user signed in`);
+      return;
+    }
+
     try {
-      const entry: CacheEntry<T> = {
+      await this.writeEntry(userId, key, {
         data,
         timestamp: Date.now(),
         ttl,
-      };
-      await AsyncStorage.setItem(key, JSON.stringify(entry));
-
-      // Update timestamps
-      this.timestamps[key] = entry.timestamp;
-      await AsyncStorage.setItem(
-        STORAGE_KEYS.CACHE_TIMESTAMPS,
-        JSON.stringify(this.timestamps)
-      );
+        version: getSchemaVersion(key),
+      });
     } catch (error) {
       console.warn(`[CacheService] Failed to set ${key}:`, error);
     }
@@ -62,10 +91,9 @@ class CacheService {
    */
   async get<T>(key: string): Promise<T | null> {
     try {
-      const stored = await AsyncStorage.getItem(key);
-      if (!stored) return null;
+      const entry = await this.readEntry<T>(key);
+      if (!entry) return null;
 
-      const entry: CacheEntry<T> = JSON.parse(stored);
       const now = Date.now();
 
       // Check if expired
@@ -87,10 +115,9 @@ class CacheService {
    */
   async getStale<T>(key: string): Promise<{ data: T | null; isStale: boolean }> {
     try {
-      const stored = await AsyncStorage.getItem(key);
-      if (!stored) return { data: null, isStale: true };
+      const entry = await this.readEntry<T>(key);
+      if (!entry) return { data: null, isStale: true };
 
-      const entry: CacheEntry<T> = JSON.parse(stored);
       const now = Date.now();
       const isStale = now - entry.timestamp > entry.ttl;
 
@@ -102,34 +129,141 @@ class CacheService {
   }
 
   /**
-   * Remove a cache entry
+   * Remove a cache entry of the active user
    */
   async remove(key: string): Promise<void> {
+    if (!this.userId) {
+      return;
+    }
+
     try {
-      await AsyncStorage.removeItem(key);
-      delete this.timestamps[key];
-      await AsyncStorage.setItem(
-        STORAGE_KEYS.CACHE_TIMESTAMPS,
-        JSON.stringify(this.timestamps)
-      );
+      const storageKey = this.scopeKey(this.userId, key);
+      await AsyncStorage.removeItem(storageKey);
+      delete this.timestamps[storageKey];
+      await this.saveTimestamps();
     } catch (error) {
       console.warn(`[CacheService] Failed to remove ${key}:`, error);
     }
   }
 
   /**
-   * Clear all cache entries
+   * Clear all cache entries of the active namespace (persistent data included)
    */
   async clearAll(): Promise<void> {
+    if (!this.userId) {
+      return;
+    }
+
     try {
-      const keys = Object.values(STORAGE_KEYS);
+      const keys = await this.getNamespaceKeys(USER_NAMESPACE, this.userId);
       await AsyncStorage.multiRemove(keys);
-      this.timestamps = {};
+      keys.forEach((key) => delete this.timestamps[key]);
+      await this.saveTimestamps();
     } catch (error) {
       console.warn('[CacheService] Failed to clear all:', error);
     }
   }
 
+  /**
+   * Scope every following read and write to a user
+   * Restores data archived when they last signed out, and adopts data saved
+   * before caches were namespaced (once per device)
+   * @param userId - Signed-in user id
+   */
+  async setUser(userId: string): Promise<void> {
+    if (this.userId === userId) {
+      return;
+    }
+    if (this.userId) {
+      await this.endUserSession();
+    }
+    this.userId = userId;
+
+    try {
+      await this.restoreArchive(userId);
+      await this.adoptLegacyData(userId);
+      await this.migrateNamespace();
+    } catch (error) {
+      console.warn('[CacheService] Failed to prepare user namespace:', error);
+    }
+  }
+
+  /**
+   * Leave the active user's namespace (e.g. on logout)
+   * TTL caches are purged; persistent data is archived for the user's next sign-in
+   */
+  async endUserSession(): Promise<void> {
+    const userId = this.userId;
+    if (!userId) {
+      return;
+    }
+    this.userId = null;
+
+    try {
+      const keys = await this.getNamespaceKeys(USER_NAMESPACE, userId);
+      const pairs = await AsyncStorage.multiGet(keys);
+      const activePrefix = namespacePrefix(USER_NAMESPACE, userId);
+      const archivePrefix = namespacePrefix(ARCHIVE_NAMESPACE, userId);
+
+      const archived: [string, string][] = [];
+      pairs.forEach(([key, value]) => {
+        if (value && this.isPersistentEntry(value)) {
+          archived.push([archivePrefix + key.slice(activePrefix.length), value]);
+        }
+      });
+
+      if (archived.length > 0) {
+        await AsyncStorage.multiSet(archived);
+      }
+      await AsyncStorage.multiRemove(keys);
+      keys.forEach((key) => delete this.timestamps[key]);
+      await this.saveTimestamps();
+
+      console.log(`[CacheService] Session ended: archived ${archived.length}, purged ${keys.length - archived.length}`);
+    } catch (error) {
+      console.warn('[CacheService] Failed to end user session:', error);
+    }
+  }
+
+  /**
+   * Metadata for every entry of the active namespace (developer tools)
+   * @returns Promise<CacheEntryInfo[]>
+   */
+  async inspect(): Promise<CacheEntryInfo[]> {
+    if (!this.userId) {
+      return [];
+    }
+
+    const prefix = namespacePrefix(USER_NAMESPACE, this.userId);
+    const keys = await this.getNamespaceKeys(USER_NAMESPACE, this.userId);
+    const pairs = await AsyncStorage.multiGet(keys);
+
+    const entries: CacheEntryInfo[] = [];
+    pairs.forEach(([storageKey, value]) => {
+      if (!value) return;
+      try {
+        const entry: CacheEntry<unknown> = JSON.parse(value);
+        entries.push({
+          key: storageKey.slice(prefix.length),
+          timestamp: entry.timestamp,
+          ttl: entry.ttl,
+          version: entry.version ?? INITIAL_SCHEMA_VERSION,
+          size: value.length,
+        });
+      } catch (error) {
+        console.warn(`[CacheService] Unreadable entry ${storageKey}:`, error);
+      }
+    });
+    return entries;
+  }
+
+  /**
+   * Id of the user the cache is currently scoped to
+   */
+  getUserId(): string | null {
+    return this.userId;
+  }
+
   /**
    * Check if cache entry exists and is fresh
    */
@@ -138,38 +272,154 @@ class CacheService {
     return result.data !== null && !result.isStale;
   }
 
-  // Convenience methods for specific data types
+  /**
+   * Read an entry, upgrading it to the key's current schema version
+   * Entries that cannot be upgraded are removed
+   */
+  private async readEntry<T>(key: string): Promise<CacheEntry<T> | null> {
+    const userId = this.userId;
+    if (!userId) return null;
+
+    const stored = await AsyncStorage.getItem(this.scopeKey(userId, key));
+    if (!stored) return null;
+
+    const entry: CacheEntry<T> = JSON.parse(stored);
+    const version = entry.version ?? INITIAL_SCHEMA_VERSION;
+    if (version === getSchemaVersion(key)) {
+      return entry;
+    }
+
+    const migrated = migrateCacheData(key, entry.data, version);
+    if (!migrated) {
+      console.warn(`[CacheService] Dropping ${key}: cannot upgrade from v${version}`);
+      await this.remove(key);
+      return null;
+    }
+
+    // Keep the original timestamp so migrating doesn't extend the TTL
+    const upgraded: CacheEntry<T> = {
+      ...entry,
+      data: migrated.data as T,
+      version: getSchemaVersion(key),
+    };
+    await this.writeEntry(userId, key, upgraded);
+    console.log(`[CacheService] Migrated ${key} v${version} -> v${upgraded.version}`);
+    return upgraded;
+  }
+
+  private async writeEntry<T>(userId: string, key: string, entry: CacheEntry<T>): Promise<void> {
+    const storageKey = this.scopeKey(userId, key);
+    await AsyncStorage.setItem(storageKey, JSON.stringify(entry));
+
+    // Update timestamps
+    this.timestamps[storageKey] = entry.timestamp;
+    await this.saveTimestamps();
+  }
+
+  /**
+   * Upgrade every entry of the active user up front (startup / sign-in)
+   */
+  private async migrateNamespace(): Promise<void> {
+    if (!this.userId) {
+      return;
+    }
 
-  async setUserProfile(data: any): Promise<void> {
-    await this.set(STORAGE_KEYS.USER_PROFILE, data, CACHE_TTL.USER_PROFILE);
+    const prefix = namespacePrefix(USER_NAMESPACE, this.userId);
+    const keys = await this.getNamespaceKeys(USER_NAMESPACE, this.userId);
+    for (const storageKey of keys) {
+      const key = storageKey.slice(prefix.length);
+      try {
+        await this.readEntry(key);
+      } catch (error) {
+        console.warn(`[CacheService] Failed to migrate ${key}:`, error);
+      }
+    }
   }
 
-  async getUserProfile<T>(): Promise<T | null> {
-    return this.get<T>(STORAGE_KEYS.USER_PROFILE);
+  private scopeKey(userId: string, key: string): string {
+    return namespacePrefix(USER_NAMESPACE, userId) + key;
   }
 
-  async setCategories(data: any): Promise<void> {
-    await this.set(STORAGE_KEYS.CATEGORIES, data, CACHE_TTL.CATEGORIES);
+  private async getNamespaceKeys(namespace: string, userId: string): Promise<string[]> {
+    const prefix = namespacePrefix(namespace, userId);
+    const keys = await AsyncStorage.getAllKeys();
+    return keys.filter((key) => key.startsWith(prefix));
   }
 
-  async getCategories<T>(): Promise<T | null> {
-    return this.get<T>(STORAGE_KEYS.CATEGORIES);
+  private isPersistentEntry(value: string): boolean {
+    try {
+      return (JSON.parse(value) as CacheEntry<unknown>).ttl === CACHE_TTL.PERSISTENT;
+    } catch {
+      return false;
+    }
   }
 
-  async setSpecializations(data: any): Promise<void> {
-    await this.set(STORAGE_KEYS.SPECIALIZATIONS, data, CACHE_TTL.SPECIALIZATIONS);
+  /**
+   * Move the user's archived data back into their active namespace
+   */
+  private async restoreArchive(userId: string): Promise<void> {
+    const keys = await this.getNamespaceKeys(ARCHIVE_NAMESPACE, userId);
+    if (keys.length === 0) {
+      return;
+    }
+
+    const archivePrefix = namespacePrefix(ARCHIVE_NAMESPACE, userId);
+    const pairs = await AsyncStorage.multiGet(keys);
+    const restored = pairs
+      .filter((pair): pair is [string, string] => pair[1] !== null)
+      .map(([key, value]): [string, string] => [this.scopeKey(userId, key.slice(archivePrefix.length)), value]);
+
+    await AsyncStorage.multiSet(restored);
+    await AsyncStorage.multiRemove(keys);
   }
 
-  async getSpecializations<T>(): Promise<T | null> {
-    return this.get<T>(STORAGE_KEYS.SPECIALIZATIONS);
+  /**
+   * Data saved before namespacing belongs to whoever signs in first; stale
+   * global caches are dropped. Runs once per device - later users never
+   * inherit anything from the global keys.
+   */
+  private async adoptLegacyData(userId: string): Promise<void> {
+    if (await AsyncStorage.getItem(STORAGE_KEYS.LEGACY_ADOPTED)) {
+      return;
+    }
+
+    const pairs = await AsyncStorage.multiGet(LEGACY_STORAGE_KEYS.DATA);
+    for (const [key, value] of pairs) {
+      if (value !== null) {
+        await this.writeEntry(userId, key, this.toLegacyEntry(JSON.parse(value)));
+      }
+    }
+    await AsyncStorage.multiRemove([...LEGACY_STORAGE_KEYS.DATA, ...LEGACY_STORAGE_KEYS.CACHES]);
+    await AsyncStorage.setItem(STORAGE_KEYS.LEGACY_ADOPTED, String(Date.now()));
   }
 
-  async setTopAstrologers(data: any): Promise<void> {
-    await this.set(STORAGE_KEYS.TOP_ASTROLOGERS, data, CACHE_TTL.TOP_ASTROLOGERS);
+  /**
+   * Legacy keys hold raw values, or entries written by CacheService while no
+   * user was signed in - only raw values are wrapped
+   */
+  private toLegacyEntry(value: unknown): CacheEntry<unknown> {
+    const entry = value as CacheEntry<unknown>;
+    if (
+      entry !== null &&
+      typeof entry === 'object' &&
+      !Array.isArray(entry) &&
+      'data' in entry &&
+      typeof entry.timestamp === 'number' &&
+      typeof entry.ttl === 'number'
+    ) {
+      return { ...entry, ttl: CACHE_TTL.PERSISTENT };
+    }
+
+    return {
+      data: value,
+      timestamp: Date.now(),
+      ttl: CACHE_TTL.PERSISTENT,
+      version: INITIAL_SCHEMA_VERSION, // Upgraded by migrateNamespace
+    };
   }
 
-  async getTopAstrologers<T>(): Promise<T | null> {
-    return this.get<T>(STORAGE_KEYS.TOP_ASTROLOGERS);
+  private async saveTimestamps(): Promise<void> {
+    await AsyncStorage.setItem(STORAGE_KEYS.CACHE_TIMESTAMPS, JSON.stringify(this.timestamps));
   }
 }
 
@@ -25,6 +25,30 @@ import {
   EndCallResponse,
   CallRatingRequest,
 } from '../types/call.types';
+import {
+  apiResponseSchema,
+  astrologerSchema,
+  chatSessionSchema,
+  createCallRequestResponseSchema,
+  endCallResponseSchema,
+  joinQueueResponseSchema,
+  pollCallRequestStatusResponseSchema,
+  queueEntrySchema,
+  queueInfoSchema,
+} from '../schemas';
+import { s, parseMutationResponse } from '../utils/schema';
+
+// Runtime response schemas
+const astrologerListResponseSchema = apiResponseSchema(s.array(astrologerSchema));
+const callRequestResponseSchema = apiResponseSchema(createCallRequestResponseSchema);
+const requestStatusResponseSchema = apiResponseSchema(pollCallRequestStatusResponseSchema);
+const queueInfoResponseSchema = apiResponseSchema(queueInfoSchema);
+const queueJoinResponseSchema = apiResponseSchema(joinQueueResponseSchema);
+const queueEntryResponseSchema = apiResponseSchema(queueEntrySchema);
+const queueEntryListResponseSchema = apiResponseSchema(s.array(queueEntrySchema));
+const chatSessionResponseSchema = apiResponseSchema(chatSessionSchema);
+const chatSessionListResponseSchema = apiResponseSchema(s.array(chatSessionSchema));
+const callEndResponseSchema = apiResponseSchema(endCallResponseSchema);
 
 interface AvailableCallAstrologersResponse {
   data: Astrologer[];
@@ -40,9 +64,11 @@ class CallService {
   async getAvailableAstrologers(
     filters?: SearchFilters
   ): Promise<AvailableCallAstrologersResponse> {
-    const response = await apiClient.get<ApiResponse<Astrologer[]>>(
-      API_ENDPOINTS.CALL.AVAILABLE_ASTROLOGERS,
-      { params: filters }
+    const response = astrologerListResponseSchema.parse(
+      await apiClient.get<ApiResponse<Astrologer[]>>(
+        API_ENDPOINTS.CALL.AVAILABLE_ASTROLOGERS,
+        { params: filters }
+      )
     );
 
     return {
@@ -84,9 +110,11 @@ class CallService {
    * @returns Promise<CreateCallRequestResponse>
    */
   async createCallRequest(astrologerId: string): Promise<CreateCallRequestResponse> {
-    const response = await apiClient.post<ApiResponse<CreateCallRequestResponse>>(
-      API_ENDPOINTS.CALL.REQUEST,
-      { astrologerId }
+    const response = callRequestResponseSchema.parse(
+      await apiClient.post<ApiResponse<CreateCallRequestResponse>>(
+        API_ENDPOINTS.CALL.REQUEST,
+        { astrologerId }
+      )
     );
     return response.data!;
   }
@@ -96,8 +124,10 @@ class CallService {
    * @returns Promise<CreateCallRequestResponse | null>
    */
   async getPendingRequest(): Promise<CreateCallRequestResponse | null> {
-    const response = await apiClient.get<ApiResponse<CreateCallRequestResponse>>(
-      API_ENDPOINTS.CALL.PENDING_REQUEST
+    const response = callRequestResponseSchema.parse(
+      await apiClient.get<ApiResponse<CreateCallRequestResponse>>(
+        API_ENDPOINTS.CALL.PENDING_REQUEST
+      )
     );
     return response.data || null;
   }
@@ -109,8 +139,10 @@ class CallService {
    * @returns Promise<PollCallRequestStatusResponse>
    */
   async pollRequestStatus(requestId: string): Promise<PollCallRequestStatusResponse> {
-    const response = await apiClient.get<ApiResponse<PollCallRequestStatusResponse>>(
-      API_ENDPOINTS.CALL.REQUEST_STATUS(requestId)
+    const response = requestStatusResponseSchema.parse(
+      await apiClient.get<ApiResponse<PollCallRequestStatusResponse>>(
+        API_ENDPOINTS.CALL.REQUEST_STATUS(requestId)
+      )
     );
     return response.data!;
   }
@@ -134,8 +166,10 @@ class CallService {
    * @returns Promise<QueueInfo>
    */
   async getQueueInfo(astrologerId: string): Promise<QueueInfo> {
-    const response = await apiClient.get<ApiResponse<QueueInfo>>(
-      API_ENDPOINTS.CALL.QUEUE_INFO(astrologerId)
+    const response = queueInfoResponseSchema.parse(
+      await apiClient.get<ApiResponse<QueueInfo>>(
+        API_ENDPOINTS.CALL.QUEUE_INFO(astrologerId)
+      )
     );
     return response.data!;
   }
@@ -147,9 +181,11 @@ class CallService {
    * @returns Promise<JoinQueueResponse>
    */
   async joinQueue(astrologerId: string): Promise<JoinQueueResponse> {
-    const response = await apiClient.post<ApiResponse<JoinQueueResponse>>(
-      API_ENDPOINTS.CALL.QUEUE_JOIN,
-      { astrologerId }
+    const response = queueJoinResponseSchema.parse(
+      await apiClient.post<ApiResponse<JoinQueueResponse>>(
+        API_ENDPOINTS.CALL.QUEUE_JOIN,
+        { astrologerId }
+      )
     );
     return response.data!;
   }
@@ -159,8 +195,10 @@ class CallService {
    * @returns Promise<QueueEntry[]>
    */
   async getQueueStatus(): Promise<QueueEntry[]> {
-    const response = await apiClient.get<ApiResponse<QueueEntry[]>>(
-      API_ENDPOINTS.CALL.QUEUE_STATUS
+    const response = queueEntryListResponseSchema.parse(
+      await apiClient.get<ApiResponse<QueueEntry[]>>(
+        API_ENDPOINTS.CALL.QUEUE_STATUS
+      )
     );
     return response.data || [];
   }
@@ -171,8 +209,10 @@ class CallService {
    * @returns Promise<QueueEntry | null>
    */
   async getQueuePosition(astrologerId: string): Promise<QueueEntry | null> {
-    const response = await apiClient.get<ApiResponse<QueueEntry>>(
-      API_ENDPOINTS.CALL.QUEUE_POSITION(astrologerId)
+    const response = queueEntryResponseSchema.parse(
+      await apiClient.get<ApiResponse<QueueEntry>>(
+        API_ENDPOINTS.CALL.QUEUE_POSITION(astrologerId)
+      )
     );
     return response.data || null;
   }
@@ -194,8 +234,10 @@ class CallService {
    * @returns Promise<CreateCallRequestResponse>
    */
   async callNowFromQueue(queueId: string): Promise<CreateCallRequestResponse> {
-    const response = await apiClient.post<ApiResponse<CreateCallRequestResponse>>(
-      API_ENDPOINTS.CALL.QUEUE_CALL_NOW(queueId)
+    const response = callRequestResponseSchema.parse(
+      await apiClient.post<ApiResponse<CreateCallRequestResponse>>(
+        API_ENDPOINTS.CALL.QUEUE_CALL_NOW(queueId)
+      )
     );
     return response.data!;
   }
@@ -208,9 +250,13 @@ class CallService {
    * @returns Promise<ChatSession>
    */
   async startSession(data: CreateSessionData): Promise<ChatSession> {
-    const response = await apiClient.post<ApiResponse<ChatSession>>(
-      API_ENDPOINTS.CALL.SESSIONS,
-      data
+    // The session is live (and billed) by now - never discard it over a schema mismatch
+    const response = parseMutationResponse(
+      chatSessionResponseSchema,
+      await apiClient.post<ApiResponse<ChatSession>>(
+        API_ENDPOINTS.CALL.SESSIONS,
+        data
+      )
     );
     return response.data!;
   }
@@ -220,8 +266,10 @@ class CallService {
    * @returns Promise<ChatSession | null>
    */
   async getActiveSession(): Promise<ChatSession | null> {
-    const response = await apiClient.get<ApiResponse<ChatSession>>(
-      API_ENDPOINTS.CALL.ACTIVE_SESSION
+    const response = chatSessionResponseSchema.parse(
+      await apiClient.get<ApiResponse<ChatSession>>(
+        API_ENDPOINTS.CALL.ACTIVE_SESSION
+      )
     );
     return response.data || null;
   }
@@ -233,9 +281,13 @@ class CallService {
    * @returns Promise<EndCallResponse>
    */
   async endSession(sessionId: string, endReason?: string): Promise<EndCallResponse> {
-    const response = await apiClient.post<ApiResponse<EndCallResponse>>(
-      API_ENDPOINTS.CALL.END_SESSION(sessionId),
-      { endReason }
+    // The session has ended on the server - never discard the summary over a schema mismatch
+    const response = parseMutationResponse(
+      callEndResponseSchema,
+      await apiClient.post<ApiResponse<EndCallResponse>>(
+        API_ENDPOINTS.CALL.END_SESSION(sessionId),
+        { endReason }
+      )
     );
     return response.data!;
   }
@@ -246,8 +298,10 @@ class CallService {
    * @returns Promise<ChatSession>
    */
   async getSessionDetails(sessionId: string): Promise<ChatSession> {
-    const response = await apiClient.get<ApiResponse<ChatSession>>(
-      API_ENDPOINTS.CALL.SESSION_DETAILS(sessionId)
+    const response = chatSessionResponseSchema.parse(
+      await apiClient.get<ApiResponse<ChatSession>>(
+        API_ENDPOINTS.CALL.SESSION_DETAILS(sessionId)
+      )
     );
     return response.data!;
   }
@@ -276,9 +330,11 @@ class CallService {
     limit?: number;
     offset?: number;
   }): Promise<{ data: ChatSession[]; pagination: Pagination }> {
-    const response = await apiClient.get<ApiResponse<ChatSession[]>>(
-      API_ENDPOINTS.CALL.SESSIONS,
-      { params: filters }
+    const response = chatSessionListResponseSchema.parse(
+      await apiClient.get<ApiResponse<ChatSession[]>>(
+        API_ENDPOINTS.CALL.SESSIONS,
+        { params: filters }
+      )
     );
     return {
       data: response.data || [],
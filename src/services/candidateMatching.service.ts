@@ -0,0 +1,78 @@
+/**
+ * Candidate Matching Service
+ * Ranks several marriage proposals against one profile, scored on-device
+ * No network required - works offline (except sharing the PDF)
+ */
+
+import * as Print from 'expo-print';
+import { calculateMatchingReport } from '../astrology';
+import { CandidateMatch, CandidateSortKey, SavedKundli } from '../types/kundli';
+import { buildCandidateComparisonHtml } from '../utils/candidateComparisonPdf';
+
+// Points of one column, for sorting
+const getSortValue = (match: CandidateMatch, sortKey: CandidateSortKey): number => {
+  if (sortKey === 'total') return match.report.totalScore;
+  return match.report.ashtakootGunas.find((guna) => guna.id === sortKey)?.obtainedPoints ?? 0;
+};
+
+/**
+ * Candidate Matching Service
+ */
+export const candidateMatchingService = {
+  /**
+   * Ashtakoot matching of the anchor with each candidate, best match first
+   * A female anchor is the girl in every pair; any other anchor is the boy.
+   * @param anchor - Profile the proposals are for
+   * @param candidates - Proposed partners
+   * @returns CandidateMatch[]
+   */
+  compare: (anchor: SavedKundli, candidates: SavedKundli[]): CandidateMatch[] => {
+    const anchorIsGirl = anchor.gender === 'female';
+    const matches = candidates.map((candidate): CandidateMatch => {
+      const report = calculateMatchingReport(
+        '',
+        anchorIsGirl ? { boy: candidate, girl: anchor } : { boy: anchor, girl: candidate }
+      );
+      return {
+        candidate,
+        report,
+        nadiDosha: report.doshaAnalysis.nadiDosha.present,
+        bhakootDosha: report.ashtakootGunas.find((guna) => guna.id === 'bhakoot')?.obtainedPoints === 0,
+      };
+    });
+    return candidateMatchingService.sort(matches, 'total', 'desc');
+  },
+
+  /**
+   * Sort compared candidates by a column; ties fall back to the total score
+   * @param matches - Compared candidates
+   * @param sortKey - Guna id, 'total' or 'name'
+   * @param direction - 'desc' puts the highest points (or Z) first
+   * @returns CandidateMatch[] - A new array
+   */
+  sort: (
+    matches: CandidateMatch[],
+    sortKey: CandidateSortKey,
+    direction: 'asc' | 'desc'
+  ): CandidateMatch[] => {
+    const sign = direction === 'asc' ? 1 : -1;
+    return [...matches].sort((a, b) => {
+      const difference = sortKey === 'name'
+        ? a.candidate.name.localeCompare(b.candidate.name)
+        : getSortValue(a, sortKey) - getSortValue(b, sortKey);
+      return difference * sign || b.report.totalScore - a.report.totalScore;
+    });
+  },
+
+  /**
+   * Render the ranked table to a PDF for sharing
+   * @param anchor - Profile the proposals are for
+   * @param matches - Compared candidates, in the order shown
+   * @returns Promise<string> - file:// URI of the generated PDF
+   */
+  createPdf: async (anchor: SavedKundli, matches: CandidateMatch[]): Promise<string> => {
+    const html = buildCandidateComparisonHtml(anchor, matches);
+    const { uri } = await Print.printToFileAsync({ html });
+    return uri;
+  },
+};
@@ -16,6 +16,13 @@ import {
   EndSessionData,
   ChatMessage,
 } from '../types/api.types';
+import { apiResponseSchema, astrologerSchema, chatSessionSchema } from '../schemas';
+import { s, parseMutationResponse } from '../utils/schema';
+
+// Runtime response schemas
+const astrologerListResponseSchema = apiResponseSchema(s.array(astrologerSchema));
+const chatSessionResponseSchema = apiResponseSchema(chatSessionSchema);
+const chatSessionListResponseSchema = apiResponseSchema(s.array(chatSessionSchema));
 
 interface AvailableChatAstrologersResponse {
   data: Astrologer[];
@@ -32,9 +39,11 @@ class ChatService {
   async getAvailableAstrologers(
     filters?: SearchFilters
   ): Promise<AvailableChatAstrologersResponse> {
-    const response = await apiClient.get<ApiResponse<Astrologer[]>>(
-      API_ENDPOINTS.CHAT.AVAILABLE_ASTROLOGERS,
-      { params: filters }
+    const response = astrologerListResponseSchema.parse(
+      await apiClient.get<ApiResponse<Astrologer[]>>(
+        API_ENDPOINTS.CHAT.AVAILABLE_ASTROLOGERS,
+        { params: filters }
+      )
     );
 
     return {
@@ -63,9 +72,13 @@ class ChatService {
    * @returns Promise<ChatSession>
    */
   async startSession(data: CreateSessionData): Promise<ChatSession> {
-    const response = await apiClient.post<ApiResponse<ChatSession>>(
-      API_ENDPOINTS.CHAT.SESSIONS,
-      data
+    // The session is live (and billed) by now - never discard it over a schema mismatch
+    const response = parseMutationResponse(
+      chatSessionResponseSchema,
+      await apiClient.post<ApiResponse<ChatSession>>(
+        API_ENDPOINTS.CHAT.SESSIONS,
+        data
+      )
     );
     return response.data!;
   }
@@ -75,8 +88,10 @@ class ChatService {
    * @returns Promise<ChatSession | null>
    */
   async getActiveSession(): Promise<ChatSession | null> {
-    const response = await apiClient.get<ApiResponse<ChatSession>>(
-      API_ENDPOINTS.CHAT.ACTIVE_SESSION
+    const response = chatSessionResponseSchema.parse(
+      await apiClient.get<ApiResponse<ChatSession>>(
+        API_ENDPOINTS.CHAT.ACTIVE_SESSION
+      )
     );
     return response.data || null;
   }
@@ -123,7 +138,10 @@ class ChatService {
   ): Promise<ChatMessage> {
     const response = await apiClient.post<ApiResponse<ChatMessage>>(
       API_ENDPOINTS.CHAT.MESSAGES(sessionId),
-      { message, type }
+      { message, type },
+      // Messages must survive flaky connections mid-session; the client adds an
+      // Idempotency-Key so a retried message is not delivered (and billed) twice
+      { retry: true }
     );
     return response.data!;
   }
@@ -160,9 +178,11 @@ class ChatService {
     limit?: number;
     offset?: number;
   }): Promise<{ data: ChatSession[]; pagination: Pagination }> {
-    const response = await apiClient.get<ApiResponse<ChatSession[]>>(
-      API_ENDPOINTS.CHAT.SESSIONS,
-      { params: filters }
+    const response = chatSessionListResponseSchema.parse(
+      await apiClient.get<ApiResponse<ChatSession[]>>(
+        API_ENDPOINTS.CHAT.SESSIONS,
+        { params: filters }
+      )
     );
     return {
       data: response.data || [],
@@ -3,21 +3,23 @@
  * Handles feedback submission
  */
 
-import { apiClient } from './api.client';
+import { outboxService } from './outbox.service';
 import { API_ENDPOINTS } from '../config/api.config';
 import { FeedbackData, ApiResponse } from '../types/api.types';
 
 class FeedbackService {
   /**
    * Submit feedback
+   * Queued in the outbox when offline (throws OutboxQueuedError)
    * @param data - Feedback data (name, email, comments, rating, category)
    * @returns Promise<any>
    */
   async submitFeedback(data: FeedbackData): Promise<any> {
-    const response = await apiClient.post<ApiResponse<any>>(
-      API_ENDPOINTS.FEEDBACK,
-      data
-    );
+    const response = await outboxService.send<ApiResponse<any>>('submit_feedback', {
+      method: 'post',
+      url: API_ENDPOINTS.FEEDBACK,
+      data,
+    });
     return response.data!;
   }
 }
@@ -14,12 +14,21 @@ export { chatService } from './chat.service';
 export { callService } from './call.service';
 export { liveSessionService } from './liveSession.service';
 
+// Offline outbox for queued mutations
+export { outboxService, OutboxQueuedError } from './outbox.service';
+
 // Cache and prefetch services
 export { cacheService } from './cache.service';
 export { prefetchService } from './prefetch.service';
+export { queryPersister } from './queryPersister.service';
 
 // Astrology services (Horoscope, Kundli, Matching)
 export { horoscopeService } from './horoscope.service';
 export { placesService } from './places.service';
 export { kundliService } from './kundli.service';
+export { kundliSyncService } from './kundliSync.service';
+export type { KundliSyncSnapshot } from './kundliSync.service';
+export { kundliExportService } from './kundliExport.service';
 export { matchingService } from './matching.service';
+export { candidateMatchingService } from './candidateMatching.service';
+export { panchangService } from './panchang.service';
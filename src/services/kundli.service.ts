@@ -7,19 +7,21 @@
 import { apiClient } from './api.client';
 import { API_ENDPOINTS } from '../config/api.config';
 import { ApiResponse, Pagination } from '../types/api.types';
+import { kundliReportSchema } from '../schemas';
 import {
   SavedKundli,
   KundliInput,
   KundliReport,
   KundliListParams,
   ChartStyle,
+  ReportLanguage,
 } from '../types/kundli';
 
 /**
  * Report query parameters
  */
 export interface KundliReportParams {
-  language?: 'en' | 'ta';
+  language?: ReportLanguage;
   chartStyle?: ChartStyle;
   refresh?: boolean;
 }
@@ -38,6 +40,7 @@ interface KundliListResponse {
 export const kundliService = {
   /**
    * Generate a new Kundli (birth chart)
+   * Offline, callers save the kundli on the device instead (kundliSyncService uploads it)
    * @param input - Kundli input data
    * @returns Promise<SavedKundli>
    */
@@ -132,7 +135,8 @@ export const kundliService = {
       throw new Error(response.error?.message || 'Failed to fetch kundli report');
     }
 
-    return response.data;
+    // Reports drive the whole report screen - reject malformed payloads up front
+    return kundliReportSchema.parse(response.data, 'response.data');
   },
 
   /**
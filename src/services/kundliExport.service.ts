@@ -0,0 +1,28 @@
+/**
+ * Kundli Export Service
+ * Renders kundli reports to PDF on-device for sharing
+ */
+
+import * as Print from 'expo-print';
+import { SavedKundli } from '../types/kundli';
+import { kundliService } from './kundli.service';
+import { buildKundliReportHtml, KundliPdfOptions } from '../utils/kundliPdf';
+
+/**
+ * Kundli Export Service
+ */
+export const kundliExportService = {
+  /**
+   * Generate a PDF booklet of a kundli's full report
+   * Fetches the report in the requested language, so this needs the network.
+   * @param kundli - Saved kundli to export
+   * @param options - Booklet language and chart style
+   * @returns Promise<string> - file:// URI of the generated PDF
+   */
+  createReportPdf: async (kundli: SavedKundli, options: KundliPdfOptions): Promise<string> => {
+    const report = await kundliService.getReport(kundli.id, { language: options.language });
+    const html = buildKundliReportHtml(kundli, report, options);
+    const { uri } = await Print.printToFileAsync({ html });
+    return uri;
+  },
+};
@@ -0,0 +1,573 @@
+/**
+ * Kundli Sync Service
+ * Two-way sync between kundlis saved on this device and the user's server kundlis
+ *
+ * After a sync the local store (STORAGE_KEYS.SAVED_KUNDLIS) mirrors the server
+ * list plus any kundlis that could not be uploaded yet. Each kundli has a sync
+ * record holding the updatedAt both sides agreed on at the last sync, so a
+ * pass can tell which side changed:
+ * - Local-only kundlis are uploaded and replaced by the server copy
+ * - Edits on one side are copied to the other
+ * - Edits on both sides are reconciled by updatedAt (newer wins, flagged as a conflict)
+ * - Deletes on this device are sent to the server, retried until they succeed
+ * - Kundlis deleted on the server are removed here unless edited since the last sync
+ *
+ * All writes to the local store go through updateLocal() so they are applied
+ * one at a time to the latest list. Saves, edits and deletes made on this
+ * device while a pass waits on the network are merged into its result.
+ */
+
+import { kundliService } from './kundli.service';
+import { cacheService } from './cache.service';
+import { apiClient } from './api.client';
+import { CACHE_TTL, STORAGE_KEYS } from '../constants/cacheKeys';
+import { KundliInput, KundliSyncRecord, SavedKundli } from '../types/kundli';
+import { extractErrorMessage, isNetworkError } from '../utils/errorHandler';
+
+const LIST_PAGE_SIZE = 50;
+
+type SyncRecords = Record<string, KundliSyncRecord>;
+
+export interface KundliSyncSnapshot {
+  records: SyncRecords;
+  syncing: boolean;
+  lastSyncedAt: number | null;
+}
+
+type SyncListener = (snapshot: KundliSyncSnapshot) => void;
+type SyncedListener = () => void;
+
+/**
+ * Thrown inside a pass when the backend is unreachable - ends the pass
+ */
+class SyncOfflineError extends Error {
+  constructor() {
+    super('Backend unreachable');
+    this.name = 'SyncOfflineError';
+  }
+}
+
+const toKundliInput = (kundli: SavedKundli): KundliInput => ({
+  name: kundli.name,
+  gender: kundli.gender,
+  dateOfBirth: kundli.dateOfBirth,
+  timeOfBirth: kundli.timeOfBirth,
+  birthPlace: {
+    name: kundli.birthPlace.name,
+    latitude: kundli.birthPlace.latitude,
+    longitude: kundli.birthPlace.longitude,
+    timezone: kundli.birthPlace.timezone,
+  },
+});
+
+const isNewer = (a: SavedKundli, b: SavedKundli): boolean =>
+  new Date(a.updatedAt).getTime() > new Date(b.updatedAt).getTime();
+
+const isNotFound = (error: any): boolean => error?.response?.status === 404;
+
+/**
+ * Result of a pass, with the local writes made while it ran
+ * @param before - Local store when the pass read it
+ * @param current - Local store now
+ * @param synced - Local store the pass computed from `before`
+ * @param records - Sync records after the pass (to map uploads to their local id)
+ */
+const mergeLocalWrites = (
+  before: SavedKundli[],
+  current: SavedKundli[],
+  synced: SavedKundli[],
+  records: SyncRecords
+): SavedKundli[] => {
+  const beforeById = new Map(before.map((kundli) => [kundli.id, kundli]));
+  const currentById = new Map(current.map((kundli) => [kundli.id, kundli]));
+  const uploadedFrom = new Map(
+    Object.values(records)
+      .filter((record) => record.serverId)
+      .map((record) => [record.serverId!, record.id])
+  );
+  const isEdited = (kundli: SavedKundli) => {
+    const latest = currentById.get(kundli.id);
+    return !!latest && latest.updatedAt !== kundli.updatedAt;
+  };
+
+  // Saved during the pass
+  const merged = current.filter((kundli) => !beforeById.has(kundli.id));
+  const carried = new Set<string>();
+
+  synced.forEach((kundli) => {
+    const localId = uploadedFrom.get(kundli.id) ?? kundli.id;
+    const original = beforeById.get(localId);
+    if (!original) {
+      merged.push(kundli); // Pulled from the server
+      return;
+    }
+    carried.add(localId);
+
+    const latest = currentById.get(localId);
+    if (!latest) {
+      return; // Deleted during the pass
+    }
+    // Edited during the pass - keep the edit under the synced id, the next pass pushes it
+    merged.push(isEdited(original) ? { ...latest, id: kundli.id } : kundli);
+  });
+
+  // Dropped by the pass (deleted on the server) but edited here meanwhile - re-uploaded next pass
+  before.forEach((kundli) => {
+    if (!carried.has(kundli.id) && !records[kundli.id]?.serverId && isEdited(kundli)) {
+      merged.push(currentById.get(kundli.id)!);
+    }
+  });
+
+  return merged;
+};
+
+class KundliSyncService {
+  private records: SyncRecords = {};
+  private loadPromise: Promise<void> | null = null;
+  private syncPromise: Promise<void> | null = null;
+  private generation = 0; // Bumped by reset() so an in-flight pass stops calling the server
+  private localWrite: Promise<unknown> = Promise.resolve();
+  private lastSyncedAt: number | null = null;
+  private listeners = new Set<SyncListener>();
+  private syncedListeners = new Set<SyncedListener>();
+  private connectivityUnsubscribe: (() => void) | null = null;
+
+  /**
+   * Load the signed-in user's sync records (safe to call repeatedly)
+   */
+  init(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        this.records = (await cacheService.get<SyncRecords>(STORAGE_KEYS.KUNDLI_SYNC)) || {};
+        this.notify();
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Sync now and whenever the backend becomes reachable again
+   */
+  start() {
+    if (this.connectivityUnsubscribe) {
+      return;
+    }
+
+    this.connectivityUnsubscribe = apiClient.onConnectivityChange((reachable) => {
+      if (reachable) {
+        this.sync();
+      }
+    });
+    this.sync();
+  }
+
+  /**
+   * Stop automatic syncs
+   */
+  stop() {
+    this.connectivityUnsubscribe?.();
+    this.connectivityUnsubscribe = null;
+  }
+
+  /**
+   * Forget the in-memory records (e.g. on logout) - the next init() loads
+   * whichever user is signed in then
+   * Waits for an in-flight pass, which skips its remaining server calls but
+   * still saves what it already did to the signed-out user's namespace
+   */
+  async reset(): Promise<void> {
+    this.stop();
+    this.generation++;
+    await this.syncPromise;
+
+    this.records = {};
+    this.loadPromise = null;
+    this.lastSyncedAt = null;
+    this.notify();
+  }
+
+  /**
+   * Run a sync pass
+   * Single-flight: concurrent callers share the same pass
+   */
+  sync(): Promise<void> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.performSync()
+        .catch((error) => {
+          if (!(error instanceof SyncOfflineError)) {
+            console.warn('[KundliSync] Sync failed:', error?.message);
+          }
+        })
+        .finally(() => {
+          this.syncPromise = null;
+          this.notify();
+        });
+      this.notify();
+    }
+    return this.syncPromise;
+  }
+
+  /**
+   * Change the local store, serialized with every other local write
+   * @param change - Receives the latest list and returns the one to store
+   * @returns Promise<SavedKundli[]> - The stored list
+   */
+  updateLocal(change: (kundlis: SavedKundli[]) => SavedKundli[]): Promise<SavedKundli[]> {
+    const write = this.localWrite.then(async () => {
+      const next = change(await this.readLocalKundlis());
+      await this.writeLocalKundlis(next);
+      return next;
+    });
+    this.localWrite = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Keep an edit made offline to a kundli this device has no copy of (e.g. one
+   * opened from the server list) - the next pass pushes it
+   * @param kundli - Server copy that was edited
+   * @param updates - Changed birth details
+   * @returns Promise<SavedKundli> - Edited copy now saved on this device
+   */
+  async saveOfflineEdit(kundli: SavedKundli, updates: Partial<KundliInput>): Promise<SavedKundli> {
+    await this.init();
+
+    const edited: SavedKundli = { ...kundli, ...updates, updatedAt: new Date().toISOString() };
+    await this.updateLocal((local) => [edited, ...local.filter((k) => k.id !== kundli.id)]);
+
+    // Record the server copy as the last synced state so the pass sees a local edit
+    if (!this.records[kundli.id]?.syncedAt) {
+      this.setRecord(kundli.id, { status: 'synced', syncedAt: kundli.updatedAt });
+      await this.persist();
+    }
+    return edited;
+  }
+
+  /**
+   * Delete a kundli on this device and, if the server has it, on the server
+   * @param kundli - Kundli to delete
+   * @returns Promise<boolean> - true if the server delete is still pending
+   */
+  async remove(kundli: SavedKundli): Promise<boolean> {
+    await this.init();
+    // Let a running pass settle the kundli's record first
+    await this.syncPromise;
+
+    let isLocalOnly = false;
+    await this.updateLocal((local) => {
+      isLocalOnly = local.some((k) => k.id === kundli.id) && !this.records[kundli.id]?.syncedAt;
+      return local.filter((k) => k.id !== kundli.id);
+    });
+
+    if (isLocalOnly) {
+      delete this.records[kundli.id];
+      await this.persist();
+      return false;
+    }
+
+    // Tombstone first so a failed delete is retried on the next sync
+    this.records[kundli.id] = {
+      ...this.records[kundli.id],
+      id: kundli.id,
+      status: 'synced',
+      deletedAt: new Date().toISOString(),
+    };
+    await this.persist();
+
+    try {
+      await this.deleteOnServer(kundli.id);
+      return false;
+    } catch (error: any) {
+      if (!(error instanceof SyncOfflineError)) {
+        console.warn(`[KundliSync] Delete of ${kundli.id} failed, will retry:`, error?.message);
+      }
+      return true;
+    }
+  }
+
+  /**
+   * Sync record of a kundli, if it has one
+   */
+  getRecord(id: string): KundliSyncRecord | undefined {
+    return this.records[id];
+  }
+
+  /**
+   * Current records and sync state
+   */
+  getSnapshot(): KundliSyncSnapshot {
+    return {
+      records: this.records,
+      syncing: this.syncPromise !== null,
+      lastSyncedAt: this.lastSyncedAt,
+    };
+  }
+
+  /**
+   * Subscribe to record and sync state changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to completed passes (e.g. to reload the local store)
+   * @returns Unsubscribe function
+   */
+  onSynced(listener: SyncedListener): () => void {
+    this.syncedListeners.add(listener);
+    return () => {
+      this.syncedListeners.delete(listener);
+    };
+  }
+
+  private async performSync(): Promise<void> {
+    const generation = this.generation;
+    await this.init();
+
+    // Pending deletes go first so deleted kundlis aren't pulled back down
+    for (const record of Object.values(this.records)) {
+      if (generation !== this.generation) break;
+      if (!record.deletedAt) continue;
+      try {
+        await this.deleteOnServer(record.id);
+      } catch (error: any) {
+        if (error instanceof SyncOfflineError) throw error;
+        console.warn(`[KundliSync] Delete of ${record.id} failed, will retry:`, error?.message);
+      }
+    }
+
+    if (generation !== this.generation) {
+      await this.persist();
+      return;
+    }
+
+    const serverKundlis = await this.fetchServerKundlis();
+    const serverById = new Map(serverKundlis.map((kundli) => [kundli.id, kundli]));
+    const local = await this.readLocalKundlis();
+    const next: SavedKundli[] = [];
+    let offline = false;
+
+    for (const kundli of local) {
+      const record = this.records[kundli.id];
+
+      // Already uploaded under a server id - a stale write brought the local copy back
+      if (record?.serverId) {
+        continue;
+      }
+
+      if (offline || generation !== this.generation) {
+        next.push(kundli);
+        continue;
+      }
+
+      try {
+        const synced = await this.syncKundli(kundli, serverById.get(kundli.id));
+        if (synced) {
+          next.push(synced);
+        }
+      } catch (error) {
+        if (!(error instanceof SyncOfflineError)) {
+          throw error;
+        }
+        offline = true;
+        next.push(kundli);
+      }
+    }
+
+    // Kundlis created on the server (another device, or a replayed outbox entry)
+    const present = new Set(next.map((kundli) => kundli.id));
+    serverKundlis.forEach((kundli) => {
+      if (!present.has(kundli.id) && !this.records[kundli.id]?.deletedAt) {
+        next.push(kundli);
+        present.add(kundli.id);
+        this.setRecord(kundli.id, { status: 'synced', syncedAt: kundli.updatedAt });
+      }
+    });
+
+    // Drop records of kundlis that are gone, keeping tombstones and upload links
+    Object.values(this.records).forEach((record) => {
+      const keep = present.has(record.id) || record.deletedAt ||
+        (record.serverId && present.has(record.serverId));
+      if (!keep) {
+        delete this.records[record.id];
+      }
+    });
+
+    // The network calls above leave time for local writes - keep them
+    await this.updateLocal((current) => mergeLocalWrites(local, current, next, this.records));
+    await this.persist();
+    if (!offline) {
+      this.lastSyncedAt = Date.now();
+    }
+    this.syncedListeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Reconcile one local kundli with its server copy
+   * @returns Promise<SavedKundli | null> - Copy to keep locally, or null to drop it
+   */
+  private async syncKundli(
+    kundli: SavedKundli,
+    server: SavedKundli | undefined
+  ): Promise<SavedKundli | null> {
+    const record = this.records[kundli.id];
+
+    // Never synced: upload it
+    if (!record?.syncedAt) {
+      if (server) {
+        this.setRecord(kundli.id, { status: 'synced', syncedAt: server.updatedAt });
+        return server;
+      }
+      return this.upload(kundli);
+    }
+
+    const localChanged = kundli.updatedAt !== record.syncedAt;
+
+    // Deleted on the server: follow unless edited here since
+    if (!server) {
+      if (!localChanged) {
+        delete this.records[kundli.id];
+        return null;
+      }
+      return this.upload(kundli, 'Deleted on another device - restored with the edit made here');
+    }
+
+    const serverChanged = server.updatedAt !== record.syncedAt;
+
+    if (localChanged && serverChanged) {
+      if (isNewer(kundli, server)) {
+        return this.pushUpdate(kundli, 'Edited on another device too - kept the newer edit from this device');
+      }
+      this.setRecord(kundli.id, {
+        status: 'conflict',
+        syncedAt: server.updatedAt,
+        message: 'Edited on this device too - kept the newer edit from another device',
+      });
+      return server;
+    }
+
+    if (localChanged) {
+      return this.pushUpdate(kundli);
+    }
+
+    // Unchanged here - take the server copy; a conflict stays flagged until the next change
+    const unchanged = !serverChanged && record.status === 'conflict';
+    this.setRecord(kundli.id, {
+      status: unchanged ? 'conflict' : 'synced',
+      syncedAt: server.updatedAt,
+      message: unchanged ? record.message : undefined,
+    });
+    return server;
+  }
+
+  /**
+   * Create a local-only kundli on the server
+   * @returns Promise<SavedKundli> - Server copy, or the local copy if rejected
+   */
+  private async upload(kundli: SavedKundli, conflictMessage?: string): Promise<SavedKundli> {
+    try {
+      const uploaded = await kundliService.generate(toKundliInput(kundli));
+      this.records[kundli.id] = { id: kundli.id, status: 'synced', serverId: uploaded.id };
+      this.setRecord(uploaded.id, {
+        status: conflictMessage ? 'conflict' : 'synced',
+        syncedAt: uploaded.updatedAt,
+        message: conflictMessage,
+      });
+      console.log(`[KundliSync] Uploaded ${kundli.id} as ${uploaded.id}`);
+      return uploaded;
+    } catch (error) {
+      return this.markFailed(kundli, error);
+    }
+  }
+
+  /**
+   * Copy a local edit to the server
+   */
+  private async pushUpdate(kundli: SavedKundli, conflictMessage?: string): Promise<SavedKundli> {
+    try {
+      const updated = await kundliService.update(kundli.id, toKundliInput(kundli));
+      this.setRecord(kundli.id, {
+        status: conflictMessage ? 'conflict' : 'synced',
+        syncedAt: updated.updatedAt,
+        message: conflictMessage,
+      });
+      return updated;
+    } catch (error) {
+      return this.markFailed(kundli, error);
+    }
+  }
+
+  /**
+   * Keep the local copy and flag it, or end the pass if the backend went away
+   */
+  private markFailed(kundli: SavedKundli, error: unknown): SavedKundli {
+    if (isNetworkError(error)) {
+      throw new SyncOfflineError();
+    }
+    console.warn(`[KundliSync] Server rejected ${kundli.id}:`, extractErrorMessage(error));
+    this.setRecord(kundli.id, { status: 'error', message: extractErrorMessage(error) });
+    return kundli;
+  }
+
+  /**
+   * Delete on the server and drop the tombstone (already gone counts as deleted)
+   */
+  private async deleteOnServer(id: string): Promise<void> {
+    try {
+      await kundliService.delete(id);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        throw new SyncOfflineError();
+      }
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+    delete this.records[id];
+    await this.persist();
+  }
+
+  private async fetchServerKundlis(): Promise<SavedKundli[]> {
+    const kundlis: SavedKundli[] = [];
+    try {
+      for (let page = 1; ; page++) {
+        const { data, pagination } = await kundliService.list({ page, limit: LIST_PAGE_SIZE });
+        kundlis.push(...data);
+        if (!pagination.hasNext) break;
+      }
+    } catch (error) {
+      throw isNetworkError(error) ? new SyncOfflineError() : error;
+    }
+    return kundlis;
+  }
+
+  private setRecord(id: string, changes: Omit<KundliSyncRecord, 'id'>) {
+    this.records[id] = { ...this.records[id], ...changes, id };
+  }
+
+  private async readLocalKundlis(): Promise<SavedKundli[]> {
+    return (await cacheService.get<SavedKundli[]>(STORAGE_KEYS.SAVED_KUNDLIS)) || [];
+  }
+
+  private async writeLocalKundlis(kundlis: SavedKundli[]): Promise<void> {
+    await cacheService.set(STORAGE_KEYS.SAVED_KUNDLIS, kundlis, CACHE_TTL.PERSISTENT);
+  }
+
+  private async persist(): Promise<void> {
+    this.records = { ...this.records };
+    await cacheService.set(STORAGE_KEYS.KUNDLI_SYNC, this.records, CACHE_TTL.PERSISTENT);
+    this.notify();
+  }
+
+  private notify() {
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+}
+
+export const kundliSyncService = new KundliSyncService();
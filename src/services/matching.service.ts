@@ -7,6 +7,7 @@
 import { apiClient } from './api.client';
 import { API_ENDPOINTS } from '../config/api.config';
 import { ApiResponse, Pagination } from '../types/api.types';
+import { matchingReportSchema } from '../schemas';
 import {
   SavedMatching,
   MatchingInput,
@@ -109,7 +110,8 @@ export const matchingService = {
       throw new Error(response.error?.message || 'Failed to fetch matching report');
     }
 
-    return response.data;
+    // Reports drive the whole report screen - reject malformed payloads up front
+    return matchingReportSchema.parse(response.data, 'response.data');
   },
 
   /**
@@ -0,0 +1,347 @@
+/**
+ * Outbox Service
+ * Persistent queue for mutations made while offline
+ *
+ * Every queueable request carries an Idempotency-Key header. When a request
+ * cannot reach the backend it is stored under that same key and replayed once
+ * connectivity returns, so the server can de-duplicate a request that did get
+ * through before the connection dropped.
+ *
+ * Only the mutations in OutboxMutationType go through here - payments and
+ * session starts are never queued.
+ *
+ * The queue is stored through CacheService in the signed-in user's namespace,
+ * so it is archived with their data on sign-out and never replayed for
+ * another user.
+ */
+
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import {
+  apiClient,
+  ApiRequestConfig,
+  IDEMPOTENCY_HEADER,
+  generateIdempotencyKey,
+} from './api.client';
+import { cacheService } from './cache.service';
+import { API_CONFIG } from '../config/api.config';
+import { CACHE_TTL, STORAGE_KEYS } from '../constants/cacheKeys';
+import { ApiError, ErrorCode } from '../types/api.types';
+import { OutboxEntry, OutboxMutationType, OutboxRequest } from '../types/outbox.types';
+import { extractErrorMessage, isNetworkError } from '../utils/errorHandler';
+
+const MAX_ATTEMPTS = 5;
+const RETRY_INTERVAL = 30 * 1000; // Periodic replay attempt while started
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+type ReplayListener = (entry: OutboxEntry) => void;
+
+/**
+ * Thrown by send() when a request was queued instead of delivered
+ * Shaped like ApiError so it flows through handleApiError unchanged
+ */
+export class OutboxQueuedError extends Error implements ApiError {
+  code: string = ErrorCode.QUEUED_OFFLINE;
+  entry: OutboxEntry;
+
+  constructor(entry: OutboxEntry) {
+    super('You are offline. This will be sent when you are back online.');
+    this.name = 'OutboxQueuedError';
+    this.entry = entry;
+  }
+}
+
+class OutboxService {
+  private entries: OutboxEntry[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private loadedUserId: string | null = null; // Namespace the entries were loaded from
+  private flushPromise: Promise<void> | null = null;
+  private generation = 0; // Bumped by reset() so an in-flight flush stops replaying
+  private listeners = new Set<OutboxListener>();
+  private replayListeners = new Set<ReplayListener>();
+  private retryTimer: ReturnType<typeof setInterval> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private connectivityUnsubscribe: (() => void) | null = null;
+
+  /**
+   * Load persisted entries (safe to call repeatedly)
+   * Reloads when a different user is signed in than at the last load
+   */
+  init(): Promise<void> {
+    const userId = cacheService.getUserId();
+    if (!this.loadPromise || this.loadedUserId !== userId) {
+      this.loadedUserId = userId;
+      this.loadPromise = (async () => {
+        const stored = await cacheService.get<OutboxEntry[]>(STORAGE_KEYS.OUTBOX_QUEUE);
+        this.entries = stored ?? [];
+        this.notify();
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Forget the in-memory queue (e.g. on sign-out) - the persisted entries stay
+   * in the user's namespace and the next init() loads whoever is signed in then
+   * Waits for an in-flight flush, which stops after its current entry, so it
+   * cannot persist into the namespace of whoever signs in next
+   */
+  async reset(): Promise<void> {
+    this.stop();
+    this.generation++;
+    await this.flushPromise;
+
+    this.entries = [];
+    this.loadPromise = null;
+    this.loadedUserId = null;
+    this.notify();
+  }
+
+  /**
+   * Send a mutation, queueing it if the backend is unreachable
+   * @param type - Mutation type (decides whether it may be queued at all)
+   * @param request - Method, URL and body
+   * @returns Promise<T> - Response body when delivered
+   * @throws OutboxQueuedError when the request was queued for later
+   */
+  async send<T>(type: OutboxMutationType, request: OutboxRequest): Promise<T> {
+    const idempotencyKey = generateIdempotencyKey();
+
+    try {
+      // The idempotency key makes retrying non-idempotent methods safe
+      return await this.execute<T>(request, idempotencyKey, { retry: true });
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        throw error;
+      }
+
+      const entry = await this.enqueue(type, request, idempotencyKey);
+      throw new OutboxQueuedError(entry);
+    }
+  }
+
+  /**
+   * Start replaying on foreground, on reconnect and periodically
+   */
+  start() {
+    if (this.retryTimer) {
+      return;
+    }
+
+    this.appStateSubscription = AppState.addEventListener(
+      'change',
+      (state: AppStateStatus) => {
+        if (state === 'active') {
+          this.flush();
+        }
+      }
+    );
+    this.connectivityUnsubscribe = apiClient.onConnectivityChange((reachable) => {
+      if (reachable) {
+        this.flush();
+      }
+    });
+    this.retryTimer = setInterval(() => this.flush(), RETRY_INTERVAL);
+
+    this.flush();
+  }
+
+  /**
+   * Stop automatic replays (queued entries are kept)
+   */
+  stop() {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.connectivityUnsubscribe?.();
+    this.connectivityUnsubscribe = null;
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Replay pending entries oldest-first
+   * Single-flight: concurrent callers share the same pass
+   */
+  flush(): Promise<void> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.performFlush().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  private async performFlush(): Promise<void> {
+    const generation = this.generation;
+    await this.init();
+
+    const pending = this.entries.filter((entry) => entry.status === 'pending');
+    for (const entry of pending) {
+      if (generation !== this.generation) {
+        break;
+      }
+      const stillOffline = await this.replay(entry);
+      if (stillOffline) {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Replay a single entry
+   * @returns Promise<boolean> - true if the backend is still unreachable
+   */
+  private async replay(entry: OutboxEntry): Promise<boolean> {
+    try {
+      // Retries are driven by the outbox itself, not the API client
+      await this.execute(entry.request, entry.id, { retry: false });
+      console.log(`[Outbox] Delivered ${entry.type} (${entry.id})`);
+
+      await this.removeEntry(entry.id);
+      this.replayListeners.forEach((listener) => listener(entry));
+      return false;
+    } catch (error: any) {
+      const offline = isNetworkError(error);
+      const attempts = entry.attempts + 1;
+      const status = error?.response?.status;
+      const isTransient =
+        offline ||
+        (status !== undefined && API_CONFIG.RETRY.RETRYABLE_STATUS_CODES.includes(status));
+
+      await this.updateEntry(entry.id, {
+        attempts,
+        lastAttemptAt: Date.now(),
+        lastError: offline ? undefined : extractErrorMessage(error),
+        // Going offline again does not count against the entry
+        status: offline || (isTransient && attempts < MAX_ATTEMPTS) ? 'pending' : 'failed',
+      });
+
+      if (!offline) {
+        console.warn(`[Outbox] Failed to deliver ${entry.type} (${entry.id}):`, error?.message);
+      }
+      return offline;
+    }
+  }
+
+  /**
+   * Move a failed entry back to pending and replay it
+   * @param id - Entry id
+   */
+  async retry(id: string): Promise<void> {
+    await this.init();
+    await this.updateEntry(id, { status: 'pending', attempts: 0, lastError: undefined });
+    await this.flush();
+  }
+
+  /**
+   * Drop an entry without sending it
+   * @param id - Entry id
+   */
+  async discard(id: string): Promise<void> {
+    await this.init();
+    await this.removeEntry(id);
+  }
+
+  /**
+   * Drop every queued entry of the signed-in user (e.g. on logout)
+   */
+  async clear(): Promise<void> {
+    this.entries = [];
+    this.loadPromise = Promise.resolve();
+    this.loadedUserId = cacheService.getUserId();
+    await cacheService.remove(STORAGE_KEYS.OUTBOX_QUEUE);
+    this.notify();
+  }
+
+  /**
+   * Current queue snapshot
+   */
+  getEntries(): OutboxEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Subscribe to queue changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to successfully replayed entries (e.g. to refetch affected data)
+   * @returns Unsubscribe function
+   */
+  onReplayed(listener: ReplayListener): () => void {
+    this.replayListeners.add(listener);
+    return () => {
+      this.replayListeners.delete(listener);
+    };
+  }
+
+  private execute<T>(
+    request: OutboxRequest,
+    idempotencyKey: string,
+    config: ApiRequestConfig
+  ): Promise<T> {
+    const requestConfig: ApiRequestConfig = {
+      ...config,
+      headers: { [IDEMPOTENCY_HEADER]: idempotencyKey },
+    };
+
+    return request.method === 'put'
+      ? apiClient.put<T>(request.url, request.data, requestConfig)
+      : apiClient.post<T>(request.url, request.data, requestConfig);
+  }
+
+  private async enqueue(
+    type: OutboxMutationType,
+    request: OutboxRequest,
+    id: string
+  ): Promise<OutboxEntry> {
+    await this.init();
+
+    const entry: OutboxEntry = {
+      id,
+      type,
+      request,
+      status: 'pending',
+      attempts: 1,
+      createdAt: Date.now(),
+      lastAttemptAt: Date.now(),
+    };
+
+    this.entries = [...this.entries, entry];
+    await this.persist();
+    console.log(`[Outbox] Queued ${type} (${id})`);
+    return entry;
+  }
+
+  private async updateEntry(id: string, changes: Partial<OutboxEntry>): Promise<void> {
+    this.entries = this.entries.map((entry) =>
+      entry.id === id ? { ...entry, ...changes } : entry
+    );
+    await this.persist();
+  }
+
+  private async removeEntry(id: string): Promise<void> {
+    this.entries = this.entries.filter((entry) => entry.id !== id);
+    await this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    // Persistent: archived with the user's data on sign-out, not purged
+    await cacheService.set(STORAGE_KEYS.OUTBOX_QUEUE, this.entries, CACHE_TTL.PERSISTENT);
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener(this.entries));
+  }
+}
+
+export const outboxService = new OutboxService();
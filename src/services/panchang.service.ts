@@ -0,0 +1,65 @@
+/**
+ * Panchang Service
+ * Daily Panchang computed on-device, and the place it is shown for
+ * No network required - works offline
+ */
+
+import { cacheService } from './cache.service';
+import { STORAGE_KEYS, CACHE_TTL } from '../constants/cacheKeys';
+import { calculatePanchang, addDays, getLocalDate } from '../astrology';
+import { BirthPlace } from '../types/kundli';
+import { Panchang } from '../types/panchang';
+
+// Shown until the user picks a place
+export const DEFAULT_PANCHANG_PLACE: BirthPlace = {
+  name: 'Chennai, Tamil Nadu',
+  latitude: 13.0827,
+  longitude: 80.2707,
+  timezone: 'Asia/Kolkata',
+};
+
+/**
+ * Panchang Service
+ */
+export const panchangService = {
+  /**
+   * Panchang of a date at a place
+   * @param date - Local date at the place (YYYY-MM-DD)
+   * @param place - Place with coordinates and time zone
+   * @returns Panchang
+   */
+  getPanchang: (date: string, place: BirthPlace): Panchang => calculatePanchang(date, place),
+
+  /**
+   * Today's date at a place - not the device's date when the place is in another time zone
+   * @param place - Place with time zone
+   * @returns string - YYYY-MM-DD
+   */
+  getToday: (place: BirthPlace): string => getLocalDate(Date.now(), place.timezone),
+
+  /**
+   * Date a number of days from another
+   * @param date - YYYY-MM-DD
+   * @param days - Days to add (negative for earlier)
+   * @returns string - YYYY-MM-DD
+   */
+  shiftDate: (date: string, days: number): string => addDays(date, days),
+
+  /**
+   * Place last chosen on the Panchang screen
+   * @returns Promise<BirthPlace> - The default place if none was chosen
+   */
+  getPlace: async (): Promise<BirthPlace> => {
+    const place = await cacheService.get<BirthPlace>(STORAGE_KEYS.PANCHANG_PLACE);
+    return place || DEFAULT_PANCHANG_PLACE;
+  },
+
+  /**
+   * Remember the place for the next visit
+   * @param place - Chosen place
+   * @returns Promise<void>
+   */
+  setPlace: async (place: BirthPlace): Promise<void> => {
+    await cacheService.set(STORAGE_KEYS.PANCHANG_PLACE, place, CACHE_TTL.PERSISTENT);
+  },
+};
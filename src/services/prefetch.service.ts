@@ -5,6 +5,7 @@
 
 import { QueryClient } from '@tanstack/react-query';
 import { cacheService } from './cache.service';
+import { queryPersister } from './queryPersister.service';
 import { userService } from './user.service';
 import { astrologerService } from './astrologer.service';
 import { contentService } from './content.service';
@@ -26,61 +27,34 @@ class DataPrefetchService {
 
   /**
    * Set the React Query client reference
+   * Also starts persisting its opted-in queries
    */
   setQueryClient(client: QueryClient): void {
     this.queryClient = client;
+    queryPersister.attach(client);
   }
 
   /**
-   * Load persisted cache and hydrate React Query
-   * Called immediately on app start for instant display
+   * Restore persisted queries into React Query
+   * Called once the signed-in user is known (the cache is namespaced per user)
    */
   async hydrateFromCache(): Promise<string[]> {
-    const hydratedKeys: string[] = [];
-
     try {
       // Initialize cache service
       await cacheService.init();
 
       if (!this.queryClient) {
         console.warn('[Prefetch] QueryClient not set');
-        return hydratedKeys;
-      }
-
-      // Load user profile from cache
-      const userProfile = await cacheService.getUserProfile();
-      if (userProfile) {
-        this.queryClient.setQueryData(QUERY_KEYS.USER_PROFILE, userProfile);
-        hydratedKeys.push('userProfile');
-      }
-
-      // Load categories from cache
-      const categories = await cacheService.getCategories();
-      if (categories) {
-        this.queryClient.setQueryData(QUERY_KEYS.CATEGORIES, categories);
-        hydratedKeys.push('categories');
-      }
-
-      // Load specializations from cache
-      const specializations = await cacheService.getSpecializations();
-      if (specializations) {
-        this.queryClient.setQueryData(QUERY_KEYS.SPECIALIZATIONS, specializations);
-        hydratedKeys.push('specializations');
-      }
-
-      // Load top astrologers from cache
-      const topAstrologers = await cacheService.getTopAstrologers();
-      if (topAstrologers) {
-        this.queryClient.setQueryData(QUERY_KEYS.TOP_ASTROLOGERS, topAstrologers);
-        hydratedKeys.push('topAstrologers');
+        return [];
       }
 
+      const hydratedKeys = await queryPersister.restore();
       console.log('[Prefetch] Hydrated from cache:', hydratedKeys);
+      return hydratedKeys;
     } catch (error) {
       console.warn('[Prefetch] Cache hydration failed:', error);
+      return [];
     }
-
-    return hydratedKeys;
   }
 
   /**
@@ -160,69 +134,40 @@ class DataPrefetchService {
 
   // Individual prefetch methods
 
-  private async prefetchUserProfile(): Promise<{ fromCache: boolean }> {
+  /**
+   * Fetch fresh data into the query cache, falling back to restored data if the API fails
+   * The query persister saves whatever lands in the cache for opted-in keys
+   */
+  private async fetchWithCacheFallback<T>(
+    queryKey: readonly unknown[],
+    fetcher: () => Promise<T>
+  ): Promise<{ fromCache: boolean }> {
     try {
-      const profile = await userService.getProfile();
-      this.queryClient?.setQueryData(QUERY_KEYS.USER_PROFILE, profile);
-      await cacheService.setUserProfile(profile);
+      const data = await fetcher();
+      this.queryClient?.setQueryData(queryKey, data);
       return { fromCache: false };
     } catch (error) {
-      // Try cache if API fails
-      const cached = await cacheService.getUserProfile();
-      if (cached) {
-        this.queryClient?.setQueryData(QUERY_KEYS.USER_PROFILE, cached);
+      if (this.queryClient?.getQueryData(queryKey) !== undefined) {
         return { fromCache: true };
       }
       throw error;
     }
   }
 
+  private async prefetchUserProfile(): Promise<{ fromCache: boolean }> {
+    return this.fetchWithCacheFallback(QUERY_KEYS.USER_PROFILE, () => userService.getProfile());
+  }
+
   private async prefetchCategories(): Promise<{ fromCache: boolean }> {
-    try {
-      const categories = await contentService.getCategories();
-      this.queryClient?.setQueryData(QUERY_KEYS.CATEGORIES, categories);
-      await cacheService.setCategories(categories);
-      return { fromCache: false };
-    } catch (error) {
-      const cached = await cacheService.getCategories();
-      if (cached) {
-        this.queryClient?.setQueryData(QUERY_KEYS.CATEGORIES, cached);
-        return { fromCache: true };
-      }
-      throw error;
-    }
+    return this.fetchWithCacheFallback(QUERY_KEYS.CATEGORIES, () => contentService.getCategories());
   }
 
   private async prefetchSpecializations(): Promise<{ fromCache: boolean }> {
-    try {
-      const specializations = await contentService.getSpecializations();
-      this.queryClient?.setQueryData(QUERY_KEYS.SPECIALIZATIONS, specializations);
-      await cacheService.setSpecializations(specializations);
-      return { fromCache: false };
-    } catch (error) {
-      const cached = await cacheService.getSpecializations();
-      if (cached) {
-        this.queryClient?.setQueryData(QUERY_KEYS.SPECIALIZATIONS, cached);
-        return { fromCache: true };
-      }
-      throw error;
-    }
+    return this.fetchWithCacheFallback(QUERY_KEYS.SPECIALIZATIONS, () => contentService.getSpecializations());
   }
 
   private async prefetchTopAstrologers(): Promise<{ fromCache: boolean }> {
-    try {
-      const astrologers = await astrologerService.getTopRatedAstrologers(10);
-      this.queryClient?.setQueryData(QUERY_KEYS.TOP_ASTROLOGERS, astrologers);
-      await cacheService.setTopAstrologers(astrologers);
-      return { fromCache: false };
-    } catch (error) {
-      const cached = await cacheService.getTopAstrologers();
-      if (cached) {
-        this.queryClient?.setQueryData(QUERY_KEYS.TOP_ASTROLOGERS, cached);
-        return { fromCache: true };
-      }
-      throw error;
-    }
+    return this.fetchWithCacheFallback(QUERY_KEYS.TOP_ASTROLOGERS, () => astrologerService.getTopRatedAstrologers(10));
   }
 
   private async prefetchLiveSessions(): Promise<{ fromCache: boolean }> {
@@ -284,6 +229,7 @@ class DataPrefetchService {
    * Clear all cached data
    */
   async clearCache(): Promise<void> {
+    await queryPersister.clear();
     await cacheService.clearAll();
     this.queryClient?.clear();
   }
@@ -0,0 +1,228 @@
+/**
+ * Query Persister Service
+ * Persists opted-in React Query data to AsyncStorage and restores it on cold start
+ *
+ * Queries opt in through PERSISTED_QUERIES (constants/cacheKeys.ts), each with
+ * its own TTL. Successful fetches and setQueryData calls are collected into one
+ * snapshot that is written through CacheService at most once per throttle window.
+ */
+
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { QueryClient, QueryKey, hashKey, partialMatchKey } from '@tanstack/react-query';
+import { cacheService } from './cache.service';
+import { PERSISTED_QUERIES, PersistedQueryConfig, STORAGE_KEYS } from '../constants/cacheKeys';
+
+const WRITE_THROTTLE = 1000; // Coalesce bursts of updates (e.g. prefetch) into one write
+
+// Outer CacheService TTL - individual entries expire on their own TTL
+const SNAPSHOT_TTL = Math.max(...PERSISTED_QUERIES.map((config) => config.ttl));
+
+export interface PersistedQuery {
+  queryKey: QueryKey;
+  data: unknown;
+  dataUpdatedAt: number;
+  ttl: number;
+}
+
+interface QueryCacheSnapshot {
+  queries: PersistedQuery[];
+}
+
+/**
+ * Persistence config for a query key (undefined if the query did not opt in)
+ */
+const getPersistConfig = (queryKey: QueryKey): PersistedQueryConfig | undefined =>
+  PERSISTED_QUERIES.find((config) => partialMatchKey(queryKey, config.queryKey));
+
+const isExpired = (entry: PersistedQuery, now: number = Date.now()): boolean =>
+  now - entry.dataUpdatedAt > entry.ttl;
+
+class QueryPersister {
+  private queryClient: QueryClient | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  // Entries outlive React Query garbage collection - they expire on TTL only
+  private entries = new Map<string, PersistedQuery>();
+  private writeTimer: ReturnType<typeof setTimeout> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+  private isRestoring = false;
+
+  /**
+   * Start persisting a QueryClient's opted-in queries
+   */
+  attach(client: QueryClient): void {
+    if (this.queryClient === client) {
+      return;
+    }
+    this.detach();
+    this.queryClient = client;
+
+    this.unsubscribe = client.getQueryCache().subscribe((event) => {
+      if (this.isRestoring || event.type !== 'updated' || event.action.type !== 'success') {
+        return;
+      }
+
+      const { queryKey, state } = event.query;
+      const config = getPersistConfig(queryKey);
+      if (!config || state.data === undefined) {
+        return;
+      }
+
+      this.entries.set(hashKey(queryKey), {
+        queryKey,
+        data: state.data,
+        dataUpdatedAt: state.dataUpdatedAt,
+        ttl: config.ttl,
+      });
+      this.scheduleWrite();
+    });
+
+    // Don't lose the last throttle window when the app is backgrounded
+    this.appStateSubscription = AppState.addEventListener(
+      'change',
+      (state: AppStateStatus) => {
+        if (state === 'background') {
+          this.flush();
+        }
+      }
+    );
+  }
+
+  /**
+   * Stop persisting (pending writes are flushed)
+   */
+  detach(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    if (this.writeTimer) {
+      this.flush();
+    }
+    this.queryClient = null;
+  }
+
+  /**
+   * Restore persisted queries into the attached QueryClient
+   * Expired entries are dropped; newer in-memory data is never overwritten
+   * @returns Promise<string[]> - Restored query keys (dot-joined, for logging)
+   */
+  async restore(): Promise<string[]> {
+    const restoredKeys: string[] = [];
+    const client = this.queryClient;
+    if (!client) {
+      console.warn('[QueryPersister] QueryClient not attached');
+      return restoredKeys;
+    }
+
+    const { data: snapshot } = await cacheService.getStale<QueryCacheSnapshot>(
+      STORAGE_KEYS.QUERY_CACHE
+    );
+    if (!snapshot?.queries) {
+      return restoredKeys;
+    }
+
+    const now = Date.now();
+    this.isRestoring = true;
+    try {
+      snapshot.queries.forEach((entry) => {
+        // Drop entries for queries that no longer opt in or have outlived their TTL
+        if (isExpired(entry, now) || !getPersistConfig(entry.queryKey)) {
+          return;
+        }
+
+        const hash = hashKey(entry.queryKey);
+        if (!this.entries.has(hash)) {
+          this.entries.set(hash, entry);
+        }
+
+        const existing = client.getQueryState(entry.queryKey);
+        if (existing && existing.dataUpdatedAt >= entry.dataUpdatedAt) {
+          return;
+        }
+
+        client.setQueryData(entry.queryKey, entry.data, { updatedAt: entry.dataUpdatedAt });
+        restoredKeys.push(entry.queryKey.join('.'));
+      });
+    } finally {
+      this.isRestoring = false;
+    }
+
+    console.log('[QueryPersister] Restored:', restoredKeys);
+    return restoredKeys;
+  }
+
+  /**
+   * Persisted queries, including ones React Query has garbage collected
+   */
+  getEntries(): PersistedQuery[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * Drop a query from storage and memory so its next use refetches
+   * @param queryKey - Exact query key
+   */
+  evict(queryKey: QueryKey): Promise<void> {
+    this.entries.delete(hashKey(queryKey));
+    this.queryClient?.removeQueries({ queryKey, exact: true });
+    return this.flush();
+  }
+
+  /**
+   * Write pending changes immediately
+   */
+  flush(): Promise<void> {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+
+    // Serialize writes so an older snapshot never lands after a newer one
+    this.writeChain = this.writeChain.then(() => this.write());
+    return this.writeChain;
+  }
+
+  /**
+   * Forget every persisted query (e.g. when the session ends)
+   */
+  async clear(): Promise<void> {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+    this.entries.clear();
+    this.writeChain = this.writeChain.then(() => cacheService.remove(STORAGE_KEYS.QUERY_CACHE));
+    await this.writeChain;
+  }
+
+  private scheduleWrite(): void {
+    if (this.writeTimer) {
+      return;
+    }
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = null;
+      this.flush();
+    }, WRITE_THROTTLE);
+  }
+
+  private async write(): Promise<void> {
+    const now = Date.now();
+    const queries: PersistedQuery[] = [];
+
+    this.entries.forEach((entry, hash) => {
+      if (isExpired(entry, now)) {
+        this.entries.delete(hash);
+      } else {
+        queries.push(entry);
+      }
+    });
+
+    const snapshot: QueryCacheSnapshot = { queries };
+    await cacheService.set(STORAGE_KEYS.QUERY_CACHE, snapshot, SNAPSHOT_TTL);
+  }
+}
+
+// Export singleton instance
+export const queryPersister = new QueryPersister();
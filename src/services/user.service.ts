@@ -4,6 +4,7 @@
  */
 
 import { apiClient } from './api.client';
+import { outboxService } from './outbox.service';
 import { API_ENDPOINTS } from '../config/api.config';
 import { UserProfile, UpdateProfileData, ApiResponse } from '../types/api.types';
 
@@ -21,14 +22,16 @@ class UserService {
 
   /**
    * Update user profile
+   * Queued in the outbox when offline (throws OutboxQueuedError)
    * @param data - Profile data to update
    * @returns Promise<UserProfile>
    */
   async updateProfile(data: UpdateProfileData): Promise<UserProfile> {
-    const response = await apiClient.put<ApiResponse<UserProfile>>(
-      API_ENDPOINTS.USER.PROFILE,
-      data
-    );
+    const response = await outboxService.send<ApiResponse<UserProfile>>('update_profile', {
+      method: 'put',
+      url: API_ENDPOINTS.USER.PROFILE,
+      data,
+    });
     return response.data!;
   }
 }
@@ -384,6 +384,12 @@ export interface VerifyOtpResponse {
   user: User;
 }
 
+export interface RefreshTokenResponse {
+  success: boolean;
+  access_token: string;
+  refresh_token?: string;
+}
+
 export interface GetMeResponse {
   success: boolean;
   user: User;
@@ -429,4 +435,8 @@ export enum ErrorCode {
   // Server Errors (500)
   SERVER_ERROR = 'SERVER_ERROR',
   DATABASE_ERROR = 'DATABASE_ERROR',
+
+  // Client-side Errors
+  INVALID_RESPONSE = 'INVALID_RESPONSE', // Response failed schema validation
+  QUEUED_OFFLINE = 'QUEUED_OFFLINE', // Mutation stored in the outbox for later replay
 }
@@ -0,0 +1,105 @@
+/**
+ * Astrology Engine Types
+ * Type definitions for the on-device Vedic calculation engine (src/astrology)
+ */
+
+// Grahas in the conventional Vedic order
+export type GrahaId =
+  | 'sun'
+  | 'moon'
+  | 'mars'
+  | 'mercury'
+  | 'jupiter'
+  | 'venus'
+  | 'saturn'
+  | 'rahu'
+  | 'ketu';
+
+// Supported sidereal zodiac offsets
+export type Ayanamsa = 'lahiri' | 'raman' | 'krishnamurti';
+
+// Shodasavarga divisional charts, by division number
+export type VargaId =
+  | 'D1'
+  | 'D2'
+  | 'D3'
+  | 'D4'
+  | 'D7'
+  | 'D9'
+  | 'D10'
+  | 'D12'
+  | 'D16'
+  | 'D20'
+  | 'D24'
+  | 'D27'
+  | 'D30'
+  | 'D40'
+  | 'D45'
+  | 'D60';
+
+export type Element = 'Fire' | 'Earth' | 'Air' | 'Water';
+export type Gana = 'Deva' | 'Manushya' | 'Rakshasa';
+export type Nadi = 'Adi' | 'Madhya' | 'Antya';
+
+export interface CalculationOptions {
+  ayanamsa?: Ayanamsa; // Default: lahiri
+}
+
+// Position of a body on the sidereal zodiac
+export interface SiderealPosition {
+  longitude: number; // 0-360, sidereal
+  signIndex: number; // 0 = Aries
+  degreeInSign: number; // 0-30
+  nakshatraIndex: number; // 0 = Ashwini
+  pada: number; // 1-4
+}
+
+export interface GrahaPosition extends SiderealPosition {
+  id: GrahaId;
+  speed: number; // Degrees per day (negative when retrograde)
+  isRetrograde: boolean;
+  house: number; // Whole-sign house from the lagna (1-12)
+}
+
+// Raw engine output - everything derived charts and dashas build on
+export interface BirthChart {
+  julianDay: number; // UT
+  ayanamsa: Ayanamsa;
+  ayanamsaValue: number; // Degrees
+  ascendant: SiderealPosition;
+  grahas: GrahaPosition[];
+}
+
+// Dasha systems supported by the on-device calculator
+export type DashaSystem = 'vimshottari' | 'yogini' | 'ashtottari';
+
+
+// Natal signs that transits are counted from
+export interface NatalReference {
+  lagnaSignIndex: number;
+  moonSignIndex: number;
+}
+
+// Position of a transiting graha against the natal chart
+export interface TransitPosition extends GrahaPosition {
+  houseFromMoon: number; // Whole-sign house from the natal Moon (1-12); `house` counts from the lagna
+}
+
+// Why an ingress matters for the native
+export type TransitNote =
+  | 'natal_moon' // Enters the natal Moon sign
+  | 'natal_lagna' // Enters the lagna sign
+  | 'sade_sati_begins' // Saturn enters the 12th from the Moon
+  | 'sade_sati_ends' // Saturn enters the 3rd from the Moon
+  | 'ashtama_shani'; // Saturn enters the 8th from the Moon
+
+// A graha entering a new sign
+export interface TransitIngress {
+  graha: GrahaId;
+  julianDay: number; // UT
+  signIndex: number; // Sign entered
+  isRetrograde: boolean; // Entered moving backwards
+  house: number; // From the lagna
+  houseFromMoon: number;
+  notes: TransitNote[];
+}
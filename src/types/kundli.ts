@@ -38,6 +38,22 @@ export interface SavedKundli {
   updatedAt: string; // ISO timestamp
 }
 
+// Sync state of a kundli between this device and the server (see kundliSyncService)
+export type KundliSyncStatus =
+  | 'synced'      // Same on this device and the server
+  | 'local_only'  // Saved on this device only - uploaded on the next sync
+  | 'conflict'    // Changed on both sides since the last sync - the newer change was kept
+  | 'error';      // Rejected by the server - see message
+
+export interface KundliSyncRecord {
+  id: string;
+  status: KundliSyncStatus;
+  syncedAt?: string;  // updatedAt both sides shared at the last sync
+  serverId?: string;  // Set when a local-only kundli was uploaded and replaced by the server copy
+  deletedAt?: string; // Deleted on this device - server delete still pending
+  message?: string;   // Explains a conflict or error
+}
+
 // Kundli input for generation
 export interface KundliInput {
   name: string;
@@ -147,6 +163,26 @@ export interface ChartData {
   }[];
 }
 
+// Shodasavarga - the sixteen divisional (varga) charts
+export interface DivisionalCharts {
+  rasiChart?: ChartData; // D1
+  horaChart?: ChartData; // D2
+  drekkanaChart?: ChartData; // D3
+  chaturthamsaChart?: ChartData; // D4
+  saptamsaChart?: ChartData; // D7
+  navamsaChart?: ChartData; // D9
+  dasamsaChart?: ChartData; // D10
+  dwadasamsaChart?: ChartData; // D12
+  shodasamsaChart?: ChartData; // D16
+  vimsamsaChart?: ChartData; // D20
+  chaturvimsamsaChart?: ChartData; // D24
+  saptavimsamsaChart?: ChartData; // D27
+  trimsamsaChart?: ChartData; // D30
+  khavedamsaChart?: ChartData; // D40
+  akshavedamsaChart?: ChartData; // D45
+  shashtiamsaChart?: ChartData; // D60
+}
+
 // Yoga information from API
 export interface YogaInfo {
   name: string;
@@ -327,13 +363,29 @@ export interface KundliReport {
     family?: string;
     education?: string;
   };
-  charts?: {
-    rasiChart?: ChartData;
-    navamsaChart?: ChartData;
-    dasamsaChart?: ChartData;
-    saptamsaChart?: ChartData;
-  };
-}
+  charts?: DivisionalCharts;
+}
+
+// One candidate scored against the anchor profile when comparing proposals
+export interface CandidateMatch {
+  candidate: SavedKundli;
+  report: MatchingReport; // Anchor and candidate on their boy/girl sides
+  nadiDosha: boolean;
+  bhakootDosha: boolean;
+}
+
+// Column a candidate comparison can be sorted by - a guna id, the total or the name
+export type CandidateSortKey =
+  | 'total'
+  | 'name'
+  | 'varna'
+  | 'vashya'
+  | 'tara'
+  | 'yoni'
+  | 'graha_maitri'
+  | 'gana'
+  | 'bhakoot'
+  | 'nadi';
 
 // Legacy types for backward compatibility
 export interface NakshatraDetails {
@@ -454,12 +506,7 @@ export interface KundliReportData {
   moonSign?: string;
   planets: EnhancedPlanetDisplayInfo[];
   yogas?: YogaInfo[];
-  charts?: {
-    rasiChart?: ChartData;
-    navamsaChart?: ChartData;
-    dasamsaChart?: ChartData;
-    saptamsaChart?: ChartData;
-  };
+  charts?: DivisionalCharts;
   mangalDosha: DoshaInfo & { type?: string; affectedHouses?: number[]; exceptions?: string[] };
   kaalSarpDosha: DoshaInfo & { type: string };
   sadeSati: EnhancedSadeSati;
@@ -486,13 +533,19 @@ export interface MatchingPerson {
   birthPlace: BirthPlace;
 }
 
+// Matching system: North Indian Ashtakoot (36 gunas) or South Indian Dasa Porutham (10 poruthams)
+export type MatchingSystem = 'ashtakoot' | 'porutham';
+
 // Saved Kundli Matching report
 export interface SavedMatching {
   id: string;
   boy: MatchingPerson;
   girl: MatchingPerson;
-  score: number;
+  score: number; // Ashtakoot score, whichever system the report is shown in
   maxScore: number;
+  system?: MatchingSystem; // Absent on matchings saved before Porutham - Ashtakoot
+  boyKundliId?: string; // Saved kundlis the details were picked from
+  girlKundliId?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -501,6 +554,9 @@ export interface SavedMatching {
 export interface MatchingInput {
   boy: MatchingPerson;
   girl: MatchingPerson;
+  system?: MatchingSystem;
+  boyKundliId?: string;
+  girlKundliId?: string;
 }
 
 // Ashtakoot Guna detail
@@ -530,6 +586,49 @@ export interface MatchingDoshaAnalysis {
   remedies?: string[];
 }
 
+// Points Mars is counted from for Mangal Dosha
+export type ManglikReference = 'lagna' | 'moon' | 'venus';
+
+// House of Mars counted from one reference point
+export interface ManglikPlacement {
+  reference: ManglikReference;
+  house: number;
+  afflicted: boolean; // 1st, 2nd, 4th, 7th, 8th or 12th
+}
+
+// Mangal Dosha of a couple as computed on-device (the server's status is free text)
+export type MangalDoshaStatus = 'none' | 'present' | 'cancelled';
+
+// Classical Mangal Dosha cancellation that fired for a match
+export interface ManglikRule {
+  id: string;
+  name: string;
+  description: string;
+  appliesTo: 'boy' | 'girl' | 'both';
+  mitigating?: boolean; // Reported only - does not cancel the dosha
+}
+
+// One of the ten Poruthams - passes or fails, no partial points
+export interface PoruthamResult {
+  id: string;
+  name: string;
+  description: string;
+  passed: boolean;
+  isDealBreaker: boolean; // Rajju and Vedhai - failing either rules the match out
+  boyAttribute: string;
+  girlAttribute: string;
+}
+
+// Dasa Porutham analysis
+export interface PoruthamAnalysis {
+  poruthams: PoruthamResult[];
+  matchedCount: number;
+  total: number;
+  dealBreakerFailed: boolean;
+  rating: MatchingVerdict['rating'];
+  summary: string;
+}
+
 // Full Matching report data (API response) - matches backend structure
 export interface MatchingReport {
   matchingId: string;
@@ -568,6 +667,9 @@ export interface MatchingReport {
       girlHasDosha: boolean;
       cancellation: string | null;
       status: string;
+      boyPlacements?: ManglikPlacement[];
+      girlPlacements?: ManglikPlacement[];
+      rules?: ManglikRule[]; // Cancellations that fired; computed on-device when the server omits them
     };
     nadiDosha: {
       present: boolean;
@@ -576,6 +678,7 @@ export interface MatchingReport {
   };
   summary: string;
   recommendations: string[];
+  porutham?: PoruthamAnalysis; // Computed on-device when the server omits it
 }
 
 // Legacy types for backward compatibility
@@ -623,4 +726,6 @@ export interface MatchingListParams {
 
 export type KundliWizardStep = 'name' | 'gender' | 'dob' | 'time' | 'location';
 
-export type ChartStyle = 'south_indian' | 'north_indian';
+export type ChartStyle = 'south_indian' | 'north_indian' | 'east_indian';
+
+export type ReportLanguage = 'en' | 'ta';
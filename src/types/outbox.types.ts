@@ -0,0 +1,37 @@
+/**
+ * Outbox Types
+ * Types for mutating requests queued while the device is offline
+ */
+
+// Mutations that may be queued and replayed later.
+// Payments and session starts are intentionally NOT listed - they must
+// only ever run while the user is watching. Kundlis are not listed either:
+// they are saved on the device and uploaded by kundliSyncService.
+export type OutboxMutationType =
+  | 'update_profile'   // userService.updateProfile
+  | 'submit_review'    // astrologerService.submitReview
+  | 'submit_feedback'; // feedbackService.submitFeedback
+
+// Entry lifecycle
+export type OutboxEntryStatus =
+  | 'pending'  // Waiting for connectivity (or a transient server error to clear)
+  | 'failed';  // Rejected by the server or out of attempts - needs user action
+
+// Request as it will be replayed
+export interface OutboxRequest {
+  method: 'post' | 'put';
+  url: string;
+  data?: any;
+}
+
+// Persisted queue entry (id doubles as the Idempotency-Key)
+export interface OutboxEntry {
+  id: string;
+  type: OutboxMutationType;
+  request: OutboxRequest;
+  status: OutboxEntryStatus;
+  attempts: number;
+  createdAt: number;
+  lastAttemptAt?: number;
+  lastError?: string;
+}
@@ -0,0 +1,52 @@
+/**
+ * Panchang Types
+ * Type definitions for the daily Panchang (src/astrology/panchang)
+ */
+
+import { BirthPlace } from './kundli';
+
+// A limb of the Panchang running at sunrise
+export interface PanchangElement {
+  name: string;
+  endsAt: string; // ISO timestamp
+  next: string; // Name of the element that follows
+}
+
+export interface PanchangTithi extends PanchangElement {
+  paksha: 'Shukla' | 'Krishna';
+}
+
+export interface PanchangNakshatra extends PanchangElement {
+  lord: string;
+  pada: number; // At sunrise
+}
+
+// Start and end of a muhurta or kalam (ISO timestamps)
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+// Tamil solar calendar date - the month starts the day the Sun enters a new sign
+export interface TamilDate {
+  monthIndex: number; // 0 = Chithirai (Sun in Aries)
+  month: string;
+  day: number;
+}
+
+export interface Panchang {
+  date: string; // YYYY-MM-DD at the place
+  place: BirthPlace;
+  weekday: number; // 0 = Sunday
+  sunrise: string; // ISO timestamp
+  sunset: string;
+  tithi: PanchangTithi;
+  nakshatra: PanchangNakshatra;
+  yoga: PanchangElement;
+  karana: PanchangElement;
+  rahuKalam: TimeWindow;
+  yamagandam: TimeWindow;
+  gulikaKalam: TimeWindow;
+  abhijitMuhurta: TimeWindow;
+  tamilDate: TamilDate;
+}
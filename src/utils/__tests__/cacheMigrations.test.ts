@@ -0,0 +1,134 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../../constants/cacheKeys';
+import { cacheService } from '../../services/cache.service';
+import { CACHE_SCHEMAS, getSchemaVersion, migrateCacheData } from '../cacheMigrations';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const person = (name: string, dateOfBirth: string) => ({
+  name,
+  dateOfBirth,
+  timeOfBirth: '10:30',
+});
+
+describe('migrateCacheData', () => {
+  it('upgrades SAVED_KUNDLIS v1 to v2 by keeping the date of an ISO dateOfBirth', () => {
+    const kundlis = [
+      { id: 'k1', ...person('Arjun', '1990-05-15T00:00:00.000Z') },
+      { id: 'k2', ...person('Meera', '1992-11-03') },
+    ];
+
+    expect(migrateCacheData(STORAGE_KEYS.SAVED_KUNDLIS, kundlis, 1)).toEqual({
+      data: [
+        { id: 'k1', ...person('Arjun', '1990-05-15') },
+        { id: 'k2', ...person('Meera', '1992-11-03') },
+      ],
+    });
+  });
+
+  it('upgrades SAVED_MATCHINGS v1 to v2 for both partners', () => {
+    const matchings = [
+      {
+        id: 'm1',
+        boy: person('Arjun', '1990-05-15T18:30:00.000Z'),
+        girl: person('Meera', '1992-11-03'),
+        totalScore: 28,
+      },
+    ];
+
+    expect(migrateCacheData(STORAGE_KEYS.SAVED_MATCHINGS, matchings, 1)).toEqual({
+      data: [
+        {
+          id: 'm1',
+          boy: person('Arjun', '1990-05-15'),
+          girl: person('Meera', '1992-11-03'),
+          totalScore: 28,
+        },
+      ],
+    });
+  });
+
+  it('leaves data at the current version untouched', () => {
+    const kundlis = [{ id: 'k1', ...person('Arjun', '1990-05-15') }];
+    const version = getSchemaVersion(STORAGE_KEYS.SAVED_KUNDLIS);
+
+    expect(migrateCacheData(STORAGE_KEYS.SAVED_KUNDLIS, kundlis, version)).toEqual({ data: kundlis });
+  });
+
+  it('refuses data written by a newer app version', () => {
+    const version = getSchemaVersion(STORAGE_KEYS.SAVED_KUNDLIS);
+
+    expect(migrateCacheData(STORAGE_KEYS.SAVED_KUNDLIS, [], version + 1)).toBeNull();
+  });
+
+  it('refuses data when a step throws', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(migrateCacheData(STORAGE_KEYS.SAVED_KUNDLIS, 'not a list', 1)).toBeNull();
+  });
+});
+
+describe('CacheService entry upgrades', () => {
+  const TEST_KEY = '@test_migrations';
+  const scoped = (key: string) => `@user:user-1/${key}`;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await cacheService.setUser('user-1');
+  });
+
+  afterEach(() => {
+    delete CACHE_SCHEMAS[TEST_KEY];
+    jest.restoreAllMocks();
+  });
+
+  const writeEnvelope = (key: string, data: unknown, version?: number) =>
+    AsyncStorage.setItem(scoped(key), JSON.stringify({ data, timestamp: Date.now(), ttl: 60 * 1000, version }));
+
+  it('upgrades an unversioned SAVED_KUNDLIS entry on read and persists it', async () => {
+    await writeEnvelope(STORAGE_KEYS.SAVED_KUNDLIS, [{ id: 'k1', ...person('Arjun', '1990-05-15T00:00:00.000Z') }]);
+
+    expect(await cacheService.get(STORAGE_KEYS.SAVED_KUNDLIS)).toEqual([
+      { id: 'k1', ...person('Arjun', '1990-05-15') },
+    ]);
+
+    const stored = JSON.parse((await AsyncStorage.getItem(scoped(STORAGE_KEYS.SAVED_KUNDLIS)))!);
+    expect(stored.version).toBe(getSchemaVersion(STORAGE_KEYS.SAVED_KUNDLIS));
+  });
+
+  it('drops an entry written by a newer app version', async () => {
+    await writeEnvelope(STORAGE_KEYS.SAVED_KUNDLIS, [], getSchemaVersion(STORAGE_KEYS.SAVED_KUNDLIS) + 1);
+
+    expect(await cacheService.get(STORAGE_KEYS.SAVED_KUNDLIS)).toBeNull();
+    expect(await AsyncStorage.getItem(scoped(STORAGE_KEYS.SAVED_KUNDLIS))).toBeNull();
+  });
+
+  it('drops an entry when a step in its upgrade path is missing', async () => {
+    // v3 can only be reached from v2 - there is no v1 -> v2 step
+    CACHE_SCHEMAS[TEST_KEY] = {
+      version: 3,
+      migrations: [{ from: 2, migrate: (data) => data }],
+    };
+    await writeEnvelope(TEST_KEY, { value: 1 }, 1);
+
+    expect(await cacheService.get(TEST_KEY)).toBeNull();
+    expect(await AsyncStorage.getItem(scoped(TEST_KEY))).toBeNull();
+  });
+
+  it('runs every registered step in order', async () => {
+    CACHE_SCHEMAS[TEST_KEY] = {
+      version: 3,
+      migrations: [
+        { from: 2, migrate: (data) => ({ ...data, steps: [...data.steps, 2] }) },
+        { from: 1, migrate: (data) => ({ ...data, steps: [...data.steps, 1] }) },
+      ],
+    };
+    await writeEnvelope(TEST_KEY, { steps: [] }, 1);
+
+    expect(await cacheService.get(TEST_KEY)).toEqual({ steps: [1, 2] });
+  });
+});
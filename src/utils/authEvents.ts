@@ -0,0 +1,74 @@
+/**
+ * Auth Events
+ * App-wide channel for "this session is no longer valid" signals
+ *
+ * Publishers: ApiClient (token refresh failed), Supabase realtime channels
+ * and the live-session socket (credentials rejected). AuthContext is the
+ * subscriber that signs the user out.
+ */
+
+import { ErrorCode } from '../types/api.types';
+
+export type AuthEventReason = ErrorCode.TOKEN_EXPIRED | ErrorCode.UNAUTHORIZED;
+export type AuthEventSource = 'api' | 'realtime' | 'socket';
+
+export interface AuthEvent {
+  reason: AuthEventReason;
+  source: AuthEventSource;
+  message?: string; // Raw error message, for logging
+}
+
+type AuthEventListener = (event: AuthEvent) => void;
+
+const listeners = new Set<AuthEventListener>();
+
+// Request errors that ended the session (the sign-out screen explains those)
+const sessionExpiredErrors = new WeakSet<object>();
+
+// Realtime/socket errors only carry a message - match the usual auth failures
+const AUTH_ERROR_PATTERN = /unauthori[sz]ed|jwt|invalid token|token expired|401/i;
+
+/**
+ * Whether an error message from a realtime transport means the credentials were rejected
+ * @param message - Error message
+ * @returns boolean
+ */
+export const isAuthErrorMessage = (message?: string): boolean =>
+  !!message && AUTH_ERROR_PATTERN.test(message);
+
+/**
+ * Record that a failed request ended the session
+ * @param error - Request error
+ */
+export const markSessionExpired = (error: object) => {
+  sessionExpiredErrors.add(error);
+};
+
+/**
+ * Whether a failed request already ended the session and published an auth event
+ * @param error - Request error
+ * @returns boolean
+ */
+export const isSessionExpiredError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && sessionExpiredErrors.has(error);
+
+export const authEvents = {
+  /**
+   * Broadcast that the session is no longer valid
+   */
+  publish(event: AuthEvent) {
+    console.warn(`[AuthEvents] ${event.reason} from ${event.source}`, event.message || '');
+    listeners.forEach((listener) => listener(event));
+  },
+
+  /**
+   * Listen for auth events
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: AuthEventListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
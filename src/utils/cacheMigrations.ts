@@ -0,0 +1,114 @@
+/**
+ * Cache Migrations
+ * Schema versions and upgrade steps for records persisted through CacheService
+ *
+ * Bump a key's version whenever the shape of its data changes and register a
+ * step that upgrades records from the previous version. Records that cannot be
+ * upgraded (no step for their version, a failing step, or written by a newer
+ * app build) are dropped instead of being handed to screens in the wrong shape.
+ */
+
+import { STORAGE_KEYS } from '../constants/cacheKeys';
+
+// Version of records written before entries carried one
+export const INITIAL_SCHEMA_VERSION = 1;
+
+export interface CacheMigration {
+  from: number; // Upgrades records of this version to from + 1
+  migrate: (data: any) => unknown;
+}
+
+interface CacheSchema {
+  version: number;
+  migrations: CacheMigration[];
+}
+
+/**
+ * v1 local fallbacks stored a full ISO timestamp in dateOfBirth - keep the date only
+ */
+const toDateOnly = (dateOfBirth: unknown): unknown =>
+  typeof dateOfBirth === 'string' && dateOfBirth.includes('T')
+    ? dateOfBirth.split('T')[0]
+    : dateOfBirth;
+
+const migrateBirthDate = <T extends { dateOfBirth?: unknown }>(person: T): T => ({
+  ...person,
+  dateOfBirth: toDateOnly(person.dateOfBirth),
+});
+
+export const CACHE_SCHEMAS: Record<string, CacheSchema> = {
+  [STORAGE_KEYS.SAVED_KUNDLIS]: {
+    version: 2,
+    migrations: [
+      {
+        from: 1,
+        migrate: (kundlis: any[]) => kundlis.map(migrateBirthDate),
+      },
+    ],
+  },
+  [STORAGE_KEYS.SAVED_MATCHINGS]: {
+    version: 2,
+    migrations: [
+      {
+        from: 1,
+        migrate: (matchings: any[]) =>
+          matchings.map((matching) => ({
+            ...matching,
+            boy: migrateBirthDate(matching.boy),
+            girl: migrateBirthDate(matching.girl),
+          })),
+      },
+    ],
+  },
+  // Refetchable API data - bump the version without a step to drop old snapshots
+  // (e.g. when Astrologer or UserProfile change shape)
+  [STORAGE_KEYS.QUERY_CACHE]: {
+    version: 1,
+    migrations: [],
+  },
+};
+
+/**
+ * Current schema version for a storage key
+ * @param key - Unscoped storage key
+ * @returns number
+ */
+export const getSchemaVersion = (key: string): number =>
+  CACHE_SCHEMAS[key]?.version ?? INITIAL_SCHEMA_VERSION;
+
+/**
+ * Upgrade persisted data to the current schema version
+ * @param key - Unscoped storage key
+ * @param data - Persisted data
+ * @param fromVersion - Version the data was written with
+ * @returns Upgraded data, or null if it cannot be upgraded
+ */
+export const migrateCacheData = (
+  key: string,
+  data: unknown,
+  fromVersion: number
+): { data: unknown } | null => {
+  const targetVersion = getSchemaVersion(key);
+  if (fromVersion > targetVersion) {
+    return null;
+  }
+
+  const migrations = CACHE_SCHEMAS[key]?.migrations ?? [];
+  let migrated = data;
+
+  for (let version = fromVersion; version < targetVersion; version++) {
+    const step = migrations.find((migration) => migration.from === version);
+    if (!step) {
+      return null;
+    }
+
+    try {
+      migrated = step.migrate(migrated);
+    } catch (error) {
+      console.warn(`[CacheMigrations] ${key} v${version} -> v${version + 1} failed:`, error);
+      return null;
+    }
+  }
+
+  return { data: migrated };
+};
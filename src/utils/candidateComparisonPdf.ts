@@ -0,0 +1,93 @@
+/**
+ * Candidate Comparison PDF
+ * Printable HTML table ranking proposals against one profile
+ *
+ * The HTML is rendered to PDF on-device by expo-print (see candidateMatchingService).
+ */
+
+import { CandidateMatch, MatchingVerdict, SavedKundli } from '../types/kundli';
+import { ASHTAKOOT_MAX_SCORE } from '../astrology';
+import { escapeHtml } from './html';
+
+const BRAND = 'NakshatraTalks';
+
+const VERDICT_LABELS: Record<MatchingVerdict['rating'], string> = {
+  excellent: 'Excellent',
+  good: 'Good',
+  average: 'Average',
+  below_average: 'Below Average',
+};
+
+const doshaCell = (present: boolean): string =>
+  present ? '<td class="bad">Yes</td>' : '<td class="good">No</td>';
+
+const STYLES = `
+  @page { size: A4 landscape; margin: 14mm 12mm; }
+  body { font-family: -apple-system, 'Helvetica Neue', Roboto, 'Noto Sans Tamil', 'Tamil Sangam MN', Arial, sans-serif; color: #1a1a1a; font-size: 10pt; margin: 0; }
+  .brand-bar { display: flex; justify-content: space-between; border-bottom: 2px solid #FFCF0D; padding-bottom: 6px; margin-bottom: 16px; }
+  .brand { color: #2930A6; font-weight: 700; }
+  .page-title { color: #595959; }
+  h1 { font-size: 16pt; margin: 0 0 4px; }
+  .subtitle { color: #595959; margin: 0 0 12px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { background: #2930A6; color: #FFFFFF; font-weight: 500; padding: 6px 4px; text-align: center; }
+  th.name { text-align: left; }
+  td { padding: 6px 4px; border-bottom: 1px solid #E0E0E0; text-align: center; }
+  td.name { text-align: left; font-weight: 600; }
+  td.total { font-weight: 700; color: #2930A6; }
+  td.good { color: #16A34A; }
+  td.bad { color: #EF4444; font-weight: 600; }
+  .footer { text-align: center; color: #8C8C8C; font-size: 9pt; margin-top: 24px; }
+`;
+
+/**
+ * Build the printable HTML for a candidate comparison
+ * @param anchor - Profile the proposals are for
+ * @param matches - Compared candidates, in the order to print
+ * @returns string - Complete HTML document
+ */
+export const buildCandidateComparisonHtml = (anchor: SavedKundli, matches: CandidateMatch[]): string => {
+  const gunas = matches[0]?.report.ashtakootGunas ?? [];
+
+  const header = `
+    <tr>
+      <th>#</th>
+      <th class="name">Candidate</th>
+      <th>Total</th>
+      ${gunas.map((guna) => `<th>${escapeHtml(guna.name)}<br />/${guna.maxPoints}</th>`).join('')}
+      <th>Nadi Dosha</th>
+      <th>Bhakoot Dosha</th>
+      <th>Verdict</th>
+    </tr>`;
+
+  const rows = matches.map((match, index) => `
+    <tr>
+      <td>${index + 1}</td>
+      <td class="name">${escapeHtml(match.candidate.name)}</td>
+      <td class="total">${match.report.totalScore}/${ASHTAKOOT_MAX_SCORE}</td>
+      ${match.report.ashtakootGunas.map((guna) => `<td>${guna.obtainedPoints}</td>`).join('')}
+      ${doshaCell(match.nadiDosha)}
+      ${doshaCell(match.bhakootDosha)}
+      <td>${VERDICT_LABELS[match.report.verdict.rating]}</td>
+    </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${escapeHtml(anchor.name)} - Candidate Comparison</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <div class="brand-bar"><span class="brand">★ ${BRAND}</span><span class="page-title">Candidate Comparison</span></div>
+  <h1>Matches for ${escapeHtml(anchor.name)}</h1>
+  <p class="subtitle">Ashtakoot Guna Milan · ${matches.length} ${matches.length === 1 ? 'candidate' : 'candidates'}</p>
+  <table>
+    ${header}
+    ${rows}
+  </table>
+  <div class="footer">Generated by ${BRAND} on ${escapeHtml(new Date().toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }))}. For guidance only - consult a qualified astrologer before deciding.</div>
+</body>
+</html>`;
+};
@@ -0,0 +1,272 @@
+/**
+ * Chart Layout
+ * Geometry and labels for South, North and East Indian charts
+ *
+ * Shared by the in-app chart (components/kundli/KundliChart) and the PDF
+ * export, which both draw into a CHART_SIZE x CHART_SIZE viewBox.
+ */
+
+import { ChartData, ChartStyle, EnhancedPlanetDisplayInfo, ReportLanguage } from '../types/kundli';
+import {
+  CHART_MARKERS,
+  ChartBodyId,
+  EXALTATION_SIGNS,
+  GRAHA_GLYPHS,
+  SIGN_SHORT_LABELS,
+  getChartBodyId,
+  getSignIndex,
+} from '../astrology';
+
+export type Point = [number, number];
+
+export interface ChartRegion {
+  points: Point[];
+  labelAt: Point; // Centre of the graha labels
+  labelWidth: number; // Usable width for graha labels
+  signAt: Point;
+  signAnchor: 'start' | 'middle';
+}
+
+export interface ChartBody {
+  id: ChartBodyId;
+  isRetrograde: boolean;
+  dignity: 'exalted' | 'debilitated' | null;
+  isTransit?: boolean; // Overlaid transit position rather than a natal one
+}
+
+
+export const CHART_SIZE = 300; // viewBox units
+export const TRANSIT_COLOR = '#D97706';
+const LABEL_WIDTH = 34;
+const LINE_HEIGHT = 11;
+
+const rect = (x: number, y: number, width: number, height: number): Point[] => [
+  [x, y],
+  [x + width, y],
+  [x + width, y + height],
+  [x, y + height],
+];
+
+const centroid = (points: Point[]): Point => [
+  points.reduce((sum, [x]) => sum + x, 0) / points.length,
+  points.reduce((sum, [, y]) => sum + y, 0) / points.length,
+];
+
+const lerp = ([x1, y1]: Point, [x2, y2]: Point, t: number): Point => [
+  x1 + (x2 - x1) * t,
+  y1 + (y2 - y1) * t,
+];
+
+const cellRegion = (x: number, y: number, size: number): ChartRegion => ({
+  points: rect(x, y, size, size),
+  labelAt: [x + size / 2, y + size / 2 + 4],
+  labelWidth: size - 8,
+  signAt: [x + 4, y + 11],
+  signAnchor: 'start',
+});
+
+const triangleRegion = (points: Point[], signCorner: Point, labelWidth: number): ChartRegion => {
+  const center = centroid(points);
+  return {
+    points,
+    labelAt: center,
+    labelWidth,
+    signAt: lerp(center, signCorner, 0.65),
+    signAnchor: 'middle',
+  };
+};
+
+// South Indian: 4x4 grid, Pisces top-left, signs run clockwise. Indexed by sign.
+const SOUTH_REGIONS: ChartRegion[] = (() => {
+  const cell = CHART_SIZE / 4;
+  const grid: Point[] = [
+    [1, 0], [2, 0], [3, 0], [3, 1], [3, 2], [3, 3],
+    [2, 3], [1, 3], [0, 3], [0, 2], [0, 1], [0, 0],
+  ];
+  return grid.map(([col, row]) => cellRegion(col * cell, row * cell, cell));
+})();
+
+// North Indian: house 1 is the top diamond, houses run counter-clockwise. Indexed by house.
+const NORTH_REGIONS: ChartRegion[] = (() => {
+  const q = CHART_SIZE / 4;
+  const TL: Point = [0, 0];
+  const TR: Point = [CHART_SIZE, 0];
+  const BR: Point = [CHART_SIZE, CHART_SIZE];
+  const BL: Point = [0, CHART_SIZE];
+  const T: Point = [CHART_SIZE / 2, 0];
+  const R: Point = [CHART_SIZE, CHART_SIZE / 2];
+  const B: Point = [CHART_SIZE / 2, CHART_SIZE];
+  const L: Point = [0, CHART_SIZE / 2];
+  const C: Point = [CHART_SIZE / 2, CHART_SIZE / 2];
+  const P1: Point = [q, q];
+  const P2: Point = [3 * q, q];
+  const P3: Point = [3 * q, 3 * q];
+  const P4: Point = [q, 3 * q];
+
+  const diamond = (points: Point[]) => triangleRegion(points, C, 110);
+  const sideTriangle = (points: Point[], inner: Point) => triangleRegion(points, inner, 45);
+  const endTriangle = (points: Point[], inner: Point) => triangleRegion(points, inner, 90);
+
+  return [
+    diamond([T, P2, C, P1]),
+    endTriangle([TL, T, P1], P1),
+    sideTriangle([TL, P1, L], P1),
+    diamond([L, P1, C, P4]),
+    sideTriangle([L, P4, BL], P4),
+    endTriangle([BL, P4, B], P4),
+    diamond([B, P4, C, P3]),
+    endTriangle([B, P3, BR], P3),
+    sideTriangle([BR, P3, R], P3),
+    diamond([R, P3, C, P2]),
+    sideTriangle([R, P2, TR], P2),
+    endTriangle([TR, P2, T], P2),
+  ];
+})();
+
+// East Indian: 3x3 grid, Aries top-middle, signs run counter-clockwise and the
+// corner cells are split diagonally between two signs. Indexed by sign.
+const EAST_REGIONS: ChartRegion[] = (() => {
+  const c = CHART_SIZE / 3;
+  const corner = (points: Point[], rightAngle: Point) => triangleRegion(points, rightAngle, 60);
+  return [
+    cellRegion(c, 0, c), // Aries
+    corner([[0, 0], [c, 0], [c, c]], [c, 0]), // Taurus
+    corner([[0, 0], [0, c], [c, c]], [0, c]), // Gemini
+    cellRegion(0, c, c), // Cancer
+    corner([[0, 2 * c], [c, 2 * c], [0, CHART_SIZE]], [0, 2 * c]), // Leo
+    corner([[c, 2 * c], [c, CHART_SIZE], [0, CHART_SIZE]], [c, CHART_SIZE]), // Virgo
+    cellRegion(c, 2 * c, c), // Libra
+    corner([[2 * c, 2 * c], [2 * c, CHART_SIZE], [CHART_SIZE, CHART_SIZE]], [2 * c, CHART_SIZE]), // Scorpio
+    corner([[2 * c, 2 * c], [CHART_SIZE, 2 * c], [CHART_SIZE, CHART_SIZE]], [CHART_SIZE, 2 * c]), // Sagittarius
+    cellRegion(2 * c, c, c), // Capricorn
+    corner([[2 * c, c], [CHART_SIZE, c], [CHART_SIZE, 0]], [CHART_SIZE, c]), // Aquarius
+    corner([[2 * c, 0], [CHART_SIZE, 0], [2 * c, c]], [2 * c, 0]), // Pisces
+  ];
+})();
+
+const getDignity = (id: ChartBodyId, signIndex: number): ChartBody['dignity'] => {
+  if (id === 'lagna' || signIndex < 0) return null;
+  const exaltation = EXALTATION_SIGNS[id];
+  if (signIndex === exaltation) return 'exalted';
+  if (signIndex === (exaltation + 6) % 12) return 'debilitated';
+  return null;
+};
+
+export const getBodyColor = (body: ChartBody): string => {
+  if (body.isTransit) return TRANSIT_COLOR;
+  if (body.id === 'lagna') return '#2930A6';
+  if (body.dignity === 'exalted') return '#16A34A';
+  if (body.dignity === 'debilitated') return '#EF4444';
+  return '#1a1a1a';
+};
+
+export interface ChartCell {
+  region: ChartRegion;
+  house?: ChartData['houses'][number];
+  signIndex: number; // -1 if unknown
+}
+
+export interface PlacedLabel {
+  body: ChartBody;
+  x: number;
+  y: number;
+}
+
+/**
+ * Pair every region of a chart style with the house it holds
+ * South and East Indian regions are fixed signs; North Indian regions are fixed houses.
+ */
+export const getChartCells = (houses: ChartData['houses'], chartStyle: ChartStyle): ChartCell[] => {
+  if (chartStyle === 'north_indian') {
+    return NORTH_REGIONS.map((region, index) => {
+      const house = houses.find((candidate) => candidate.number === index + 1);
+      return { region, house, signIndex: house ? getSignIndex(house.sign) : -1 };
+    });
+  }
+  const regions = chartStyle === 'east_indian' ? EAST_REGIONS : SOUTH_REGIONS;
+  return regions.map((region, signIndex) => ({
+    region,
+    house: houses.find((candidate) => getSignIndex(candidate.sign) === signIndex),
+    signIndex,
+  }));
+};
+
+/**
+ * Sign label drawn in a region: short names in South Indian charts, sign numbers otherwise
+ */
+export const getSignLabel = (chartStyle: ChartStyle, signIndex: number, language: ReportLanguage): string =>
+  chartStyle === 'south_indian' ? SIGN_SHORT_LABELS[language][signIndex] : String(signIndex + 1);
+
+/**
+ * Grahas of each house with their markers, keyed by house number
+ * The lagna is added to house 1 when the houses don't list it, except for transits.
+ * @param houses - Chart houses
+ * @param planets - Planet details (source of retrograde flags)
+ * @param options - transit: the houses hold transit positions over a natal chart
+ */
+export const getChartBodies = (
+  houses: ChartData['houses'],
+  planets: Pick<EnhancedPlanetDisplayInfo, 'name' | 'isRetrograde'>[],
+  options: { transit?: boolean } = {}
+): Map<number, ChartBody[]> => {
+  const retrograde = new Set(
+    planets
+      .filter((planet) => planet.isRetrograde)
+      .map((planet) => getChartBodyId(planet.name))
+  );
+
+  const result = new Map<number, ChartBody[]>();
+  houses.forEach((house) => {
+    const signIndex = getSignIndex(house.sign);
+    const ids = house.planets
+      .map(getChartBodyId)
+      .filter((id): id is ChartBodyId => id !== null);
+    if (house.number === 1 && !ids.includes('lagna') && !options.transit) {
+      ids.unshift('lagna');
+    }
+    result.set(
+      house.number,
+      ids.map((id) => ({
+        id,
+        // Rahu and Ketu are always retrograde, so charts don't mark them
+        isRetrograde: id !== 'rahu' && id !== 'ketu' && retrograde.has(id),
+        dignity: getDignity(id, signIndex),
+        isTransit: !!options.transit,
+      }))
+    );
+  });
+  return result;
+};
+
+/**
+ * Glyph with retrograde and dignity markers, e.g. "Ju(R)↑"
+ */
+export const formatGlyph = (body: ChartBody, language: ReportLanguage): string => {
+  const markers = CHART_MARKERS[language];
+  let label = GRAHA_GLYPHS[language][body.id];
+  if (body.isRetrograde) label += markers.retrograde;
+  if (body.dignity) label += markers[body.dignity];
+  return label;
+};
+
+/**
+ * Positions of a region's graha labels, in centred rows
+ */
+export const layoutLabels = (region: ChartRegion, bodies: ChartBody[]): PlacedLabel[] => {
+  const perRow = Math.max(1, Math.floor(region.labelWidth / LABEL_WIDTH));
+  const rowCount = Math.ceil(bodies.length / perRow);
+
+  return bodies.map((body, index) => {
+    const row = Math.floor(index / perRow);
+    const column = index % perRow;
+    const rowLength = Math.min(perRow, bodies.length - row * perRow);
+    return {
+      body,
+      x: region.labelAt[0] + (column - (rowLength - 1) / 2) * LABEL_WIDTH,
+      y: region.labelAt[1] + (row - (rowCount - 1) / 2) * LINE_HEIGHT + 3,
+    };
+  });
+};
+
+export const toSvgPoints = (points: Point[]): string =>
+  points.map((point) => point.join(',')).join(' ');
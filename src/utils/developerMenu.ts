@@ -0,0 +1,51 @@
+/**
+ * Developer Menu Utility
+ * Hidden debug-build menu for switching the backend environment
+ */
+
+import { DevSettings } from 'react-native';
+import NotificationService from './notificationService';
+import {
+  AVAILABLE_ENVIRONMENTS,
+  BUILD_ENVIRONMENT,
+  Environment,
+  getCurrentEnvironment,
+  setEnvironmentOverride,
+} from '../config/environment';
+
+/**
+ * Persist the chosen environment and reload the JS bundle so every client
+ * (API, Supabase, sockets) starts fresh against it
+ *
+ * @param env - Environment to switch to
+ */
+const switchEnvironment = async (env: Environment) => {
+  try {
+    await setEnvironmentOverride(env);
+    DevSettings.reload();
+  } catch (error) {
+    console.error('[DeveloperMenu] Failed to switch environment:', error);
+    NotificationService.error('Could not switch environment.');
+  }
+};
+
+/**
+ * Show the environment picker
+ * No-op outside debug builds
+ */
+export const showEnvironmentMenu = () => {
+  if (!__DEV__) {
+    return;
+  }
+
+  const current = getCurrentEnvironment();
+
+  NotificationService.actionSheet({
+    title: 'Backend Environment',
+    message: `Current: ${current} (build default: ${BUILD_ENVIRONMENT})`,
+    options: AVAILABLE_ENVIRONMENTS.filter((env) => env !== current).map((env) => ({
+      text: env === BUILD_ENVIRONMENT ? `${env} (build default)` : env,
+      onPress: () => switchEnvironment(env),
+    })),
+  });
+};
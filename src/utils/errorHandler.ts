@@ -6,6 +6,8 @@
 import { AxiosError } from 'axios';
 import { ApiError, ErrorCode } from '../types/api.types';
 import NotificationService from './notificationService';
+import { SchemaValidationError } from './schema';
+import { isSessionExpiredError } from './authEvents';
 
 export interface ErrorHandlerOptions {
   showAlert?: boolean;
@@ -36,6 +38,33 @@ export const handleApiError = (
   let errorCode = 'UNKNOWN_ERROR';
   let statusCode = 500;
 
+  if (error?.code === ErrorCode.QUEUED_OFFLINE) {
+    // Not a failure - the outbox will replay the request once back online
+    if (showAlert) {
+      NotificationService.info(getErrorMessage(error.code), 'Saved for Later');
+    }
+    return {
+      code: error.code,
+      message: getErrorMessage(error.code),
+    };
+  }
+
+  if (error instanceof SchemaValidationError) {
+    // Request succeeded but the payload did not match its schema
+    console.error('[ErrorHandler] Invalid response:', error.message);
+    if (showAlert) {
+      NotificationService.error(
+        customMessage || getErrorMessage(error.code),
+        'Unexpected Response'
+      );
+    }
+    return {
+      code: error.code,
+      message: customMessage || getErrorMessage(error.code),
+      details: error.details,
+    };
+  }
+
   if (error.response) {
     // Server responded with error
     const { status, data } = error.response;
@@ -64,12 +93,13 @@ export const handleApiError = (
         break;
 
       case 401:
-        // Token expired or invalid
         if (onUnauthorized) {
           onUnauthorized();
         }
-        if (showAlert) {
-          NotificationService.error('Please sign in again.', 'Session Expired');
+        // An expired session is broadcast via authEvents and SignIn explains it;
+        // other 401s (e.g. a rejected OTP) never sign out, so tell the user here
+        if (showAlert && !isSessionExpiredError(error)) {
+          NotificationService.error(errorMessage, 'Not Authorized');
         }
         break;
 
@@ -95,8 +125,15 @@ export const handleApiError = (
         break;
 
       case 429:
+        // Requests were already retried per Retry-After before reaching here
         if (showAlert) {
-          NotificationService.warning('Please try again later.', 'Too Many Requests');
+          const isKnownCode =
+            errorCode === ErrorCode.RATE_LIMIT_EXCEEDED ||
+            errorCode === ErrorCode.TOO_MANY_OTP_REQUESTS;
+          NotificationService.warning(
+            isKnownCode ? getErrorMessage(errorCode) : 'Please try again later.',
+            'Too Many Requests'
+          );
         }
         break;
 
@@ -179,6 +216,10 @@ export const getErrorMessage = (code: string): string => {
     // Server Errors
     [ErrorCode.SERVER_ERROR]: 'Server error. Please try again later.',
     [ErrorCode.DATABASE_ERROR]: 'Database error. Please try again later.',
+
+    // Client-side Errors
+    [ErrorCode.INVALID_RESPONSE]: 'We received an unexpected response. Please try again later.',
+    [ErrorCode.QUEUED_OFFLINE]: "You're offline. We'll send this as soon as you're back online.",
   };
 
   return errorMessages[code] || 'An unexpected error occurred.';
@@ -0,0 +1,16 @@
+/**
+ * HTML Utilities
+ * Helpers for the HTML documents rendered to PDF by expo-print
+ */
+
+/**
+ * Escape a value for use in HTML text and attribute values
+ * @param value - Any value (null and undefined become an empty string)
+ * @returns string
+ */
+export const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
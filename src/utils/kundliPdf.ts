@@ -0,0 +1,472 @@
+/**
+ * Kundli PDF
+ * Printable multi-page HTML booklet for a KundliReport
+ *
+ * The HTML is rendered to PDF on-device by expo-print (see kundliExportService).
+ * Charts are drawn as inline SVG from the same layout as the in-app charts.
+ */
+
+import {
+  ChartData,
+  ChartStyle,
+  DashaPeriod,
+  DivisionalCharts,
+  KundliReport,
+  ReportLanguage,
+  SavedKundli,
+} from '../types/kundli';
+import {
+  CHART_MARKERS,
+  CHART_TEXT,
+  VARGAS,
+  calculateBirthChart,
+  calculateDivisionalCharts,
+  calculateMahadashas,
+  getSignIndex,
+  isPeriodRunning,
+  localizeName,
+  mergeDivisionalCharts,
+  toChartHouses,
+} from '../astrology';
+import {
+  CHART_SIZE,
+  formatGlyph,
+  getBodyColor,
+  getChartBodies,
+  getChartCells,
+  getSignLabel,
+  layoutLabels,
+  toSvgPoints,
+} from './chartLayout';
+import { escapeHtml } from './html';
+
+export interface KundliPdfOptions {
+  language: ReportLanguage;
+  chartStyle?: ChartStyle; // Default: south_indian
+}
+
+const BRAND = 'NakshatraTalks';
+
+// Charts printed in the booklet, in order
+const PDF_VARGAS = ['D1', 'D9', 'D10', 'D7'];
+
+const PDF_TEXT: Record<ReportLanguage, Record<string, string>> = {
+  en: {
+    title: 'Horoscope',
+    birthDetails: 'Birth Details',
+    name: 'Name',
+    dateOfBirth: 'Date of Birth',
+    timeOfBirth: 'Time of Birth',
+    placeOfBirth: 'Place of Birth',
+    astroDetails: 'Astrological Details',
+    nakshatra: 'Nakshatra',
+    pada: 'Pada',
+    rasi: 'Rasi',
+    lagna: 'Lagna',
+    tithi: 'Tithi',
+    yoga: 'Yoga',
+    karana: 'Karana',
+    charts: 'Charts',
+    planets: 'Planetary Positions',
+    planet: 'Planet',
+    sign: 'Sign',
+    degree: 'Degree',
+    house: 'House',
+    yogas: 'Yogas',
+    doshas: 'Doshas',
+    mangalDosha: 'Mangal Dosha',
+    kaalSarpDosha: 'Kaal Sarp Dosha',
+    sadeSati: 'Sade Sati',
+    present: 'Present',
+    absent: 'Absent',
+    active: 'Active',
+    inactive: 'Not active',
+    dasha: 'Vimshottari Dasha',
+    mahadasha: 'Mahadasha',
+    antardasha: 'Antardasha',
+    pratyantardasha: 'Pratyantardasha',
+    period: 'Period',
+    remedies: 'Remedies',
+    gemstone: 'Gemstone',
+    luckyColors: 'Lucky Colours',
+    luckyNumbers: 'Lucky Numbers',
+    luckyDays: 'Lucky Days',
+    mantras: 'Mantras',
+    predictions: 'Predictions',
+    general: 'General',
+    career: 'Career',
+    love: 'Love',
+    health: 'Health',
+    finance: 'Finance',
+    family: 'Family',
+    education: 'Education',
+    generatedOn: 'Generated on',
+  },
+  ta: {
+    title: 'ஜாதகம்',
+    birthDetails: 'பிறப்பு விவரங்கள்',
+    name: 'பெயர்',
+    dateOfBirth: 'பிறந்த தேதி',
+    timeOfBirth: 'பிறந்த நேரம்',
+    placeOfBirth: 'பிறந்த இடம்',
+    astroDetails: 'ஜோதிட விவரங்கள்',
+    nakshatra: 'நட்சத்திரம்',
+    pada: 'பாதம்',
+    rasi: 'ராசி',
+    lagna: 'லக்னம்',
+    tithi: 'திதி',
+    yoga: 'யோகம்',
+    karana: 'கரணம்',
+    charts: 'கட்டங்கள்',
+    planets: 'கிரக நிலைகள்',
+    planet: 'கிரகம்',
+    sign: 'ராசி',
+    degree: 'பாகை',
+    house: 'பாவம்',
+    yogas: 'யோகங்கள்',
+    doshas: 'தோஷங்கள்',
+    mangalDosha: 'செவ்வாய் தோஷம்',
+    kaalSarpDosha: 'கால சர்ப்ப தோஷம்',
+    sadeSati: 'ஏழரை சனி',
+    present: 'உள்ளது',
+    absent: 'இல்லை',
+    active: 'நடப்பில் உள்ளது',
+    inactive: 'நடப்பில் இல்லை',
+    dasha: 'விம்சோத்தரி தசை',
+    mahadasha: 'மகா தசை',
+    antardasha: 'புக்தி',
+    pratyantardasha: 'அந்தரம்',
+    period: 'காலம்',
+    remedies: 'பரிகாரங்கள்',
+    gemstone: 'ரத்தினம்',
+    luckyColors: 'அதிர்ஷ்ட நிறங்கள்',
+    luckyNumbers: 'அதிர்ஷ்ட எண்கள்',
+    luckyDays: 'அதிர்ஷ்ட நாட்கள்',
+    mantras: 'மந்திரங்கள்',
+    predictions: 'பலன்கள்',
+    general: 'பொது',
+    career: 'தொழில்',
+    love: 'காதல்',
+    health: 'ஆரோக்கியம்',
+    finance: 'நிதி',
+    family: 'குடும்பம்',
+    education: 'கல்வி',
+    generatedOn: 'உருவாக்கிய தேதி',
+  },
+};
+
+const formatDate = (iso: string | null | undefined, language: ReportLanguage): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return iso;
+  return date.toLocaleDateString(language === 'ta' ? 'ta-IN' : 'en-IN', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  });
+};
+
+const row = (label: string, value: unknown): string =>
+  value === undefined || value === null || value === ''
+    ? ''
+    : `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`;
+
+const page = (title: string, body: string): string => `
+  <section class="page">
+    <div class="brand-bar"><span class="brand">★ ${BRAND}</span><span class="page-title">${escapeHtml(title)}</span></div>
+    ${body}
+  </section>`;
+
+/**
+ * Inline SVG markup for one chart
+ */
+export const renderChartSvg = (
+  houses: ChartData['houses'],
+  chartStyle: ChartStyle,
+  planets: KundliReport['planets'],
+  language: ReportLanguage
+): string => {
+  const bodies = getChartBodies(houses, planets);
+  const cells = getChartCells(houses, chartStyle).map(({ region, house, signIndex }) => {
+    const fill = house?.number === 1 ? '#FFF8E1' : '#FFFFFF';
+    const sign = signIndex >= 0
+      ? `<text x="${region.signAt[0]}" y="${region.signAt[1]}" font-size="7.5" fill="#8C8C8C" text-anchor="${region.signAnchor}">${escapeHtml(getSignLabel(chartStyle, signIndex, language))}</text>`
+      : '';
+    const labels = house
+      ? layoutLabels(region, bodies.get(house.number) || [])
+        .map(({ body, x, y }) =>
+          `<text x="${x}" y="${y}" font-size="9" font-weight="600" fill="${getBodyColor(body)}" text-anchor="middle">${escapeHtml(formatGlyph(body, language))}</text>`
+        )
+        .join('')
+      : '';
+    return `<polygon points="${toSvgPoints(region.points)}" fill="${fill}" stroke="#2930A6" stroke-width="1"/>${sign}${labels}`;
+  });
+
+  return `<svg viewBox="0 0 ${CHART_SIZE} ${CHART_SIZE}" xmlns="http://www.w3.org/2000/svg">${cells.join('')}</svg>`;
+};
+
+// Report charts, filled in from the birth details where the report lacks them
+const getPdfCharts = (kundli: SavedKundli, report: KundliReport): DivisionalCharts => {
+  let charts: DivisionalCharts = report.charts || {};
+  try {
+    charts = mergeDivisionalCharts(report.charts, calculateDivisionalCharts(calculateBirthChart(kundli)));
+  } catch (error) {
+    console.warn('[KundliPdf] Local chart calculation failed:', error);
+  }
+
+  if (!charts.rasiChart?.houses.length) {
+    const lagnaSignIndex = getSignIndex(report.basicInfo.lagna.name);
+    if (lagnaSignIndex >= 0) {
+      charts = {
+        ...charts,
+        rasiChart: {
+          chartType: 'D1',
+          chartName: 'Rasi',
+          svgUrl: '',
+          svgUrlNorth: '',
+          houses: toChartHouses(
+            lagnaSignIndex,
+            report.planets.map((planet) => ({ name: planet.name, signIndex: getSignIndex(planet.sign) }))
+          ),
+        },
+      };
+    }
+  }
+  return charts;
+};
+
+// Server timeline, or the on-device Vimshottari mahadashas when it is empty
+const getPdfTimeline = (kundli: SavedKundli, report: KundliReport): (DashaPeriod & { isCurrent?: boolean })[] => {
+  if (report.dasha.timeline.length > 0) {
+    return report.dasha.timeline;
+  }
+  try {
+    return calculateMahadashas(calculateBirthChart(kundli), 'vimshottari').map((period) => ({
+      ...period,
+      isCurrent: isPeriodRunning(period),
+    }));
+  } catch {
+    return [];
+  }
+};
+
+const renderCoverPage = (kundli: SavedKundli, report: KundliReport, language: ReportLanguage): string => {
+  const t = PDF_TEXT[language];
+  const { basicInfo } = report;
+  return page(t.title, `
+    <div class="cover">
+      <div class="cover-brand">★ ${BRAND}</div>
+      <h1>${escapeHtml(kundli.name)}</h1>
+      <div class="cover-subtitle">${escapeHtml(t.title)}</div>
+    </div>
+    <h2>${escapeHtml(t.birthDetails)}</h2>
+    <table class="details">
+      ${row(t.name, kundli.name)}
+      ${row(t.dateOfBirth, formatDate(kundli.dateOfBirth, language))}
+      ${row(t.timeOfBirth, kundli.timeOfBirth)}
+      ${row(t.placeOfBirth, kundli.birthPlace.name)}
+    </table>
+    <h2>${escapeHtml(t.astroDetails)}</h2>
+    <table class="details">
+      ${row(t.nakshatra, `${localizeName(basicInfo.nakshatra.name, language)} (${t.pada} ${basicInfo.nakshatra.pada})`)}
+      ${row(t.rasi, localizeName(basicInfo.rasi.name, language))}
+      ${row(t.lagna, localizeName(basicInfo.lagna.name, language))}
+      ${row(t.tithi, basicInfo.tithi ? [basicInfo.tithi.paksha, basicInfo.tithi.name].filter(Boolean).join(' ') : '')}
+      ${row(t.yoga, basicInfo.yoga?.name)}
+      ${row(t.karana, basicInfo.karana?.name)}
+    </table>`);
+};
+
+const renderChartsPage = (
+  charts: DivisionalCharts,
+  report: KundliReport,
+  options: Required<KundliPdfOptions>
+): string => {
+  const t = PDF_TEXT[options.language];
+  const markers = CHART_MARKERS[options.language];
+  const chartText = CHART_TEXT[options.language];
+
+  const figures = VARGAS
+    .filter((varga) => PDF_VARGAS.includes(varga.id) && charts[varga.chartKey]?.houses.length)
+    .map((varga) => `
+      <figure class="chart">
+        ${renderChartSvg(charts[varga.chartKey]!.houses, options.chartStyle, report.planets, options.language)}
+        <figcaption>${escapeHtml(varga.name)} (${varga.id})</figcaption>
+      </figure>`)
+    .join('');
+
+  return page(t.charts, `
+    <div class="charts">${figures}</div>
+    <p class="legend">${escapeHtml(markers.retrograde)} ${escapeHtml(chartText.retrograde)} &nbsp; ${markers.exalted} ${escapeHtml(chartText.exalted)} &nbsp; ${markers.debilitated} ${escapeHtml(chartText.debilitated)}</p>`);
+};
+
+const renderPlanetsPage = (report: KundliReport, language: ReportLanguage): string => {
+  const t = PDF_TEXT[language];
+  const chartText = CHART_TEXT[language];
+
+  const planetRows = report.planets.map((planet) => {
+    const status = [
+      planet.isRetrograde ? chartText.retrograde : null,
+      planet.isExalted ? chartText.exalted : null,
+      planet.isDebilitated ? chartText.debilitated : null,
+    ].filter(Boolean).join(', ');
+    return `<tr>
+      <td>${escapeHtml(localizeName(planet.name, language))}</td>
+      <td>${escapeHtml(localizeName(planet.sign, language))}</td>
+      <td>${escapeHtml(planet.degreeFormatted || `${planet.degree}°`)}</td>
+      <td>${planet.house}</td>
+      <td>${escapeHtml(localizeName(planet.nakshatra, language))}${planet.nakshatraPada ? ` (${planet.nakshatraPada})` : ''}</td>
+      <td>${escapeHtml(status)}</td>
+    </tr>`;
+  }).join('');
+
+  const yogas = (report.yogas || []).map((yoga) => `
+    <div class="card">
+      <h3>${escapeHtml(yoga.name)}</h3>
+      <p>${escapeHtml(yoga.description)}</p>
+    </div>`).join('');
+
+  return page(t.planets, `
+    <table class="grid">
+      <thead><tr><th>${t.planet}</th><th>${t.sign}</th><th>${t.degree}</th><th>${t.house}</th><th>${t.nakshatra}</th><th></th></tr></thead>
+      <tbody>${planetRows}</tbody>
+    </table>
+    ${yogas ? `<h2>${escapeHtml(t.yogas)}</h2>${yogas}` : ''}`);
+};
+
+const renderDoshaDashaPage = (
+  kundli: SavedKundli,
+  report: KundliReport,
+  language: ReportLanguage
+): string => {
+  const t = PDF_TEXT[language];
+  const { mangalDosha, kaalSarpDosha, sadeSati } = report.doshas;
+  const { current } = report.dasha;
+
+  const dosha = (title: string, hasDosha: boolean, yes: string, no: string, description?: string, remedies: string[] = []) => `
+    <div class="card">
+      <h3>${escapeHtml(title)} <span class="${hasDosha ? 'badge-bad' : 'badge-good'}">${escapeHtml(hasDosha ? yes : no)}</span></h3>
+      ${description ? `<p>${escapeHtml(description)}</p>` : ''}
+      ${hasDosha && remedies.length ? `<ul>${remedies.map((remedy) => `<li>${escapeHtml(remedy)}</li>`).join('')}</ul>` : ''}
+    </div>`;
+
+  const timeline = getPdfTimeline(kundli, report).map((period) => `
+    <tr class="${period.isCurrent ? 'current' : ''}">
+      <td>${escapeHtml(localizeName(period.planet, language))}</td>
+      <td>${formatDate(period.startDate, language)} - ${formatDate(period.endDate, language)}</td>
+    </tr>`).join('');
+
+  return page(`${t.doshas} · ${t.dasha}`, `
+    <h2>${escapeHtml(t.doshas)}</h2>
+    ${dosha(t.mangalDosha, mangalDosha.hasDosha, t.present, t.absent, mangalDosha.description, mangalDosha.remedies)}
+    ${dosha(t.kaalSarpDosha, kaalSarpDosha.hasDosha, t.present, t.absent, kaalSarpDosha.description, kaalSarpDosha.remedies)}
+    ${dosha(t.sadeSati, sadeSati.isActive, t.active, t.inactive, sadeSati.description)}
+    <h2>${escapeHtml(t.dasha)}</h2>
+    <table class="details">
+      ${row(t.mahadasha, `${localizeName(current.mahadasha.planet, language)} (${formatDate(current.mahadasha.endDate, language)})`)}
+      ${row(t.antardasha, `${localizeName(current.antardasha.planet, language)} (${formatDate(current.antardasha.endDate, language)})`)}
+      ${current.pratyantardasha ? row(t.pratyantardasha, `${localizeName(current.pratyantardasha.planet, language)} (${formatDate(current.pratyantardasha.endDate, language)})`) : ''}
+    </table>
+    <table class="grid">
+      <thead><tr><th>${t.mahadasha}</th><th>${t.period}</th></tr></thead>
+      <tbody>${timeline}</tbody>
+    </table>`);
+};
+
+const renderRemediesPage = (report: KundliReport, language: ReportLanguage): string => {
+  const t = PDF_TEXT[language];
+  const { remedies, predictions } = report;
+  const gemstone = [remedies.gemstone.name, remedies.gemstone.finger, remedies.gemstone.metal]
+    .filter(Boolean)
+    .join(' · ');
+  const mantras = remedies.mantras
+    .map((mantra) => `<li>${escapeHtml(typeof mantra === 'string' ? mantra : mantra.mantra)}</li>`)
+    .join('');
+  const predictionKeys = ['general', 'career', 'love', 'health', 'finance', 'family', 'education'] as const;
+  const predictionBlocks = predictionKeys
+    .filter((key) => predictions[key])
+    .map((key) => `<div class="card"><h3>${escapeHtml(t[key])}</h3><p>${escapeHtml(predictions[key])}</p></div>`)
+    .join('');
+
+  return page(`${t.remedies} · ${t.predictions}`, `
+    <h2>${escapeHtml(t.remedies)}</h2>
+    <table class="details">
+      ${row(t.gemstone, gemstone)}
+      ${row(t.luckyColors, remedies.luckyColors.join(', '))}
+      ${row(t.luckyNumbers, remedies.luckyNumbers.join(', '))}
+      ${row(t.luckyDays, remedies.luckyDays.join(', '))}
+    </table>
+    ${mantras ? `<h3>${escapeHtml(t.mantras)}</h3><ul>${mantras}</ul>` : ''}
+    <h2>${escapeHtml(t.predictions)}</h2>
+    ${predictionBlocks}
+    <p class="footer">${escapeHtml(t.generatedOn)} ${formatDate(new Date().toISOString(), language)} · ${BRAND}</p>`);
+};
+
+const STYLES = `
+  @page { size: A4; margin: 16mm 14mm; }
+  body { font-family: -apple-system, 'Helvetica Neue', Roboto, 'Noto Sans Tamil', 'Tamil Sangam MN', Arial, sans-serif; color: #1a1a1a; font-size: 11pt; margin: 0; }
+  .page { page-break-after: always; }
+  .page:last-child { page-break-after: auto; }
+  .brand-bar { display: flex; justify-content: space-between; border-bottom: 2px solid #FFCF0D; padding-bottom: 6px; margin-bottom: 16px; }
+  .brand { color: #2930A6; font-weight: 700; }
+  .page-title { color: #595959; }
+  .cover { text-align: center; background: linear-gradient(135deg, #1a1a2e, #0f3460); color: #FFFFFF; border-radius: 12px; padding: 40px 16px; margin-bottom: 24px; }
+  .cover-brand { color: #FFCF0D; font-weight: 700; letter-spacing: 1px; }
+  .cover h1 { margin: 16px 0 4px; font-size: 26pt; }
+  .cover-subtitle { color: rgba(255, 255, 255, 0.8); }
+  h2 { color: #2930A6; font-size: 14pt; margin: 20px 0 8px; }
+  h3 { font-size: 12pt; margin: 0 0 4px; }
+  table { width: 100%; border-collapse: collapse; }
+  table.details th { text-align: left; color: #595959; font-weight: 500; width: 40%; padding: 6px 0; border-bottom: 1px solid #F0F0F0; }
+  table.details td { padding: 6px 0; border-bottom: 1px solid #F0F0F0; }
+  table.grid { margin-top: 8px; }
+  table.grid th { background: #2930A6; color: #FFFFFF; text-align: left; padding: 6px; font-weight: 500; }
+  table.grid td { padding: 6px; border-bottom: 1px solid #E0E0E0; }
+  table.grid tr.current td { background: rgba(41, 48, 166, 0.08); font-weight: 600; }
+  .charts { display: flex; flex-wrap: wrap; justify-content: space-between; }
+  .chart { width: 48%; margin: 0 0 16px; page-break-inside: avoid; }
+  .chart svg { width: 100%; height: auto; }
+  figcaption { text-align: center; color: #2930A6; font-weight: 600; margin-top: 4px; }
+  .legend { text-align: center; color: #595959; font-size: 9pt; }
+  .card { background: rgba(41, 48, 166, 0.05); border-radius: 8px; padding: 10px 12px; margin-bottom: 10px; page-break-inside: avoid; }
+  .card p { margin: 4px 0 0; color: #595959; line-height: 1.45; }
+  .badge-good, .badge-bad { font-size: 9pt; font-weight: 500; border-radius: 10px; padding: 2px 8px; margin-left: 6px; }
+  .badge-good { background: #DCFCE7; color: #16A34A; }
+  .badge-bad { background: #FEE2E2; color: #EF4444; }
+  ul { margin: 4px 0 0; padding-left: 18px; }
+  .footer { text-align: center; color: #8C8C8C; font-size: 9pt; margin-top: 24px; }
+`;
+
+/**
+ * Build the printable HTML for a kundli report
+ * @param kundli - Saved kundli (birth details)
+ * @param report - Full report, in the requested language
+ * @param options - Booklet language and chart style
+ * @returns string - Complete HTML document
+ */
+export const buildKundliReportHtml = (
+  kundli: SavedKundli,
+  report: KundliReport,
+  options: KundliPdfOptions
+): string => {
+  const resolved: Required<KundliPdfOptions> = { chartStyle: 'south_indian', ...options };
+  const { language } = resolved;
+  const charts = getPdfCharts(kundli, report);
+
+  return `<!DOCTYPE html>
+<html lang="${language}">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${escapeHtml(kundli.name)} - ${escapeHtml(PDF_TEXT[language].title)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  ${renderCoverPage(kundli, report, language)}
+  ${renderChartsPage(charts, report, resolved)}
+  ${renderPlanetsPage(report, language)}
+  ${renderDoshaDashaPage(kundli, report, language)}
+  ${renderRemediesPage(report, language)}
+</body>
+</html>`;
+};
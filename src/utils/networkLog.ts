@@ -0,0 +1,66 @@
+/**
+ * Network Log
+ * Ring buffer of recent ApiClient requests for the developer tools screen
+ *
+ * Every attempt is recorded separately, so a retried request shows up once per
+ * try. Nothing is recorded outside debug builds.
+ */
+
+const MAX_ENTRIES = 100;
+
+export interface NetworkLogEntry {
+  id: number;
+  method: string;
+  url: string;
+  status?: number; // Absent when no response arrived (offline, timeout)
+  duration: number; // ms
+  startedAt: number;
+  attempt: number; // 0 for the first try, then the retry count
+  error?: string;
+}
+
+type NetworkLogListener = (entries: NetworkLogEntry[]) => void;
+
+let entries: NetworkLogEntry[] = [];
+let nextId = 1;
+const listeners = new Set<NetworkLogListener>();
+
+const notify = () => {
+  listeners.forEach((listener) => listener(entries));
+};
+
+export const networkLog = {
+  /**
+   * Record a finished request attempt (oldest entries are dropped)
+   */
+  record(entry: Omit<NetworkLogEntry, 'id'>) {
+    if (!__DEV__) {
+      return;
+    }
+    entries = [{ ...entry, id: nextId++ }, ...entries].slice(0, MAX_ENTRIES);
+    notify();
+  },
+
+  /**
+   * Recorded attempts, newest first
+   */
+  getEntries(): NetworkLogEntry[] {
+    return entries;
+  },
+
+  clear() {
+    entries = [];
+    notify();
+  },
+
+  /**
+   * Listen for new entries
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: NetworkLogListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
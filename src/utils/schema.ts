@@ -0,0 +1,210 @@
+/**
+ * Schema Utility
+ * Minimal declarative runtime validation for API responses
+ *
+ * Required fields fail loudly with a SchemaValidationError that carries the
+ * failing path (e.g. "data.planets[3].degree"). Optional fields degrade
+ * gracefully: an invalid value is logged and replaced with its fallback.
+ */
+
+import { ApiError, ErrorCode } from '../types/api.types';
+
+export interface SchemaValidationDetails {
+  path: string;
+  expected: string;
+  received: string;
+}
+
+/**
+ * Raised when a response does not match its schema
+ * Shaped like ApiError so it flows through handleApiError unchanged
+ */
+export class SchemaValidationError extends Error implements ApiError {
+  code: string = ErrorCode.INVALID_RESPONSE;
+  details: SchemaValidationDetails;
+
+  constructor(path: string, expected: string, received: string) {
+    super(`Invalid response at ${path}: expected ${expected}, received ${received}`);
+    this.name = 'SchemaValidationError';
+    this.details = { path, expected, received };
+  }
+}
+
+export interface Schema<T> {
+  expected: string;
+  parse: (value: unknown, path?: string) => T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<any>>;
+type InferShape<S extends Shape> = { [K in keyof S]: Infer<S[K]> };
+
+const ROOT_PATH = 'response';
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const fail = (path: string, expected: string, value: unknown): never => {
+  throw new SchemaValidationError(path, expected, describe(value));
+};
+
+const createSchema = <T>(
+  expected: string,
+  check: (value: unknown, path: string) => T
+): Schema<T> => ({
+  expected,
+  parse: (value, path = ROOT_PATH) => check(value, path),
+});
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Schema builders
+ */
+export const s = {
+  string: (): Schema<string> =>
+    createSchema('string', (value, path) =>
+      typeof value === 'string' ? value : fail(path, 'string', value)
+    ),
+
+  /**
+   * Number (numeric strings such as "4.5" are coerced)
+   */
+  number: (): Schema<number> =>
+    createSchema('number', (value, path) => {
+      if (typeof value === 'number' && !Number.isNaN(value)) return value;
+      if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+        return Number(value);
+      }
+      return fail(path, 'number', value);
+    }),
+
+  boolean: (): Schema<boolean> =>
+    createSchema('boolean', (value, path) =>
+      typeof value === 'boolean' ? value : fail(path, 'boolean', value)
+    ),
+
+  literal: <T extends string>(...values: T[]): Schema<T> => {
+    const expected = values.map((value) => `'${value}'`).join(' | ');
+    return createSchema(expected, (value, path) =>
+      values.includes(value as T) ? (value as T) : fail(path, expected, value)
+    );
+  },
+
+  any: (): Schema<any> => createSchema('any', (value) => value),
+
+  array: <T>(item: Schema<T>): Schema<T[]> =>
+    createSchema(`${item.expected}[]`, (value, path) => {
+      if (!Array.isArray(value)) return fail(path, 'array', value);
+      return value.map((entry, index) => item.parse(entry, `${path}[${index}]`));
+    }),
+
+  /**
+   * Object with known keys - unknown keys are passed through untouched
+   */
+  object: <S extends Shape>(shape: S): Schema<InferShape<S>> =>
+    createSchema('object', (value, path) => {
+      if (!isPlainObject(value)) return fail(path, 'object', value);
+
+      const parsed: Record<string, unknown> = { ...value };
+      Object.keys(shape).forEach((key) => {
+        parsed[key] = shape[key].parse(value[key], `${path}.${key}`);
+      });
+      return parsed as InferShape<S>;
+    }),
+
+  record: <T>(item: Schema<T>): Schema<Record<string, T>> =>
+    createSchema(`Record<string, ${item.expected}>`, (value, path) => {
+      if (!isPlainObject(value)) return fail(path, 'object', value);
+
+      const parsed: Record<string, T> = {};
+      Object.keys(value).forEach((key) => {
+        parsed[key] = item.parse(value[key], `${path}.${key}`);
+      });
+      return parsed;
+    }),
+
+  union: <T>(...schemas: Schema<T>[]): Schema<T> => {
+    const expected = schemas.map((schema) => schema.expected).join(' | ');
+    return createSchema(expected, (value, path) => {
+      for (const schema of schemas) {
+        try {
+          return schema.parse(value, path);
+        } catch (error) {
+          if (!(error instanceof SchemaValidationError)) throw error;
+        }
+      }
+      return fail(path, expected, value);
+    });
+  },
+
+  /**
+   * Nullable field - null/undefined become null, anything else must match
+   */
+  nullable: <T>(schema: Schema<T>): Schema<T | null> =>
+    createSchema(`${schema.expected} | null`, (value, path) =>
+      value === null || value === undefined ? null : schema.parse(value, path)
+    ),
+
+  /**
+   * Optional field - missing or invalid values fall back instead of throwing
+   */
+  optional: <T>(schema: Schema<T>): Schema<T | undefined> =>
+    createSchema(`${schema.expected} | undefined`, (value, path) => {
+      if (value === null || value === undefined) return undefined;
+      try {
+        return schema.parse(value, path);
+      } catch (error) {
+        if (!(error instanceof SchemaValidationError)) throw error;
+        console.warn(`[Schema] Dropping optional field: ${error.message}`);
+        return undefined;
+      }
+    }),
+
+  /**
+   * Field the UI relies on but can live without - falls back to a default
+   */
+  withDefault: <T>(schema: Schema<T>, fallback: T): Schema<T> =>
+    createSchema(schema.expected, (value, path) => {
+      if (value === null || value === undefined) return fallback;
+      try {
+        return schema.parse(value, path);
+      } catch (error) {
+        if (!(error instanceof SchemaValidationError)) throw error;
+        console.warn(`[Schema] Using default for field: ${error.message}`);
+        return fallback;
+      }
+    }),
+
+  /**
+   * Post-process a parsed value (e.g. to map renamed backend fields)
+   */
+  transform: <T, U>(schema: Schema<T>, fn: (value: T) => U): Schema<U> =>
+    createSchema(schema.expected, (value, path) => fn(schema.parse(value, path))),
+};
+
+/**
+ * Validate the response of a mutation the server has already carried out
+ * (e.g. starting or ending a billed session). Throwing here would lose the
+ * session the user is paying for, so a mismatch is logged and the raw
+ * response returned instead.
+ * @param schema - Response schema
+ * @param value - Raw response
+ * @returns T
+ */
+export const parseMutationResponse = <T>(schema: Schema<T>, value: unknown): T => {
+  try {
+    return schema.parse(value);
+  } catch (error) {
+    if (!(error instanceof SchemaValidationError)) {
+      throw error;
+    }
+    console.warn('[Schema] Keeping mismatched mutation response:', error.message);
+    return value as T;
+  }
+};